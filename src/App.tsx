@@ -4,6 +4,8 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { useAccess } from "@/hooks/use-access";
+import type { Permission } from "@/data/roles";
 
 // Pages
 import Landing from "./pages/Landing";
@@ -19,6 +21,9 @@ import Transactions from "./pages/Transactions";
 import MyTeam from "./pages/MyTeam";
 import AdminDashboard from "./pages/admin/Dashboard";
 import CryptoApproval from "./pages/admin/CryptoApproval";
+import AdminWithdrawals from "./pages/admin/Withdrawals";
+import AdminWebhooks from "./pages/admin/Webhooks";
+import AdminFx from "./pages/admin/Fx";
 import NotFound from "./pages/NotFound";
 import CryptoDeposit from "./pages/CryptoDeposit";
 
@@ -49,6 +54,33 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
   return <>{children}</>;
 };
 
+// Admin Route wrapper (requires a staff role, and the permission when given)
+const AdminRoute = ({ children, permission }: { children: React.ReactNode; permission?: Permission }) => {
+  const { user, loading: authLoading } = useAuth();
+  const { isStaff, can, loading } = useAccess();
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="flex items-center space-x-2">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-4 border-b-4 border-blue-500"></div>
+          <span>Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth/login" replace />;
+  }
+
+  if (!isStaff || (permission && !can(permission))) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <>{children}</>;
+};
+
 // Public Route wrapper (redirects authenticated users)
 const PublicRoute = ({ children }: { children: React.ReactNode }) => {
   const { user, loading } = useAuth();
@@ -85,8 +117,13 @@ const AppRoutes = () => (
     <Route path="/transactions" element={<ProtectedRoute><Transactions /></ProtectedRoute>} />
     <Route path="/my-team" element={<ProtectedRoute><MyTeam /></ProtectedRoute>} />
     <Route path="/crypto-deposit" element={<ProtectedRoute><CryptoDeposit /></ProtectedRoute>} />
-    <Route path="/admin/dashboard" element={<ProtectedRoute><AdminDashboard /></ProtectedRoute>} />
-    <Route path="/admin/crypto-approval" element={<ProtectedRoute><CryptoApproval /></ProtectedRoute>} />
+
+    {/* Admin routes */}
+    <Route path="/admin/dashboard" element={<AdminRoute><AdminDashboard /></AdminRoute>} />
+    <Route path="/admin/crypto-approval" element={<AdminRoute permission="deposits.approve"><CryptoApproval /></AdminRoute>} />
+    <Route path="/admin/withdrawals" element={<AdminRoute permission="withdrawals.approve"><AdminWithdrawals /></AdminRoute>} />
+    <Route path="/admin/webhooks" element={<AdminRoute permission="gateways.manage"><AdminWebhooks /></AdminRoute>} />
+    <Route path="/admin/fx" element={<AdminRoute permission="fx.manage"><AdminFx /></AdminRoute>} />
     
     {/* Catch-all route */}
     <Route path="*" element={<NotFound />} />
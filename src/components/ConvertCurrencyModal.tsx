@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRightLeft, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { convertCurrency, formatMoney } from '@/data/wallet';
+import { estimateConversion, type FxQuote } from '@/data/fx';
+import type { CurrencyInfo } from '@/data/countries';
+
+interface ConvertCurrencyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Available amount per currency, in minor units; USD included
+  balances: Record<string, number>;
+  // Currencies the user can hold: USD and every currency with a live quote
+  currencies: CurrencyInfo[];
+  quotes: FxQuote[];
+  onSuccess: () => void;
+}
+
+const ConvertCurrencyModal: React.FC<ConvertCurrencyModalProps> = ({
+  isOpen,
+  onClose,
+  balances,
+  currencies,
+  quotes,
+  onSuccess
+}) => {
+  const [fromCurrency, setFromCurrency] = useState('USD');
+  const [toCurrency, setToCurrency] = useState('');
+  const [amount, setAmount] = useState('');
+  const [converting, setConverting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setAmount('');
+    setFromCurrency('USD');
+    setToCurrency(currencies.find((currency) => currency.code !== 'USD')?.code ?? '');
+  }, [isOpen, currencies]);
+
+  const from = currencies.find((currency) => currency.code === fromCurrency);
+  const to = currencies.find((currency) => currency.code === toCurrency);
+  const available = balances[fromCurrency] ?? 0;
+  const amountCents = from ? Math.round((parseFloat(amount) || 0) * 10 ** from.minorUnits) : 0;
+  const estimate = from && to && amountCents > 0
+    ? estimateConversion(
+        amountCents,
+        { currency: from.code, minorUnits: from.minorUnits },
+        { currency: to.code, minorUnits: to.minorUnits },
+        quotes
+      )
+    : null;
+
+  const handleFromChange = (value: string) => {
+    setFromCurrency(value);
+    setAmount('');
+    if (value === toCurrency) {
+      setToCurrency(currencies.find((currency) => currency.code !== value)?.code ?? '');
+    }
+  };
+
+  const handleConvert = async () => {
+    if (!from || !to) return;
+
+    if (amountCents <= 0) {
+      toast.error('Please enter an amount to convert');
+      return;
+    }
+    if (amountCents > available) {
+      toast.error('Insufficient balance');
+      return;
+    }
+
+    setConverting(true);
+    try {
+      const conversion = await convertCurrency({ fromCurrency, toCurrency, amountCents });
+      toast.success(
+        `Converted ${formatMoney(conversion.amount_cents, conversion.from_currency, from)} to ${formatMoney(conversion.converted_cents, conversion.to_currency, to)}`
+      );
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error converting currency:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to convert');
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Convert Currency</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>From</Label>
+              <Select value={fromCurrency} onValueChange={handleFromChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencies.map((currency) => (
+                    <SelectItem key={currency.code} value={currency.code}>{currency.code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>To</Label>
+              <Select value={toCurrency} onValueChange={setToCurrency}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Currency" />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencies.filter((currency) => currency.code !== fromCurrency).map((currency) => (
+                    <SelectItem key={currency.code} value={currency.code}>{currency.code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label>Available Balance</Label>
+            <div className="font-semibold text-success text-lg">
+              {formatMoney(available, fromCurrency, from)}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="convert-amount">Amount ({fromCurrency})</Label>
+            <Input
+              id="convert-amount"
+              type="number"
+              step={from ? 1 / 10 ** from.minorUnits : 0.01}
+              min={0}
+              max={from ? available / 10 ** from.minorUnits : undefined}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Enter amount"
+            />
+          </div>
+
+          {amountCents > 0 && to && (
+            <div className="bg-muted/50 rounded-lg p-4 text-sm">
+              {estimate === null ? (
+                <span className="text-destructive">No exchange rate is available for this conversion right now.</span>
+              ) : (
+                <>
+                  <div className="flex justify-between items-center">
+                    <span>You receive about:</span>
+                    <span className="font-bold text-success">{formatMoney(estimate, toCurrency, to)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    The final amount uses the rate at the moment you convert.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConvert}
+              disabled={converting || !to || amountCents <= 0 || amountCents > available || estimate === null}
+              className="flex-1"
+            >
+              {converting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <ArrowRightLeft className="h-4 w-4 mr-2" />
+              )}
+              Convert
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConvertCurrencyModal;
@@ -0,0 +1,70 @@
+import { Copy } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { CryptoPayInfo } from '@/data/deposits';
+
+const NETWORK_LABELS: Record<string, string> = {
+  BEP20: 'BNB Chain (BEP20)',
+  TRC20: 'Tron (TRC20)',
+  ERC20: 'Ethereum (ERC20)',
+};
+
+interface CryptoPaymentDetailsProps {
+  payInfo: CryptoPayInfo;
+}
+
+// QR code, address and exact amount for the address assigned to a deposit
+const CryptoPaymentDetails = ({ payInfo }: CryptoPaymentDetailsProps) => {
+  const networkLabel = NETWORK_LABELS[payInfo.network] || payInfo.network;
+
+  const copy = (value: string, label: string) => {
+    navigator.clipboard.writeText(value);
+    toast.success(`${label} copied to clipboard!`);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* QR Code */}
+      <div className="text-center">
+        <div className="inline-block p-3 bg-white rounded-lg">
+          <QRCodeSVG value={payInfo.address} size={176} />
+        </div>
+      </div>
+
+      {/* Address */}
+      <div>
+        <Label>USDT ({payInfo.network}) Address</Label>
+        <div className="flex items-center space-x-2 mt-1">
+          <Input value={payInfo.address} readOnly className="font-mono text-sm" />
+          <Button size="icon" variant="outline" onClick={() => copy(payInfo.address, 'Address')}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          ⚠️ Only send USDT on {networkLabel} network
+        </p>
+      </div>
+
+      {/* Amount */}
+      <div>
+        <Label>Amount to send (USDT)</Label>
+        <div className="flex items-center space-x-2 mt-1">
+          <Input value={payInfo.amount} readOnly className="font-mono text-sm" />
+          <Button size="icon" variant="outline" onClick={() => copy(payInfo.amount, 'Amount')}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        {payInfo.amountTagCents > 0 && (
+          <p className="text-xs text-muted-foreground mt-1">
+            Send this exact amount: the extra {payInfo.amountTagCents}¢ identifies your deposit
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CryptoPaymentDetails;
@@ -1,20 +1,15 @@
-// src/components/PaymentModalFake.tsx
 import { useState } from 'react';
 import { CreditCard, Smartphone, ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from 'sonner';
-import { useAuth } from '@/contexts/AuthContext';
-import { addDoc, collection, serverTimestamp } from 'firebase/firestore';
 import { useNavigate } from 'react-router-dom';
-import { db } from '@/integrations/firebase'; // <--- Make sure db is imported
-import usdtQrCode from '@/assets/usdt-qr-code.png';
+import { Elements, CardElement, useStripe, useElements } from '@stripe/react-stripe-js';
+import { getStripe, formatAmount } from '@/integrations/stripe/payment';
+import { initiateDeposit, DepositInitiation } from '@/data/deposits';
 
 interface Plan {
   id: string;
@@ -31,167 +26,93 @@ interface PaymentModalProps {
   plan: Plan;
 }
 
-// Helpers
-const formatCardNumber = (value: string) => {
-  const digits = value.replace(/\D/g, '').slice(0, 16);
-  return digits.replace(/(.{4})/g, '$1 ').trim();
+const CARD_OPTIONS = {
+  style: {
+    base: {
+      fontSize: '16px',
+      color: '#424770',
+      '::placeholder': {
+        color: '#aab7c4',
+      },
+    },
+    invalid: {
+      color: '#9e2146',
+    },
+  },
 };
 
-const formatExpiry = (value: string) => {
-  const digits = value.replace(/\D/g, '').slice(0, 4);
-  if (digits.length <= 2) return digits;
-  return `${digits.slice(0, 2)}/${digits.slice(2, 4)}`;
-};
-
-const PaymentModalFake = ({ isOpen, onClose, plan }: PaymentModalProps) => {
-  const { user } = useAuth();
-  const navigate = useNavigate();
-
-  const [paymentMethod, setPaymentMethod] = useState<'fakeStripe' | 'crypto'>('fakeStripe');
-  const [loading, setLoading] = useState(false);
-
-  const [cardForm, setCardForm] = useState({
-    cardNumber: '',
-    expiry: '',
-    cvc: '',
-    cardholder: '',
-    confirmTerms: false
-  });
-
-  const [cryptoForm, setCryptoForm] = useState({
-    currency: 'USDT',
-    amountCrypto: '',
-    txHash: '',
-    proofFile: null as File | null,
-    note: '',
-    confirmTerms: false
-  });
-
-  const formatUSD = (usd: number) => `$${usd.toFixed(2)}`;
-
-  // Fake Stripe Payment
-  const handleFakeStripePayment = async () => {
-    if (!user?.email) return;
-
-    const cardNumberDigits = cardForm.cardNumber.replace(/\s/g, '');
-    const expiryValid = /^\d{2}\/\d{2}$/.test(cardForm.expiry);
-    const cvcValid = /^\d{3}$/.test(cardForm.cvc); // <-- Only 3 digits now
-
-    if (
-      cardNumberDigits.length !== 16 ||
-      !expiryValid ||
-      !cvcValid ||
-      !cardForm.cardholder ||
-      !cardForm.confirmTerms
-    ) {
-      return toast.error('Invalid card details or terms not confirmed');
-    }
-
-    setLoading(true);
+// Card details go straight from the Stripe element to Stripe; the deposit is
+// confirmed by stripe-webhook once the payment succeeds
+const CardCheckoutForm = ({ plan, onPaid }: { plan: Plan; onPaid: () => void }) => {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [initiation, setInitiation] = useState<DepositInitiation | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const card = elements?.getElement(CardElement);
+    if (!stripe || !card) return;
+
+    setProcessing(true);
+    setError(null);
     try {
-      await new Promise(res => setTimeout(res, 1000));
+      // Reuse the deposit after a declined card so a retry doesn't open another one
+      const deposit = initiation ?? await initiateDeposit({ planId: plan.id, currency: 'USD', provider: 'stripe' });
+      setInitiation(deposit);
 
-      // Save transaction
-      const txRef = await addDoc(collection(db, 'transactions'), {
-        userEmail: user.email,
-        planId: plan.id,
-        amount_usd: plan.deposit_usd,
-        type: 'deposit',
-        method: 'Stripe',
-        status: 'success',
-        card: {
-          last4: cardNumberDigits.slice(-4),
-          expiry: cardForm.expiry
-        },
-        createdAt: serverTimestamp()
-      });
+      const clientSecret = deposit.payInfo.clientSecret;
+      if (typeof clientSecret !== 'string') {
+        throw new Error('Card payments are not available right now');
+      }
 
-      // Save investment
-      await addDoc(collection(db, 'investments'), {
-        userEmail: user.email,
-        planId: plan.id,
-        transactionId: txRef.id,
-        deposit_usd: plan.deposit_usd,
-        payout_per_drop_usd: plan.payout_per_drop_usd,
-        drops_count: plan.drops_count,
-        total_return_usd: plan.total_return_usd,
-        status: 'active',
-        createdAt: serverTimestamp()
+      const { error: stripeError, paymentIntent } = await stripe.confirmCardPayment(clientSecret, {
+        payment_method: { card },
       });
 
-      toast.success('Payment submitted and investment created!');
-      onClose();
-      setCardForm({ cardNumber: '', expiry: '', cvc: '', cardholder: '', confirmTerms: false });
-      navigate('/transactions');
-    } catch (err) {
-      console.error(err);
-      toast.error('Payment failed');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  // Crypto Submit
-  const handleCryptoSubmit = async () => {
-    if (!cryptoForm.txHash || !cryptoForm.proofFile || !cryptoForm.confirmTerms) {
-      toast.error('Fill all required fields and confirm terms');
-      return;
-    }
-
-    setLoading(true);
-    try {
-      const reader = new FileReader();
-      reader.onload = async () => {
-        const base64Data = reader.result?.toString().split(',')[1];
-
-        const txRef = await addDoc(collection(db, 'transactions'), {
-          userEmail: user?.email || 'anonymous',
-          planId: plan.id,
-          amountCrypto: cryptoForm.amountCrypto || null,
-          currency: cryptoForm.currency,
-          txHash: cryptoForm.txHash,
-          proofFile: { data: base64Data, name: cryptoForm.proofFile?.name, type: cryptoForm.proofFile?.type },
-          note: cryptoForm.note,
-          type: 'deposit',
-          method: 'crypto',
-          status: 'success',
-          createdAt: serverTimestamp()
-        });
-
-        await addDoc(collection(db, 'investments'), {
-          userEmail: user?.email || 'anonymous',
-          planId: plan.id,
-          transactionId: txRef.id,
-          deposit_usd: plan.deposit_usd,
-          payout_per_drop_usd: plan.payout_per_drop_usd,
-          drops_count: plan.drops_count,
-          total_return_usd: plan.total_return_usd,
-          status: 'active',
-          createdAt: serverTimestamp()
-        });
+      if (stripeError) {
+        setError(stripeError.message || 'Payment failed');
+        return;
+      }
 
-        toast.success('Crypto deposit submitted and investment created!');
-        onClose();
-        setCryptoForm({ currency: 'USDT', amountCrypto: '', txHash: '', proofFile: null, note: '', confirmTerms: false });
-        navigate('/transactions');
-      };
-      reader.readAsDataURL(cryptoForm.proofFile!);
+      if (paymentIntent?.status === 'succeeded') {
+        onPaid();
+      }
     } catch (err) {
-      console.error(err);
-      toast.error('Failed to submit crypto deposit');
+      console.error('Card payment error:', err);
+      setError(err instanceof Error ? err.message : 'Payment failed');
     } finally {
-      setLoading(false);
+      setProcessing(false);
     }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label>Card Details</Label>
+        <div className="p-3 border rounded-md">
+          <CardElement options={CARD_OPTIONS} />
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-destructive">{error}</div>}
+
+      <Button type="submit" className="w-full" disabled={!stripe || processing}>
+        {processing ? 'Processing...' : `Pay ${formatAmount(plan.deposit_usd)}`}
+      </Button>
+    </form>
+  );
+};
 
-    if (file.size > 5 * 1024 * 1024) return toast.error('File size must be <5MB');
-    if (!file.type.startsWith('image/')) return toast.error('Only image files allowed');
+const PaymentModal = ({ isOpen, onClose, plan }: PaymentModalProps) => {
+  const navigate = useNavigate();
+  const [paymentMethod, setPaymentMethod] = useState<'card' | 'crypto'>('card');
 
-    setCryptoForm(prev => ({ ...prev, proofFile: file }));
+  const handlePaid = () => {
+    toast.success('Payment received! Your plan starts as soon as it is confirmed.');
+    onClose();
+    navigate('/transactions');
   };
 
   return (
@@ -211,13 +132,13 @@ const PaymentModalFake = ({ isOpen, onClose, plan }: PaymentModalProps) => {
           <CardHeader><CardTitle className="text-sm">Investment Summary</CardTitle></CardHeader>
           <CardContent className="grid grid-cols-2 gap-2 text-sm">
             <div>Plan: <p className="font-medium">{plan.name}</p></div>
-            <div>Amount: <p className="font-medium">{formatUSD(plan.deposit_usd)}</p></div>
+            <div>Amount: <p className="font-medium">{formatAmount(plan.deposit_usd)}</p></div>
           </CardContent>
         </Card>
 
-        <Tabs value={paymentMethod} onValueChange={val => setPaymentMethod(val as any)}>
+        <Tabs value={paymentMethod} onValueChange={val => setPaymentMethod(val as 'card' | 'crypto')}>
           <TabsList className="grid grid-cols-2 mb-4">
-            <TabsTrigger value="fakeStripe" className="flex items-center gap-2">
+            <TabsTrigger value="card" className="flex items-center gap-2">
               <CreditCard className="h-4 w-4" /> Card
             </TabsTrigger>
             <TabsTrigger value="crypto" className="flex items-center gap-2">
@@ -226,77 +147,20 @@ const PaymentModalFake = ({ isOpen, onClose, plan }: PaymentModalProps) => {
           </TabsList>
 
           {/* Card Payment */}
-          <TabsContent value="fakeStripe" className="space-y-2">
-            <Input
-              placeholder="Card Number"
-              value={cardForm.cardNumber}
-              onChange={e => setCardForm(prev => ({ ...prev, cardNumber: formatCardNumber(e.target.value) }))}
-            />
-            <Input
-              placeholder="Expiry MM/YY"
-              value={cardForm.expiry}
-              onChange={e => setCardForm(prev => ({ ...prev, expiry: formatExpiry(e.target.value) }))}
-            />
-            <Input
-              placeholder="CVC"
-              type="number"
-              value={cardForm.cvc}
-              onChange={e => setCardForm(prev => ({ ...prev, cvc: e.target.value.slice(0, 3) }))}
-            />
-            <Input
-              placeholder="Cardholder Name"
-              value={cardForm.cardholder}
-              onChange={e => setCardForm(prev => ({ ...prev, cardholder: e.target.value }))}
-            />
-            <Checkbox
-              id="confirmTerms"
-              checked={cardForm.confirmTerms}
-              onCheckedChange={c => setCardForm(prev => ({ ...prev, confirmTerms: c as boolean }))}
-            />
-            <Label htmlFor="confirmTerms" className="text-sm">I confirm this is my payment</Label>
-            <Button className="w-full mt-2" onClick={handleFakeStripePayment} disabled={loading}>
-              {loading ? 'Processing...' : 'Pay'}
-            </Button>
+          <TabsContent value="card">
+            <Elements stripe={getStripe()}>
+              <CardCheckoutForm plan={plan} onPaid={handlePaid} />
+            </Elements>
           </TabsContent>
 
           {/* Crypto Payment */}
-          <TabsContent value="crypto" className="space-y-2">
-            <div className="text-center">
-              <img src={usdtQrCode} className="mx-auto w-32 h-32 border rounded-lg" />
-              <p className="text-xs text-muted-foreground mt-2">Scan QR or copy address: TPy...ghPDn</p>
-            </div>
-            <Select value={cryptoForm.currency} onValueChange={v => setCryptoForm(prev => ({ ...prev, currency: v }))}>
-              <SelectTrigger><SelectValue /></SelectTrigger>
-              <SelectContent>
-                <SelectItem value="USDT">USDT</SelectItem>
-                <SelectItem value="BTC">BTC</SelectItem>
-                <SelectItem value="ETH">ETH</SelectItem>
-              </SelectContent>
-            </Select>
-            <Input
-              type="number"
-              placeholder="Amount in Crypto (Optional)"
-              value={cryptoForm.amountCrypto}
-              onChange={e => setCryptoForm(prev => ({ ...prev, amountCrypto: e.target.value }))}
-            />
-            <Input
-              placeholder="Transaction Hash *"
-              value={cryptoForm.txHash}
-              onChange={e => setCryptoForm(prev => ({ ...prev, txHash: e.target.value }))}
-            />
-            <Input type="file" accept="image/*" onChange={handleFileChange} />
-            <Checkbox
-              id="confirmCrypto"
-              checked={cryptoForm.confirmTerms}
-              onCheckedChange={c => setCryptoForm(prev => ({ ...prev, confirmTerms: c as boolean }))}
-            />
-            <Label htmlFor="confirmCrypto" className="text-sm">I confirm this is my transaction</Label>
-            <Button
-              className="w-full mt-2"
-              onClick={handleCryptoSubmit}
-              disabled={loading || !cryptoForm.txHash || !cryptoForm.proofFile || !cryptoForm.confirmTerms}
-            >
-              {loading ? 'Processing...' : 'Submit & Get 5% Bonus'}
+          <TabsContent value="crypto" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Send USDT to the address generated for your deposit and submit the transaction
+              hash. Your deposit is credited once the transfer is verified on chain.
+            </p>
+            <Button className="w-full" onClick={() => navigate('/crypto-deposit')}>
+              Continue to Crypto Deposit
             </Button>
           </TabsContent>
         </Tabs>
@@ -305,4 +169,4 @@ const PaymentModalFake = ({ isOpen, onClose, plan }: PaymentModalProps) => {
   );
 };
 
-export default PaymentModalFake;
+export default PaymentModal;
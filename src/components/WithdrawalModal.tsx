@@ -6,161 +6,239 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { AlertTriangle, DollarSign, Percent } from 'lucide-react';
+import { AlertTriangle, DollarSign, Percent, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
+import {
+  listFeeSchedules,
+  quoteWithdrawal,
+  createWithdrawal,
+  WithdrawalRequestError,
+  PAYOUT_DETAILS_LABELS,
+  type FeeSchedule,
+  type WithdrawalMethod,
+  type WithdrawalQuote,
+} from '@/data/withdrawals';
+import { listCountries, listCurrencies, MOBILE_MONEY_OPERATOR_LABELS, type Country, type CurrencyInfo } from '@/data/countries';
+import { formatMoney } from '@/data/wallet';
+import { getProfile } from '@/data/profile';
 
 interface WithdrawalModalProps {
   isOpen: boolean;
   onClose: () => void;
-  availableBalance: number;
+  // Available amount per currency, in minor units; USD included. A withdrawal
+  // is taken from the balance in the currency it pays out in, or converted
+  // from USD when that balance does not cover it.
+  balances: Record<string, number>;
   onSuccess: () => void;
 }
 
-interface UsdtRate {
+const CURRENCY_LABELS: Record<string, string> = {
+  USD: 'USD',
+  NGN: 'Naira',
+};
+
+interface WithdrawalOption {
+  method: WithdrawalMethod;
   currency: string;
-  rate: number;
+  label: string;
 }
 
+// Errors raised by the payout_methods mobile money check, as shown to the user
+const MOBILE_MONEY_ERRORS: Record<string, string> = {
+  invalid_msisdn: 'Please enter a valid mobile number for your country',
+  operator_not_supported: 'This operator is not available in your country',
+  mobile_money_not_available: 'Mobile money withdrawals are not available in your country',
+};
+
+// What the user's country pays out through; users outside the catalogue keep
+// the original USDT and Naira bank choices
+const withdrawalOptions = (country: Country | null): WithdrawalOption[] => {
+  if (!country) {
+    return [
+      { method: 'usdt', currency: 'USD', label: 'USD (USDT)' },
+      { method: 'bank', currency: 'NGN', label: 'Naira (bank transfer)' },
+    ];
+  }
+
+  const options: WithdrawalOption[] = [];
+  if (country.withdrawal_methods.includes('usdt')) {
+    options.push({ method: 'usdt', currency: 'USD', label: 'USD (USDT)' });
+  }
+  if (country.withdrawal_methods.includes('bank')) {
+    const name = CURRENCY_LABELS[country.currency] || country.currency;
+    options.push({ method: 'bank', currency: country.currency, label: `${name} (bank transfer)` });
+  }
+  if (country.withdrawal_methods.includes('mobile_money')) {
+    const operators = country.mobile_money_operators.map((operator) => MOBILE_MONEY_OPERATOR_LABELS[operator] || operator);
+    options.push({ method: 'mobile_money', currency: country.currency, label: `${country.currency} (${operators.join(' / ') || 'mobile money'})` });
+  }
+  return options;
+};
+
+const describeFee = (schedule: FeeSchedule) =>
+  [
+    Number(schedule.fee_percent) > 0 ? `${Number(schedule.fee_percent)}%` : null,
+    schedule.fee_flat_cents > 0 ? `$${(schedule.fee_flat_cents / 100).toFixed(2)}` : null,
+  ].filter(Boolean).join(' + ') || 'no';
+
 const WithdrawalModal: React.FC<WithdrawalModalProps> = ({
   isOpen,
   onClose,
-  availableBalance,
+  balances,
   onSuccess
 }) => {
-  const { user } = useAuth();
+  const { supabaseUser: user } = useAuth();
   const [amount, setAmount] = useState('');
-  const [currency, setCurrency] = useState('USD');
+  const [method, setMethod] = useState<WithdrawalMethod>('usdt');
+  const [country, setCountry] = useState<Country | null>(null);
+  const [currencies, setCurrencies] = useState<Record<string, CurrencyInfo>>({});
   const [loading, setLoading] = useState(false);
-  const [usdtRate, setUsdtRate] = useState<UsdtRate | null>(null);
+  const [feeSchedules, setFeeSchedules] = useState<FeeSchedule[]>([]);
+  const [quote, setQuote] = useState<WithdrawalQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [quoting, setQuoting] = useState(false);
+  // Bumped to fetch a fresh quote for the same amount once the current one expires
+  const [quoteRefresh, setQuoteRefresh] = useState(0);
+  const [now, setNow] = useState(Date.now());
   // Payout method state
   const [bankDetails, setBankDetails] = useState({ bank_name: '', account_name: '', account_number: '' });
   const [usdtDetails, setUsdtDetails] = useState({ network: 'BEP20', wallet_address: '' });
+  const [mobileMoneyDetails, setMobileMoneyDetails] = useState({ operator: '', msisdn: '' });
   const [hasPayout, setHasPayout] = useState(false);
 
+  const options = withdrawalOptions(country);
+  const selected = options.find((option) => option.method === method) ?? options[0];
+  const currency = selected.currency;
+  const availableBalance = balances[currency] ?? 0;
+  const usdBalance = balances.USD ?? 0;
+  const operators = country?.mobile_money_operators ?? [];
+
+useEffect(() => {
+  if (!isOpen || !user) return;
+  Promise.all([getProfile(user.id), listCountries(), listCurrencies()])
+    .then(([profile, countries, currencyInfo]) => {
+      setCountry(countries.find((entry) => entry.code === profile?.country) ?? null);
+      setCurrencies(currencyInfo);
+    })
+    .catch((error) => console.error('Error loading country:', error));
+}, [isOpen, user]);
+
 useEffect(() => {
   if (isOpen) {
-    loadUsdtRate();
     loadPayoutMethod();
   }
-}, [isOpen, currency]);
+}, [isOpen, selected.method]);
 
-const loadUsdtRate = async () => {
-  try {
-    const { data, error } = await supabase
-      .from('usdt_rates')
-      .select('currency, rate')
-      .eq('currency', 'NGN')
-      .single();
-
-    if (error) throw error;
-    setUsdtRate(data);
-  } catch (error) {
-    console.error('Error loading USDT rate:', error);
+useEffect(() => {
+  if (!isOpen) return;
+  listFeeSchedules()
+    .then(setFeeSchedules)
+    .catch((error) => console.error('Error loading fee schedules:', error));
+}, [isOpen]);
+
+// Fees and FX are locked server-side; re-quote shortly after the user stops typing
+useEffect(() => {
+  const amountCents = Math.round((parseFloat(amount) || 0) * 100);
+  setQuote(null);
+  setQuoteError(null);
+  if (!isOpen || amountCents <= 0) return;
+
+  let cancelled = false;
+  const timer = setTimeout(async () => {
+    setQuoting(true);
+    try {
+      const result = await quoteWithdrawal(amountCents, currency, selected.method);
+      if (!cancelled) setQuote(result);
+    } catch (error) {
+      if (!cancelled) setQuoteError(error instanceof Error ? error.message : 'Could not price this withdrawal');
+    } finally {
+      if (!cancelled) setQuoting(false);
+    }
+  }, 400);
+
+  return () => {
+    cancelled = true;
+    clearTimeout(timer);
+  };
+}, [isOpen, amount, currency, selected.method, quoteRefresh]);
+
+// Tick the countdown while a quote is shown
+useEffect(() => {
+  if (!quote) return;
+  setNow(Date.now());
+  const interval = setInterval(() => setNow(Date.now()), 1000);
+  return () => clearInterval(interval);
+}, [quote]);
+
+const secondsLeft = quote
+  ? Math.max(0, Math.ceil((new Date(quote.expires_at).getTime() - now) / 1000))
+  : 0;
+
+useEffect(() => {
+  if (quote && secondsLeft === 0 && !loading) {
+    setQuoteRefresh((n) => n + 1);
   }
-};
+}, [quote, secondsLeft, loading]);
 
 const loadPayoutMethod = async () => {
   if (!user) return;
-  const type = currency === 'USD' ? 'usdt' : 'bank';
+  const type = selected.method;
   try {
     const { data } = await supabase
-      .from('payout_methods' as any)
+      .from('payout_methods')
       .select('*')
       .eq('user_id', user.id)
       .eq('type', type)
       .maybeSingle();
     setHasPayout(!!data);
     if (data) {
-      if (type === 'bank') setBankDetails({ bank_name: (data as any).bank_name || '', account_name: (data as any).account_name || '', account_number: (data as any).account_number || '' });
-      else setUsdtDetails({ network: (data as any).usdt_network || 'BEP20', wallet_address: (data as any).wallet_address || '' });
+      if (type === 'bank') setBankDetails({ bank_name: data.bank_name || '', account_name: data.account_name || '', account_number: data.account_number || '' });
+      else if (type === 'mobile_money') setMobileMoneyDetails({ operator: data.operator || '', msisdn: data.msisdn || '' });
+      else setUsdtDetails({ network: data.usdt_network || 'BEP20', wallet_address: data.wallet_address || '' });
     }
   } catch (error) {
     console.log('Error loading payout method:', error);
   }
 };
 
-  const calculateFee = (amountUSD: number, withdrawalCurrency: string): number => {
-    if (withdrawalCurrency === 'USD') {
-      return amountUSD * 0.08; // 8% fee for USD
-    } else {
-      return amountUSD * 0.15; // 15% fee for Naira
-    }
-  };
-
-  const calculateNetAmount = (amountUSD: number, withdrawalCurrency: string): number => {
-    const fee = calculateFee(amountUSD, withdrawalCurrency);
-    return amountUSD - fee;
-  };
-
   const formatUSD = (cents: number): string => {
     return `$${(cents / 100).toFixed(2)}`;
   };
 
-const handleWithdraw = async () => {
-  if (!user || !amount) return;
-
-  const amountUSD = parseFloat(amount);
-  const minWithdrawal = 2; // $2 minimum
+  const formatBalance = (amountCents: number) => formatMoney(amountCents, currency, currencies[currency]);
 
-  if (amountUSD < minWithdrawal) {
-    toast.error(`Minimum withdrawal is $${minWithdrawal}`);
-    return;
-  }
+const handleWithdraw = async () => {
+  if (!user || !quote) return;
 
-  const maxWithdrawal = availableBalance / 100;
-  if (amountUSD > maxWithdrawal) {
-    toast.error(`Insufficient balance. Available: ${formatUSD(availableBalance)}`);
+  const debitBalance = balances[quote.debit_currency] ?? 0;
+  if ((quote.debit_cents ?? quote.amount_cents) > debitBalance) {
+    toast.error(`Insufficient balance. Available: ${formatMoney(debitBalance, quote.debit_currency, currencies[quote.debit_currency])}`);
     return;
   }
 
   // Ensure payout details exist
-  const type = currency === 'USD' ? 'usdt' : 'bank';
   if (!hasPayout) {
-    toast.error(`Please add your ${type === 'bank' ? 'bank details' : 'USDT wallet'} before withdrawing`);
+    toast.error(`Please add your ${PAYOUT_DETAILS_LABELS[quote.method]} before withdrawing`);
     return;
   }
 
   setLoading(true);
 
   try {
-    const amountCents = Math.round(amountUSD * 100);
-    const feeCents = Math.round(calculateFee(amountUSD, currency) * 100);
-
-    // Reserve the withdrawal amount using the database function
-    const { error: reserveError } = await supabase.rpc('reserve_withdrawal', {
-      p_user_id: user.id,
-      p_amount: amountCents,
-      p_fee: feeCents
-    });
-
-    if (reserveError) {
-      if (reserveError.message === 'insufficient_funds') {
-        toast.error('Insufficient funds for this withdrawal');
-      } else {
-        throw reserveError;
-      }
-      return;
-    }
-
-    // Create withdrawal record
-    const { error: withdrawalError } = await supabase
-      .from('withdrawals')
-      .insert({
-        user_id: user.id,
-        amount_cents: amountCents,
-        fee_cents: feeCents,
-        net_cents: amountCents - feeCents,
-        status: 'queued',
-        local_currency: currency
-      });
-
-    if (withdrawalError) throw withdrawalError;
+    await createWithdrawal(quote.id);
 
     toast.success('Withdrawal request submitted successfully!');
     onSuccess();
     onClose();
     setAmount('');
   } catch (error) {
+    if (error instanceof WithdrawalRequestError) {
+      toast.error(error.message);
+      if (error.code === 'quote_expired' || error.code === 'quote_already_used') {
+        setQuoteRefresh((n) => n + 1);
+      }
+      return;
+    }
     console.error('Error processing withdrawal:', error);
     toast.error('Failed to process withdrawal request');
   } finally {
@@ -169,9 +247,8 @@ const handleWithdraw = async () => {
 };
 
   const amountUSD = parseFloat(amount) || 0;
-  const fee = calculateFee(amountUSD, currency);
-  const netAmount = calculateNetAmount(amountUSD, currency);
-  const feePercentage = currency === 'USD' ? 8 : 15;
+  const currencySchedules = feeSchedules.filter((schedule) => schedule.currency === currency && schedule.method === selected.method);
+  const minWithdrawalCents = currencySchedules[0]?.min_amount_cents ?? 0;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -188,10 +265,19 @@ const handleWithdraw = async () => {
                 <p className="font-medium mb-2">Withdrawal Information:</p>
                 <ul className="space-y-1 text-muted-foreground">
                   <li>• Withdrawal time: 10am - 6pm daily</li>
-                  <li>• Minimum withdrawal: $2</li>
+                  {minWithdrawalCents > 0 && (
+                    <li>• Minimum withdrawal: {formatUSD(minWithdrawalCents)}</li>
+                  )}
                   <li>• Processing time: Up to 24 hours</li>
-                  <li>• USD withdrawals: 8% fee</li>
-                  <li>• Naira withdrawals: 15% fee</li>
+                  {currencySchedules.map((schedule) => (
+                    <li key={schedule.id}>
+                      • {CURRENCY_LABELS[schedule.currency] || schedule.currency} withdrawals
+                      {schedule.max_amount_cents !== null || schedule.min_amount_cents > minWithdrawalCents
+                        ? ` (${formatUSD(schedule.min_amount_cents)}${schedule.max_amount_cents !== null ? `–${formatUSD(schedule.max_amount_cents)}` : '+'})`
+                        : ''}
+                      : {describeFee(schedule)} fee
+                    </li>
+                  ))}
                 </ul>
               </div>
             </div>
@@ -200,19 +286,25 @@ const handleWithdraw = async () => {
           <div>
             <Label htmlFor="available">Available Balance</Label>
             <div className="font-semibold text-success text-lg">
-              {formatUSD(availableBalance)}
+              {formatBalance(availableBalance)}
             </div>
+            {currency !== 'USD' && (
+              <div className="text-xs text-muted-foreground">
+                Plus {formatUSD(usdBalance)} in USD, converted at the quoted rate when your {currency} balance does not cover a withdrawal
+              </div>
+            )}
           </div>
 
           <div>
             <Label htmlFor="currency">Withdrawal Currency</Label>
-            <Select value={currency} onValueChange={setCurrency}>
+            <Select value={selected.method} onValueChange={(value) => setMethod(value as WithdrawalMethod)}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="USD">USD (8% fee)</SelectItem>
-                <SelectItem value="NGN">Naira (15% fee)</SelectItem>
+                {options.map((option) => (
+                  <SelectItem key={option.method} value={option.method}>{option.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -225,8 +317,8 @@ const handleWithdraw = async () => {
                 id="amount"
                 type="number"
                 step="0.01"
-                min="2"
-                max={availableBalance / 100}
+                min={minWithdrawalCents / 100 || undefined}
+                max={currency === 'USD' ? availableBalance / 100 : undefined}
                 value={amount}
                 onChange={(e) => setAmount(e.target.value)}
                 className="pl-10"
@@ -237,34 +329,55 @@ const handleWithdraw = async () => {
 
           {amountUSD > 0 && (
             <div className="bg-muted/50 rounded-lg p-4 space-y-2">
-              <div className="flex justify-between items-center">
-                <span className="text-sm">Withdrawal Amount:</span>
-                <span className="font-medium">${amountUSD.toFixed(2)}</span>
-              </div>
-              <div className="flex justify-between items-center">
-                <span className="text-sm flex items-center">
-                  <Percent className="h-3 w-3 mr-1" />
-                  Fee ({feePercentage}%):
-                </span>
-                <span className="font-medium text-destructive">-${fee.toFixed(2)}</span>
-              </div>
-              <div className="border-t pt-2">
-                <div className="flex justify-between items-center">
-                  <span className="font-semibold">Net Amount:</span>
-                  <span className="font-bold text-success">${netAmount.toFixed(2)}</span>
+              {quoting && !quote ? (
+                <div className="flex items-center justify-center text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Calculating fees...
                 </div>
-                {currency === 'NGN' && usdtRate && (
-                  <div className="text-xs text-muted-foreground mt-1">
-                    ≈ ₦{(netAmount * usdtRate.rate).toLocaleString('en-NG')} (Rate: ₦{usdtRate.rate}/USD)
+              ) : quoteError ? (
+                <div className="text-sm text-destructive">{quoteError}</div>
+              ) : quote && (
+                <>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm">Withdrawal Amount:</span>
+                    <span className="font-medium">{formatUSD(quote.amount_cents)}</span>
                   </div>
-                )}
-              </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm flex items-center">
+                      <Percent className="h-3 w-3 mr-1" />
+                      Fee ({quote.fee_percent}%{quote.fee_flat_cents > 0 ? ` + ${formatUSD(quote.fee_flat_cents)}` : ''}):
+                    </span>
+                    <span className="font-medium text-destructive">-{formatUSD(quote.fee_cents)}</span>
+                  </div>
+                  <div className="border-t pt-2">
+                    <div className="flex justify-between items-center">
+                      <span className="font-semibold">Net Amount:</span>
+                      <span className="font-bold text-success">{formatUSD(quote.net_cents)}</span>
+                    </div>
+                    {quote.local_amount !== null && quote.fx_rate !== null && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        ≈ {quote.local_amount.toLocaleString()} {quote.currency} (Rate: {quote.fx_rate}/USD)
+                      </div>
+                    )}
+                    {quote.debit_cents !== null && quote.currency !== 'USD' && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Taken from your {quote.debit_currency} balance: {formatMoney(quote.debit_cents, quote.debit_currency, currencies[quote.debit_currency])}
+                        {quote.debit_currency === 'USD' && ` (your ${quote.currency} balance does not cover it)`}
+                      </div>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground text-right">
+                    {secondsLeft > 0
+                      ? `Quote valid for ${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`
+                      : 'Refreshing quote...'}
+                  </div>
+                </>
+              )}
             </div>
           )}
 
 {/* Payout details (required once) */}
 <div className="space-y-3 border rounded-lg p-3">
-  {currency === 'NGN' ? (
+  {selected.method === 'bank' ? (
     <>
       <Label>Bank Details</Label>
       <Input placeholder="Bank Name" value={bankDetails.bank_name} onChange={(e) => setBankDetails({ ...bankDetails, bank_name: e.target.value })} />
@@ -278,7 +391,7 @@ const handleWithdraw = async () => {
             toast.error('Please fill all bank details');
             return;
           }
-          const { error } = await supabase.from('payout_methods' as any).upsert({
+          const { error } = await supabase.from('payout_methods').upsert({
             user_id: user.id,
             type: 'bank',
             bank_name: bankDetails.bank_name,
@@ -289,6 +402,51 @@ const handleWithdraw = async () => {
         }}
       >Save Bank Details</Button>
     </>
+  ) : selected.method === 'mobile_money' ? (
+    <>
+      <Label>Mobile Money</Label>
+      <Select
+        value={mobileMoneyDetails.operator || operators[0] || ''}
+        onValueChange={(v) => setMobileMoneyDetails({ ...mobileMoneyDetails, operator: v })}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Operator" />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map((operator) => (
+            <SelectItem key={operator} value={operator}>{MOBILE_MONEY_OPERATOR_LABELS[operator] || operator}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        type="tel"
+        placeholder={`Mobile Number (${country?.dial_code ?? '+'}...)`}
+        value={mobileMoneyDetails.msisdn}
+        onChange={(e) => setMobileMoneyDetails({ ...mobileMoneyDetails, msisdn: e.target.value })}
+      />
+      <Button
+        variant="outline"
+        onClick={async () => {
+          if (!user) return;
+          const operator = mobileMoneyDetails.operator || operators[0];
+          if (!operator || !mobileMoneyDetails.msisdn) { toast.error('Please enter your mobile money number'); return; }
+          // Normalised to E.164 and checked against the country by the database
+          const { data, error } = await supabase.from('payout_methods').upsert({
+            user_id: user.id,
+            type: 'mobile_money',
+            operator,
+            msisdn: mobileMoneyDetails.msisdn
+          }, { onConflict: 'user_id,type' }).select('msisdn').maybeSingle();
+          if (error) {
+            toast.error(MOBILE_MONEY_ERRORS[error.message] || 'Failed to save mobile money number');
+          } else {
+            toast.success('Mobile money number saved');
+            setMobileMoneyDetails({ operator, msisdn: data?.msisdn || mobileMoneyDetails.msisdn });
+            setHasPayout(true);
+          }
+        }}
+      >Save Mobile Money Number</Button>
+    </>
   ) : (
     <>
       <Label>USDT Wallet (BEP20)</Label>
@@ -308,7 +466,7 @@ const handleWithdraw = async () => {
         onClick={async () => {
           if (!user) return;
           if (!usdtDetails.wallet_address) { toast.error('Please enter your USDT wallet'); return; }
-          const { error } = await supabase.from('payout_methods' as any).upsert({
+          const { error } = await supabase.from('payout_methods').upsert({
             user_id: user.id,
             type: 'usdt',
             usdt_network: usdtDetails.network,
@@ -331,7 +489,7 @@ const handleWithdraw = async () => {
   </Button>
   <Button
     onClick={handleWithdraw}
-    disabled={loading || !amount || amountUSD < 2}
+    disabled={loading || quoting || !quote || secondsLeft === 0}
     className="flex-1"
     variant="primary_gradient"
   >
@@ -1,28 +1,89 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { auth, db } from '@/integrations/firebase';
+import { auth } from '@/integrations/firebase';
 import { onAuthStateChanged, User } from 'firebase/auth';
+import type { Session, User as SupabaseUser } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
 
 type AuthContextType = {
+  // Firebase identity (login, email verification, OAuth)
   user: User | null;
+  // Supabase identity bridged from Firebase; this is what auth.uid() sees
+  supabaseUser: SupabaseUser | null;
+  session: Session | null;
   loading: boolean;
 };
 
-const AuthContext = createContext<AuthContextType>({ user: null, loading: true });
+const AuthContext = createContext<AuthContextType>({
+  user: null,
+  supabaseUser: null,
+  session: null,
+  loading: true,
+});
+
+// Trade a Firebase ID token for a Supabase session via the firebase-session edge function
+const exchangeFirebaseToken = async (firebaseUser: User): Promise<Session | null> => {
+  const idToken = await firebaseUser.getIdToken();
+  const { data, error } = await supabase.functions.invoke('firebase-session', {
+    headers: { Authorization: `Bearer ${idToken}` },
+  });
+
+  if (error) throw error;
+
+  const { data: sessionData, error: sessionError } = await supabase.auth.setSession({
+    access_token: data.access_token,
+    refresh_token: data.refresh_token,
+  });
+
+  if (sessionError) throw sessionError;
+  return sessionData.session;
+};
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
+    // Keep local state in step with token refreshes and sign-outs
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+
+    const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
+      setLoading(true);
       setUser(currentUser);
-      setLoading(false);
+
+      try {
+        if (currentUser) {
+          // Reuse a persisted session if it already belongs to this Firebase account
+          const { data: { session: existing } } = await supabase.auth.getSession();
+          const linkedUid = existing?.user?.app_metadata?.firebase_uid;
+
+          if (existing && linkedUid === currentUser.uid) {
+            setSession(existing);
+          } else {
+            setSession(await exchangeFirebaseToken(currentUser));
+          }
+        } else {
+          await supabase.auth.signOut();
+          setSession(null);
+        }
+      } catch (error) {
+        console.error('Error bridging Firebase session to Supabase:', error);
+        setSession(null);
+      } finally {
+        setLoading(false);
+      }
     });
-    return () => unsubscribe();
+
+    return () => {
+      unsubscribe();
+      subscription.unsubscribe();
+    };
   }, []);
 
   return (
-    <AuthContext.Provider value={{ user, loading }}>
+    <AuthContext.Provider value={{ user, supabaseUser: session?.user ?? null, session, loading }}>
       {children}
     </AuthContext.Provider>
   );
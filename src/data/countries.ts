@@ -0,0 +1,47 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Country = Tables<'countries'>;
+
+// countries.mobile_money_operators values, which are also their payment provider names
+export const MOBILE_MONEY_OPERATOR_LABELS: Record<string, string> = {
+  mpesa: 'M-Pesa',
+  mtn_momo: 'MTN MoMo',
+};
+
+// The catalogue rarely changes, so one fetch serves every selector on the page
+let countriesRequest: Promise<Country[]> | null = null;
+
+export const listCountries = () => {
+  countriesRequest ??= (async () => {
+    const { data, error } = await supabase.from('countries').select('*').order('name');
+    if (error) throw error;
+
+    return data || [];
+  })().catch((error) => {
+    countriesRequest = null;
+    throw error;
+  });
+
+  return countriesRequest;
+};
+
+export interface CurrencyInfo {
+  code: string;
+  minorUnits: number;
+  symbol: string;
+}
+
+// Every currency some country in the catalogue uses, keyed by ISO code
+export const listCurrencies = async () => {
+  const currencies: Record<string, CurrencyInfo> = {};
+  for (const country of await listCountries()) {
+    currencies[country.currency] ??= {
+      code: country.currency,
+      minorUnits: country.currency_minor_units,
+      symbol: country.currency_symbol,
+    };
+  }
+
+  return currencies;
+};
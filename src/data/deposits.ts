@@ -0,0 +1,156 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export type PaymentProviderName = 'basepay' | 'stripe' | 'manual_crypto' | 'mpesa' | 'mtn_momo';
+
+// Providers that collect by prompting the payer's phone; they need an msisdn
+export const MOBILE_MONEY_PROVIDERS: PaymentProviderName[] = ['mpesa', 'mtn_momo'];
+
+export interface DepositInitiation {
+  success: boolean;
+  depositId: string;
+  mchOrderNo: string;
+  provider: PaymentProviderName;
+  gateway: string;
+  // Provider-specific: Basepay redirect info, Stripe client secret, crypto address
+  payInfo: Record<string, unknown>;
+  localAmount: string;
+  localCurrency: string;
+  fxRate: number;
+}
+
+export interface InitiateDepositParams {
+  planId?: string;
+  // Wallet deposit without a plan; manual_crypto only
+  amountUsdCents?: number;
+  currency: string;
+  countryCode?: string;
+  provider?: PaymentProviderName;
+  // The payer's phone number; mobile money providers only
+  msisdn?: string;
+}
+
+// Start a plan (or crypto wallet) deposit through whichever gateway
+// payment_gateways assigns to the country and currency
+export const initiateDeposit = async (params: InitiateDepositParams) => {
+  const { data, error } = await supabase.functions.invoke('initiate-deposit', { body: params });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      if (payload?.error) throw new Error(payload.error);
+    }
+    throw error;
+  }
+
+  return data as DepositInitiation;
+};
+
+// Hosted payment page to send the payer to, if the provider uses one
+export const getPaymentRedirectUrl = (initiation: DepositInitiation): string | null => {
+  const { payInfo } = initiation;
+  const url = payInfo.payInfo ?? payInfo.url ?? payInfo.payUrl;
+  return typeof url === 'string' && /^https?:\/\//.test(url) ? url : null;
+};
+
+// Where to send a manual crypto deposit: the address assigned to the deposit
+// and the exact amount, amount tag included
+export interface CryptoPayInfo {
+  address: string;
+  network: string;
+  amount: string;
+  amountTagCents: number;
+}
+
+export const getCryptoPayInfo = (initiation: DepositInitiation): CryptoPayInfo | null => {
+  const { address, network, amount, amountTagCents } = initiation.payInfo;
+  if (typeof address !== 'string' || !address) return null;
+  return {
+    address,
+    network: typeof network === 'string' ? network : 'BEP20',
+    amount: String(amount ?? initiation.localAmount),
+    amountTagCents: Number(amountTagCents ?? 0),
+  };
+};
+
+export interface SubmitCryptoDepositParams {
+  depositId: string;
+  txHash: string;
+  // From uploadProof
+  proofId: string;
+}
+
+// Attach the payer's transaction hash and uploaded proof to a manual crypto deposit
+export const submitCryptoDeposit = async (params: SubmitCryptoDepositParams) => {
+  const { data, error } = await supabase.functions.invoke('submit-crypto-deposit', { body: params });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      if (payload?.error) throw new Error(payload.error);
+    }
+    throw error;
+  }
+
+  return data as { success: boolean; depositId: string; txHash: string };
+};
+
+export type ProofBucket = 'deposit-screenshots' | 'crypto-proofs';
+
+export interface UploadedProof {
+  success: boolean;
+  proofId: string;
+  path: string;
+  thumbnailPath: string;
+  mimeType: string;
+  sizeBytes: number;
+  width: number;
+  height: number;
+}
+
+// Upload a payment proof image through upload-proof, which checks it, strips
+// its metadata and thumbnails it
+export const uploadProof = async (file: File, bucket: ProofBucket = 'deposit-screenshots') => {
+  const form = new FormData();
+  form.append('file', file);
+  form.append('bucket', bucket);
+
+  const { data, error } = await supabase.functions.invoke('upload-proof', { body: form });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      if (payload?.error) throw new Error(payload.error);
+    }
+    throw error;
+  }
+
+  return data as UploadedProof;
+};
+
+export type CryptoVerificationStatus = 'not_found' | 'unconfirmed' | 'verified' | 'mismatch';
+
+export interface CryptoVerificationResult {
+  deposit_id: string;
+  status: CryptoVerificationStatus | 'error';
+  discrepancies?: string[];
+  error?: string;
+}
+
+// Check a submitted crypto deposit's transaction on chain right away. What
+// is not final yet is picked up again by the scheduled verify-crypto-deposits run.
+export const verifyCryptoDeposit = async (depositId: string) => {
+  const { data, error } = await supabase.functions.invoke('verify-crypto-deposits', {
+    body: { deposit_id: depositId },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      if (payload?.error) throw new Error(payload.error);
+    }
+    throw error;
+  }
+
+  return ((data?.results || []) as CryptoVerificationResult[])[0] ?? null;
+};
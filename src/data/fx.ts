@@ -0,0 +1,133 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type FxOverride = Tables<'fx_overrides'>;
+export type RateHistoryEntry = Tables<'rate_history'>;
+
+export interface FxQuote {
+  currency: string;
+  // Units of currency per USD; null until the first rate is fetched
+  midRate: number | null;
+  // What a deposit pays per USD and a withdrawal receives, spreads included
+  buyRate: number | null;
+  sellRate: number | null;
+  source: string | null;
+  fetchedAt: string | null;
+  maxAgeMinutes: number;
+  // Deposits and withdrawals in the currency are refused while this is true
+  isStale: boolean;
+  // Set while a manual override replaces the fetched rate
+  overrideId: string | null;
+  overrideExpiresAt: string | null;
+}
+
+// Current rates for every enabled currency, or just `currency`
+export const getFxQuotes = async (currency?: string): Promise<FxQuote[]> => {
+  const { data, error } = await supabase.rpc('get_fx_quotes', currency ? { p_currency: currency } : {});
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    currency: row.currency,
+    midRate: row.mid_rate === null ? null : Number(row.mid_rate),
+    buyRate: row.buy_rate === null ? null : Number(row.buy_rate),
+    sellRate: row.sell_rate === null ? null : Number(row.sell_rate),
+    source: row.source,
+    fetchedAt: row.fetched_at,
+    maxAgeMinutes: row.max_age_minutes,
+    isStale: row.is_stale !== false,
+    overrideId: row.override_id,
+    overrideExpiresAt: row.override_expires_at,
+  }));
+};
+
+// Rates recorded for `currency` since `since`, oldest first; source 'manual' marks overrides
+export const getRateHistory = async (currency: string, since: Date) => {
+  const { data, error } = await supabase
+    .from('rate_history')
+    .select('*')
+    .eq('base_currency', 'USD')
+    .eq('quote_currency', currency)
+    .gte('fetched_at', since.toISOString())
+    .order('fetched_at', { ascending: true })
+    .limit(1000);
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+// Live and recently ended overrides, newest first
+export const listFxOverrides = async () => {
+  const { data, error } = await supabase
+    .from('fx_overrides')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export interface CreateFxOverrideParams {
+  currency: string;
+  // Mid rate in units of currency per USD; spreads still apply on top
+  rate: number;
+  durationMinutes: number;
+  reason: string;
+}
+
+export const createFxOverride = async (params: CreateFxOverrideParams) => {
+  const { data, error } = await supabase.functions.invoke('admin-fx/overrides', {
+    body: params,
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      if (payload?.error) throw new Error(payload.error);
+    }
+    throw error;
+  }
+
+  return data.override as FxOverride;
+};
+
+export const revokeFxOverride = async (id: string) => {
+  const { data, error } = await supabase.functions.invoke('admin-fx/overrides/revoke', {
+    body: { id },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      if (payload?.error) throw new Error(payload.error);
+    }
+    throw error;
+  }
+
+  return data.override as FxOverride;
+};
+
+// Client-side estimate of what convert-currency pays out, using the same
+// buy/sell sides; null when either currency has no usable rate
+export const estimateConversion = (
+  amountCents: number,
+  from: { currency: string; minorUnits: number },
+  to: { currency: string; minorUnits: number },
+  quotes: FxQuote[]
+) => {
+  const rateFor = (currency: string, side: 'buyRate' | 'sellRate') => {
+    if (currency === 'USD') return 1;
+    const quote = quotes.find((q) => q.currency === currency);
+    return quote && !quote.isStale ? quote[side] : null;
+  };
+
+  const buyRate = rateFor(from.currency, 'buyRate');
+  const sellRate = rateFor(to.currency, 'sellRate');
+  if (!buyRate || !sellRate) return null;
+
+  const usd = amountCents / 10 ** from.minorUnits / buyRate;
+  return Math.floor(Number((usd * sellRate * 10 ** to.minorUnits).toFixed(6)));
+};
@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Investment {
+  id: string;
+  plan_id: string;
+  plan_name: string;
+  amount_usd_cents: number;
+  payout_per_drop_usd: number;
+  drops_count: number;
+  total_return_usd: number;
+  drops_paid: number;
+  status: string;
+  created_at: string | null;
+}
+
+// Confirmed deposits earn income drops (held while disputed); imported ones are
+// Firestore history with no schedule
+const INVESTMENT_STATUSES = ['confirmed', 'imported', 'disputed'];
+
+export const listInvestments = async (userId: string): Promise<Investment[]> => {
+  const { data: deposits, error } = await supabase
+    .from('deposits')
+    .select(`
+      id,
+      plan_id,
+      amount_usd_cents,
+      status,
+      created_at,
+      plans!inner(
+        name,
+        payout_per_drop_usd,
+        drops_count,
+        total_return_usd
+      )
+    `)
+    .eq('user_id', userId)
+    .in('status', INVESTMENT_STATUSES)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  if (!deposits?.length) return [];
+
+  const { data: paidEvents, error: eventsError } = await supabase
+    .from('income_events')
+    .select('deposit_id')
+    .in('deposit_id', deposits.map((deposit) => deposit.id))
+    .eq('processed_bool', true);
+
+  if (eventsError) throw eventsError;
+
+  const dropsPaid = new Map<string, number>();
+  for (const event of paidEvents || []) {
+    dropsPaid.set(event.deposit_id, (dropsPaid.get(event.deposit_id) || 0) + 1);
+  }
+
+  return deposits.map((deposit) => ({
+    id: deposit.id,
+    plan_id: deposit.plan_id,
+    plan_name: deposit.plans.name,
+    amount_usd_cents: deposit.amount_usd_cents,
+    payout_per_drop_usd: deposit.plans.payout_per_drop_usd,
+    drops_count: deposit.plans.drops_count,
+    total_return_usd: deposit.plans.total_return_usd,
+    drops_paid: dropsPaid.get(deposit.id) || 0,
+    status: deposit.status,
+    created_at: deposit.created_at,
+  }));
+};
@@ -0,0 +1,32 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+
+export type Profile = Tables<'profiles'>;
+
+// Fields users may edit themselves; referral_code and referrer_id are set at signup
+export type ProfileUpdate = Pick<TablesUpdate<'profiles'>, 'full_name' | 'phone' | 'country' | 'avatar_url'>;
+
+export const getProfile = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data as Profile | null;
+};
+
+export const updateProfile = async (userId: string, updates: ProfileUpdate) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update(updates)
+    .eq('user_id', userId)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  return data as Profile;
+};
@@ -0,0 +1,28 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type Role = 'admin' | 'finance' | 'support';
+
+export type Permission =
+  | 'deposits.approve'
+  | 'withdrawals.approve'
+  | 'plans.edit'
+  | 'gateways.manage'
+  | 'audit_logs.view'
+  | 'users.view'
+  | 'roles.manage'
+  | 'fx.manage';
+
+export interface Access {
+  roles: Role[];
+  permissions: Permission[];
+}
+
+export const NO_ACCESS: Access = { roles: [], permissions: [] };
+
+// Roles and permissions of the signed-in user; enforcement happens in RLS and edge functions
+export const getMyAccess = async (): Promise<Access> => {
+  const { data, error } = await supabase.rpc('get_my_access');
+  if (error) throw error;
+
+  return { ...NO_ACCESS, ...(data as Partial<Access> | null) };
+};
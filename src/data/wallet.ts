@@ -0,0 +1,153 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { CurrencyInfo } from '@/data/countries';
+
+export interface WalletBalances {
+  available_cents: number;
+  pending_cents: number;
+  total_earned_cents: number;
+}
+
+export type WalletTransaction = Tables<'wallet_transactions'>;
+
+// A non-USD balance; USD stays on the wallets row
+export type CurrencyBalance = Tables<'wallet_balances'>;
+
+// 'legacy' rows are Firestore history kept for display only; every other type moves money
+export type WalletTransactionType =
+  | 'deposit'
+  | 'deposit_bonus'
+  | 'income'
+  | 'withdrawal'
+  | 'referral'
+  | 'welcome_bonus'
+  | 'refund'
+  | 'migration'
+  | 'legacy'
+  | 'dispute_hold'
+  | 'dispute_release'
+  | 'chargeback'
+  | 'referral_clawback'
+  | 'conversion_out'
+  | 'conversion_in';
+
+// Balances as the payout paths see them (reserve_withdrawal, process_income_event_atomic)
+export const getWallet = async (userId: string): Promise<WalletBalances> => {
+  const { data, error } = await supabase
+    .from('wallets')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  // Wallets are created by the signup trigger; treat a missing row as empty
+  return {
+    available_cents: data?.available_cents ?? 0,
+    pending_cents: data?.pending_cents ?? 0,
+    total_earned_cents: data?.total_earned_cents ?? 0,
+  };
+};
+
+// Balances in currencies other than USD, in each currency's minor units
+export const listCurrencyBalances = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('wallet_balances')
+    .select('*')
+    .eq('user_id', userId)
+    .order('currency');
+
+  if (error) throw error;
+
+  return (data || []) as CurrencyBalance[];
+};
+
+export interface ConvertCurrencyParams {
+  fromCurrency: string;
+  toCurrency: string;
+  // In fromCurrency's minor units
+  amountCents: number;
+}
+
+export interface CurrencyConversion {
+  conversion_id: string;
+  from_currency: string;
+  amount_cents: number;
+  to_currency: string;
+  converted_cents: number;
+  rate: number;
+}
+
+// Priced server-side at the FX service's current rate, which may differ from a preview
+export const convertCurrency = async ({ fromCurrency, toCurrency, amountCents }: ConvertCurrencyParams) => {
+  const { data, error } = await supabase.functions.invoke('convert-currency', {
+    body: { from_currency: fromCurrency, to_currency: toCurrency, amount_cents: amountCents },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      if (payload?.error) throw new Error(payload.error);
+    }
+    throw error;
+  }
+
+  return data.conversion as CurrencyConversion;
+};
+
+interface ListWalletTransactionsParams {
+  types?: WalletTransactionType[];
+  limit?: number;
+}
+
+export const listWalletTransactions = async (
+  userId: string,
+  { types, limit = 50 }: ListWalletTransactionsParams = {}
+) => {
+  let query = supabase
+    .from('wallet_transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (types?.length) {
+    query = query.in('type', types);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []) as WalletTransaction[];
+};
+
+// Re-run the callback whenever the wallet row, a currency balance or the ledger changes
+export const subscribeToWallet = (userId: string, onChange: () => void) => {
+  const channel = supabase
+    .channel(`wallet-${userId}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'wallets', filter: `user_id=eq.${userId}` }, onChange)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'wallet_balances', filter: `user_id=eq.${userId}` }, onChange)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'wallet_transactions', filter: `user_id=eq.${userId}` }, onChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+export const formatCents = (cents: number) =>
+  `$${(cents / 100).toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
+
+// `amountCents` is in the currency's minor units; USD keeps the formatCents style
+export const formatMoney = (amountCents: number, currency: string, info?: CurrencyInfo) => {
+  if (currency === 'USD') return formatCents(amountCents);
+
+  const minorUnits = info?.minorUnits ?? 2;
+  const amount = (amountCents / 10 ** minorUnits).toLocaleString(undefined, {
+    minimumFractionDigits: minorUnits,
+    maximumFractionDigits: minorUnits,
+  });
+
+  return info?.symbol ? `${info.symbol}${amount}` : `${amount} ${currency}`;
+};
@@ -0,0 +1,36 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type WebhookEvent = Tables<'webhook_events'>;
+
+// unprocessed: authenticated callbacks that have not been applied yet
+export type WebhookEventFilter = 'unprocessed' | 'invalid' | 'processed' | 'all';
+
+export interface ReplayResult {
+  success: boolean;
+  error?: string;
+}
+
+export const listWebhookEvents = async (status: WebhookEventFilter, search?: string) => {
+  const params = new URLSearchParams({ status });
+  if (search) params.set('search', search);
+
+  const { data, error } = await supabase.functions.invoke(`admin-webhooks?${params}`, {
+    method: 'GET',
+  });
+
+  if (error) throw error;
+
+  return (data?.events || []) as WebhookEvent[];
+};
+
+// Run a stored callback through the handler again; crediting is idempotent
+export const replayWebhookEvent = async (id: string) => {
+  const { data, error } = await supabase.functions.invoke('admin-webhooks/replay', {
+    body: { id },
+  });
+
+  if (error) throw error;
+
+  return data as ReplayResult;
+};
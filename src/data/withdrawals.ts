@@ -0,0 +1,125 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type WithdrawalStatus =
+  | 'pending_review'
+  | 'on_hold'
+  | 'queued'
+  | 'processing'
+  | 'unconfirmed'
+  | 'completed'
+  | 'failed'
+  | 'rejected';
+
+// mark_paid and mark_failed settle unconfirmed payouts
+export type WithdrawalReviewAction = 'approve' | 'reject' | 'hold' | 'mark_paid' | 'mark_failed';
+
+export type ReviewWithdrawal = Tables<'withdrawals'> & {
+  profile: Pick<Tables<'profiles'>, 'user_id' | 'full_name' | 'phone' | 'country'> | null;
+};
+
+export interface WithdrawalQueueFilters {
+  status: WithdrawalStatus | 'all';
+  currency?: string;
+  minCents?: number;
+  maxCents?: number;
+  user?: string;
+}
+
+export interface BulkActionResult {
+  success: boolean;
+  results: { id: string; success: boolean; error?: string }[];
+}
+
+export const listWithdrawalQueue = async (filters: WithdrawalQueueFilters) => {
+  const params = new URLSearchParams({ status: filters.status });
+  if (filters.currency) params.set('currency', filters.currency);
+  if (filters.minCents !== undefined) params.set('min_cents', String(filters.minCents));
+  if (filters.maxCents !== undefined) params.set('max_cents', String(filters.maxCents));
+  if (filters.user) params.set('user', filters.user);
+
+  const { data, error } = await supabase.functions.invoke(`admin-withdrawals?${params}`, {
+    method: 'GET',
+  });
+
+  if (error) throw error;
+
+  return (data?.withdrawals || []) as ReviewWithdrawal[];
+};
+
+export const reviewWithdrawals = async (
+  action: WithdrawalReviewAction,
+  ids: string[],
+  reason?: string
+) => {
+  const { data, error } = await supabase.functions.invoke(`admin-withdrawals/${action}`, {
+    body: { ids, reason },
+  });
+
+  if (error) throw error;
+
+  return data as BulkActionResult;
+};
+
+export type FeeSchedule = Tables<'fee_schedules'>;
+
+export const listFeeSchedules = async () => {
+  const { data, error } = await supabase
+    .from('fee_schedules')
+    .select('*')
+    .eq('active', true)
+    .order('min_amount_cents', { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export type WithdrawalMethod = 'usdt' | 'bank' | 'mobile_money';
+
+// The payout details each method pays out to, as named to the user
+export const PAYOUT_DETAILS_LABELS: Record<WithdrawalMethod, string> = {
+  usdt: 'USDT wallet',
+  bank: 'bank details',
+  mobile_money: 'mobile money number',
+};
+
+export type WithdrawalQuote = Tables<'withdrawal_quotes'> & {
+  method: WithdrawalMethod;
+};
+
+// Error raised by create-withdrawal; code is set for quote problems the UI can recover from
+export class WithdrawalRequestError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = 'WithdrawalRequestError';
+  }
+}
+
+const invokeCreateWithdrawal = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('create-withdrawal', { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      if (payload?.error) throw new WithdrawalRequestError(payload.error, payload.code);
+    }
+    throw error;
+  }
+
+  return data;
+};
+
+// Price a withdrawal and lock the fee and FX rate until quote.expires_at.
+// method defaults to USDT for USD and bank transfer for other currencies.
+export const quoteWithdrawal = async (amountCents: number, currency: string, method?: WithdrawalMethod) => {
+  const data = await invokeCreateWithdrawal({ amount_cents: amountCents, currency, method });
+  return data.quote as WithdrawalQuote;
+};
+
+// Commit an unexpired quote the user has accepted
+export const createWithdrawal = async (quoteId: string) => {
+  const data = await invokeCreateWithdrawal({ quote_id: quoteId, confirm: true });
+  return data.withdrawal_id as string;
+};
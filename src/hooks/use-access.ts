@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { getMyAccess, NO_ACCESS, type Access, type Permission } from "@/data/roles"
+
+export function useAccess() {
+  const { supabaseUser, loading: authLoading } = useAuth()
+  const [access, setAccess] = useState<Access>(NO_ACCESS)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (authLoading) return
+
+    if (!supabaseUser) {
+      setAccess(NO_ACCESS)
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+
+    getMyAccess()
+      .then((result) => {
+        if (!cancelled) setAccess(result)
+      })
+      .catch((error) => {
+        console.error("Error loading access:", error)
+        if (!cancelled) setAccess(NO_ACCESS)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [supabaseUser, authLoading])
+
+  const can = (permission: Permission) => access.permissions.includes(permission)
+
+  return { ...access, isStaff: access.roles.length > 0, can, loading: loading || authLoading }
+}
@@ -14,6 +14,24 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_reviews: {
+        Row: {
+          flagged_at: string
+          reason: string | null
+          user_id: string
+        }
+        Insert: {
+          flagged_at?: string
+          reason?: string | null
+          user_id: string
+        }
+        Update: {
+          flagged_at?: string
+          reason?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       audit_logs: {
         Row: {
           action: string
@@ -118,7 +136,8 @@ export type Database = {
           currency: string
           currency_symbol: string
           id: string
-          rate_to_usd: number
+          source: string
+          sources: Json
           updated_at: string | null
         }
         Insert: {
@@ -126,7 +145,8 @@ export type Database = {
           currency: string
           currency_symbol: string
           id?: string
-          rate_to_usd: number
+          source?: string
+          sources?: Json
           updated_at?: string | null
         }
         Update: {
@@ -134,11 +154,93 @@ export type Database = {
           currency?: string
           currency_symbol?: string
           id?: string
-          rate_to_usd?: number
+          source?: string
+          sources?: Json
           updated_at?: string | null
         }
         Relationships: []
       }
+      countries: {
+        Row: {
+          code: string
+          created_at: string
+          currency: string
+          currency_minor_units: number
+          currency_symbol: string
+          default_bank_code: string | null
+          deposit_methods: string[]
+          dial_code: string
+          flag: string
+          mobile_money_operators: string[]
+          name: string
+          signup_allowed: boolean
+          updated_at: string
+          withdrawal_methods: string[]
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          currency: string
+          currency_minor_units?: number
+          currency_symbol: string
+          default_bank_code?: string | null
+          deposit_methods?: string[]
+          dial_code: string
+          flag?: string
+          mobile_money_operators?: string[]
+          name: string
+          signup_allowed?: boolean
+          updated_at?: string
+          withdrawal_methods?: string[]
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          currency?: string
+          currency_minor_units?: number
+          currency_symbol?: string
+          default_bank_code?: string | null
+          deposit_methods?: string[]
+          dial_code?: string
+          flag?: string
+          mobile_money_operators?: string[]
+          name?: string
+          signup_allowed?: boolean
+          updated_at?: string
+          withdrawal_methods?: string[]
+        }
+        Relationships: []
+      }
+      crypto_deposit_addresses: {
+        Row: {
+          address: string
+          created_at: string
+          derivation_index: number
+          gateway_id: string
+          id: string
+          network: string
+          user_id: string
+        }
+        Insert: {
+          address: string
+          created_at?: string
+          derivation_index: number
+          gateway_id: string
+          id?: string
+          network: string
+          user_id: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          derivation_index?: number
+          gateway_id?: string
+          id?: string
+          network?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       crypto_deposits: {
         Row: {
           admin_id: string | null
@@ -152,6 +254,7 @@ export type Database = {
           proof_path: string | null
           status: string
           tx_hash: string
+          tx_hash_normalized: string | null
           updated_at: string | null
           user_id: string
         }
@@ -167,6 +270,7 @@ export type Database = {
           proof_path?: string | null
           status?: string
           tx_hash: string
+          tx_hash_normalized?: string | null
           updated_at?: string | null
           user_id: string
         }
@@ -182,6 +286,7 @@ export type Database = {
           proof_path?: string | null
           status?: string
           tx_hash?: string
+          tx_hash_normalized?: string | null
           updated_at?: string | null
           user_id?: string
         }
@@ -195,16 +300,101 @@ export type Database = {
           },
         ]
       }
+      crypto_tx_hashes: {
+        Row: {
+          created_at: string
+          crypto_deposit_id: string | null
+          deposit_id: string | null
+          tx_hash: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          crypto_deposit_id?: string | null
+          deposit_id?: string | null
+          tx_hash: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          crypto_deposit_id?: string | null
+          deposit_id?: string | null
+          tx_hash?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      deposit_proofs: {
+        Row: {
+          bucket: string
+          created_at: string
+          crypto_deposit_id: string | null
+          deposit_id: string | null
+          height: number | null
+          id: string
+          matches: Json
+          mime_type: string | null
+          original_name: string | null
+          path: string
+          phash: number
+          sha256: string
+          size_bytes: number | null
+          thumbnail_path: string | null
+          user_id: string
+          width: number | null
+        }
+        Insert: {
+          bucket: string
+          created_at?: string
+          crypto_deposit_id?: string | null
+          deposit_id?: string | null
+          height?: number | null
+          id?: string
+          matches?: Json
+          mime_type?: string | null
+          original_name?: string | null
+          path: string
+          phash: number
+          sha256: string
+          size_bytes?: number | null
+          thumbnail_path?: string | null
+          user_id: string
+          width?: number | null
+        }
+        Update: {
+          bucket?: string
+          created_at?: string
+          crypto_deposit_id?: string | null
+          deposit_id?: string | null
+          height?: number | null
+          id?: string
+          matches?: Json
+          mime_type?: string | null
+          original_name?: string | null
+          path?: string
+          phash?: number
+          sha256?: string
+          size_bytes?: number | null
+          thumbnail_path?: string | null
+          user_id?: string
+          width?: number | null
+        }
+        Relationships: []
+      }
       deposits: {
         Row: {
+          amount_tag_cents: number
           amount_usd_cents: number
           client_ref: string | null
           confirmed_at: string | null
           created_at: string | null
           currency: string | null
+          deposit_address: string | null
+          frozen_cents: number
           fx_at: string | null
           fx_rate: number | null
           gateway: string | null
+          gateway_id: string | null
           gateway_ref: string | null
           id: string
           local_amount: number | null
@@ -212,21 +402,30 @@ export type Database = {
           local_currency: string | null
           mch_order_no: string | null
           method: string
+          network: string | null
           plan_id: string
           screenshot_url: string | null
           status: string
           tx_hash: string | null
+          tx_hash_normalized: string | null
           user_id: string
+          verification: Json | null
+          verification_status: string | null
+          verified_at: string | null
         }
         Insert: {
+          amount_tag_cents?: number
           amount_usd_cents: number
           client_ref?: string | null
           confirmed_at?: string | null
           created_at?: string | null
           currency?: string | null
+          deposit_address?: string | null
+          frozen_cents?: number
           fx_at?: string | null
           fx_rate?: number | null
           gateway?: string | null
+          gateway_id?: string | null
           gateway_ref?: string | null
           id?: string
           local_amount?: number | null
@@ -234,21 +433,30 @@ export type Database = {
           local_currency?: string | null
           mch_order_no?: string | null
           method: string
+          network?: string | null
           plan_id: string
           screenshot_url?: string | null
           status?: string
           tx_hash?: string | null
+          tx_hash_normalized?: string | null
           user_id: string
+          verification?: Json | null
+          verification_status?: string | null
+          verified_at?: string | null
         }
         Update: {
+          amount_tag_cents?: number
           amount_usd_cents?: number
           client_ref?: string | null
           confirmed_at?: string | null
           created_at?: string | null
           currency?: string | null
+          deposit_address?: string | null
+          frozen_cents?: number
           fx_at?: string | null
           fx_rate?: number | null
           gateway?: string | null
+          gateway_id?: string | null
           gateway_ref?: string | null
           id?: string
           local_amount?: number | null
@@ -256,11 +464,16 @@ export type Database = {
           local_currency?: string | null
           mch_order_no?: string | null
           method?: string
+          network?: string | null
           plan_id?: string
           screenshot_url?: string | null
           status?: string
           tx_hash?: string | null
+          tx_hash_normalized?: string | null
           user_id?: string
+          verification?: Json | null
+          verification_status?: string | null
+          verified_at?: string | null
         }
         Relationships: [
           {
@@ -272,29 +485,113 @@ export type Database = {
           },
         ]
       }
-      exchange_rates: {
+      fee_schedules: {
         Row: {
-          country_code: string
+          active: boolean
+          created_at: string
           currency: string
-          currency_symbol: string
+          fee_flat_cents: number
+          fee_percent: number
           id: string
-          rate_to_usd: number
+          max_amount_cents: number | null
+          method: string
+          min_amount_cents: number
+          tier: string
           updated_at: string
         }
         Insert: {
-          country_code: string
+          active?: boolean
+          created_at?: string
           currency: string
-          currency_symbol: string
+          fee_flat_cents?: number
+          fee_percent?: number
           id?: string
-          rate_to_usd: number
+          max_amount_cents?: number | null
+          method: string
+          min_amount_cents?: number
+          tier?: string
           updated_at?: string
         }
         Update: {
-          country_code?: string
+          active?: boolean
+          created_at?: string
           currency?: string
-          currency_symbol?: string
+          fee_flat_cents?: number
+          fee_percent?: number
+          id?: string
+          max_amount_cents?: number | null
+          method?: string
+          min_amount_cents?: number
+          tier?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      fx_overrides: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          currency: string
+          expires_at: string
+          id: string
+          rate: number
+          reason: string
+          revoked_at: string | null
+          revoked_by: string | null
+          starts_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          expires_at: string
+          id?: string
+          rate: number
+          reason: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          starts_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          expires_at?: string
           id?: string
-          rate_to_usd?: number
+          rate?: number
+          reason?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          starts_at?: string
+        }
+        Relationships: []
+      }
+      fx_settings: {
+        Row: {
+          buy_spread_bps: number
+          created_at: string
+          currency: string
+          enabled: boolean
+          max_age_minutes: number
+          sell_spread_bps: number
+          updated_at: string
+        }
+        Insert: {
+          buy_spread_bps?: number
+          created_at?: string
+          currency: string
+          enabled?: boolean
+          max_age_minutes?: number
+          sell_spread_bps?: number
+          updated_at?: string
+        }
+        Update: {
+          buy_spread_bps?: number
+          created_at?: string
+          currency?: string
+          enabled?: boolean
+          max_age_minutes?: number
+          sell_spread_bps?: number
           updated_at?: string
         }
         Relationships: []
@@ -351,6 +648,7 @@ export type Database = {
           id: string
           processed_at: string | null
           processed_bool: boolean | null
+          status: string
           user_id: string
         }
         Insert: {
@@ -362,6 +660,7 @@ export type Database = {
           id?: string
           processed_at?: string | null
           processed_bool?: boolean | null
+          status?: string
           user_id: string
         }
         Update: {
@@ -373,6 +672,7 @@ export type Database = {
           id?: string
           processed_at?: string | null
           processed_bool?: boolean | null
+          status?: string
           user_id?: string
         }
         Relationships: [
@@ -472,6 +772,8 @@ export type Database = {
           id: string
           is_active: boolean
           name: string
+          priority: number
+          provider: string
           updated_at: string
         }
         Insert: {
@@ -482,6 +784,8 @@ export type Database = {
           id?: string
           is_active?: boolean
           name: string
+          priority?: number
+          provider?: string
           updated_at?: string
         }
         Update: {
@@ -492,6 +796,8 @@ export type Database = {
           id?: string
           is_active?: boolean
           name?: string
+          priority?: number
+          provider?: string
           updated_at?: string
         }
         Relationships: []
@@ -503,6 +809,8 @@ export type Database = {
           bank_name: string | null
           created_at: string
           id: string
+          msisdn: string | null
+          operator: string | null
           type: string
           updated_at: string
           usdt_network: string | null
@@ -515,6 +823,8 @@ export type Database = {
           bank_name?: string | null
           created_at?: string
           id?: string
+          msisdn?: string | null
+          operator?: string | null
           type: string
           updated_at?: string
           usdt_network?: string | null
@@ -527,6 +837,8 @@ export type Database = {
           bank_name?: string | null
           created_at?: string
           id?: string
+          msisdn?: string | null
+          operator?: string | null
           type?: string
           updated_at?: string
           usdt_network?: string | null
@@ -544,6 +856,11 @@ export type Database = {
           is_locked: boolean | null
           name: string
           payout_per_drop_usd: number
+          schedule_cron: string | null
+          schedule_interval_minutes: number | null
+          schedule_kind: string
+          schedule_time_of_day: string | null
+          skip_weekends: boolean
           sort_order: number | null
           total_return_usd: number
         }
@@ -555,6 +872,11 @@ export type Database = {
           is_locked?: boolean | null
           name: string
           payout_per_drop_usd: number
+          schedule_cron?: string | null
+          schedule_interval_minutes?: number | null
+          schedule_kind?: string
+          schedule_time_of_day?: string | null
+          skip_weekends?: boolean
           sort_order?: number | null
           total_return_usd: number
         }
@@ -566,6 +888,11 @@ export type Database = {
           is_locked?: boolean | null
           name?: string
           payout_per_drop_usd?: number
+          schedule_cron?: string | null
+          schedule_interval_minutes?: number | null
+          schedule_kind?: string
+          schedule_time_of_day?: string | null
+          skip_weekends?: boolean
           sort_order?: number | null
           total_return_usd?: number
         }
@@ -695,6 +1022,39 @@ export type Database = {
           },
         ]
       }
+      rate_history: {
+        Row: {
+          base_currency: string
+          created_at: string
+          fetched_at: string
+          id: string
+          quote_currency: string
+          rate: number
+          source: string
+          sources: Json
+        }
+        Insert: {
+          base_currency: string
+          created_at?: string
+          fetched_at: string
+          id?: string
+          quote_currency: string
+          rate: number
+          source: string
+          sources?: Json
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          fetched_at?: string
+          id?: string
+          quote_currency?: string
+          rate?: number
+          source?: string
+          sources?: Json
+        }
+        Relationships: []
+      }
       referrals: {
         Row: {
           bonus_cents: number
@@ -753,27 +1113,6 @@ export type Database = {
           },
         ]
       }
-      usdt_rates: {
-        Row: {
-          currency: string
-          id: string
-          rate: number
-          updated_at: string | null
-        }
-        Insert: {
-          currency: string
-          id?: string
-          rate: number
-          updated_at?: string | null
-        }
-        Update: {
-          currency?: string
-          id?: string
-          rate?: number
-          updated_at?: string | null
-        }
-        Relationships: []
-      }
       users: {
         Row: {
           country: string
@@ -818,11 +1157,42 @@ export type Database = {
           },
         ]
       }
+      wallet_balances: {
+        Row: {
+          available_cents: number
+          created_at: string | null
+          currency: string
+          id: string
+          pending_cents: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          available_cents?: number
+          created_at?: string | null
+          currency: string
+          id?: string
+          pending_cents?: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          available_cents?: number
+          created_at?: string | null
+          currency?: string
+          id?: string
+          pending_cents?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       wallet_transactions: {
         Row: {
           amount_cents: number
           balance_after_cents: number | null
           created_at: string | null
+          currency: string
           id: string
           meta: Json | null
           reference_id: string | null
@@ -833,6 +1203,7 @@ export type Database = {
           amount_cents: number
           balance_after_cents?: number | null
           created_at?: string | null
+          currency?: string
           id?: string
           meta?: Json | null
           reference_id?: string | null
@@ -843,6 +1214,7 @@ export type Database = {
           amount_cents?: number
           balance_after_cents?: number | null
           created_at?: string | null
+          currency?: string
           id?: string
           meta?: Json | null
           reference_id?: string | null
@@ -855,6 +1227,7 @@ export type Database = {
         Row: {
           available_cents: number | null
           created_at: string | null
+          frozen_cents: number
           id: string
           pending_cents: number | null
           total_earned_cents: number | null
@@ -864,6 +1237,7 @@ export type Database = {
         Insert: {
           available_cents?: number | null
           created_at?: string | null
+          frozen_cents?: number
           id?: string
           pending_cents?: number | null
           total_earned_cents?: number | null
@@ -873,6 +1247,7 @@ export type Database = {
         Update: {
           available_cents?: number | null
           created_at?: string | null
+          frozen_cents?: number
           id?: string
           pending_cents?: number | null
           total_earned_cents?: number | null
@@ -883,89 +1258,203 @@ export type Database = {
       }
       webhook_events: {
         Row: {
+          deposit_id: string | null
+          error: string | null
           event_id: string
           gateway: string | null
-          gateway_name: string
+          gateway_name: string | null
           id: string
+          last_replayed_at: string | null
+          last_replayed_by: string | null
           payload: Json
           processed: boolean | null
           processed_at: string
+          replay_count: number
           signature_ok: boolean | null
           source_ip: string | null
         }
         Insert: {
+          deposit_id?: string | null
+          error?: string | null
           event_id: string
           gateway?: string | null
-          gateway_name: string
+          gateway_name?: string | null
           id?: string
+          last_replayed_at?: string | null
+          last_replayed_by?: string | null
           payload: Json
           processed?: boolean | null
           processed_at?: string
+          replay_count?: number
           signature_ok?: boolean | null
           source_ip?: string | null
         }
         Update: {
+          deposit_id?: string | null
+          error?: string | null
           event_id?: string
           gateway?: string | null
-          gateway_name?: string
+          gateway_name?: string | null
           id?: string
+          last_replayed_at?: string | null
+          last_replayed_by?: string | null
           payload?: Json
           processed?: boolean | null
           processed_at?: string
+          replay_count?: number
           signature_ok?: boolean | null
           source_ip?: string | null
         }
         Relationships: []
       }
+      withdrawal_quotes: {
+        Row: {
+          amount_cents: number
+          consumed_at: string | null
+          created_at: string
+          currency: string
+          debit_cents: number | null
+          debit_currency: string
+          expires_at: string
+          fee_cents: number
+          fee_flat_cents: number
+          fee_percent: number
+          fee_schedule_id: string | null
+          fx_rate: number | null
+          id: string
+          local_amount: number | null
+          method: string
+          net_cents: number
+          tier: string
+          user_id: string
+          withdrawal_id: string | null
+        }
+        Insert: {
+          amount_cents: number
+          consumed_at?: string | null
+          created_at?: string
+          currency: string
+          debit_cents?: number | null
+          debit_currency?: string
+          expires_at: string
+          fee_cents: number
+          fee_flat_cents: number
+          fee_percent: number
+          fee_schedule_id?: string | null
+          fx_rate?: number | null
+          id?: string
+          local_amount?: number | null
+          method: string
+          net_cents: number
+          tier: string
+          user_id: string
+          withdrawal_id?: string | null
+        }
+        Update: {
+          amount_cents?: number
+          consumed_at?: string | null
+          created_at?: string
+          currency?: string
+          debit_cents?: number | null
+          debit_currency?: string
+          expires_at?: string
+          fee_cents?: number
+          fee_flat_cents?: number
+          fee_percent?: number
+          fee_schedule_id?: string | null
+          fx_rate?: number | null
+          id?: string
+          local_amount?: number | null
+          method?: string
+          net_cents?: number
+          tier?: string
+          user_id?: string
+          withdrawal_id?: string | null
+        }
+        Relationships: []
+      }
       withdrawals: {
         Row: {
           amount_cents: number
+          claimed_at: string | null
           created_at: string | null
+          debit_cents: number | null
+          debit_currency: string
           fee_cents: number
+          fee_schedule_id: string | null
           fx_at: string | null
           fx_rate: number | null
           id: string
+          last_error: string | null
           local_amount: number | null
           local_currency: string | null
+          method: string | null
           net_cents: number
           next_attempt: string | null
           payment_ref: string | null
+          payout_provider: string | null
           processed_at: string | null
+          quote_id: string | null
           retry_count: number | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
           status: string
           user_id: string
         }
         Insert: {
           amount_cents: number
+          claimed_at?: string | null
           created_at?: string | null
+          debit_cents?: number | null
+          debit_currency?: string
           fee_cents: number
+          fee_schedule_id?: string | null
           fx_at?: string | null
           fx_rate?: number | null
           id?: string
+          last_error?: string | null
           local_amount?: number | null
           local_currency?: string | null
+          method?: string | null
           net_cents: number
           next_attempt?: string | null
           payment_ref?: string | null
+          payout_provider?: string | null
           processed_at?: string | null
+          quote_id?: string | null
           retry_count?: number | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           status?: string
           user_id: string
         }
         Update: {
           amount_cents?: number
+          claimed_at?: string | null
           created_at?: string | null
+          debit_cents?: number | null
+          debit_currency?: string
           fee_cents?: number
+          fee_schedule_id?: string | null
           fx_at?: string | null
           fx_rate?: number | null
           id?: string
+          last_error?: string | null
           local_amount?: number | null
           local_currency?: string | null
+          method?: string | null
           net_cents?: number
           next_attempt?: string | null
           payment_ref?: string | null
+          payout_provider?: string | null
           processed_at?: string | null
+          quote_id?: string | null
           retry_count?: number | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           status?: string
           user_id?: string
         }
@@ -976,6 +1465,33 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      get_fx_quotes: {
+        Args: { p_currency?: string }
+        Returns: {
+          buy_rate: number
+          currency: string
+          fetched_at: string
+          is_stale: boolean
+          max_age_minutes: number
+          mid_rate: number
+          override_expires_at: string
+          override_id: string
+          sell_rate: number
+          source: string
+        }[]
+      }
+      get_my_access: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      has_permission: {
+        Args: { _permission: string; _user_id: string }
+        Returns: boolean
+      }
+      has_role: {
+        Args: { _role: string; _user_id: string }
+        Returns: boolean
+      }
       process_income_event_atomic: {
         Args: {
           amount_cents: number
@@ -1,79 +1,87 @@
 import { useState } from 'react';
-import { ArrowLeft, Upload, Copy } from 'lucide-react';
+import { ArrowLeft, Upload } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import Layout from '@/components/Layout';
-import usdtQrCode from '@/assets/usdt-qr-code.png';
+import CryptoPaymentDetails from '@/components/CryptoPaymentDetails';
+import { initiateDeposit, getCryptoPayInfo, submitCryptoDeposit, uploadProof, verifyCryptoDeposit, CryptoPayInfo } from '@/data/deposits';
 
 const CryptoDeposit = () => {
   const navigate = useNavigate();
-  const { user } = useAuth();
   const [txHash, setTxHash] = useState('');
   const [screenshot, setScreenshot] = useState<File | null>(null);
   const [amount, setAmount] = useState('');
   const [submitting, setSubmitting] = useState(false);
+  const [cryptoDeposit, setCryptoDeposit] = useState<{ depositId: string; payInfo: CryptoPayInfo } | null>(null);
 
-  const usdtAddress = '0x34FEcfBE68b7DC59aebdF42373aac8c9DdEcBd83';
-
-  const handleCryptoDeposit = async () => {
-    if (!amount || !txHash || !screenshot) {
-      toast.error('Please provide amount, transaction hash and screenshot');
+  const handleCryptoAddress = async () => {
+    if (!amount || parseFloat(amount) < 5) {
+      toast.error('Minimum deposit is $5 USDT');
       return;
     }
 
-    if (parseFloat(amount) < 5) {
-      toast.error('Minimum deposit is $5 USDT');
+    setSubmitting(true);
+    try {
+      const initiation = await initiateDeposit({
+        amountUsdCents: Math.floor(parseFloat(amount) * 100),
+        currency: 'USD',
+        provider: 'manual_crypto',
+      });
+
+      const payInfo = getCryptoPayInfo(initiation);
+      if (!payInfo) {
+        throw new Error('No deposit address is available right now');
+      }
+
+      setCryptoDeposit({ depositId: initiation.depositId, payInfo });
+    } catch (error) {
+      console.error('Error creating crypto deposit:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to get a deposit address');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCryptoDeposit = async () => {
+    if (!cryptoDeposit || !txHash || !screenshot) {
+      toast.error('Please provide transaction hash and screenshot');
       return;
     }
 
     setSubmitting(true);
     try {
-      // Upload screenshot to Supabase Storage
-      const fileExt = screenshot.name.split('.').pop();
-      const fileName = `${user?.id}/${Date.now()}.${fileExt}`;
-      
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('deposit-screenshots')
-        .upload(fileName, screenshot);
-
-      if (uploadError) throw uploadError;
-
-      // Create crypto deposit record
-      const { error: depositError } = await supabase
-        .from('deposits')
-        .insert({
-          user_id: user?.id,
-          plan_id: null, // Crypto deposits don't require plan selection
-          amount_usd_cents: Math.floor(parseFloat(amount) * 100),
-          method: 'crypto_manual',
-          status: 'pending',
-          tx_hash: txHash,
-          screenshot_url: uploadData.path
-        });
-
-      if (depositError) throw depositError;
-
-      toast.success('Crypto deposit submitted! You will receive 5% bonus. Processing in progress...');
+      // Checked, stripped of metadata and thumbnailed by upload-proof
+      const proof = await uploadProof(screenshot);
+
+      await submitCryptoDeposit({
+        depositId: cryptoDeposit.depositId,
+        txHash,
+        proofId: proof.proofId,
+      });
+
+      const verification = await verifyCryptoDeposit(cryptoDeposit.depositId).catch((verifyError) => {
+        console.error('Error verifying crypto deposit:', verifyError);
+        return null;
+      });
+
+      if (verification?.status === 'verified') {
+        toast.success('Transaction verified on chain. Your wallet has been credited!');
+      } else {
+        toast.success('Crypto deposit submitted! You will receive 5% bonus. Processing in progress...');
+      }
       navigate('/wallet');
     } catch (error) {
       console.error('Error submitting crypto deposit:', error);
-      toast.error('Failed to submit deposit. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to submit deposit. Please try again.');
     } finally {
       setSubmitting(false);
     }
   };
 
-  const copyAddress = () => {
-    navigator.clipboard.writeText(usdtAddress);
-    toast.success('Address copied to clipboard!');
-  };
-
   return (
     <Layout showBottomNav={false}>
       <div className="min-h-screen bg-background">
@@ -87,9 +95,9 @@ const CryptoDeposit = () => {
 
           <Card className="shadow-card">
             <CardHeader>
-              <CardTitle>USDT (BEP20) Deposit</CardTitle>
+              <CardTitle>USDT Deposit</CardTitle>
               <p className="text-sm text-muted-foreground">
-                Send USDT to the address below and get instant 5% bonus
+                Send USDT to your deposit address and get instant 5% bonus
               </p>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -97,83 +105,80 @@ const CryptoDeposit = () => {
                 <h4 className="font-semibold text-success mb-2">🎉 Instant 5% Deposit Bonus</h4>
                 <ul className="text-sm text-muted-foreground space-y-1">
                   <li>• <strong>Get instant 5% cash back</strong> when you deposit with USDT</li>
-                  <li>• Only supported network is <strong>USDT BEP20</strong></li>
-                  <li>• Send USDT BEP20 from any of your wallets to our address</li>
-                  <li>• Ensure you use the matching network which is <strong>BEP20</strong></li>
+                  <li>• Enter the amount first to get the address for this deposit</li>
+                  <li>• Send <strong>exactly</strong> the amount shown from any of your wallets</li>
+                  <li>• Ensure you use the <strong>network shown</strong> with the address</li>
                   <li>• Minimum deposit is <strong>$5</strong></li>
                   <li>• Any deposit(s) made below minimum will not be credited</li>
                   <li>• <strong>Automated verification — funds + 5% bonus apply after network confirmation</strong></li>
                 </ul>
               </div>
 
-              {/* QR Code */}
-              <div className="text-center">
-                <img src={usdtQrCode} alt="USDT BEP20 QR Code" className="w-48 h-48 mx-auto mb-4 rounded-lg" />
-              </div>
-
-              {/* Address */}
+              {/* Amount */}
               <div>
-                <Label>USDT (BEP20) Address</Label>
-                <div className="flex items-center space-x-2 mt-1">
-                  <Input value={usdtAddress} readOnly className="font-mono text-sm" />
-                  <Button size="icon" variant="outline" onClick={copyAddress}>
-                    <Copy className="h-4 w-4" />
-                  </Button>
-                </div>
+                <Label htmlFor="amount">Amount (USDT)</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  min="5"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="Enter amount in USDT"
+                  disabled={!!cryptoDeposit}
+                />
                 <p className="text-xs text-muted-foreground mt-1">
-                  ⚠️ Only send USDT on BNB Chain (BEP20) network
+                  Minimum: $5 USDT
                 </p>
               </div>
 
-              {/* Verification Form */}
-              <div className="space-y-4 pt-4 border-t">
-                <div>
-                  <Label htmlFor="amount">Amount (USDT)</Label>
-                  <Input 
-                    id="amount" 
-                    type="number"
-                    min="5"
-                    step="0.01"
-                    value={amount} 
-                    onChange={(e) => setAmount(e.target.value)} 
-                    placeholder="Enter amount in USDT" 
-                  />
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Minimum: $5 USDT
-                  </p>
-                </div>
-
-                <div>
-                  <Label htmlFor="txHash">Transaction Hash</Label>
-                  <Input 
-                    id="txHash" 
-                    value={txHash} 
-                    onChange={(e) => setTxHash(e.target.value)} 
-                    placeholder="Enter transaction hash" 
-                  />
-                </div>
-
-                <div>
-                  <Label htmlFor="screenshot">Upload Screenshot</Label>
-                  <Input 
-                    id="screenshot" 
-                    type="file" 
-                    accept="image/*" 
-                    onChange={(e) => setScreenshot(e.target.files?.[0] || null)} 
-                  />
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Upload a clear screenshot of your transaction
-                  </p>
-                </div>
-
-                <Button 
-                  className="w-full" 
-                  onClick={handleCryptoDeposit} 
-                  disabled={!amount || !txHash || !screenshot || submitting}
+              {!cryptoDeposit ? (
+                <Button
+                  className="w-full"
+                  onClick={handleCryptoAddress}
+                  disabled={!amount || submitting}
                 >
-                  {submitting ? 'Processing...' : 'Submit & Get 5% Bonus'}
+                  {submitting ? 'Preparing...' : 'Get Deposit Address'}
                 </Button>
-              </div>
+              ) : (
+                <>
+                  <CryptoPaymentDetails payInfo={cryptoDeposit.payInfo} />
+
+                  {/* Verification Form */}
+                  <div className="space-y-4 pt-4 border-t">
+                    <div>
+                      <Label htmlFor="txHash">Transaction Hash</Label>
+                      <Input 
+                        id="txHash" 
+                        value={txHash} 
+                        onChange={(e) => setTxHash(e.target.value)} 
+                        placeholder="Enter transaction hash" 
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="screenshot">Upload Screenshot</Label>
+                      <Input 
+                        id="screenshot" 
+                        type="file" 
+                        accept="image/jpeg,image/png" 
+                        onChange={(e) => setScreenshot(e.target.files?.[0] || null)} 
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Upload a clear screenshot of your transaction (JPEG or PNG, up to 5 MB)
+                      </p>
+                    </div>
+
+                    <Button 
+                      className="w-full" 
+                      onClick={handleCryptoDeposit} 
+                      disabled={!txHash || !screenshot || submitting}
+                    >
+                      {submitting ? 'Processing...' : 'Submit & Get 5% Bonus'}
+                    </Button>
+                  </div>
+                </>
+              )}
             </CardContent>
           </Card>
         </div>
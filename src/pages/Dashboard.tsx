@@ -6,43 +6,21 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge'; // <-- ADD THIS
 import { useAuth } from '@/contexts/AuthContext';
 import { signOut } from 'firebase/auth';
-import { auth, db } from '@/integrations/firebase';
+import { auth } from '@/integrations/firebase';
+import { getProfile, type Profile } from '@/data/profile';
+import { getWallet, formatCents, type WalletBalances } from '@/data/wallet';
+import { listInvestments, type Investment } from '@/data/investments';
 import { toast } from 'sonner';
 import Layout from '@/components/Layout';
-import { collection, query, where, getDocs } from 'firebase/firestore';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Loader2 } from 'lucide-react';
 
 
-interface UserData {
-  name: string;
-  email: string;
-  balance: number;
-}
-
-interface WalletData {
-  available_cents: number;
-  pending_cents: number;
-  total_earned_cents: number;
-}
-
-interface Investment {
-  id: string;
-  planId: string;
-  planName: string;
-  deposit_usd: number;
-  payout_per_drop_usd: number;
-  drops_count: number;
-  total_return_usd: number;
-  status: string;
-  createdAt: any;
-}
-
 const Dashboard = () => {
   const navigate = useNavigate();
-  const { user, loading: authLoading } = useAuth();
-  const [userData, setUserData] = useState<UserData | null>(null);
-  const [wallet, setWallet] = useState<WalletData | null>(null);
+  const { supabaseUser: user, loading: authLoading } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [wallet, setWallet] = useState<WalletBalances | null>(null);
   const [investments, setInvestments] = useState<Investment[]>([]);
   const [selectedInvestment, setSelectedInvestment] = useState<Investment | null>(null);
   const [loading, setLoading] = useState(true);
@@ -55,32 +33,15 @@ const Dashboard = () => {
       try {
         setLoading(true);
 
-        // Fetch user info
-        const userQuery = query(collection(db, 'users'), where('email', '==', user.email));
-        const userSnap = await getDocs(userQuery);
-        if (!userSnap.empty) {
-          const data = userSnap.docs[0].data() as any;
-          setUserData({
-            name: data.name || 'User',
-            email: data.email,
-            balance: data.balance || 0,
-          });
-        }
-
-        // Fetch wallet info
-        const walletQuery = query(collection(db, 'wallets'), where('user_id', '==', user.uid));
-        const walletSnap = await getDocs(walletQuery);
-        if (!walletSnap.empty) {
-          setWallet(walletSnap.docs[0].data() as WalletData);
-        }
-
-        // Fetch investments
-        const investQuery = query(collection(db, 'investments'), where('userEmail', '==', user.email));
-        const investSnap = await getDocs(investQuery);
-        const invs: Investment[] = investSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Investment));
-        invs.sort((a, b) => (b.createdAt?.seconds || 0) - (a.createdAt?.seconds || 0));
-        setInvestments(invs);
+        const [profileData, walletData, investmentData] = await Promise.all([
+          getProfile(user.id),
+          getWallet(user.id),
+          listInvestments(user.id),
+        ]);
 
+        setProfile(profileData);
+        setWallet(walletData);
+        setInvestments(investmentData);
       } catch (err) {
         console.error(err);
         toast.error('Failed to load dashboard');
@@ -92,9 +53,6 @@ const Dashboard = () => {
     loadDashboardData();
   }, [user]);
 
-  const formatUSD = (amount: number) =>
-    `$${amount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
-
   const handleLogout = async () => {
     try {
       await signOut(auth);
@@ -122,9 +80,9 @@ const Dashboard = () => {
         {/* Header */}
         <div className="flex justify-between items-center mb-6">
           <div>
-            <h1 className="text-2xl font-bold">Welcome Back, {userData?.name}</h1>
+            <h1 className="text-2xl font-bold">Welcome Back, {profile?.full_name || 'User'}</h1>
             <p className="mt-1 font-semibold text-lg">
-              Balance: {formatUSD(userData?.balance || 0)}
+              Balance: {formatCents(wallet?.available_cents || 0)}
             </p>
           </div>
           <div className="flex flex-col items-end space-y-2">
@@ -146,19 +104,19 @@ const Dashboard = () => {
             <div className="grid grid-cols-3 gap-4">
               <div className="text-center">
                 <div className="text-2xl font-bold text-secondary">
-                  {userData ? formatUSD(userData.balance) : '$0.00'}
+                  {formatCents(wallet?.available_cents || 0)}
                 </div>
                 <div className="text-sm text-muted-foreground">Available</div>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-warning">
-                  {wallet ? formatUSD(wallet.pending_cents / 100) : '$0.00'}
+                  {formatCents(wallet?.pending_cents || 0)}
                 </div>
                 <div className="text-sm text-muted-foreground">Pending</div>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-info">
-                  {wallet ? formatUSD(wallet.total_earned_cents / 100) : '$0.00'}
+                  {formatCents(wallet?.total_earned_cents || 0)}
                 </div>
                 <div className="text-sm text-muted-foreground">Total Earned</div>
               </div>
@@ -188,11 +146,13 @@ const Dashboard = () => {
                 <Card key={inv.id} className="hover:shadow-md cursor-pointer" onClick={() => { setSelectedInvestment(inv); setModalOpen(true); }}>
                   <CardContent className="flex justify-between items-center">
                     <div>
-                      <p className="font-semibold">{inv.planName}</p>
-                      <p className="text-xs text-muted-foreground">Deposited: {formatUSD(inv.deposit_usd)}</p>
+                      <p className="font-semibold">{inv.plan_name}</p>
+                      <p className="text-xs text-muted-foreground">Deposited: {formatCents(inv.amount_usd_cents)}</p>
                     </div>
                     <div className="text-right">
-                      <Badge variant={inv.status === 'active' ? 'secondary' : 'destructive'}>{inv.status}</Badge>
+                      <Badge variant={inv.status === 'confirmed' ? 'secondary' : 'outline'}>
+                        {inv.status === 'confirmed' ? 'active' : inv.status}
+                      </Badge>
                     </div>
                   </CardContent>
                 </Card>
@@ -209,13 +169,13 @@ const Dashboard = () => {
             </DialogHeader>
             {selectedInvestment && (
               <div className="space-y-2 p-2">
-                <p><strong>Plan:</strong> {selectedInvestment.planName}</p>
-                <p><strong>Deposit:</strong> {formatUSD(selectedInvestment.deposit_usd)}</p>
-                <p><strong>Payout per Drop:</strong> {formatUSD(selectedInvestment.payout_per_drop_usd)}</p>
-                <p><strong>Drops Count:</strong> {selectedInvestment.drops_count}</p>
-                <p><strong>Total Return:</strong> {formatUSD(selectedInvestment.total_return_usd)}</p>
+                <p><strong>Plan:</strong> {selectedInvestment.plan_name}</p>
+                <p><strong>Deposit:</strong> {formatCents(selectedInvestment.amount_usd_cents)}</p>
+                <p><strong>Payout per Drop:</strong> {formatCents(selectedInvestment.payout_per_drop_usd)}</p>
+                <p><strong>Drops Paid:</strong> {selectedInvestment.drops_paid} of {selectedInvestment.drops_count}</p>
+                <p><strong>Total Return:</strong> {formatCents(selectedInvestment.total_return_usd)}</p>
                 <p><strong>Status:</strong> {selectedInvestment.status}</p>
-                <p><strong>Created At:</strong> {new Date(selectedInvestment.createdAt?.seconds * 1000).toLocaleString()}</p>
+                <p><strong>Created At:</strong> {selectedInvestment.created_at ? new Date(selectedInvestment.created_at).toLocaleString() : 'N/A'}</p>
               </div>
             )}
             <Button className="w-full mt-4" onClick={() => setModalOpen(false)}>Close</Button>
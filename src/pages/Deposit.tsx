@@ -1,17 +1,21 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
-import { CreditCard, Smartphone, Copy, Upload, ArrowLeft } from 'lucide-react';
+import { CreditCard, Smartphone, Upload, ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import Layout from '@/components/Layout';
 import { CountrySelector } from '@/components/CountrySelector';
-import usdtQrCode from '@/assets/usdt-qr-code.png';
+import CryptoPaymentDetails from '@/components/CryptoPaymentDetails';
+import { initiateDeposit, getPaymentRedirectUrl, getCryptoPayInfo, submitCryptoDeposit, uploadProof, verifyCryptoDeposit, CryptoPayInfo, MOBILE_MONEY_PROVIDERS, PaymentProviderName } from '@/data/deposits';
+import { getFxQuotes } from '@/data/fx';
+import { listCountries, MOBILE_MONEY_OPERATOR_LABELS } from '@/data/countries';
+// Deposit methods that collect in the local currency, in order of preference
+const LOCAL_PROVIDERS: PaymentProviderName[] = ['basepay', ...MOBILE_MONEY_PROVIDERS];
 interface Plan {
   id: string;
   name: string;
@@ -24,26 +28,29 @@ interface ExchangeRate {
   country_code: string;
   currency: string;
   currency_symbol: string;
-  rate_to_usd: number;
+  minor_units: number;
+  dial_code: string;
+  // Which local gateway the country pays through
+  provider: PaymentProviderName;
+  // Deposit (buy) rate per USD; null while no usable rate is available
+  rate: number | null;
 }
 const Deposit = () => {
   const navigate = useNavigate();
-  const {
-    user
-  } = useAuth();
   const [searchParams] = useSearchParams();
   const selectedPlanId = searchParams.get('plan');
   const [plan, setPlan] = useState<Plan | null>(null);
   const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
   const [selectedCountry, setSelectedCountry] = useState('');
   const [localAmount, setLocalAmount] = useState('');
+  const [msisdn, setMsisdn] = useState('');
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
 
   // Crypto deposit form
   const [txHash, setTxHash] = useState('');
   const [screenshot, setScreenshot] = useState<File | null>(null);
-  const usdtAddress = '0x34FEcfBE68b7DC59aebdF42373aac8c9DdEcBd83';
+  const [cryptoDeposit, setCryptoDeposit] = useState<{ depositId: string; payInfo: CryptoPayInfo } | null>(null);
   useEffect(() => {
     loadDepositData();
   }, [selectedPlanId]);
@@ -59,13 +66,22 @@ const Deposit = () => {
         setPlan(planData);
       }
 
-      // Load exchange rates
-      const {
-        data: ratesData,
-        error: ratesError
-      } = await supabase.from('exchange_rates').select('*').order('country_code');
-      if (ratesError) throw ratesError;
-      setExchangeRates(ratesData || []);
+      // Countries with a local currency gateway and the rate deposits in them are priced at
+      const [countries, quotes] = await Promise.all([listCountries(), getFxQuotes()]);
+      setExchangeRates(countries.flatMap(country => {
+        const provider = LOCAL_PROVIDERS.find(name => country.deposit_methods.includes(name));
+        if (!provider) return [];
+        const quote = quotes.find(q => q.currency === country.currency);
+        return [{
+          country_code: country.code,
+          currency: country.currency,
+          currency_symbol: country.currency_symbol,
+          minor_units: country.currency_minor_units,
+          dial_code: country.dial_code,
+          provider,
+          rate: quote && !quote.isStale ? quote.buyRate : null
+        }];
+      }));
     } catch (error) {
       console.error('Error loading deposit data:', error);
       toast.error('Failed to load deposit information');
@@ -82,73 +98,121 @@ const Deposit = () => {
   };
   const getLocalAmountFromUSD = () => {
     const rate = getSelectedRate();
-    if (!rate) return '';
+    if (!rate?.rate) return '';
     const usdAmount = getUSDAmount();
-    return (usdAmount * rate.rate_to_usd).toFixed(2);
+    return (usdAmount * rate.rate).toFixed(rate.minor_units);
+  };
+  const isMobileMoney = () => {
+    const rate = getSelectedRate();
+    return !!rate && MOBILE_MONEY_PROVIDERS.includes(rate.provider);
   };
   const getUSDFromLocal = () => {
     const rate = getSelectedRate();
-    if (!rate || !localAmount) return 0;
-    return parseFloat(localAmount) / rate.rate_to_usd;
+    if (!rate?.rate || !localAmount) return 0;
+    return parseFloat(localAmount) / rate.rate;
   };
   const handleBasePayment = async () => {
     if (!plan || !selectedCountry) {
       toast.error('Please select a country');
       return;
     }
+    const rate = getSelectedRate();
+    if (!rate) {
+      toast.error('Local currency payment is not available for this country');
+      return;
+    }
+    if (!rate.rate) {
+      toast.error(`${rate.currency} payments are paused while we update exchange rates. Please try again shortly.`);
+      return;
+    }
+    const mobileMoney = isMobileMoney();
+    if (mobileMoney && !msisdn) {
+      toast.error('Please enter your mobile money number');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const initiation = await initiateDeposit({
+        planId: plan.id,
+        currency: rate.currency,
+        countryCode: selectedCountry,
+        provider: rate.provider,
+        ...(mobileMoney ? { msisdn } : {})
+      });
+      if (mobileMoney) {
+        // The operator prompts the payer's phone; the deposit completes on its callback
+        toast.success(`Approve the payment of ${rate.currency_symbol}${initiation.localAmount} on your phone to activate your plan.`);
+        navigate('/wallet');
+        return;
+      }
+      const redirectUrl = getPaymentRedirectUrl(initiation);
+      if (!redirectUrl) {
+        throw new Error('Payment gateway did not return a payment page');
+      }
+      window.location.href = redirectUrl;
+    } catch (error) {
+      console.error('Error initiating deposit:', error);
+      toast.error(error instanceof Error ? error.message : 'Payment failed. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+  const handleCryptoAddress = async () => {
+    if (!plan) return;
     setSubmitting(true);
     try {
-      // This would call the Base payment API through Edge Function
-      // For now, we'll show a placeholder
-      toast.info('Base payment integration coming soon!');
+      const initiation = await initiateDeposit({
+        planId: plan.id,
+        currency: 'USD',
+        provider: 'manual_crypto'
+      });
+      const payInfo = getCryptoPayInfo(initiation);
+      if (!payInfo) {
+        throw new Error('No deposit address is available right now');
+      }
+      setCryptoDeposit({
+        depositId: initiation.depositId,
+        payInfo
+      });
     } catch (error) {
-      toast.error('Payment failed. Please try again.');
+      console.error('Error creating crypto deposit:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to get a deposit address');
     } finally {
       setSubmitting(false);
     }
   };
   const handleCryptoDeposit = async () => {
-    if (!plan || !txHash || !screenshot) {
+    if (!plan || !cryptoDeposit || !txHash || !screenshot) {
       toast.error('Please provide transaction hash and screenshot');
       return;
     }
     setSubmitting(true);
     try {
-      // Upload screenshot to Supabase Storage
-      const fileExt = screenshot.name.split('.').pop();
-      const fileName = `${user?.id}/${Date.now()}.${fileExt}`;
-      const {
-        data: uploadData,
-        error: uploadError
-      } = await supabase.storage.from('deposit-screenshots').upload(fileName, screenshot);
-      if (uploadError) throw uploadError;
+      // Checked, stripped of metadata and thumbnailed by upload-proof
+      const proof = await uploadProof(screenshot);
 
-      // Create deposit record
-      const {
-        error: depositError
-      } = await supabase.from('deposits').insert({
-        user_id: user?.id,
-        plan_id: plan.id,
-        amount_usd_cents: plan.deposit_usd,
-        method: 'crypto_manual',
-        status: 'pending',
-        tx_hash: txHash,
-        screenshot_url: uploadData.path
+      await submitCryptoDeposit({
+        depositId: cryptoDeposit.depositId,
+        txHash,
+        proofId: proof.proofId
+      });
+      const verification = await verifyCryptoDeposit(cryptoDeposit.depositId).catch(verifyError => {
+        console.error('Error verifying crypto deposit:', verifyError);
+        return null;
       });
-      if (depositError) throw depositError;
-      toast.success('Deposit submitted for verification! You will be notified once approved.');
+      if (verification?.status === 'verified') {
+        toast.success('Transaction verified on chain. Your plan is now active!');
+      } else {
+        toast.success('Deposit submitted for verification! You will be notified once approved.');
+      }
       navigate('/wallet');
     } catch (error) {
       console.error('Error submitting crypto deposit:', error);
-      toast.error('Failed to submit deposit. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to submit deposit. Please try again.');
     } finally {
       setSubmitting(false);
     }
   };
-  const copyAddress = () => {
-    navigator.clipboard.writeText(usdtAddress);
-    toast.success('Address copied to clipboard!');
-  };
   if (loading) {
     return <Layout>
         <div className="min-h-screen flex items-center justify-center">
@@ -211,18 +275,18 @@ const Deposit = () => {
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="base" className="flex items-center gap-2">
                 <CreditCard className="h-4 w-4" />
-                💳 Naira Deposit
+                💳 Local Currency
               </TabsTrigger>
               <TabsTrigger value="crypto" className="flex items-center gap-2">
                 <Smartphone className="h-4 w-4" />
-                📱 USDT (BEP20)
+                📱 USDT
               </TabsTrigger>
             </TabsList>
 
             <TabsContent value="base" className="mt-6">
               <Card className="shadow-card">
                 <CardHeader>
-                  <CardTitle>Pay with Naira Deposit</CardTitle>
+                  <CardTitle>Pay in Local Currency</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {/* Active Investments Section */}
@@ -247,7 +311,7 @@ const Deposit = () => {
                     <CountrySelector value={selectedCountry} onValueChange={setSelectedCountry} disabled={submitting} />
                   </div>
 
-                  {selectedCountry && selectedCountry !== 'OTHER' && <div className="p-4 bg-muted/50 rounded-lg">
+                  {selectedCountry && selectedCountry !== 'OTHER' && getSelectedRate()?.rate && <div className="p-4 bg-muted/50 rounded-lg">
                       <div className="flex justify-between items-center mb-2">
                         <span>Amount ({getSelectedRate()?.currency}):</span>
                         <span className="font-semibold text-lg">
@@ -259,7 +323,25 @@ const Deposit = () => {
                         <span className="font-semibold">${getUSDAmount().toFixed(2)}</span>
                       </div>
                       <p className="text-xs text-muted-foreground mt-2">
-                        Rate: 1 USD = {getSelectedRate()?.rate_to_usd} {getSelectedRate()?.currency}
+                        Rate: 1 USD = {getSelectedRate()?.rate} {getSelectedRate()?.currency}
+                      </p>
+                    </div>}
+
+                  {selectedCountry && selectedCountry !== 'OTHER' && isMobileMoney() && <div>
+                      <Label htmlFor="msisdn">
+                        {MOBILE_MONEY_OPERATOR_LABELS[getSelectedRate()?.provider ?? ''] || 'Mobile Money'} Number
+                      </Label>
+                      <Input id="msisdn" type="tel" value={msisdn} onChange={e => setMsisdn(e.target.value)} placeholder={`${getSelectedRate()?.dial_code}...`} disabled={submitting} />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        You will be asked to approve the payment on this phone
+                      </p>
+                    </div>}
+
+                  {selectedCountry && selectedCountry !== 'OTHER' && getSelectedRate() && !getSelectedRate()?.rate && <div className="p-4 bg-warning/10 border border-warning/20 rounded-lg">
+                      <p className="text-sm font-medium text-warning mb-2">Exchange Rate Unavailable</p>
+                      <p className="text-sm text-muted-foreground">
+                        {getSelectedRate()?.currency} payments are paused while we update exchange rates.
+                        Please try again shortly or pay with USDT.
                       </p>
                     </div>}
 
@@ -295,62 +377,49 @@ const Deposit = () => {
             <TabsContent value="crypto" className="mt-6">
               <Card className="shadow-card">
                 <CardHeader>
-                  <CardTitle>USDT (BEP20) Deposit</CardTitle>
+                  <CardTitle>USDT Deposit</CardTitle>
                   <p className="text-sm text-muted-foreground">
-                    Send exactly ${getUSDAmount().toFixed(2)} USDT to the address below
+                    Send exactly {cryptoDeposit ? cryptoDeposit.payInfo.amount : getUSDAmount().toFixed(2)} USDT to your deposit address
                   </p>
                 </CardHeader>
                 <CardContent className="space-y-6">
                   <div className="bg-warning/10 border border-warning/20 rounded-lg p-4">
                     <h4 className="font-semibold text-warning mb-2">USDT Deposit Instructions</h4>
                     <ul className="text-sm text-muted-foreground space-y-1">
-                      <li>• Send EXACTLY ${getUSDAmount().toFixed(2)} USDT to the address below</li>
-                      <li>• Use ONLY BNB Chain (BEP20) network - other networks will result in loss</li>
+                      <li>• Send EXACTLY the amount shown to the address generated for this deposit</li>
+                      <li>• Use ONLY the network shown - other networks will result in loss</li>
                       <li>• Double-check the address before sending</li>
                       <li>• Save your transaction hash for verification</li>
                       <li>• Upload a clear screenshot of the completed transaction</li>
-                      <li>• Manual verification takes 1-24 hours</li>
+                      <li>• Confirmed transfers are verified automatically; anything else is reviewed within 1-24 hours</li>
                     </ul>
                   </div>
 
-                  {/* QR Code */}
-                  <div className="text-center">
-                    <img src={usdtQrCode} alt="USDT BEP20 QR Code" className="w-48 h-48 mx-auto mb-4 rounded-lg" />
-                  </div>
+                  {!cryptoDeposit ? <Button className="w-full" variant="primary_gradient" onClick={handleCryptoAddress} disabled={submitting}>
+                      {submitting ? 'Preparing...' : 'Get Deposit Address'}
+                    </Button> : <>
+                    <CryptoPaymentDetails payInfo={cryptoDeposit.payInfo} />
 
-                  {/* Address */}
-                  <div>
-                    <Label>USDT (BEP20) Address</Label>
-                    <div className="flex items-center space-x-2 mt-1">
-                      <Input value={usdtAddress} readOnly className="font-mono text-sm" />
-                      <Button size="icon" variant="outline" onClick={copyAddress}>
-                        <Copy className="h-4 w-4" />
-                      </Button>
-                    </div>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      ⚠️ Only send USDT on BNB Chain (BEP20) network
-                    </p>
-                  </div>
+                    {/* Verification Form */}
+                    <div className="space-y-4 pt-4 border-t">
+                      <div>
+                        <Label htmlFor="txHash">Transaction Hash</Label>
+                        <Input id="txHash" value={txHash} onChange={e => setTxHash(e.target.value)} placeholder="Enter transaction hash" />
+                      </div>
 
-                  {/* Verification Form */}
-                  <div className="space-y-4 pt-4 border-t">
-                    <div>
-                      <Label htmlFor="txHash">Transaction Hash</Label>
-                      <Input id="txHash" value={txHash} onChange={e => setTxHash(e.target.value)} placeholder="Enter transaction hash" />
-                    </div>
+                      <div>
+                        <Label htmlFor="screenshot">Upload Screenshot</Label>
+                        <Input id="screenshot" type="file" accept="image/jpeg,image/png" onChange={e => setScreenshot(e.target.files?.[0] || null)} />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Upload a screenshot of your transaction (JPEG or PNG, up to 5 MB)
+                        </p>
+                      </div>
 
-                    <div>
-                      <Label htmlFor="screenshot">Upload Screenshot</Label>
-                      <Input id="screenshot" type="file" accept="image/*" onChange={e => setScreenshot(e.target.files?.[0] || null)} />
-                      <p className="text-xs text-muted-foreground mt-1">
-                        Upload a screenshot of your transaction
-                      </p>
+                      <Button className="w-full" variant="primary_gradient" onClick={handleCryptoDeposit} disabled={!txHash || !screenshot || submitting}>
+                        {submitting ? 'Submitting...' : 'Submit for Verification'}
+                      </Button>
                     </div>
-
-                    <Button className="w-full" variant="primary_gradient" onClick={handleCryptoDeposit} disabled={!txHash || !screenshot || submitting}>
-                      {submitting ? 'Submitting...' : 'Submit for Verification'}
-                    </Button>
-                  </div>
+                    </>}
                 </CardContent>
               </Card>
             </TabsContent>
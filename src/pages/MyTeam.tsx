@@ -22,7 +22,7 @@ interface ReferralData {
 }
 
 const MyTeam = () => {
-  const { user } = useAuth();
+  const { supabaseUser: user } = useAuth();
   const [referralData, setReferralData] = useState<ReferralData | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -20,8 +20,24 @@ interface Plan {
   total_return_usd: number;
   is_locked: boolean;
   sort_order: number;
+  schedule_kind: string;
+  schedule_interval_minutes: number | null;
+  schedule_time_of_day: string | null;
+  skip_weekends: boolean;
 }
 
+// Drop cadence as users should read it; schedules are evaluated in UTC
+const describeSchedule = (plan: Plan) => {
+  let cadence = 'on a custom schedule';
+  if (plan.schedule_kind === 'interval' && plan.schedule_interval_minutes) {
+    const minutes = plan.schedule_interval_minutes;
+    cadence = minutes % 60 === 0 ? `every ${minutes / 60} hours` : `every ${minutes} minutes`;
+  } else if (plan.schedule_kind === 'daily' && plan.schedule_time_of_day) {
+    cadence = `daily at ${plan.schedule_time_of_day.slice(0, 5)} UTC`;
+  }
+  return plan.skip_weekends ? `${cadence}, weekdays only` : cadence;
+};
+
 const Plans = () => {
   const navigate = useNavigate();
   const [plans, setPlans] = useState<Plan[]>([]);
@@ -173,6 +189,7 @@ const Plans = () => {
                         <p className="text-sm font-semibold text-white">
                           {plan.drops_count} times
                         </p>
+                        <p className="text-xs text-white/70">{describeSchedule(plan)}</p>
                       </div>
                     </div>
 
@@ -6,79 +6,44 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
-import { auth, db } from '@/integrations/firebase';
+import { auth } from '@/integrations/firebase';
 import { useAuth } from '@/contexts/AuthContext';
 import { signOut } from 'firebase/auth';
-import { collection, query, where, getDocs, updateDoc, doc } from 'firebase/firestore';
+import { getProfile, updateProfile, type Profile as ProfileRow, type ProfileUpdate } from '@/data/profile';
+import { getWallet, formatCents, type WalletBalances } from '@/data/wallet';
 import Layout from '@/components/Layout';
 import { CountrySelector } from '@/components/CountrySelector';
 import { Loader2 } from 'lucide-react';
 
 
-interface UserData {
-  name?: string;
-  email: string;
-  phone?: string;
-  country?: string;
-  city?: string;
-  address?: string;
-  referralCode?: string;
-  balance: number;
-}
-
-interface WalletData {
-  available_cents: number;
-  pending_cents: number;
-  total_earned_cents: number;
-}
-
 const Profile = () => {
   const navigate = useNavigate();
-  const { user, loading: authLoading } = useAuth();
-  const [userData, setUserData] = useState<UserData | null>(null);
-  const [wallet, setWallet] = useState<WalletData | null>(null);
+  const { supabaseUser: user, loading: authLoading } = useAuth();
+  const [profile, setProfile] = useState<ProfileRow | null>(null);
+  const [form, setForm] = useState<ProfileUpdate>({});
+  const [wallet, setWallet] = useState<WalletBalances | null>(null);
   const [loading, setLoading] = useState(true);
   const [isEditMode, setIsEditMode] = useState(false);
   const [saving, setSaving] = useState(false);
 
-    const formatUSD = (amount: number) =>
-    `$${amount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
-
-
   useEffect(() => {
     if (!user) return;
 
     const loadProfile = async () => {
       setLoading(true);
       try {
-        // Fetch user data
-        const userQuery = query(collection(db, 'users'), where('email', '==', user.email));
-        const userSnap = await getDocs(userQuery);
-        if (!userSnap.empty) {
-          const data = userSnap.docs[0].data();
-          setUserData({
-            name: data.name || 'N/A',
-            email: data.email,
-            phone: data.phone || 'N/A',
-            country: data.country || 'N/A',
-            city: data.city || 'N/A',
-            address: data.address || 'N/A',
-            referralCode: data.referralCode || 'N/A',
-            balance: data.balance || 0,
-          });
-        } else {
-          console.warn('No user found for email:', user.email);
-        }
+        const [profileData, walletData] = await Promise.all([
+          getProfile(user.id),
+          getWallet(user.id),
+        ]);
 
-        // Fetch wallet data
-        const walletQuery = query(collection(db, 'wallets'), where('user_id', '==', user.uid));
-        const walletSnap = await getDocs(walletQuery);
-        if (!walletSnap.empty) {
-          setWallet(walletSnap.docs[0].data() as WalletData);
-        } else {
-          console.warn('No wallet found for user id:', user.uid);
+        if (!profileData) {
+          console.warn('No profile found for user id:', user.id);
         }
 
+        setProfile(profileData);
+        setForm({ phone: profileData?.phone ?? '', country: profileData?.country ?? '' });
+        setWallet(walletData);
       } catch (err) {
         console.error(err);
         toast.error('Failed to load profile');
@@ -91,25 +56,17 @@ const Profile = () => {
   }, [user]);
 
   const handleSaveProfile = async () => {
-    if (!userData || !user) return;
+    if (!user) return;
 
     setSaving(true);
     try {
-      const userQuery = query(collection(db, 'users'), where('email', '==', user.email));
-      const userSnap = await getDocs(userQuery);
-      if (!userSnap.empty) {
-        const docRef = doc(db, 'users', userSnap.docs[0].id);
-        await updateDoc(docRef, {
-          phone: userData.phone === 'N/A' ? '' : userData.phone,
-          country: userData.country === 'N/A' ? '' : userData.country,
-          city: userData.city === 'N/A' ? '' : userData.city,
-          address: userData.address === 'N/A' ? '' : userData.address,
-        });
-        toast.success('Profile updated successfully');
-        setIsEditMode(false);
-      } else {
-        toast.error('User not found');
-      }
+      const updated = await updateProfile(user.id, {
+        phone: form.phone || null,
+        country: form.country || null,
+      });
+      setProfile(updated);
+      toast.success('Profile updated successfully');
+      setIsEditMode(false);
     } catch (err) {
       console.error(err);
       toast.error('Failed to save profile');
@@ -130,8 +87,8 @@ const Profile = () => {
   };
 
   const copyReferralCode = () => {
-    if (userData?.referralCode) {
-      navigator.clipboard.writeText(userData.referralCode);
+    if (profile?.referral_code) {
+      navigator.clipboard.writeText(profile.referral_code);
       toast.success('Referral code copied!');
     }
   };
@@ -154,21 +111,21 @@ const Profile = () => {
           <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
             <ArrowLeft className="h-6 w-6" />
           </Button>
-          <span className="font-semibold">Tel: {userData?.phone || 'N/A'}</span>
+          <span className="font-semibold">Tel: {profile?.phone || 'N/A'}</span>
         </div>
 
         {/* Wallet */}
         <div className="grid grid-cols-2 gap-4 mb-6">
           <Card>
             <CardContent className="text-center">
-              <div className="font-semibold">Recharge Balance</div>
-              <div>{wallet ? formatUSD(wallet.pending_cents) : 'USDT 0.00'}</div>
+              <div className="font-semibold">Pending Balance</div>
+              <div>{formatCents(wallet?.pending_cents || 0)}</div>
             </CardContent>
           </Card>
           <Card>
             <CardContent className="text-center">
               <div className="font-semibold">Withdrawable Balance</div>
-              <div>{wallet ? formatUSD(wallet.available_cents) : 'USDT 0.00'}</div>
+              <div>{formatCents(wallet?.available_cents || 0)}</div>
             </CardContent>
           </Card>
         </div>
@@ -178,7 +135,7 @@ const Profile = () => {
           <CardContent className="flex justify-between items-center">
             <div>
               <div className="font-semibold">Total Balance</div>
-              <div className="text-2xl font-bold">{userData ? formatUSD(userData.balance) : 'USDT 0.00'}</div>
+              <div className="text-2xl font-bold">{formatCents((wallet?.available_cents || 0) + (wallet?.pending_cents || 0))}</div>
             </div>
             <div className="flex gap-2">
               <Button onClick={() => navigate('/plans')}>Recharge</Button>
@@ -201,11 +158,11 @@ const Profile = () => {
               <div className="space-y-4">
                 <div>
                   <Label>Phone</Label>
-                  <Input value={userData?.phone || ''} onChange={(e) => setUserData({ ...userData, phone: e.target.value })} />
+                  <Input value={form.phone || ''} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
                 </div>
                 <div>
                   <Label>Country</Label>
-                  <CountrySelector value={userData?.country || ''} onValueChange={(val) => setUserData({ ...userData, country: val })} />
+                  <CountrySelector value={form.country || ''} onValueChange={(val) => setForm({ ...form, country: val })} />
                 </div>
                 <Button onClick={handleSaveProfile} disabled={saving}>
                   {saving ? 'Saving...' : 'Save Changes'}
@@ -213,12 +170,12 @@ const Profile = () => {
               </div>
             ) : (
               <div className="space-y-2">
-                <div className="flex justify-between"><span>Phone:</span><span>{userData?.phone || 'N/A'}</span></div>
-                <div className="flex justify-between"><span>Country:</span><span>{userData?.country || 'N/A'}</span></div>
+                <div className="flex justify-between"><span>Phone:</span><span>{profile?.phone || 'N/A'}</span></div>
+                <div className="flex justify-between"><span>Country:</span><span>{profile?.country || 'N/A'}</span></div>
                 <div className="flex justify-between items-center">
                   <span>Referral Code:</span>
                   <div className="flex items-center gap-2">
-                    <span>{userData?.referralCode || 'N/A'}</span>
+                    <span>{profile?.referral_code || 'N/A'}</span>
                     <Button size="sm" onClick={copyReferralCode}><Copy className="h-4 w-4" /></Button>
                   </div>
                 </div>
@@ -1,15 +1,8 @@
-// src/pages/TransactionsFirebase.tsx
+// src/pages/Transactions.tsx
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { db } from '@/integrations/firebase';
-import {
-  collection,
-  query,
-  where,
-  onSnapshot,
-  QueryDocumentSnapshot,
-  DocumentData
-} from 'firebase/firestore';
+import { listWalletTransactions, formatMoney, type WalletTransaction, type WalletTransactionType } from '@/data/wallet';
+import { listCurrencies, type CurrencyInfo } from '@/data/countries';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -19,107 +12,130 @@ import { toast } from 'sonner';
 import Layout from '@/components/Layout';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 
-interface Transaction {
-  id: string;
-  userEmail: string;
-  type: string;
-  amount_usd?: number;
-  amount?: number; // for withdrawals
-  amountCrypto?: number;
-  currency?: string;
-  createdAt: any; // Firestore Timestamp
-  status: string;
-  note?: string;
-  txHash?: string;
-  card?: { last4: string; expiry: string };
-  bank?: { name: string; number: string; accountName: string };
+type TransactionFilter = 'all' | 'deposit' | 'withdrawal' | 'income' | 'referral';
+
+interface TransactionMeta {
+  description?: string;
+  original_type?: string;
+  original_status?: string;
+  tx_hash?: string;
 }
 
-const TransactionsFirebase = () => {
-  const { user } = useAuth();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'deposit' | 'withdrawal' | 'crypto'>('all');
-  const [selectedTx, setSelectedTx] = useState<Transaction | null>(null);
+const TRANSACTION_LABELS: Record<string, string> = {
+  deposit: 'Deposit',
+  deposit_bonus: 'Deposit Bonus',
+  income: 'Income Drop',
+  withdrawal: 'Withdrawal',
+  referral: 'Referral Bonus',
+  welcome_bonus: 'Welcome Bonus',
+  refund: 'Refund',
+  migration: 'Balance Carried Over',
+  legacy: 'Previous System',
+  dispute_hold: 'Frozen (Payment Disputed)',
+  dispute_release: 'Unfrozen',
+  chargeback: 'Chargeback',
+  referral_clawback: 'Referral Bonus Reversed',
+  conversion_out: 'Converted Out',
+  conversion_in: 'Converted In',
+};
 
-  useEffect(() => {
-    if (!user?.email) return;
+// Firestore history shows under the filter matching its original type
+const FILTER_TYPES: Record<Exclude<TransactionFilter, 'all'>, WalletTransactionType[]> = {
+  deposit: ['deposit', 'refund', 'chargeback', 'dispute_hold', 'dispute_release', 'legacy'],
+  withdrawal: ['withdrawal', 'legacy'],
+  income: ['income', 'deposit_bonus', 'welcome_bonus', 'migration'],
+  referral: ['referral', 'referral_clawback'],
+};
+
+const getMeta = (tx: WalletTransaction) => (tx.meta || {}) as TransactionMeta;
 
-    setLoading(true);
+const DEBIT_TYPES = ['withdrawal', 'refund', 'chargeback', 'dispute_hold', 'referral_clawback', 'conversion_out'];
 
-    const q = query(collection(db, 'transactions'), where('userEmail', '==', user.email));
+const isDebit = (tx: WalletTransaction) =>
+  DEBIT_TYPES.includes(tx.type) || (tx.type === 'legacy' && getMeta(tx).original_type === 'withdrawal');
 
-    const unsubscribe = onSnapshot(
-      q,
-      (snapshot) => {
-        const txs: Transaction[] = snapshot.docs.map(
-          (doc: QueryDocumentSnapshot<DocumentData>) => ({
-            id: doc.id,
-            ...doc.data()
-          })
-        ) as Transaction[];
+const Transactions = () => {
+  const { supabaseUser: user } = useAuth();
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<TransactionFilter>('all');
+  const [selectedTx, setSelectedTx] = useState<WalletTransaction | null>(null);
+  const [currencies, setCurrencies] = useState<Record<string, CurrencyInfo>>({});
+
+  useEffect(() => {
+    listCurrencies()
+      .then(setCurrencies)
+      .catch((error) => console.error('Error loading currencies:', error));
+  }, []);
 
-        // Sort by createdAt descending
-        txs.sort((a, b) => (b.createdAt?.seconds || 0) - (a.createdAt?.seconds || 0));
+  useEffect(() => {
+    if (!user) return;
 
-        const filteredTxs =
-          filter === 'all' ? txs : txs.filter((tx) => tx.type === filter);
+    const loadTransactions = async () => {
+      setLoading(true);
+      try {
+        const txs = await listWalletTransactions(user.id, {
+          types: filter === 'all' ? undefined : FILTER_TYPES[filter],
+          limit: 200,
+        });
 
-        setTransactions(filteredTxs);
-        setLoading(false);
-      },
-      (err) => {
+        setTransactions(
+          filter === 'all'
+            ? txs
+            : txs.filter((tx) => tx.type !== 'legacy' || getMeta(tx).original_type === filter)
+        );
+      } catch (err) {
         console.error('Error fetching transactions:', err);
         toast.error('Failed to fetch transactions');
+      } finally {
         setLoading(false);
       }
-    );
-
-    return () => unsubscribe();
-  }, [user?.email, filter]);
+    };
 
+    loadTransactions();
+  }, [user, filter]);
 
-  const getTransactionIcon = (type: string) => {
-    switch (type) {
-      case 'deposit':
-        return <ArrowDownLeft className="h-4 w-4 text-success" />;
-      case 'withdrawal':
-        return <ArrowUpRight className="h-4 w-4 text-red-600" />;
-      default:
-        return <RefreshCw className="h-4 w-4 text-muted-foreground" />;
+  const getTransactionIcon = (tx: WalletTransaction) => {
+    if (isDebit(tx)) {
+      return <ArrowUpRight className="h-4 w-4 text-red-600" />;
     }
+    if (tx.type === 'legacy') {
+      return <RefreshCw className="h-4 w-4 text-muted-foreground" />;
+    }
+    return <ArrowDownLeft className="h-4 w-4 text-success" />;
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return <Badge variant="outline">Pending</Badge>;
-      case 'confirmed':
-        return <Badge variant="secondary">Confirmed</Badge>;
-      case 'declined':
-        return <Badge variant="destructive">Declined</Badge>;
-      default:
-        return <Badge variant="default">{status}</Badge>;
+  const getStatusBadge = (tx: WalletTransaction) => {
+    if (tx.type === 'legacy') {
+      return <Badge variant="outline">{getMeta(tx).original_status || 'Imported'}</Badge>;
     }
+    return <Badge variant="secondary">Completed</Badge>;
   };
 
+  // Amounts are in the minor units of the transaction's currency
+  const minorUnits = (tx: WalletTransaction) => (tx.currency === 'USD' ? 2 : currencies[tx.currency]?.minorUnits ?? 2);
+
+  const formatAmount = (tx: WalletTransaction) =>
+    `${isDebit(tx) ? '-' : '+'}${formatMoney(tx.amount_cents, tx.currency, currencies[tx.currency])}`;
+
+  const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '-');
+
   const exportToCSV = () => {
     if (transactions.length === 0) {
       toast.error('No transactions to export');
       return;
     }
 
-    const headers = ['Date', 'Type', 'Amount', 'Status', 'Note'];
+    const headers = ['Date', 'Type', 'Amount', 'Currency', 'Balance After', 'Note'];
     const csvContent = [
       headers.join(','),
       ...transactions.map((tx) => [
-        new Date(tx.createdAt?.seconds * 1000).toLocaleString(),
-        tx.type,
-        tx.amount_usd ??
-          tx.amount ??
-          (tx.amountCrypto ? `${tx.amountCrypto} ${tx.currency}` : '-'),
-        tx.status,
-        tx.note || ''
+        formatDate(tx.created_at),
+        TRANSACTION_LABELS[tx.type] || tx.type,
+        (isDebit(tx) ? -tx.amount_cents : tx.amount_cents) / 10 ** minorUnits(tx),
+        tx.currency,
+        tx.balance_after_cents !== null ? tx.balance_after_cents / 10 ** minorUnits(tx) : '',
+        getMeta(tx).description || ''
       ].join(','))
     ].join('\n');
 
@@ -134,11 +150,6 @@ const TransactionsFirebase = () => {
     toast.success('Transactions exported successfully');
   };
 
-const formatUSD = (val?: number) => {
-  if (val === undefined || val === null) return '-';
-  return `$${val.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-};
-
   return (
     <Layout>
       <div className="container mx-auto px-4 py-6 space-y-6">
@@ -146,7 +157,7 @@ const formatUSD = (val?: number) => {
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <h1 className="text-2xl font-bold">Transaction History</h1>
           <div className="flex gap-2">
-            <Select value={filter} onValueChange={setFilter}>
+            <Select value={filter} onValueChange={(value) => setFilter(value as TransactionFilter)}>
               <SelectTrigger className="w-40">
                 <SelectValue />
               </SelectTrigger>
@@ -154,7 +165,8 @@ const formatUSD = (val?: number) => {
                 <SelectItem value="all">All Types</SelectItem>
                 <SelectItem value="deposit">Deposits</SelectItem>
                 <SelectItem value="withdrawal">Withdrawals</SelectItem>
-                <SelectItem value="crypto">Crypto</SelectItem>
+                <SelectItem value="income">Income</SelectItem>
+                <SelectItem value="referral">Referrals</SelectItem>
               </SelectContent>
             </Select>
             <Button
@@ -187,32 +199,20 @@ const formatUSD = (val?: number) => {
                 <CardContent className="flex justify-between items-center p-4">
                   <div className="flex items-center gap-4">
                     <div className="p-2 bg-muted rounded-full">
-                      {getTransactionIcon(tx.type)}
+                      {getTransactionIcon(tx)}
                     </div>
                     <div>
                       <div className="font-semibold">
-                        {tx.type === 'deposit'
-                          ? 'Deposit'
-                          : tx.type === 'withdrawal'
-                          ? 'Withdrawal'
-                          : 'Crypto Payment'}
+                        {TRANSACTION_LABELS[tx.type] || tx.type}
                       </div>
                       <p className="text-xs text-muted-foreground">
-                        {new Date(tx.createdAt?.seconds * 1000).toLocaleString()}
+                        {formatDate(tx.created_at)}
                       </p>
                     </div>
                   </div>
                   <div className="text-right">
-                    <p className="font-bold">
-                      {tx.amount_usd
-                          ? formatUSD(tx.amount_usd)
-                          : tx.amount
-                          ? formatUSD(tx.amount)
-                          : tx.amountCrypto
-                          ? `${tx.amountCrypto} ${tx.currency}`
-                          : '-'}
-                    </p>
-                    <div className="mt-1">{getStatusBadge(tx.status)}</div>
+                    <p className="font-bold">{formatAmount(tx)}</p>
+                    <div className="mt-1">{getStatusBadge(tx)}</div>
                   </div>
                 </CardContent>
               </Card>
@@ -229,49 +229,27 @@ const formatUSD = (val?: number) => {
               </DialogHeader>
               <div className="space-y-2 p-4">
                 <p>
-                  <strong>Type:</strong>{' '}
-                  {selectedTx.type === 'deposit'
-                    ? 'Deposit'
-                    : selectedTx.type === 'withdrawal'
-                    ? 'Withdrawal'
-                    : 'Crypto Payment'}
+                  <strong>Type:</strong> {TRANSACTION_LABELS[selectedTx.type] || selectedTx.type}
                 </p>
                 <p>
-                  <strong>Date:</strong>{' '}
-                  {new Date(selectedTx.createdAt?.seconds * 1000).toLocaleString()}
+                  <strong>Date:</strong> {formatDate(selectedTx.created_at)}
                 </p>
                 <p>
-                  <strong>Amount:</strong>{' '}
-                    {selectedTx.amount_usd
-                      ? formatUSD(selectedTx.amount_usd)
-                      : selectedTx.amount
-                      ? formatUSD(selectedTx.amount)
-                      : selectedTx.amountCrypto
-                      ? `${selectedTx.amountCrypto} ${selectedTx.currency}`
-                      : '-'}
+                  <strong>Amount:</strong> {formatAmount(selectedTx)}
                 </p>
-                <p>
-                  <strong>Status:</strong> {selectedTx.status}
-                </p>
-                {selectedTx.note && (
-                  <p>
-                    <strong>Note:</strong> {selectedTx.note}
-                  </p>
-                )}
-                {selectedTx.txHash && (
+                {selectedTx.balance_after_cents !== null && (
                   <p>
-                    <strong>TxHash:</strong> {selectedTx.txHash}
+                    <strong>Balance After:</strong> {formatMoney(selectedTx.balance_after_cents, selectedTx.currency, currencies[selectedTx.currency])}
                   </p>
                 )}
-                {selectedTx.card && (
+                {getMeta(selectedTx).description && (
                   <p>
-                    <strong>Card:</strong> **** **** **** {selectedTx.card.last4}
+                    <strong>Note:</strong> {getMeta(selectedTx).description}
                   </p>
                 )}
-                {selectedTx.bank && (
+                {getMeta(selectedTx).tx_hash && (
                   <p>
-                    <strong>Bank:</strong> {selectedTx.bank.name} - {selectedTx.bank.accountName} (
-                    {selectedTx.bank.number})
+                    <strong>TxHash:</strong> {getMeta(selectedTx).tx_hash}
                   </p>
                 )}
                 <Button
@@ -290,4 +268,4 @@ const formatUSD = (val?: number) => {
   );
 };
 
-export default TransactionsFirebase;
+export default Transactions;
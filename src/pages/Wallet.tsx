@@ -1,129 +1,122 @@
 // src/pages/Wallet.tsx
-import { useState, useEffect } from 'react';
-import { db } from '@/integrations/firebase';
-import { collection, query, where, onSnapshot, addDoc, orderBy, Timestamp, updateDoc, getDocs } from 'firebase/firestore';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import {
+  getWallet,
+  listCurrencyBalances,
+  listWalletTransactions,
+  subscribeToWallet,
+  formatCents,
+  formatMoney,
+  type CurrencyBalance,
+  type WalletBalances,
+  type WalletTransaction,
+} from '@/data/wallet';
+import { getFxQuotes, type FxQuote } from '@/data/fx';
+import { listCountries, listCurrencies, type CurrencyInfo } from '@/data/countries';
+import { getProfile } from '@/data/profile';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { ArrowUp, ArrowDown, Loader2 } from 'lucide-react';
+import WithdrawalModal from '@/components/WithdrawalModal';
+import ConvertCurrencyModal from '@/components/ConvertCurrencyModal';
+import { ArrowUp, ArrowDown, ArrowRightLeft, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import Layout from '@/components/Layout';
 import { useNavigate } from 'react-router-dom';
 
-interface Transaction {
-  id: string;
-  type: string;
-  amount: number;
-  createdAt: Timestamp;
-  status: string;
-  note?: string;
-}
+const USD: CurrencyInfo = { code: 'USD', minorUnits: 2, symbol: '$' };
+
+const DEBIT_TYPES = ['withdrawal', 'refund', 'chargeback', 'dispute_hold', 'referral_clawback', 'conversion_out'];
+
+// Mid-rate value of `amountCents` of `currency` in USD; null without a rate
+const toUsd = (amountCents: number, currency: CurrencyInfo, quotes: FxQuote[]) => {
+  if (currency.code === 'USD') return amountCents / 100;
+  const midRate = quotes.find((quote) => quote.currency === currency.code)?.midRate;
+  return midRate ? amountCents / 10 ** currency.minorUnits / midRate : null;
+};
 
 const Wallet = () => {
-  const { user } = useAuth();
+  const { supabaseUser: user } = useAuth();
   const navigate = useNavigate();
-  const [balance, setBalance] = useState<number>(0);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [wallet, setWallet] = useState<WalletBalances | null>(null);
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
   const [loading, setLoading] = useState(true);
-  const [showDepositModal, setShowDepositModal] = useState(false);
   const [showWithdrawModal, setShowWithdrawModal] = useState(false);
+  const [showConvertModal, setShowConvertModal] = useState(false);
+  const [currencyBalances, setCurrencyBalances] = useState<CurrencyBalance[]>([]);
+  const [quotes, setQuotes] = useState<FxQuote[]>([]);
+  const [currencies, setCurrencies] = useState<Record<string, CurrencyInfo>>({});
+  // The profile country's currency when it can be valued, otherwise USD
+  const [displayCurrency, setDisplayCurrency] = useState('USD');
+
+  const loadWallet = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [walletData, txs, balances, fxQuotes, currencyInfo, countries, profile] = await Promise.all([
+        getWallet(user.id),
+        listWalletTransactions(user.id, { limit: 5 }),
+        listCurrencyBalances(user.id),
+        getFxQuotes(),
+        listCurrencies(),
+        listCountries(),
+        getProfile(user.id),
+      ]);
+      setWallet(walletData);
+      setTransactions(txs);
+      setCurrencyBalances(balances);
+      setQuotes(fxQuotes);
+      setCurrencies(currencyInfo);
+
+      const localCurrency = countries.find((country) => country.code === profile?.country)?.currency;
+      setDisplayCurrency(
+        localCurrency && fxQuotes.some((quote) => quote.currency === localCurrency && quote.midRate) ? localCurrency : 'USD'
+      );
+    } catch (err) {
+      console.error(err);
+      toast.error('Failed to load wallet');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
 
   useEffect(() => {
-    if (!user?.email) return;
+    if (!user) return;
     setLoading(true);
+    loadWallet();
 
-    const userQuery = query(collection(db, 'users'), where('email', '==', user.email));
-    const unsubscribeUser = onSnapshot(userQuery, (snap) => {
-      if (!snap.empty) {
-        const data = snap.docs[0].data();
-        setBalance(data.balance || 0);
-      }
-    });
-
-    const txQuery = query(
-      collection(db, 'transactions'),
-      where('userEmail', '==', user.email),
-      orderBy('createdAt', 'desc')
-    );
-    const unsubscribeTx = onSnapshot(txQuery, (snap) => {
-      const txs: Transaction[] = snap.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      } as Transaction));
-      setTransactions(txs);
-      setLoading(false);
-    });
+    return subscribeToWallet(user.id, loadWallet);
+  }, [user, loadWallet]);
 
-    return () => {
-      unsubscribeUser();
-      unsubscribeTx();
-    };
-  }, [user?.email]);
+  const currencyInfo = (code: string) => (code === 'USD' ? USD : currencies[code]);
 
-  const formatUSD = (amount: number) =>
-    `$${amount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
-
-  const handleDeposit = async (amount: number) => {
-    if (!user?.email) return;
-    try {
-      const userQuery = query(collection(db, 'users'), where('email', '==', user.email));
-      const snap = await getDocs(userQuery);
-      if (!snap.empty) {
-        const userRef = snap.docs[0].ref;
-        const newBalance = (snap.docs[0].data().balance || 0) + amount;
-        await updateDoc(userRef, { balance: newBalance });
-        await addDoc(collection(db, 'transactions'), {
-          userEmail: user.email,
-          type: 'deposit',
-          amount,
-          createdAt: Timestamp.now(),
-          status: 'success',
-          note: 'Card deposit'
-        });
-        toast.success('Deposit successful');
-        setShowDepositModal(false);
-      }
-    } catch (err) {
-      console.error(err);
-      toast.error('Deposit failed');
-    }
-  };
+  const balances: Record<string, number> = { USD: wallet?.available_cents ?? 0 };
+  for (const balance of currencyBalances) {
+    balances[balance.currency] = balance.available_cents;
+  }
 
-  const handleWithdraw = async (amount: number, bankName: string, accountNumber: string, accountName: string) => {
-    if (!user?.email) return;
-    if (amount > balance) {
-      toast.error('Insufficient balance');
-      return;
+  // Every balance valued in USD at mid rates, then shown in displayCurrency
+  const display = currencyInfo(displayCurrency) ?? USD;
+  const displayRate = toUsd(10 ** display.minorUnits, display, quotes);
+  let totalUsd = 0;
+  let unpriced = false;
+  for (const [code, amountCents] of Object.entries(balances)) {
+    const info = currencyInfo(code);
+    const usd = info ? toUsd(amountCents, info, quotes) : null;
+    if (usd === null) {
+      unpriced ||= amountCents > 0;
+    } else {
+      totalUsd += usd;
     }
-    try {
-      const userQuery = query(collection(db, 'users'), where('email', '==', user.email));
-      const snap = await getDocs(userQuery);
-      if (!snap.empty) {
-        const userRef = snap.docs[0].ref;
-        const newBalance = (snap.docs[0].data().balance || 0) - amount;
-        await updateDoc(userRef, { balance: newBalance });
-        await addDoc(collection(db, 'transactions'), {
-          userEmail: user.email,
-          type: 'withdrawal',
-          amount,
-          createdAt: Timestamp.now(),
-          status: 'success',
-          note: `Withdraw to ${bankName} ${accountNumber} (${accountName})`
-        });
-        toast.success('Withdrawal successful');
-        setShowWithdrawModal(false);
-      }
-    } catch (err) {
-      console.error(err);
-      toast.error('Withdrawal failed');
-    }
-  };
+  }
+  const totalCents = displayRate ? Math.round((totalUsd / displayRate) * 10 ** display.minorUnits) : 0;
 
-  // Auto-format card number like Stripe
-  const formatCardNumber = (value: string) => {
-    return value.replace(/\D/g, '').replace(/(.{4})/g, '$1 ').trim();
-  };
+  // Currencies that can be converted into right now
+  const convertible = useMemo(() => [
+    USD,
+    ...quotes
+      .filter((quote) => !quote.isStale && quote.buyRate && quote.sellRate && currencies[quote.currency])
+      .map((quote) => currencies[quote.currency]),
+  ], [quotes, currencies]);
 
   if (loading) {
     return (
@@ -135,13 +128,6 @@ const Wallet = () => {
     );
   }
 
-  const formatExpiry = (value: string) => {
-    const digits = value.replace(/\D/g, '');
-    if (digits.length === 0) return '';
-    if (digits.length <= 2) return digits;
-    return digits.slice(0, 2) + '/' + digits.slice(2, 4);
-  };
-
   return (
     <Layout>
       <div className="min-h-screen flex flex-col items-center justify-center px-4 py-10 space-y-8">
@@ -152,119 +138,95 @@ const Wallet = () => {
             <CardTitle className="text-xl">Available Balance</CardTitle>
           </CardHeader>
           <CardContent className="flex flex-col items-center justify-center space-y-4">
-            <p className="text-3xl font-extrabold">{formatUSD(balance)}</p>
+            <p className="text-3xl font-extrabold">{formatCents(wallet?.available_cents || 0)}</p>
+            {!!wallet?.pending_cents && (
+              <p className="text-sm text-muted-foreground">
+                {formatCents(wallet.pending_cents)} pending withdrawal
+              </p>
+            )}
             <div className="flex gap-4">
-              <Button onClick={() => setShowDepositModal(true)} className="flex items-center gap-2">
+              <Button onClick={() => navigate('/plans')} className="flex items-center gap-2">
                 <ArrowUp className="h-5 w-5" /> Deposit
               </Button>
-              <Button variant="outline" onClick={() => setShowWithdrawModal(true)} className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setShowWithdrawModal(true)}
+                disabled={!wallet?.available_cents}
+                className="flex items-center gap-2"
+              >
                 <ArrowDown className="h-5 w-5" /> Withdraw
               </Button>
             </div>
+            <Button
+              variant="ghost"
+              onClick={() => setShowConvertModal(true)}
+              disabled={convertible.length < 2}
+              className="flex items-center gap-2"
+            >
+              <ArrowRightLeft className="h-5 w-5" /> Convert
+            </Button>
             <Button variant="link" onClick={() => navigate('/transactions')}>
               View Transactions
             </Button>
           </CardContent>
         </Card>
 
-        {/* Deposit Modal */}
-        <Dialog open={showDepositModal} onOpenChange={setShowDepositModal}>
-          <DialogContent className="sm:max-w-md">
-            <DialogHeader>
-              <DialogTitle>Deposit</DialogTitle>
-            </DialogHeader>
-            <div className="py-4 space-y-4 flex flex-col items-center">
-              <input
-                type="number"
-                placeholder="Amount in cents"
-                className="w-full border p-2 rounded"
-                id="depositAmount"
-              />
-              <input
-                type="text"
-                placeholder="Card Number (**** **** **** ****)"
-                maxLength={19}
-                className="w-full border p-2 rounded"
-                onInput={(e) => {
-                  const el = e.target as HTMLInputElement;
-                  el.value = formatCardNumber(el.value);
-                }}
-              />
-              <input
-                type="text"
-                placeholder="MM/YY"
-                maxLength={5}
-                className="w-full border p-2 rounded"
-                onInput={(e) => {
-                  const el = e.target as HTMLInputElement;
-                  el.value = formatExpiry(el.value);
-                }}
-              />
-              <input
-                type="text"
-                placeholder="CVC"
-                maxLength={3}
-                className="w-full border p-2 rounded"
-              />
-              <Button
-                onClick={() => {
-                  const amt = Number((document.getElementById('depositAmount') as HTMLInputElement).value);
-                  handleDeposit(amt);
-                }}
-                className="w-full mt-2"
-              >
-                Deposit
-              </Button>
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-lg">Balances</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {Object.entries(balances).map(([code, amountCents]) => (
+              <div key={code} className="flex justify-between text-sm">
+                <span>{code}</span>
+                <span className="font-medium">{formatMoney(amountCents, code, currencyInfo(code))}</span>
+              </div>
+            ))}
+            <div className="flex justify-between border-t pt-3 font-semibold">
+              <span>Total ({display.code})</span>
+              <span>≈ {formatMoney(totalCents, display.code, display)}</span>
             </div>
-          </DialogContent>
-        </Dialog>
+            {unpriced && (
+              <p className="text-xs text-muted-foreground">
+                Balances without a current exchange rate are left out of the total.
+              </p>
+            )}
+          </CardContent>
+        </Card>
 
-        {/* Withdraw Modal */}
-        <Dialog open={showWithdrawModal} onOpenChange={setShowWithdrawModal}>
-          <DialogContent className="sm:max-w-md">
-            <DialogHeader>
-              <DialogTitle>Withdraw</DialogTitle>
-            </DialogHeader>
-            <div className="py-4 space-y-4 flex flex-col items-center">
-              <input
-                type="number"
-                placeholder="Amount in cents"
-                className="w-full border p-2 rounded"
-                id="withdrawAmount"
-              />
-              <input
-                type="text"
-                placeholder="Bank Name"
-                className="w-full border p-2 rounded"
-                id="bankName"
-              />
-              <input
-                type="text"
-                placeholder="Account Number"
-                className="w-full border p-2 rounded"
-                id="accountNumber"
-              />
-              <input
-                type="text"
-                placeholder="Account Name"
-                className="w-full border p-2 rounded"
-                id="accountName"
-              />
-              <Button
-                onClick={() => {
-                  const amt = Number((document.getElementById('withdrawAmount') as HTMLInputElement).value);
-                  const bank = (document.getElementById('bankName') as HTMLInputElement).value;
-                  const accNum = (document.getElementById('accountNumber') as HTMLInputElement).value;
-                  const accName = (document.getElementById('accountName') as HTMLInputElement).value;
-                  handleWithdraw(amt, bank, accNum, accName);
-                }}
-                className="w-full mt-2"
-              >
-                Withdraw
-              </Button>
-            </div>
-          </DialogContent>
-        </Dialog>
+        {transactions.length > 0 && (
+          <Card className="w-full max-w-md">
+            <CardHeader>
+              <CardTitle className="text-lg">Recent Activity</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {transactions.map((tx) => (
+                <div key={tx.id} className="flex justify-between text-sm">
+                  <span className="capitalize">{tx.type.replace('_', ' ')}</span>
+                  <span className={DEBIT_TYPES.includes(tx.type) ? 'text-destructive' : 'text-success'}>
+                    {DEBIT_TYPES.includes(tx.type) ? '-' : '+'}{formatMoney(tx.amount_cents, tx.currency, currencyInfo(tx.currency))}
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <WithdrawalModal
+          isOpen={showWithdrawModal}
+          onClose={() => setShowWithdrawModal(false)}
+          balances={balances}
+          onSuccess={loadWallet}
+        />
+
+        <ConvertCurrencyModal
+          isOpen={showConvertModal}
+          onClose={() => setShowConvertModal(false)}
+          balances={balances}
+          currencies={convertible}
+          quotes={quotes}
+          onSuccess={loadWallet}
+        />
       </div>
     </Layout>
   );
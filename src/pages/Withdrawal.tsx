@@ -6,6 +6,7 @@ import { ArrowDownLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import Layout from '@/components/Layout';
 import WithdrawalModal from '@/components/WithdrawalModal';
+import { listCurrencyBalances, type CurrencyBalance } from '@/data/wallet';
 
 interface WalletData {
   available: number;
@@ -14,8 +15,9 @@ interface WalletData {
 }
 
 const Withdrawal = () => {
-  const { user } = useAuth();
+  const { supabaseUser: user } = useAuth();
   const [walletData, setWalletData] = useState<WalletData | null>(null);
+  const [currencyBalances, setCurrencyBalances] = useState<CurrencyBalance[]>([]);
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [bankDetails, setBankDetails] = useState<{ bank_name: string; account_name: string; account_number: string } | null>(null);
@@ -39,6 +41,7 @@ useEffect(() => {
 
       if (walletError) throw walletError;
 
+      setCurrencyBalances(await listCurrencyBalances(user.id));
       setWalletData({
         available: walletResult.available_cents,
         pending: walletResult.pending_cents,
@@ -56,24 +59,29 @@ useEffect(() => {
     if (!user) return;
     try {
       const { data: bank } = await supabase
-        .from('payout_methods' as any)
+        .from('payout_methods')
         .select('*')
         .eq('user_id', user.id)
         .eq('type', 'bank')
         .maybeSingle();
       const { data: usdt } = await supabase
-        .from('payout_methods' as any)
+        .from('payout_methods')
         .select('*')
         .eq('user_id', user.id)
         .eq('type', 'usdt')
         .maybeSingle();
-      setBankDetails(bank ? { bank_name: (bank as any).bank_name || '', account_name: (bank as any).account_name || '', account_number: (bank as any).account_number || '' } : null);
-      setUsdtDetails(usdt ? { usdt_network: (usdt as any).usdt_network || 'BEP20', wallet_address: (usdt as any).wallet_address || '' } : null);
+      setBankDetails(bank ? { bank_name: bank.bank_name || '', account_name: bank.account_name || '', account_number: bank.account_number || '' } : null);
+      setUsdtDetails(usdt ? { usdt_network: usdt.usdt_network || 'BEP20', wallet_address: usdt.wallet_address || '' } : null);
     } catch (e) {
       console.error('Error loading payout methods:', e);
     }
   };
 
+  const balances: Record<string, number> = { USD: walletData?.available ?? 0 };
+  for (const balance of currencyBalances) {
+    balances[balance.currency] = balance.available_cents;
+  }
+
   const formatUSD = (cents: number): string => {
     return `$${(cents / 100).toFixed(2)}`;
   };
@@ -230,7 +238,7 @@ useEffect(() => {
       <WithdrawalModal
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
-        availableBalance={walletData?.available ?? 0}
+        balances={balances}
         onSuccess={() => {
           loadWalletData();
           loadPayoutMethods();
@@ -1,10 +1,56 @@
-import { useState, useEffect } from 'react';
-import { Check, X, Eye, Download } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Check, X, Eye, Download, RefreshCw, AlertTriangle, Copy } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { verifyCryptoDeposit } from '@/data/deposits';
+import type { Json } from '@/integrations/supabase/types';
+
+const VERIFICATION_LABELS: Record<string, string> = {
+  not_found: 'Not on chain yet',
+  unconfirmed: 'Awaiting confirmations',
+  verified: 'Verified',
+  mismatch: 'Mismatch',
+};
+
+const getDiscrepancies = (verification: Json | null): string[] => {
+  if (!verification || typeof verification !== 'object' || Array.isArray(verification)) return [];
+  const discrepancies = verification.discrepancies;
+  return Array.isArray(discrepancies) ? discrepancies.map(String) : [];
+};
+
+// An earlier submission that shares this deposit's transaction hash or
+// (nearly) the same proof image
+interface DuplicateSubmission {
+  reason: 'transaction' | 'proof';
+  table: 'deposits' | 'crypto_deposits';
+  id: string;
+  status: string | null;
+  created_at: string | null;
+  proof: { bucket: string; path: string } | null;
+  // Differing perceptual hash bits; 0 is the same image
+  distance?: number;
+}
+
+interface ProofMatch {
+  bucket: string;
+  path: string;
+  deposit_id: string | null;
+  crypto_deposit_id: string | null;
+  distance: number;
+  created_at: string;
+}
+
+interface DepositProof {
+  deposit_id: string | null;
+  thumbnail_path: string | null;
+  width: number | null;
+  height: number | null;
+  size_bytes: number | null;
+  matches: Json;
+}
 
 interface CryptoDeposit {
   id: string;
@@ -13,25 +59,107 @@ interface CryptoDeposit {
   tx_hash: string;
   screenshot_url: string;
   status: string;
+  network: string | null;
+  deposit_address: string | null;
+  amount_tag_cents: number;
+  verification_status: string | null;
+  verification: Json | null;
+  tx_hash_normalized: string | null;
   created_at: string;
   profiles: {
     full_name: string | null;
   } | null;
 }
 
+// Thumbnails from upload-proof for the review grid, keyed by deposit
+async function loadThumbnails(rows: DepositProof[]) {
+  const paths = rows.flatMap((row) => row.thumbnail_path ? [row.thumbnail_path] : []);
+  const { data: signed } = paths.length
+    ? await supabase.storage.from('deposit-screenshots').createSignedUrls(paths, 3600)
+    : { data: [] };
+
+  const byDeposit: Record<string, DepositProof & { thumbnailUrl: string | null }> = {};
+  for (const row of rows) {
+    if (!row.deposit_id) continue;
+    const url = (signed || []).find((entry) => entry.path === row.thumbnail_path)?.signedUrl ?? null;
+    byDeposit[row.deposit_id] = { ...row, thumbnailUrl: url };
+  }
+  return byDeposit;
+}
+
+async function loadDuplicates(pending: CryptoDeposit[], proofRows: DepositProof[]) {
+  const found: Record<string, DuplicateSubmission[]> = {};
+  if (pending.length === 0) return found;
+
+  const hashes = pending.flatMap((deposit) => deposit.tx_hash_normalized ? [deposit.tx_hash_normalized] : []);
+
+  const [sameTxDeposits, sameTxCryptoDeposits] = await Promise.all([
+    hashes.length
+      ? supabase.from('deposits').select('id, status, created_at, screenshot_url, tx_hash_normalized').in('tx_hash_normalized', hashes)
+      : Promise.resolve({ data: [], error: null }),
+    hashes.length
+      ? supabase.from('crypto_deposits').select('id, status, created_at, proof_path, tx_hash_normalized').in('tx_hash_normalized', hashes)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  for (const deposit of pending) {
+    const list: DuplicateSubmission[] = [];
+
+    for (const other of sameTxDeposits.data || []) {
+      if (other.id === deposit.id || other.tx_hash_normalized !== deposit.tx_hash_normalized) continue;
+      list.push({
+        reason: 'transaction',
+        table: 'deposits',
+        id: other.id,
+        status: other.status,
+        created_at: other.created_at,
+        proof: other.screenshot_url ? { bucket: 'deposit-screenshots', path: other.screenshot_url } : null,
+      });
+    }
+
+    for (const other of sameTxCryptoDeposits.data || []) {
+      if (other.tx_hash_normalized !== deposit.tx_hash_normalized) continue;
+      list.push({
+        reason: 'transaction',
+        table: 'crypto_deposits',
+        id: other.id,
+        status: other.status,
+        created_at: other.created_at,
+        proof: other.proof_path ? { bucket: 'crypto-proofs', path: other.proof_path } : null,
+      });
+    }
+
+    const proof = proofRows.find((row) => row.deposit_id === deposit.id);
+    for (const match of (Array.isArray(proof?.matches) ? proof.matches : []) as unknown as ProofMatch[]) {
+      list.push({
+        reason: 'proof',
+        table: match.deposit_id ? 'deposits' : 'crypto_deposits',
+        id: match.deposit_id || match.crypto_deposit_id || '',
+        status: null,
+        created_at: match.created_at,
+        proof: { bucket: match.bucket, path: match.path },
+        distance: match.distance,
+      });
+    }
+
+    if (list.length > 0) found[deposit.id] = list;
+  }
+
+  return found;
+}
+
 const CryptoApproval = () => {
   const [deposits, setDeposits] = useState<CryptoDeposit[]>([]);
   const [loading, setLoading] = useState(true);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+  const [duplicates, setDuplicates] = useState<Record<string, DuplicateSubmission[]>>({});
+  const [proofs, setProofs] = useState<Record<string, DepositProof & { thumbnailUrl: string | null }>>({});
 
-  useEffect(() => {
-    loadPendingDeposits();
-  }, []);
-
-  const loadPendingDeposits = async () => {
+  const loadPendingDeposits = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('deposits')
-        .select('id, user_id, amount_usd_cents, tx_hash, screenshot_url, status, created_at')
+        .select('id, user_id, amount_usd_cents, tx_hash, screenshot_url, status, network, deposit_address, amount_tag_cents, verification_status, verification, tx_hash_normalized, created_at')
         .eq('method', 'crypto_manual')
         .eq('status', 'pending')
         .order('created_at', { ascending: false });
@@ -55,13 +183,25 @@ const CryptoApproval = () => {
       );
       
       setDeposits(depositsWithProfiles);
+
+      const { data: proofRows } = await supabase
+        .from('deposit_proofs')
+        .select('deposit_id, thumbnail_path, width, height, size_bytes, matches')
+        .in('deposit_id', depositsWithProfiles.map((deposit) => deposit.id));
+
+      setDuplicates(await loadDuplicates(depositsWithProfiles, proofRows || []));
+      setProofs(await loadThumbnails(proofRows || []));
     } catch (error) {
       console.error('Error loading deposits:', error);
       toast.error('Failed to load pending deposits');
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    loadPendingDeposits();
+  }, [loadPendingDeposits]);
 
   const handleApprove = async (depositId: string, amount: number) => {
     try {
@@ -101,15 +241,33 @@ const CryptoApproval = () => {
     }
   };
 
-  const getImageUrl = async (path: string) => {
+  const handleRecheck = async (depositId: string) => {
+    setCheckingId(depositId);
+    try {
+      const result = await verifyCryptoDeposit(depositId);
+      if (result?.status === 'verified') {
+        toast.success('Transaction verified and deposit confirmed');
+      } else {
+        toast.info(`Verification: ${VERIFICATION_LABELS[result?.status ?? ''] || result?.status || 'no result'}`);
+      }
+      loadPendingDeposits();
+    } catch (error) {
+      console.error('Error verifying deposit:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to verify deposit');
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  const getImageUrl = async (path: string, bucket = 'deposit-screenshots') => {
     const { data } = await supabase.storage
-      .from('deposit-screenshots')
+      .from(bucket)
       .createSignedUrl(path, 3600); // 1 hour expiry
     return data?.signedUrl;
   };
 
-  const openImage = async (path: string) => {
-    const url = await getImageUrl(path);
+  const openImage = async (path: string, bucket?: string) => {
+    const url = await getImageUrl(path, bucket);
     if (url) {
       window.open(url, '_blank');
     }
@@ -139,24 +297,62 @@ const CryptoApproval = () => {
           </Card>
         ) : (
           deposits.map((deposit) => (
-            <Card key={deposit.id} className="shadow-card">
+            <Card key={deposit.id} id={`deposit-${deposit.id}`} className="shadow-card">
               <CardHeader>
                 <div className="flex items-center justify-between">
                   <CardTitle className="text-lg">
                     {deposit.profiles?.full_name || 'Unknown User'}
                   </CardTitle>
-                  <Badge variant="secondary">Pending</Badge>
+                  <div className="flex gap-2">
+                    {deposit.verification_status && (
+                      <Badge variant={deposit.verification_status === 'mismatch' ? 'destructive' : 'outline'}>
+                        {VERIFICATION_LABELS[deposit.verification_status] || deposit.verification_status}
+                      </Badge>
+                    )}
+                    {duplicates[deposit.id] && (
+                      <Badge variant="destructive">Possible duplicate</Badge>
+                    )}
+                    <Badge variant="secondary">Pending</Badge>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
+                {proofs[deposit.id]?.thumbnailUrl && (
+                  <button
+                    type="button"
+                    className="block"
+                    onClick={() => openImage(deposit.screenshot_url)}
+                  >
+                    <img
+                      src={proofs[deposit.id].thumbnailUrl!}
+                      alt="Payment proof"
+                      className="h-40 rounded-md border object-cover"
+                    />
+                    <span className="mt-1 block text-xs text-muted-foreground">
+                      {proofs[deposit.id].width}×{proofs[deposit.id].height}
+                      {proofs[deposit.id].size_bytes && ` · ${Math.round(proofs[deposit.id].size_bytes! / 1024)} KB`}
+                    </span>
+                  </button>
+                )}
+
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   <div>
                     <p className="text-sm text-muted-foreground">Amount</p>
                     <p className="font-semibold">${(deposit.amount_usd_cents / 100).toFixed(2)}</p>
+                    {deposit.amount_tag_cents > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Due ${((deposit.amount_usd_cents + deposit.amount_tag_cents) / 100).toFixed(2)} incl. tag
+                      </p>
+                    )}
                   </div>
                   <div>
-                    <p className="text-sm text-muted-foreground">TX Hash</p>
+                    <p className="text-sm text-muted-foreground">TX Hash ({deposit.network || 'BEP20'})</p>
                     <p className="font-mono text-sm truncate">{deposit.tx_hash}</p>
+                    {deposit.deposit_address && (
+                      <p className="font-mono text-xs text-muted-foreground truncate" title={deposit.deposit_address}>
+                        To {deposit.deposit_address}
+                      </p>
+                    )}
                   </div>
                   <div>
                     <p className="text-sm text-muted-foreground">Date</p>
@@ -172,10 +368,72 @@ const CryptoApproval = () => {
                       >
                         <Eye className="h-4 w-4" />
                       </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={checkingId === deposit.id}
+                        onClick={() => handleRecheck(deposit.id)}
+                      >
+                        <RefreshCw className={`h-4 w-4 ${checkingId === deposit.id ? 'animate-spin' : ''}`} />
+                      </Button>
                     </div>
                   </div>
                 </div>
 
+                {getDiscrepancies(deposit.verification).length > 0 && (
+                  <div className="rounded-md border border-destructive/50 p-3 text-sm">
+                    <p className="flex items-center gap-2 font-medium text-destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      Chain verification discrepancies
+                    </p>
+                    <ul className="mt-2 list-disc pl-6 text-muted-foreground">
+                      {getDiscrepancies(deposit.verification).map((discrepancy) => (
+                        <li key={discrepancy}>{discrepancy}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {duplicates[deposit.id] && (
+                  <div className="rounded-md border border-destructive/50 p-3 text-sm">
+                    <p className="flex items-center gap-2 font-medium text-destructive">
+                      <Copy className="h-4 w-4" />
+                      Earlier submissions with the same {duplicates[deposit.id].some((d) => d.reason === 'transaction') ? 'transaction or proof' : 'proof'}
+                    </p>
+                    <ul className="mt-2 space-y-1 text-muted-foreground">
+                      {duplicates[deposit.id].map((duplicate) => (
+                        <li key={`${duplicate.reason}-${duplicate.table}-${duplicate.id}-${duplicate.proof?.path}`} className="flex flex-wrap items-center gap-2">
+                          <span>
+                            {duplicate.reason === 'transaction'
+                              ? 'Same TX hash'
+                              : duplicate.distance === 0 ? 'Identical proof' : `Similar proof (${duplicate.distance} bits)`}
+                            {' · '}
+                            {duplicate.table === 'deposits' && deposits.some((d) => d.id === duplicate.id) ? (
+                              <a href={`#deposit-${duplicate.id}`} className="font-mono underline">{duplicate.id.slice(0, 8)}</a>
+                            ) : (
+                              <span className="font-mono" title={`${duplicate.table} ${duplicate.id}`}>
+                                {duplicate.table === 'crypto_deposits' ? 'legacy ' : ''}{duplicate.id.slice(0, 8)}
+                              </span>
+                            )}
+                            {duplicate.status && ` · ${duplicate.status}`}
+                            {duplicate.created_at && ` · ${new Date(duplicate.created_at).toLocaleDateString()}`}
+                          </span>
+                          {duplicate.proof && (
+                            <Button
+                              size="sm"
+                              variant="link"
+                              className="h-auto p-0"
+                              onClick={() => openImage(duplicate.proof!.path, duplicate.proof!.bucket)}
+                            >
+                              View earlier proof
+                            </Button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 <div className="flex gap-2 pt-4 border-t">
                   <Button 
                     variant="default" 
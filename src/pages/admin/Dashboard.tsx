@@ -69,7 +69,7 @@ const AdminDashboard = () => {
         totalDeposits: deposits.length,
         totalWithdrawals: withdrawals.length,
         pendingDeposits: deposits.filter(d => d.status === 'pending').length,
-        pendingWithdrawals: withdrawals.filter(w => w.status === 'queued').length,
+        pendingWithdrawals: withdrawals.filter(w => w.status === 'pending_review').length,
         totalRevenue: deposits
           .filter(d => d.status === 'completed')
           .reduce((sum, d) => sum + (d.amount_usd_cents || 0), 0) / 100
@@ -130,6 +130,10 @@ const AdminDashboard = () => {
         return <Badge variant="outline" className="text-success"><CheckCircle className="w-3 h-3 mr-1" />Completed</Badge>;
       case 'queued':
         return <Badge variant="outline" className="text-info"><RefreshCw className="w-3 h-3 mr-1" />Queued</Badge>;
+      case 'pending_review':
+        return <Badge variant="outline" className="text-warning"><Clock className="w-3 h-3 mr-1" />Pending Review</Badge>;
+      case 'on_hold':
+        return <Badge variant="outline" className="text-warning"><AlertTriangle className="w-3 h-3 mr-1" />On Hold</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -295,13 +299,14 @@ const AdminDashboard = () => {
                             </div>
                           </div>
                         </div>
-                        {withdrawal.status === 'queued' && (
+                        {(withdrawal.status === 'pending_review' || withdrawal.status === 'on_hold') && (
                           <Button
                             size="sm"
                             variant="outline"
                             className="ml-4"
+                            onClick={() => navigate('/admin/withdrawals')}
                           >
-                            Process
+                            Review
                           </Button>
                         )}
                       </div>
@@ -0,0 +1,399 @@
+import { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, Pin, X } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import {
+  createFxOverride,
+  getFxQuotes,
+  getRateHistory,
+  listFxOverrides,
+  revokeFxOverride,
+  type FxOverride,
+  type FxQuote,
+  type RateHistoryEntry,
+} from '@/data/fx';
+import { toast } from 'sonner';
+import Layout from '@/components/Layout';
+
+const HISTORY_DAYS: Record<string, string> = {
+  '1': 'Last 24 hours',
+  '7': 'Last 7 days',
+  '30': 'Last 30 days',
+  '90': 'Last 90 days',
+};
+
+const DURATION_HOURS: Record<string, string> = {
+  '1': '1 hour',
+  '6': '6 hours',
+  '24': '24 hours',
+  '72': '3 days',
+};
+
+const chartConfig = {
+  rate: { label: 'Rate', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const formatAge = (timestamp: string | null) => {
+  if (!timestamp) return 'never';
+  const minutes = Math.round((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return `${Math.round(minutes / 1440)}d ago`;
+};
+
+const formatRate = (rate: number | null) =>
+  rate === null ? '—' : rate.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const isLive = (override: FxOverride) =>
+  !override.revoked_at && new Date(override.expires_at).getTime() > Date.now();
+
+const AdminFx = () => {
+  const [quotes, setQuotes] = useState<FxQuote[]>([]);
+  const [overrides, setOverrides] = useState<FxOverride[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [chartCurrency, setChartCurrency] = useState('');
+  const [historyDays, setHistoryDays] = useState('7');
+  const [history, setHistory] = useState<RateHistoryEntry[]>([]);
+
+  const [overriding, setOverriding] = useState<FxQuote | null>(null);
+  const [overrideRate, setOverrideRate] = useState('');
+  const [overrideHours, setOverrideHours] = useState('6');
+  const [overrideReason, setOverrideReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadRates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [quoteData, overrideData] = await Promise.all([getFxQuotes(), listFxOverrides()]);
+      setQuotes(quoteData);
+      setOverrides(overrideData);
+      setChartCurrency((current) => current || quoteData[0]?.currency || '');
+    } catch (error) {
+      console.error('Error loading FX rates:', error);
+      toast.error('Failed to load exchange rates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadHistory = useCallback(async () => {
+    if (!chartCurrency) return;
+    try {
+      const since = new Date(Date.now() - Number(historyDays) * 24 * 60 * 60 * 1000);
+      setHistory(await getRateHistory(chartCurrency, since));
+    } catch (error) {
+      console.error('Error loading rate history:', error);
+      toast.error('Failed to load rate history');
+    }
+  }, [chartCurrency, historyDays]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const openOverride = (quote: FxQuote) => {
+    setOverriding(quote);
+    setOverrideRate(quote.midRate === null ? '' : String(quote.midRate));
+    setOverrideHours('6');
+    setOverrideReason('');
+  };
+
+  const submitOverride = async () => {
+    if (!overriding) return;
+
+    const rate = parseFloat(overrideRate);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      toast.error('Enter a valid rate');
+      return;
+    }
+    if (!overrideReason.trim()) {
+      toast.error('Please give a reason for the override');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await createFxOverride({
+        currency: overriding.currency,
+        rate,
+        durationMinutes: Number(overrideHours) * 60,
+        reason: overrideReason.trim(),
+      });
+      toast.success(`${overriding.currency} rate overridden`);
+      setOverriding(null);
+      loadRates();
+      loadHistory();
+    } catch (error) {
+      console.error('Error creating FX override:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to override rate');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (override: FxOverride) => {
+    try {
+      await revokeFxOverride(override.id);
+      toast.success(`${override.currency} override ended`);
+      loadRates();
+    } catch (error) {
+      console.error('Error revoking FX override:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to end override');
+    }
+  };
+
+  const chartData = history.map((entry) => ({
+    time: new Date(entry.fetched_at).getTime(),
+    rate: Number(entry.rate),
+    source: entry.source,
+  }));
+
+  return (
+    <Layout showBottomNav={false}>
+      <div className="min-h-screen bg-background p-6">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Exchange Rates</h1>
+              <p className="text-muted-foreground">Rates deposits and withdrawals are priced at, and manual overrides</p>
+            </div>
+            <Button onClick={loadRates} variant="outline" size="icon">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Current Rates (per 1 USD)</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8 text-muted-foreground">Loading rates...</div>
+              ) : quotes.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No currencies are configured</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pair</TableHead>
+                      <TableHead className="text-right">Mid</TableHead>
+                      <TableHead className="text-right">Deposit (buy)</TableHead>
+                      <TableHead className="text-right">Withdrawal (sell)</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Age</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {quotes.map((quote) => (
+                      <TableRow key={quote.currency}>
+                        <TableCell className="font-medium">USD/{quote.currency}</TableCell>
+                        <TableCell className="text-right">{formatRate(quote.midRate)}</TableCell>
+                        <TableCell className="text-right">{formatRate(quote.buyRate)}</TableCell>
+                        <TableCell className="text-right">{formatRate(quote.sellRate)}</TableCell>
+                        <TableCell>
+                          {quote.overrideId ? (
+                            <Badge variant="outline" className="text-warning">
+                              Manual until {new Date(quote.overrideExpiresAt as string).toLocaleString()}
+                            </Badge>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">{quote.source || '—'}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm">{formatAge(quote.fetchedAt)}</span>
+                            {quote.isStale && (
+                              <Badge variant="outline" className="text-destructive">
+                                {quote.fetchedAt ? 'Stale' : 'No rate'}
+                              </Badge>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground">Max age {quote.maxAgeMinutes}m</p>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" variant="outline" onClick={() => openOverride(quote)}>
+                            <Pin className="w-4 h-4 mr-1" /> Override
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Rate History</CardTitle>
+              <div className="flex gap-2">
+                <Select value={chartCurrency} onValueChange={setChartCurrency}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue placeholder="Currency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {quotes.map((quote) => (
+                      <SelectItem key={quote.currency} value={quote.currency}>USD/{quote.currency}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={historyDays} onValueChange={setHistoryDays}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(HISTORY_DAYS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {chartData.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No rates recorded in this period</div>
+              ) : (
+                <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+                  <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      scale="time"
+                      domain={['dataMin', 'dataMax']}
+                      tickFormatter={(value: number) => new Date(value).toLocaleDateString()}
+                    />
+                    <YAxis domain={['auto', 'auto']} width={80} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          labelFormatter={(_, payload) => {
+                            const point = payload?.[0]?.payload;
+                            return point ? `${new Date(point.time).toLocaleString()} · ${point.source}` : '';
+                          }}
+                        />
+                      }
+                    />
+                    <Line dataKey="rate" type="stepAfter" stroke="var(--color-rate)" dot={false} strokeWidth={2} />
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Overrides</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {overrides.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No overrides yet</div>
+              ) : (
+                <div className="space-y-2">
+                  {overrides.map((override) => (
+                    <div key={override.id} className="flex items-center gap-4 p-4 border rounded-lg">
+                      <div className="flex-1 grid grid-cols-1 md:grid-cols-4 gap-2">
+                        <div>
+                          <p className="font-medium">USD/{override.currency} = {formatRate(Number(override.rate))}</p>
+                          <p className="text-sm text-muted-foreground">{new Date(override.created_at).toLocaleString()}</p>
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          Until {new Date(override.expires_at).toLocaleString()}
+                        </div>
+                        <div>
+                          {isLive(override) ? (
+                            <Badge variant="outline" className="text-warning">Active</Badge>
+                          ) : (
+                            <Badge variant="outline">{override.revoked_at ? 'Ended early' : 'Expired'}</Badge>
+                          )}
+                        </div>
+                        <div className="text-sm truncate">{override.reason}</div>
+                      </div>
+                      {isLive(override) && (
+                        <Button size="sm" variant="outline" onClick={() => handleRevoke(override)}>
+                          <X className="w-4 h-4 mr-1" /> End
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={overriding !== null} onOpenChange={(open) => !open && setOverriding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Override USD/{overriding?.currency}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              The override replaces the fetched mid rate until it expires. Deposit and withdrawal
+              spreads still apply on top of it.
+            </p>
+            <div>
+              <Label htmlFor="override-rate">Mid rate ({overriding?.currency} per USD)</Label>
+              <Input
+                id="override-rate"
+                type="number"
+                min="0"
+                step="any"
+                value={overrideRate}
+                onChange={(e) => setOverrideRate(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Duration</Label>
+              <Select value={overrideHours} onValueChange={setOverrideHours}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DURATION_HOURS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="override-reason">Reason</Label>
+              <Textarea
+                id="override-reason"
+                placeholder="Why the fetched rate is wrong"
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOverriding(null)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={submitOverride} disabled={submitting}>
+              {submitting ? 'Saving...' : 'Override Rate'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default AdminFx;
@@ -0,0 +1,206 @@
+import { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, RotateCcw, Search, ChevronDown, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  listWebhookEvents,
+  replayWebhookEvent,
+  type WebhookEvent,
+  type WebhookEventFilter,
+} from '@/data/webhooks';
+import { toast } from 'sonner';
+import Layout from '@/components/Layout';
+
+const FILTER_LABELS: Record<WebhookEventFilter, string> = {
+  unprocessed: 'Not Processed',
+  invalid: 'Invalid Signature',
+  processed: 'Processed',
+  all: 'All Events',
+};
+
+const AdminWebhooks = () => {
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<WebhookEventFilter>('unprocessed');
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [replaying, setReplaying] = useState<WebhookEvent | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEvents(await listWebhookEvents(filter, appliedSearch.trim() || undefined));
+    } catch (error) {
+      console.error('Error loading webhook events:', error);
+      toast.error('Failed to load webhook events');
+    } finally {
+      setLoading(false);
+    }
+  }, [filter, appliedSearch]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const submitReplay = async () => {
+    if (!replaying) return;
+
+    setSubmitting(true);
+    try {
+      const result = await replayWebhookEvent(replaying.id);
+      if (result.success) {
+        toast.success('Callback reprocessed');
+      } else {
+        toast.error(`Callback not applied: ${result.error || 'unknown error'}`);
+      }
+      setReplaying(null);
+      loadEvents();
+    } catch (error) {
+      console.error('Error replaying webhook event:', error);
+      toast.error('Failed to reprocess callback');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Layout showBottomNav={false}>
+      <div className="min-h-screen bg-background p-6">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Payment Callbacks</h1>
+              <p className="text-muted-foreground">Inspect stored gateway callbacks and reprocess them</p>
+            </div>
+            <Button onClick={loadEvents} variant="outline" size="icon">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <Card>
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-6">
+              <Select value={filter} onValueChange={(value) => setFilter(value as WebhookEventFilter)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FILTER_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <form
+                className="flex gap-2 md:col-span-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  setAppliedSearch(search);
+                }}
+              >
+                <Input
+                  placeholder="Order number"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+                <Button type="submit" size="icon" variant="outline">
+                  <Search className="h-4 w-4" />
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{events.length} callback{events.length === 1 ? '' : 's'}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8 text-muted-foreground">Loading callbacks...</div>
+              ) : events.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No callbacks match these filters</div>
+              ) : (
+                <div className="space-y-2">
+                  {events.map((event) => (
+                    <div key={event.id} className="border rounded-lg">
+                      <div className="flex items-center gap-4 p-4">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                        >
+                          {expanded === event.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </Button>
+                        <div className="flex-1 grid grid-cols-1 md:grid-cols-4 gap-2">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{event.event_id}</p>
+                            <p className="text-sm text-muted-foreground">{event.gateway || event.gateway_name}</p>
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {new Date(event.processed_at).toLocaleString()}
+                            <p>{event.source_ip}</p>
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            <Badge variant="outline" className={event.signature_ok ? 'text-success' : 'text-destructive'}>
+                              {event.signature_ok ? 'Signature OK' : 'Bad Signature'}
+                            </Badge>
+                            <Badge variant="outline" className={event.processed ? 'text-success' : 'text-warning'}>
+                              {event.processed ? 'Processed' : 'Not Processed'}
+                            </Badge>
+                            {event.replay_count > 0 && (
+                              <Badge variant="outline">Replayed {event.replay_count}×</Badge>
+                            )}
+                          </div>
+                          <div className="text-sm text-destructive truncate">{event.error}</div>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setReplaying(event)}
+                          disabled={!event.signature_ok}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" /> Reprocess
+                        </Button>
+                      </div>
+                      {expanded === event.id && (
+                        <pre className="mx-4 mb-4 p-3 bg-muted rounded text-xs overflow-x-auto">
+                          {JSON.stringify(event.payload, null, 2)}
+                        </pre>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={replaying !== null} onOpenChange={(open) => !open && setReplaying(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reprocess callback</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            The stored callback for {replaying?.event_id} is checked again and applied. A deposit that
+            has already been credited is not credited twice.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReplaying(null)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={submitReplay} disabled={submitting}>
+              {submitting ? 'Reprocessing...' : 'Reprocess'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default AdminWebhooks;
@@ -0,0 +1,345 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Check, CheckCheck, X, Pause, RefreshCw, Search, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  listWithdrawalQueue,
+  reviewWithdrawals,
+  type ReviewWithdrawal,
+  type WithdrawalQueueFilters,
+  type WithdrawalReviewAction,
+  type WithdrawalStatus,
+} from '@/data/withdrawals';
+import { formatCents } from '@/data/wallet';
+import { toast } from 'sonner';
+import Layout from '@/components/Layout';
+
+const STATUS_LABELS: Record<WithdrawalStatus, string> = {
+  pending_review: 'Pending Review',
+  on_hold: 'On Hold',
+  queued: 'Queued',
+  processing: 'Processing',
+  unconfirmed: 'Payout Unconfirmed',
+  completed: 'Completed',
+  failed: 'Failed',
+  rejected: 'Rejected',
+};
+
+// Which review actions the edge function accepts for each status
+const ACTIONS_BY_STATUS: Record<WithdrawalReviewAction, WithdrawalStatus[]> = {
+  approve: ['pending_review', 'on_hold'],
+  reject: ['pending_review', 'on_hold', 'queued'],
+  hold: ['pending_review', 'queued'],
+  mark_paid: ['unconfirmed'],
+  mark_failed: ['unconfirmed'],
+};
+
+const ACTION_LABELS: Record<WithdrawalReviewAction, string> = {
+  approve: 'Approve',
+  reject: 'Reject',
+  hold: 'Hold',
+  mark_paid: 'Mark Paid',
+  mark_failed: 'Mark Failed',
+};
+
+const REASON_PLACEHOLDERS: Record<Exclude<WithdrawalReviewAction, 'approve'>, string> = {
+  reject: 'Reason for rejecting; reserved funds are returned to the wallet',
+  hold: 'Reason for holding these withdrawals',
+  mark_paid: 'Gateway reference or evidence that the payout arrived',
+  mark_failed: 'Evidence that the payout was never made; reserved funds are returned to the wallet',
+};
+
+// Currencies offered by WithdrawalModal
+const WITHDRAWAL_CURRENCIES = ['USD', 'NGN', 'KES', 'UGX', 'GHS'];
+
+const toCents = (value: string) => (value.trim() === '' ? undefined : Math.round(Number(value) * 100));
+
+const AdminWithdrawals = () => {
+  const [withdrawals, setWithdrawals] = useState<ReviewWithdrawal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [status, setStatus] = useState<WithdrawalQueueFilters['status']>('pending_review');
+  const [currency, setCurrency] = useState('all');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [userSearch, setUserSearch] = useState('');
+  // Amount and user filters apply on search, not on every keystroke
+  const [appliedSearch, setAppliedSearch] = useState({ minAmount: '', maxAmount: '', user: '' });
+  const [pendingAction, setPendingAction] = useState<WithdrawalReviewAction | null>(null);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await listWithdrawalQueue({
+        status,
+        currency: currency === 'all' ? undefined : currency,
+        minCents: toCents(appliedSearch.minAmount),
+        maxCents: toCents(appliedSearch.maxAmount),
+        user: appliedSearch.user.trim() || undefined,
+      });
+      setWithdrawals(data);
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Error loading withdrawals:', error);
+      toast.error('Failed to load withdrawals');
+    } finally {
+      setLoading(false);
+    }
+  }, [status, currency, appliedSearch]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const selectedRows = withdrawals.filter((w) => selected.has(w.id));
+
+  const canApply = (action: WithdrawalReviewAction) =>
+    selectedRows.length > 0 &&
+    selectedRows.every((w) => ACTIONS_BY_STATUS[action].includes(w.status as WithdrawalStatus));
+
+  const toggleRow = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(selected.size === withdrawals.length ? new Set() : new Set(withdrawals.map((w) => w.id)));
+  };
+
+  const openAction = (action: WithdrawalReviewAction) => {
+    setReason('');
+    setPendingAction(action);
+  };
+
+  const submitAction = async () => {
+    if (!pendingAction) return;
+    if (pendingAction !== 'approve' && !reason.trim()) {
+      toast.error('A reason is required');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { results } = await reviewWithdrawals(pendingAction, [...selected], reason.trim() || undefined);
+      const failed = results.filter((r) => !r.success);
+      const succeeded = results.length - failed.length;
+
+      if (succeeded > 0) {
+        toast.success(`${ACTION_LABELS[pendingAction]}: ${succeeded} withdrawal${succeeded === 1 ? '' : 's'} updated`);
+      }
+      failed.forEach((r) => toast.error(`${r.id.slice(0, 8)}: ${r.error || 'Failed'}`));
+
+      setPendingAction(null);
+      loadQueue();
+    } catch (error) {
+      console.error('Error reviewing withdrawals:', error);
+      toast.error('Failed to update withdrawals');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Layout showBottomNav={false}>
+      <div className="min-h-screen bg-background p-6">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Withdrawal Review</h1>
+              <p className="text-muted-foreground">Approve, hold or reject withdrawal requests and settle unconfirmed payouts</p>
+            </div>
+            <Button onClick={loadQueue} variant="outline" size="icon">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {/* Filters */}
+          <Card>
+            <CardContent className="grid grid-cols-1 md:grid-cols-5 gap-4 pt-6">
+              <Select value={status} onValueChange={(value) => setStatus(value as WithdrawalQueueFilters['status'])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Currencies</SelectItem>
+                  {WITHDRAWAL_CURRENCIES.map((c) => (
+                    <SelectItem key={c} value={c}>{c}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="0"
+                placeholder="Min amount (USD)"
+                value={minAmount}
+                onChange={(e) => setMinAmount(e.target.value)}
+              />
+              <Input
+                type="number"
+                min="0"
+                placeholder="Max amount (USD)"
+                value={maxAmount}
+                onChange={(e) => setMaxAmount(e.target.value)}
+              />
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  setAppliedSearch({ minAmount, maxAmount, user: userSearch });
+                }}
+              >
+                <Input
+                  placeholder="Name, phone or user ID"
+                  value={userSearch}
+                  onChange={(e) => setUserSearch(e.target.value)}
+                />
+                <Button type="submit" size="icon" variant="outline">
+                  <Search className="h-4 w-4" />
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>
+                {withdrawals.length} withdrawal{withdrawals.length === 1 ? '' : 's'}
+                {selected.size > 0 && ` · ${selected.size} selected`}
+              </CardTitle>
+              {status === 'unconfirmed' ? (
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => openAction('mark_paid')} disabled={!canApply('mark_paid')}>
+                    <CheckCheck className="w-4 h-4 mr-1" /> Mark Paid
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => openAction('mark_failed')} disabled={!canApply('mark_failed')}>
+                    <Undo2 className="w-4 h-4 mr-1" /> Mark Failed
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => openAction('approve')} disabled={!canApply('approve')}>
+                    <Check className="w-4 h-4 mr-1" /> Approve
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => openAction('hold')} disabled={!canApply('hold')}>
+                    <Pause className="w-4 h-4 mr-1" /> Hold
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => openAction('reject')} disabled={!canApply('reject')}>
+                    <X className="w-4 h-4 mr-1" /> Reject
+                  </Button>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8 text-muted-foreground">Loading withdrawals...</div>
+              ) : withdrawals.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No withdrawals match these filters</div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-4 px-4 py-2 text-sm text-muted-foreground">
+                    <Checkbox
+                      checked={selected.size === withdrawals.length}
+                      onCheckedChange={toggleAll}
+                    />
+                    <span>Select all</span>
+                  </div>
+                  {withdrawals.map((withdrawal) => (
+                    <div key={withdrawal.id} className="flex items-center gap-4 p-4 border rounded-lg">
+                      <Checkbox
+                        checked={selected.has(withdrawal.id)}
+                        onCheckedChange={() => toggleRow(withdrawal.id)}
+                      />
+                      <div className="flex-1 grid grid-cols-1 md:grid-cols-4 gap-2">
+                        <div>
+                          <p className="font-medium">{withdrawal.profile?.full_name || 'Unknown'}</p>
+                          <p className="text-sm text-muted-foreground">{withdrawal.profile?.phone}</p>
+                        </div>
+                        <div>
+                          <p className="font-semibold">{formatCents(withdrawal.amount_cents)}</p>
+                          <p className="text-sm text-muted-foreground">
+                            Net: {formatCents(withdrawal.net_cents)}
+                            {withdrawal.local_amount !== null && withdrawal.local_currency &&
+                              ` · ${withdrawal.local_amount.toLocaleString()} ${withdrawal.local_currency}`}
+                          </p>
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {withdrawal.created_at ? new Date(withdrawal.created_at).toLocaleString() : '-'}
+                          {(withdrawal.review_note || withdrawal.last_error) && (
+                            <p className="truncate">{withdrawal.review_note || withdrawal.last_error}</p>
+                          )}
+                        </div>
+                        <div className="md:text-right">
+                          <Badge variant="outline">
+                            {STATUS_LABELS[withdrawal.status as WithdrawalStatus] || withdrawal.status}
+                          </Badge>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={pendingAction !== null} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pendingAction && ACTION_LABELS[pendingAction]} {selected.size} withdrawal{selected.size === 1 ? '' : 's'}
+            </DialogTitle>
+          </DialogHeader>
+          {pendingAction === 'approve' ? (
+            <p className="text-sm text-muted-foreground">
+              Approved withdrawals are queued for payout on the next processing run.
+            </p>
+          ) : (
+            <Textarea
+              placeholder={pendingAction ? REASON_PLACEHOLDERS[pendingAction] : undefined}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingAction === 'reject' || pendingAction === 'mark_failed' ? 'destructive' : 'default'}
+              onClick={submitAction}
+              disabled={submitting}
+            >
+              {submitting ? 'Saving...' : 'Confirm'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default AdminWithdrawals;
@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
 import Layout from '@/components/Layout';
 import { CountrySelector } from '@/components/CountrySelector';
+import { listCountries } from '@/data/countries';
 import { auth, db, googleProvider, appleProvider } from '@/integrations/firebase';
 import { createUserWithEmailAndPassword, sendEmailVerification, signInWithPopup } from 'firebase/auth';
 import { doc, setDoc, getDocs, collection, query, where, updateDoc, increment } from 'firebase/firestore';
@@ -59,6 +60,11 @@ const Register = () => {
       toast.error('Passwords do not match');
       return;
     }
+    const countries = await listCountries().catch(() => []);
+    if (countries.some(country => country.code === formData.country && !country.signup_allowed)) {
+      toast.error('Sign up is not available in your country yet');
+      return;
+    }
 
     setLoading(true);
     try {
@@ -179,6 +185,7 @@ const Register = () => {
                 <CountrySelector
                   value={formData.country}
                   onValueChange={(value) => setFormData(prev => ({ ...prev, country: value }))}
+                  signupOnly
                 />
               </div>
               <div>
@@ -0,0 +1,183 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { closePendingDeposit, confirmPaidDeposit } from "./deposits.ts";
+import { getPaymentProvider, PaymentCallback } from "./payments.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+export interface CallbackOutcome {
+  // HTTP status for the gateway: anything but 200 makes Basepay retry the callback
+  status: number;
+  body: string;
+  processed: boolean;
+  error?: string;
+}
+
+export function getSourceIp(req: Request): string {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(',')[0].trim();
+  return req.headers.get("x-real-ip") || "unknown";
+}
+
+// Form fields of a stored callback. basepay-webhook used to wrap them as
+// { type: 'payment_callback', data, timestamp }.
+export function storedCallbackFields(payload: unknown): Record<string, unknown> {
+  const stored = (payload || {}) as Record<string, unknown>;
+  if (stored.type === 'payment_callback' && stored.data && typeof stored.data === 'object') {
+    return stored.data as Record<string, unknown>;
+  }
+  return stored;
+}
+
+// Apply an authenticated callback stored as webhook_events row `eventRowId`.
+// Safe to repeat: confirm_deposit only credits a deposit once.
+export async function applyPaymentCallback(
+  supabaseAdmin: SupabaseClient,
+  eventRowId: string,
+  callback: PaymentCallback
+): Promise<CallbackOutcome> {
+  const fail = async (error: string, status: number): Promise<CallbackOutcome> => {
+    await supabaseAdmin
+      .from('webhook_events')
+      .update({ error })
+      .eq('id', eventRowId);
+    return { status, body: error, processed: false, error };
+  };
+
+  if (!callback.orderNo) {
+    return fail('missing_order', 400);
+  }
+
+  const { data: deposit } = await supabaseAdmin
+    .from('deposits')
+    .select('id, plan_id, gateway_id, amount_usd_cents')
+    .eq('mch_order_no', callback.orderNo)
+    .maybeSingle();
+
+  if (!deposit) {
+    console.error('Deposit not found:', callback.orderNo);
+    return fail('deposit_not_found', 404);
+  }
+
+  if (callback.status !== 'paid') {
+    await closePendingDeposit(supabaseAdmin, deposit.id, 'failed');
+
+    await supabaseAdmin
+      .from('webhook_events')
+      .update({ processed: true, error: null, deposit_id: deposit.id })
+      .eq('id', eventRowId);
+
+    await supabaseAdmin
+      .from('gateway_logs')
+      .insert({ type: 'webhook_failed', payload: callback.raw, deposit_id: deposit.id });
+
+    return { status: 200, body: 'success', processed: true };
+  }
+
+  let result;
+  try {
+    result = await confirmPaidDeposit(supabaseAdmin, deposit, callback.reference, eventRowId);
+  } catch (confirmError) {
+    console.error('Failed to confirm deposit:', confirmError);
+    return fail(confirmError.message, 500);
+  }
+
+  await supabaseAdmin
+    .from('gateway_logs')
+    .insert({ type: 'webhook_success', payload: { callback: callback.raw, result }, deposit_id: deposit.id });
+
+  console.log(
+    result.already_confirmed ? 'Deposit already confirmed:' : 'Deposit confirmed:',
+    callback.orderNo
+  );
+
+  return { status: 200, body: 'success', processed: true };
+}
+
+// Store a gateway callback in webhook_events under its event_id, then apply
+// it if it is authentic. A repeat of an already processed callback is
+// acknowledged without touching the deposit again.
+export async function recordPaymentCallback(
+  supabaseAdmin: SupabaseClient,
+  gateway: string,
+  callback: PaymentCallback,
+  sourceIp: string
+): Promise<CallbackOutcome> {
+  const eventId = callback.eventId ?? `${gateway}:unidentified:${crypto.randomUUID()}`;
+
+  let { data: event, error: insertError } = await supabaseAdmin
+    .from('webhook_events')
+    .insert({
+      event_id: eventId,
+      gateway,
+      gateway_name: gateway,
+      payload: callback.raw,
+      signature_ok: callback.signatureOk,
+      source_ip: sourceIp,
+      processed: false,
+      error: callback.signatureOk ? null : 'invalid_signature',
+    })
+    .select('id, processed')
+    .single();
+
+  // Unique violation: the gateway is retrying a callback we already stored
+  if (insertError?.code === '23505') {
+    ({ data: event, error: insertError } = await supabaseAdmin
+      .from('webhook_events')
+      .select('id, processed')
+      .eq('event_id', eventId)
+      .single());
+
+    if (event?.processed) {
+      console.log(`Duplicate ${gateway} callback ignored:`, eventId);
+      return { status: 200, body: 'success', processed: true };
+    }
+  }
+
+  if (insertError || !event) {
+    throw new Error(`Failed to store callback: ${insertError?.message}`);
+  }
+
+  if (!callback.signatureOk) {
+    console.warn(`Invalid ${gateway} callback signature:`, eventId);
+    return { status: 400, body: 'Invalid signature', processed: false, error: 'invalid_signature' };
+  }
+
+  return applyPaymentCallback(supabaseAdmin, event.id, callback);
+}
+
+// Basepay collection callback
+export async function handleBasepayCallback(req: Request): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const sourceIp = getSourceIp(req);
+    const allowedIps = (Deno.env.get("CALLBACK_ALLOWED_IPS") || "")
+      .split(',')
+      .map((ip) => ip.trim())
+      .filter(Boolean);
+
+    if (allowedIps.length > 0 && !allowedIps.includes(sourceIp)) {
+      console.warn(`Basepay callback from unauthorized IP: ${sourceIp}`);
+      return new Response("Unauthorized IP", { status: 403, headers: corsHeaders });
+    }
+
+    const callback = await getPaymentProvider('basepay').verifyCallback(req);
+    const outcome = await recordPaymentCallback(supabaseAdmin, 'basepay', callback, sourceIp);
+    return new Response(outcome.body, { status: outcome.status, headers: corsHeaders });
+
+  } catch (error) {
+    console.error("Basepay callback error:", error);
+    return new Response(error.message || "error", { status: 500, headers: corsHeaders });
+  }
+}
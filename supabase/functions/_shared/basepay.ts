@@ -0,0 +1,23 @@
+import { crypto } from "https://deno.land/std@0.190.0/crypto/mod.ts";
+
+// MD5 signature over the sorted non-empty params, as Basepay expects for both collection and payout
+export async function createSign(params: Record<string, unknown>, secretKey: string): Promise<string> {
+  const entries = Object.entries(params)
+    .filter(([k, v]) => v !== null && v !== undefined && v !== '' && k !== 'sign' && k !== 'sign_type')
+    .sort((a, b) => a[0].localeCompare(b[0], 'en'));
+
+  const query = entries.map(([k, v]) => `${k}=${v}`).join('&') + `&key=${secretKey}`;
+
+  const encoder = new TextEncoder();
+  const data = encoder.encode(query);
+  const hashBuffer = await crypto.subtle.digest('MD5', data);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('').toLowerCase();
+}
+
+// Basepay dates are "YYYY-MM-DD HH:mm:ss"
+export function formatBasepayDate(date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
@@ -0,0 +1,376 @@
+// On-chain lookups for USDT deposits. A ChainIndexer reads one transaction's
+// token transfers; verifyUsdtTransfer decides whether they pay a deposit.
+// CHAIN_INDEXER=fixture swaps the node/API backed indexer for CHAIN_FIXTURES.
+
+export type ChainNetwork = 'BEP20' | 'TRC20' | 'ERC20';
+
+export const CHAIN_NETWORKS: ChainNetwork[] = ['BEP20', 'TRC20', 'ERC20'];
+
+interface UsdtToken {
+  contract: string;
+  decimals: number;
+  // Blocks on top of the transaction's before we treat it as final
+  confirmations: number;
+}
+
+export const USDT_TOKENS: Record<ChainNetwork, UsdtToken> = {
+  BEP20: { contract: '0x55d398326f99059fF775485246999027B3197955', decimals: 18, confirmations: 15 },
+  TRC20: { contract: 'TR7NHqjeKQxGTCi8q8ZYpL5ovKdwHwDvF4', decimals: 6, confirmations: 19 },
+  ERC20: { contract: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6, confirmations: 12 },
+};
+
+// A token Transfer event. Addresses are 40 lowercase hex digits on every
+// network (see addressKey); amount is in the token's smallest unit.
+export interface TokenTransfer {
+  token: string;
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+export interface ChainTransaction {
+  hash: string;
+  network: ChainNetwork;
+  // false when the transaction was mined but reverted
+  success: boolean;
+  blockNumber: number;
+  confirmations: number;
+  transfers: TokenTransfer[];
+}
+
+export interface ChainIndexer {
+  name: string;
+  // null when the network does not know the transaction (yet)
+  getTransaction(network: ChainNetwork, txHash: string): Promise<ChainTransaction | null>;
+}
+
+// retryable=false means asking again cannot help (malformed hash, unsupported network)
+export class ChainIndexerError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message);
+    this.name = "ChainIndexerError";
+  }
+}
+
+export const isChainNetwork = (value: unknown): value is ChainNetwork =>
+  CHAIN_NETWORKS.includes(value as ChainNetwork);
+
+// keccak256("Transfer(address,address,uint256)")
+const TRANSFER_TOPIC = 'ddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Tron base58check address -> its 21 bytes (0x41 prefix + 20 byte account) as hex
+function tronAddressHex(address: string): string {
+  let value = 0n;
+  for (const char of address) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) throw new ChainIndexerError(`Invalid Tron address: ${address}`, false);
+    value = value * 58n + BigInt(digit);
+  }
+  // 21 address bytes followed by a 4 byte checksum
+  const hex = value.toString(16).padStart(50, '0');
+  if (!hex.startsWith('41')) throw new ChainIndexerError(`Invalid Tron address: ${address}`, false);
+  return hex.slice(0, 42);
+}
+
+// Comparable form of an address: the 20 byte account as lowercase hex. Tron
+// base58 addresses and 0x-prefixed EVM addresses both map onto it.
+export function addressKey(address: string): string {
+  const trimmed = address.trim();
+  if (/^T[1-9A-HJ-NP-Za-km-z]{33}$/.test(trimmed)) {
+    return tronAddressHex(trimmed).slice(2);
+  }
+  return trimmed.toLowerCase().replace(/^0x/, '').replace(/^41(?=[0-9a-f]{40}$)/, '').slice(-40);
+}
+
+// Transaction hashes are 32 bytes of hex; EVM explorers show them with 0x,
+// Tron ones without. Stored and compared lowercase without the prefix.
+export function normalizeTxHash(txHash: string): string {
+  const hash = txHash.trim().toLowerCase().replace(/^0x/, '');
+  if (!/^[0-9a-f]{64}$/.test(hash)) {
+    throw new ChainIndexerError("Transaction hash must be 64 hex characters", false);
+  }
+  return hash;
+}
+
+interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+function decodeTransfers(logs: RawLog[]): TokenTransfer[] {
+  return logs
+    .filter((log) => log.topics.length === 3 && log.topics[0].replace(/^0x/, '').toLowerCase() === TRANSFER_TOPIC)
+    .map((log) => ({
+      token: addressKey(log.address),
+      from: log.topics[1].replace(/^0x/, '').slice(-40).toLowerCase(),
+      to: log.topics[2].replace(/^0x/, '').slice(-40).toLowerCase(),
+      amount: BigInt(`0x${log.data.replace(/^0x/, '') || '0'}`),
+    }));
+}
+
+// JSON-RPC 2.0 envelope
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+// eth_getTransactionReceipt; quantities are hex strings, null while pending
+interface EvmReceipt {
+  blockNumber: string | null;
+  status: string | null;
+  logs: RawLog[] | null;
+}
+
+// TronGrid /wallet/gettransactioninfobyid: an empty object for unknown transactions
+interface TronTransactionInfo {
+  id?: string;
+  blockNumber?: number;
+  receipt?: { result?: string };
+  log?: RawLog[];
+}
+
+// TronGrid /wallet/getnowblock, the fields read here
+interface TronBlock {
+  block_header?: { raw_data?: { number?: number } };
+}
+
+// The caller names the shape it expects; nothing here checks it
+async function postJson<T>(url: string, body: unknown, headers: Record<string, string> = {}): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch (networkError) {
+    throw new ChainIndexerError(`Chain node unreachable: ${networkError.message}`, true);
+  }
+
+  if (!response.ok) {
+    throw new ChainIndexerError(`Chain node answered HTTP ${response.status}`, true);
+  }
+  return await response.json() as T;
+}
+
+const EVM_RPC_URLS: Record<'BEP20' | 'ERC20', () => string> = {
+  BEP20: () => Deno.env.get("BSC_RPC_URL") || "https://bsc-dataseed.binance.org",
+  ERC20: () => Deno.env.get("ETH_RPC_URL") || "https://cloudflare-eth.com",
+};
+
+async function evmRpc<T>(network: 'BEP20' | 'ERC20', method: string, params: unknown[]): Promise<T | null> {
+  const body = await postJson<JsonRpcResponse<T>>(EVM_RPC_URLS[network](), { jsonrpc: '2.0', id: 1, method, params });
+  if (body.error) {
+    throw new ChainIndexerError(`${method} failed: ${body.error.message}`, true);
+  }
+  return body.result ?? null;
+}
+
+// TronGrid's node API, which reports logs in the same shape as EVM receipts
+function tronApi<T>(path: string, body: unknown): Promise<T> {
+  const apiKey = Deno.env.get("TRONGRID_API_KEY");
+  return postJson<T>(
+    `${Deno.env.get("TRONGRID_URL") || "https://api.trongrid.io"}${path}`,
+    body,
+    apiKey ? { 'TRON-PRO-API-KEY': apiKey } : {}
+  );
+}
+
+// Public JSON-RPC nodes for BEP20/ERC20, TronGrid for TRC20
+const nodeIndexer: ChainIndexer = {
+  name: 'node',
+
+  async getTransaction(network, txHash) {
+    const hash = normalizeTxHash(txHash);
+
+    if (network === 'TRC20') {
+      const info = await tronApi<TronTransactionInfo>('/wallet/gettransactioninfobyid', { value: hash });
+      if (!info?.id || !info.blockNumber) return null;
+
+      const head = await tronApi<TronBlock>('/wallet/getnowblock', {});
+      const headNumber = Number(head?.block_header?.raw_data?.number ?? 0);
+
+      return {
+        hash,
+        network,
+        success: info.receipt?.result === 'SUCCESS',
+        blockNumber: info.blockNumber,
+        confirmations: Math.max(0, headNumber - info.blockNumber + 1),
+        transfers: decodeTransfers(info.log || []),
+      };
+    }
+
+    const receipt = await evmRpc<EvmReceipt>(network, 'eth_getTransactionReceipt', [`0x${hash}`]);
+    if (!receipt?.blockNumber) return null;
+
+    const head = parseInt(await evmRpc<string>(network, 'eth_blockNumber', []) ?? '0x0', 16);
+    const blockNumber = parseInt(receipt.blockNumber, 16);
+
+    return {
+      hash,
+      network,
+      success: receipt.status === '0x1',
+      blockNumber,
+      confirmations: Math.max(0, head - blockNumber + 1),
+      transfers: decodeTransfers(receipt.logs || []),
+    };
+  },
+};
+
+// Local stand-in keyed by "<network>:<hash>" with hashes as normalizeTxHash
+// returns them. Add entries here to script a scenario for development and tests.
+export const CHAIN_FIXTURES: Record<string, Omit<ChainTransaction, 'hash' | 'network'>> = {
+  // 25 USDT to the seeded BEP20 deposit address, final
+  'BEP20:1111111111111111111111111111111111111111111111111111111111111111': {
+    success: true,
+    blockNumber: 42000000,
+    confirmations: 120,
+    transfers: [{
+      token: addressKey(USDT_TOKENS.BEP20.contract),
+      from: '5a52e96bacdabb82fd05763e25335261b270efcb',
+      to: '34fecfbe68b7dc59aebdf42373aac8c9ddecbd83',
+      amount: 25n * 10n ** 18n,
+    }],
+  },
+  // Same transfer, only 3 blocks deep
+  'BEP20:2222222222222222222222222222222222222222222222222222222222222222': {
+    success: true,
+    blockNumber: 42000117,
+    confirmations: 3,
+    transfers: [{
+      token: addressKey(USDT_TOKENS.BEP20.contract),
+      from: '5a52e96bacdabb82fd05763e25335261b270efcb',
+      to: '34fecfbe68b7dc59aebdf42373aac8c9ddecbd83',
+      amount: 25n * 10n ** 18n,
+    }],
+  },
+  // 10 USDT to our address: underpaid for a $25 deposit
+  'BEP20:3333333333333333333333333333333333333333333333333333333333333333': {
+    success: true,
+    blockNumber: 42000001,
+    confirmations: 119,
+    transfers: [{
+      token: addressKey(USDT_TOKENS.BEP20.contract),
+      from: '5a52e96bacdabb82fd05763e25335261b270efcb',
+      to: '34fecfbe68b7dc59aebdf42373aac8c9ddecbd83',
+      amount: 10n * 10n ** 18n,
+    }],
+  },
+  // 25 USDT to somebody else's address
+  'BEP20:4444444444444444444444444444444444444444444444444444444444444444': {
+    success: true,
+    blockNumber: 42000002,
+    confirmations: 118,
+    transfers: [{
+      token: addressKey(USDT_TOKENS.BEP20.contract),
+      from: '5a52e96bacdabb82fd05763e25335261b270efcb',
+      to: '8894e0a0c962cb723c1976a4421c95949be2d4e3',
+      amount: 25n * 10n ** 18n,
+    }],
+  },
+  // 25 of some other token to our address
+  'BEP20:5555555555555555555555555555555555555555555555555555555555555555': {
+    success: true,
+    blockNumber: 42000003,
+    confirmations: 117,
+    transfers: [{
+      token: 'e9e7cea3dedca5984780bafc599bd69add087d56',
+      from: '5a52e96bacdabb82fd05763e25335261b270efcb',
+      to: '34fecfbe68b7dc59aebdf42373aac8c9ddecbd83',
+      amount: 25n * 10n ** 18n,
+    }],
+  },
+  // Reverted transaction
+  'BEP20:6666666666666666666666666666666666666666666666666666666666666666': {
+    success: false,
+    blockNumber: 42000004,
+    confirmations: 116,
+    transfers: [],
+  },
+};
+
+const fixtureIndexer: ChainIndexer = {
+  name: 'fixture',
+
+  getTransaction(network, txHash) {
+    const hash = normalizeTxHash(txHash);
+    const fixture = CHAIN_FIXTURES[`${network}:${hash}`];
+    return Promise.resolve(fixture ? { hash, network, ...fixture } : null);
+  },
+};
+
+export function getChainIndexer(): ChainIndexer {
+  return Deno.env.get("CHAIN_INDEXER") === 'fixture' ? fixtureIndexer : nodeIndexer;
+}
+
+export type TransferVerdict = 'verified' | 'unconfirmed' | 'mismatch';
+
+export interface TransferVerification {
+  verdict: TransferVerdict;
+  // Human-readable reasons the transaction does not (yet) pay the deposit
+  discrepancies: string[];
+  // USDT received by our addresses, in cents
+  receivedCents: number;
+  confirmations: number;
+}
+
+const formatUnits = (amount: bigint, decimals: number) => {
+  const cents = amount / 10n ** BigInt(decimals - 2);
+  return (Number(cents) / 100).toFixed(2);
+};
+
+// Does `tx` pay at least `expectedCents` of USDT into one of `receivingAddresses`,
+// deep enough to be final? Transfers of other tokens or to other addresses
+// are ignored rather than netted.
+export function verifyUsdtTransfer(
+  tx: ChainTransaction,
+  receivingAddresses: string[],
+  expectedCents: number,
+  minConfirmations = USDT_TOKENS[tx.network].confirmations
+): TransferVerification {
+  const token = USDT_TOKENS[tx.network];
+  const tokenKey = addressKey(token.contract);
+  const ours = new Set(receivingAddresses.map(addressKey));
+  const discrepancies: string[] = [];
+
+  if (!tx.success) {
+    discrepancies.push('Transaction failed on chain');
+  }
+
+  const toUs = tx.transfers.filter((transfer) => ours.has(transfer.to));
+  const usdtToUs = toUs.filter((transfer) => transfer.token === tokenKey);
+  const received = usdtToUs.reduce((sum, transfer) => sum + transfer.amount, 0n);
+  const receivedCents = Number(received / 10n ** BigInt(token.decimals - 2));
+
+  if (tx.success && toUs.length === 0) {
+    discrepancies.push(
+      tx.transfers.length === 0
+        ? 'Transaction has no token transfers'
+        : 'Transaction does not pay our receiving address'
+    );
+  } else if (tx.success && usdtToUs.length === 0) {
+    discrepancies.push(`Transaction pays a token other than USDT (${tx.network})`);
+  } else if (tx.success && receivedCents < expectedCents) {
+    discrepancies.push(
+      `Received ${formatUnits(received, token.decimals)} USDT, expected ${(expectedCents / 100).toFixed(2)}`
+    );
+  }
+
+  if (discrepancies.length > 0) {
+    return { verdict: 'mismatch', discrepancies, receivedCents, confirmations: tx.confirmations };
+  }
+
+  if (tx.confirmations < minConfirmations) {
+    return {
+      verdict: 'unconfirmed',
+      discrepancies: [`${tx.confirmations} of ${minConfirmations} confirmations`],
+      receivedCents,
+      confirmations: tx.confirmations,
+    };
+  }
+
+  return { verdict: 'verified', discrepancies: [], receivedCents, confirmations: tx.confirmations };
+}
@@ -0,0 +1,81 @@
+// The countries catalogue: dial codes, currencies and which deposit and
+// withdrawal methods each country may use. Methods in USD_METHODS move USD;
+// the others are in the country's own currency.
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export interface Country {
+  code: string;
+  name: string;
+  dial_code: string;
+  flag: string;
+  currency: string;
+  currency_minor_units: number;
+  currency_symbol: string;
+  // payment_gateways.provider values
+  deposit_methods: string[];
+  // payout_methods.type values
+  withdrawal_methods: string[];
+  // Operators mobile_money payout methods may use (mpesa, mtn_momo)
+  mobile_money_operators: string[];
+  default_bank_code: string | null;
+  signup_allowed: boolean;
+}
+
+export const USD_METHODS = ['manual_crypto', 'stripe', 'usdt'];
+
+// null for codes outside the catalogue, such as the selector's 'OTHER'
+export async function getCountry(supabaseAdmin: SupabaseClient, code: string | null | undefined): Promise<Country | null> {
+  if (!code) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('countries')
+    .select('*')
+    .eq('code', code.toUpperCase())
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as Country | null;
+}
+
+// The country on the user's profile, if it is in the catalogue
+export async function getUserCountry(supabaseAdmin: SupabaseClient, userId: string): Promise<Country | null> {
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('country')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return getCountry(supabaseAdmin, profile?.country);
+}
+
+export const usesLocalCurrency = (country: Country) =>
+  [...country.deposit_methods, ...country.withdrawal_methods].some((method) => !USD_METHODS.includes(method));
+
+// Currencies at least one country deposits or withdraws in locally
+export async function localCurrencies(supabaseAdmin: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('countries')
+    .select('*');
+
+  if (error) throw error;
+
+  const currencies = ((data || []) as Country[])
+    .filter(usesLocalCurrency)
+    .map((country) => country.currency)
+    .filter((currency) => currency !== 'USD');
+
+  return [...new Set(currencies)].sort();
+}
+
+// Decimal places amounts in `currency` are kept in; null when no country uses it
+export async function currencyMinorUnits(supabaseAdmin: SupabaseClient, currency: string): Promise<number | null> {
+  const { data, error } = await supabaseAdmin
+    .from('countries')
+    .select('currency_minor_units')
+    .eq('currency', currency)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? data.currency_minor_units : null;
+}
@@ -0,0 +1,160 @@
+// Receiving addresses for manual crypto deposits. A manual_crypto gateway
+// with config.xpub gives every user their own address derived from it;
+// otherwise deposits share config.address and are told apart by amount tags,
+// a few cents added to the amount due. See assignDepositAddress.
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { HDKey } from "https://esm.sh/@scure/bip32@1.4.0";
+import { secp256k1 } from "https://esm.sh/@noble/curves@1.4.0/secp256k1";
+import { keccak_256 } from "https://esm.sh/@noble/hashes@1.4.0/sha3";
+import { sha256 } from "https://esm.sh/@noble/hashes@1.4.0/sha256";
+import { bytesToHex } from "https://esm.sh/@noble/hashes@1.4.0/utils";
+import { ChainNetwork, isChainNetwork } from "./chain.ts";
+import { PaymentGateway, PaymentProviderError } from "./payments.ts";
+
+// Amount tags stay reserved for pending deposits this recent; older ones
+// are abandoned and their tags can be handed out again
+const AMOUNT_TAG_HOLD_MINUTES = Number(Deno.env.get("CRYPTO_AMOUNT_TAG_HOLD_MINUTES") || 1440);
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export interface DepositAddress {
+  address: string;
+  network: ChainNetwork;
+  // Cents added to the deposit amount; the payer sends amount + tag
+  amountTagCents: number;
+}
+
+function base58check(payload: Uint8Array): string {
+  const checksum = sha256(sha256(payload)).slice(0, 4);
+  const bytes = new Uint8Array([...payload, ...checksum]);
+
+  let value = BigInt('0x' + bytesToHex(bytes));
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+  return encoded;
+}
+
+// EIP-55 mixed-case checksum encoding
+function checksumAddress(account: string): string {
+  const hash = bytesToHex(keccak_256(new TextEncoder().encode(account)));
+  return '0x' + [...account]
+    .map((char, i) => parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char)
+    .join('');
+}
+
+// Address of child m/0/<index> under an account-level xpub (m/44'/60'/0' for
+// BEP20/ERC20, m/44'/195'/0' for TRC20)
+export function deriveDepositAddress(xpub: string, network: ChainNetwork, index: number): string {
+  const child = HDKey.fromExtendedKey(xpub).deriveChild(0).deriveChild(index);
+  if (!child.publicKey) {
+    throw new PaymentProviderError(`Cannot derive address ${index} from the configured xpub`, false);
+  }
+
+  // Both chains use the last 20 bytes of keccak256(uncompressed public key)
+  const publicKey = secp256k1.ProjectivePoint.fromHex(child.publicKey).toRawBytes(false);
+  const account = keccak_256(publicKey.slice(1)).slice(-20);
+
+  return network === 'TRC20'
+    ? base58check(new Uint8Array([0x41, ...account]))
+    : checksumAddress(bytesToHex(account));
+}
+
+async function findUserAddress(
+  supabaseAdmin: SupabaseClient,
+  gatewayId: string,
+  userId: string
+): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('crypto_deposit_addresses')
+    .select('address')
+    .eq('user_id', userId)
+    .eq('gateway_id', gatewayId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.address ?? null;
+}
+
+async function userDepositAddress(
+  supabaseAdmin: SupabaseClient,
+  gateway: PaymentGateway,
+  network: ChainNetwork,
+  xpub: string,
+  userId: string
+): Promise<string> {
+  const existing = await findUserAddress(supabaseAdmin, gateway.id, userId);
+  if (existing) return existing;
+
+  const { data: index, error: indexError } = await supabaseAdmin.rpc('next_crypto_address_index');
+  if (indexError) throw indexError;
+
+  const address = deriveDepositAddress(xpub, network, index);
+  const { error: insertError } = await supabaseAdmin
+    .from('crypto_deposit_addresses')
+    .insert({ user_id: userId, gateway_id: gateway.id, network, address, derivation_index: index });
+
+  if (insertError) {
+    // A concurrent request assigned this user's address first
+    const assigned = insertError.code === '23505' ? await findUserAddress(supabaseAdmin, gateway.id, userId) : null;
+    if (assigned) return assigned;
+    throw insertError;
+  }
+
+  return address;
+}
+
+// Decides where a pending manual crypto deposit gets paid and records it on
+// the deposit (network, deposit_address, amount_tag_cents)
+export async function assignDepositAddress(
+  supabaseAdmin: SupabaseClient,
+  gateway: PaymentGateway,
+  deposit: { id: string; user_id: string }
+): Promise<DepositAddress> {
+  const network = String(gateway.config?.network || 'BEP20');
+  if (!isChainNetwork(network)) {
+    throw new PaymentProviderError(`${gateway.name} has an unsupported network: ${network}`, false);
+  }
+
+  const xpub = gateway.config?.xpub ? String(gateway.config.xpub) : null;
+  if (xpub) {
+    const address = await userDepositAddress(supabaseAdmin, gateway, network, xpub, deposit.user_id);
+    const { error } = await supabaseAdmin
+      .from('deposits')
+      .update({ network, deposit_address: address, amount_tag_cents: 0 })
+      .eq('id', deposit.id);
+
+    if (error) throw error;
+    return { address, network, amountTagCents: 0 };
+  }
+
+  const address = gateway.config?.address ? String(gateway.config.address) : null;
+  if (!address) {
+    throw new PaymentProviderError(`${gateway.name} has no deposit address or xpub configured`, false);
+  }
+
+  const { error: networkError } = await supabaseAdmin
+    .from('deposits')
+    .update({ network })
+    .eq('id', deposit.id);
+
+  if (networkError) throw networkError;
+
+  const { data: tag, error: tagError } = await supabaseAdmin.rpc('assign_crypto_amount_tag', {
+    p_deposit_id: deposit.id,
+    p_address: address,
+    p_since: new Date(Date.now() - AMOUNT_TAG_HOLD_MINUTES * 60 * 1000).toISOString(),
+  });
+
+  if (tagError) {
+    throw new PaymentProviderError(`Could not reserve a payment amount: ${tagError.message}`, true);
+  }
+
+  return { address, network, amountTagCents: tag };
+}
@@ -0,0 +1,88 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { nextDropAt } from "./income-schedule.ts";
+
+export interface DepositConfirmation {
+  deposit_id: string;
+  already_confirmed: boolean;
+  amount_cents: number;
+  bonus_cents: number;
+}
+
+// payment_gateways.config.deposit_bonus_percent of the gateway the deposit went through
+async function depositBonusCents(
+  supabaseAdmin: SupabaseClient,
+  gatewayId: string | null,
+  amountCents: number
+): Promise<number> {
+  if (!gatewayId) return 0;
+
+  const { data: gateway } = await supabaseAdmin
+    .from('payment_gateways')
+    .select('config')
+    .eq('id', gatewayId)
+    .maybeSingle();
+
+  const percent = Number((gateway?.config as Record<string, unknown> | null)?.deposit_bonus_percent ?? 0);
+  return percent > 0 ? Math.round(amountCents * percent / 100) : 0;
+}
+
+// Credit a deposit the gateway reports as paid, through confirm_deposit.
+// Safe to repeat: a deposit is only credited once.
+export async function confirmPaidDeposit(
+  supabaseAdmin: SupabaseClient,
+  deposit: { id: string; plan_id: string | null; gateway_id: string | null; amount_usd_cents: number },
+  gatewayRef: string | null,
+  webhookEventId: string | null = null
+): Promise<DepositConfirmation> {
+  // Wallet deposits without a plan earn no income drops
+  const { data: plan } = deposit.plan_id
+    ? await supabaseAdmin
+      .from('plans')
+      .select('*')
+      .eq('id', deposit.plan_id)
+      .maybeSingle()
+    : { data: null };
+
+  let firstDropAt: string | null = null;
+  if (plan) {
+    try {
+      firstDropAt = nextDropAt(plan, new Date()).toISOString();
+    } catch (scheduleError) {
+      // Credit the deposit anyway; the drop can be scheduled by hand
+      console.error(`Cannot schedule income for plan ${plan.id}:`, scheduleError);
+    }
+  }
+
+  const { data: result, error } = await supabaseAdmin.rpc('confirm_deposit', {
+    p_deposit_id: deposit.id,
+    p_gateway_ref: gatewayRef,
+    p_bonus_cents: await depositBonusCents(supabaseAdmin, deposit.gateway_id, deposit.amount_usd_cents),
+    p_first_drop_at: firstDropAt,
+    p_webhook_event_id: webhookEventId,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return result as DepositConfirmation;
+}
+
+// Move a still-pending deposit to `status`; never touches a deposit that has
+// been confirmed in the meantime. Returns whether the row changed.
+export async function closePendingDeposit(
+  supabaseAdmin: SupabaseClient,
+  depositId: string,
+  status: 'failed' | 'expired'
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('deposits')
+    .update({ status })
+    .eq('id', depositId)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) throw error;
+
+  return (data || []).length > 0;
+}
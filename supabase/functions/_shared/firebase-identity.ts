@@ -0,0 +1,114 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export interface FirebaseIdentity {
+  firebaseUid: string;
+  email: string;
+  // Firebase's email_verified claim. Only a verified address may take over
+  // an existing Supabase account or be marked confirmed on the Supabase side.
+  emailVerified: boolean;
+  fullName?: string | null;
+  phone?: string | null;
+  country?: string | null;
+}
+
+export interface LinkedUser {
+  userId: string;
+  // One-time magic link token; redeem with auth.verifyOtp to open a session
+  hashedToken: string;
+}
+
+// Resolve (or create) the Supabase auth user behind a Firebase account and
+// record the link in firebase_identities.
+export async function ensureSupabaseUser(
+  supabaseAdmin: SupabaseClient,
+  identity: FirebaseIdentity
+): Promise<LinkedUser> {
+  const email = identity.email.toLowerCase();
+
+  const { data: existing } = await supabaseAdmin
+    .from('firebase_identities')
+    .select('user_id, email')
+    .eq('firebase_uid', identity.firebaseUid)
+    .maybeSingle();
+
+  if (!existing) {
+    // An existing account with the same email is adopted as-is
+    const { error: createError } = await supabaseAdmin.auth.admin.createUser({
+      email,
+      email_confirm: identity.emailVerified,
+      app_metadata: { provider: 'firebase', firebase_uid: identity.firebaseUid },
+      user_metadata: {
+        full_name: identity.fullName ?? null,
+        phone: identity.phone ?? null,
+        country: identity.country ?? null,
+      },
+    });
+
+    if (createError) {
+      if (!/already (been )?registered/i.test(createError.message)) {
+        console.error('User creation error:', createError);
+        throw new Error('Failed to create Supabase user');
+      }
+      if (!identity.emailVerified) {
+        throw new Error('Email address must be verified to link an existing account');
+      }
+    }
+  } else if (existing.email !== email) {
+    if (!identity.emailVerified) {
+      throw new Error('Email address must be verified to change the linked account email');
+    }
+
+    // Keep the Supabase email in step with Firebase so magic links resolve
+    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(existing.user_id, {
+      email,
+      email_confirm: true,
+    });
+
+    if (updateError) {
+      console.error('User email update error:', updateError);
+      throw new Error('Failed to update Supabase user');
+    }
+  }
+
+  // generateLink doubles as the admin lookup by email
+  const { data: linkData, error: linkError } = await supabaseAdmin.auth.admin.generateLink({
+    type: 'magiclink',
+    email,
+  });
+
+  if (linkError || !linkData?.user) {
+    console.error('Generate link error:', linkError);
+    throw new Error('Failed to resolve Supabase user');
+  }
+
+  const userId = linkData.user.id;
+
+  if (existing && existing.user_id !== userId) {
+    throw new Error('Firebase account is linked to a different user');
+  }
+
+  // Adopted accounts need the Firebase uid stamped on them for the client-side session check
+  if (linkData.user.app_metadata?.firebase_uid !== identity.firebaseUid) {
+    await supabaseAdmin.auth.admin.updateUserById(userId, {
+      app_metadata: { firebase_uid: identity.firebaseUid },
+    });
+  }
+
+  const { error: upsertError } = await supabaseAdmin
+    .from('firebase_identities')
+    .upsert({
+      firebase_uid: identity.firebaseUid,
+      user_id: userId,
+      email,
+      last_exchanged_at: new Date().toISOString()
+    }, {
+      onConflict: 'firebase_uid'
+    });
+
+  if (upsertError) {
+    console.error('Identity link error:', upsertError);
+    throw new Error('Failed to link Firebase identity');
+  }
+
+  return { userId, hashedToken: linkData.properties.hashed_token };
+}
@@ -0,0 +1,98 @@
+import { importPKCS8, SignJWT } from "https://esm.sh/jose@5.2.4";
+
+const FIRESTORE_SCOPE = "https://www.googleapis.com/auth/datastore";
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+
+interface ServiceAccount {
+  project_id: string;
+  client_email: string;
+  private_key: string;
+}
+
+type FirestoreValue = {
+  nullValue?: null;
+  booleanValue?: boolean;
+  integerValue?: string;
+  doubleValue?: number;
+  stringValue?: string;
+  timestampValue?: string;
+  mapValue?: { fields?: Record<string, FirestoreValue> };
+  arrayValue?: { values?: FirestoreValue[] };
+};
+
+export interface FirestoreDocument {
+  id: string;
+  data: Record<string, unknown>;
+}
+
+// Unwrap Firestore's typed REST values into plain JSON; timestamps stay ISO strings
+function decodeValue(value: FirestoreValue): unknown {
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.integerValue !== undefined) return Number(value.integerValue);
+  if (value.doubleValue !== undefined) return value.doubleValue;
+  if (value.booleanValue !== undefined) return value.booleanValue;
+  if (value.timestampValue !== undefined) return value.timestampValue;
+  if (value.mapValue !== undefined) return decodeFields(value.mapValue.fields ?? {});
+  if (value.arrayValue !== undefined) return (value.arrayValue.values ?? []).map(decodeValue);
+  return null;
+}
+
+function decodeFields(fields: Record<string, FirestoreValue>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(fields).map(([k, v]) => [k, decodeValue(v)]));
+}
+
+// Read-only Firestore client authenticated with a Google service account (FIREBASE_SERVICE_ACCOUNT)
+export async function createFirestoreReader(serviceAccountJson: string) {
+  const account = JSON.parse(serviceAccountJson) as ServiceAccount;
+  const privateKey = await importPKCS8(account.private_key, "RS256");
+
+  const assertion = await new SignJWT({ scope: FIRESTORE_SCOPE })
+    .setProtectedHeader({ alg: "RS256", typ: "JWT" })
+    .setIssuer(account.client_email)
+    .setAudience(GOOGLE_TOKEN_URL)
+    .setIssuedAt()
+    .setExpirationTime("1h")
+    .sign(privateKey);
+
+  const tokenResponse = await fetch(GOOGLE_TOKEN_URL, {
+    method: "POST",
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion,
+    }),
+  });
+
+  if (!tokenResponse.ok) {
+    throw new Error(`Google token request failed: ${await tokenResponse.text()}`);
+  }
+
+  const { access_token: accessToken } = await tokenResponse.json();
+  const baseUrl = `https://firestore.googleapis.com/v1/projects/${account.project_id}/databases/(default)/documents`;
+
+  // Page through every document in a top-level collection
+  async function* listDocuments(collection: string, pageSize = 300): AsyncGenerator<FirestoreDocument> {
+    let pageToken: string | undefined;
+
+    do {
+      const url = new URL(`${baseUrl}/${collection}`);
+      url.searchParams.set("pageSize", String(pageSize));
+      if (pageToken) url.searchParams.set("pageToken", pageToken);
+
+      const response = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+      if (!response.ok) {
+        throw new Error(`Firestore list ${collection} failed: ${await response.text()}`);
+      }
+
+      const page = await response.json();
+      for (const doc of page.documents ?? []) {
+        yield {
+          id: String(doc.name).split("/").pop() ?? "",
+          data: decodeFields(doc.fields ?? {}),
+        };
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  return { listDocuments };
+}
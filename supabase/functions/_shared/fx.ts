@@ -0,0 +1,325 @@
+// Exchange rates. Every rate is USD -> currency. FxSources quote mid rates;
+// refreshFxRates takes the median of what they return for each local
+// currency in the countries catalogue, stores it in conversion_rates and
+// appends it to rate_history.
+// getFxQuote prices one side of a conversion with the currency's spread and
+// refuses a rate older than the currency's max_age_minutes. A live manual
+// override from fx_overrides (see admin-fx) replaces the fetched mid rate.
+// quoteConversion prices wallet conversions between two currencies.
+// FX_PROVIDER=fixture swaps the HTTP sources for FX_FIXTURES.
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { currencyMinorUnits, localCurrencies } from "./countries.ts";
+
+// What the user does with USD: deposits buy it, withdrawals sell it
+export type FxSide = 'buy' | 'sell';
+
+export interface FxSource {
+  name: string;
+  // Mid rates for whichever of `currencies` the source knows, keyed by currency
+  fetchRates(currencies: string[]): Promise<Record<string, number>>;
+}
+
+export interface FxQuote {
+  currency: string;
+  side: FxSide;
+  // Units of `currency` per USD, spread included
+  rate: number;
+  midRate: number;
+  source: string;
+  fetchedAt: string;
+}
+
+export type FxRateErrorCode = 'fx_rate_unavailable' | 'fx_rate_stale';
+
+export class FxRateError extends Error {
+  constructor(message: string, public code: FxRateErrorCode) {
+    super(message);
+    this.name = "FxRateError";
+  }
+}
+
+// Currencies priced 1:1 with USD without a lookup
+const PAR_CURRENCIES = ['USD', 'USDT'];
+
+// A currency needs quotes from at least this many sources to be updated
+const MIN_SOURCES = Number(Deno.env.get("FX_MIN_SOURCES") || 1);
+
+// Rate source payloads, the fields read here: units of each currency per USD
+// (per USDT for CoinGecko). currency-api and CoinGecko key them in lower case.
+interface ExchangeRateApiPayload {
+  rates?: Record<string, number>;
+}
+
+interface CurrencyApiPayload {
+  usd?: Record<string, number>;
+}
+
+interface CoinGeckoPayload {
+  tether?: Record<string, number>;
+}
+
+// The caller names the payload it expects; nothing here checks it
+async function getJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`${new URL(url).host} answered HTTP ${response.status}`);
+  }
+  return await response.json() as T;
+}
+
+const pick = (rates: Record<string, unknown>, currencies: string[], key = (c: string) => c) =>
+  Object.fromEntries(
+    currencies
+      .map((currency) => [currency, Number(rates[key(currency)])] as const)
+      .filter(([, rate]) => Number.isFinite(rate) && rate > 0)
+  );
+
+const exchangeRateApiSource: FxSource = {
+  name: 'exchangerate-api',
+
+  async fetchRates(currencies) {
+    const body = await getJson<ExchangeRateApiPayload>("https://api.exchangerate-api.com/v4/latest/USD");
+    return pick(body.rates || {}, currencies);
+  },
+};
+
+const currencyApiSource: FxSource = {
+  name: 'currency-api',
+
+  async fetchRates(currencies) {
+    const body = await getJson<CurrencyApiPayload>("https://cdn.jsdelivr.net/npm/@fawazahmed0/currency-api@latest/v1/currencies/usd.json");
+    return pick(body.usd || {}, currencies, (currency) => currency.toLowerCase());
+  },
+};
+
+// What USDT sells for locally, which tracks the rate USDT-funded balances
+// are actually cashed out at
+const coinGeckoSource: FxSource = {
+  name: 'coingecko',
+
+  async fetchRates(currencies) {
+    const vs = currencies.map((currency) => currency.toLowerCase()).join(',');
+    const body = await getJson<CoinGeckoPayload>(`https://api.coingecko.com/api/v3/simple/price?ids=tether&vs_currencies=${vs}`);
+    return pick(body.tether || {}, currencies, (currency) => currency.toLowerCase());
+  },
+};
+
+// Local stand-in. Add or change entries to script rates for development and tests.
+export const FX_FIXTURES: Record<string, number> = {
+  NGN: 1530,
+  KES: 129.2,
+  UGX: 3690,
+  ZAR: 17.6,
+  GHS: 12.4,
+};
+
+const fixtureSource: FxSource = {
+  name: 'fixture',
+
+  fetchRates(currencies) {
+    return Promise.resolve(pick(FX_FIXTURES, currencies));
+  },
+};
+
+const HTTP_SOURCES: FxSource[] = [exchangeRateApiSource, currencyApiSource, coinGeckoSource];
+
+// FX_SOURCES narrows the HTTP sources to a comma separated list of names
+export function getFxSources(): FxSource[] {
+  if (Deno.env.get("FX_PROVIDER") === 'fixture') return [fixtureSource];
+
+  const names = (Deno.env.get("FX_SOURCES") || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  return names.length ? HTTP_SOURCES.filter((source) => names.includes(source.name)) : HTTP_SOURCES;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export interface FxRefreshResult {
+  currency: string;
+  rate: number | null;
+  sources: Record<string, number>;
+  // Why the currency was left as it was
+  error?: string;
+}
+
+// Fetches every currency a country trades in locally (see countries.ts) from
+// every source and stores the median. Currencies switched off in
+// fx_settings are skipped. A source that fails is skipped; a currency with
+// too few quotes keeps its previous rate, which goes stale if this keeps
+// happening.
+export async function refreshFxRates(supabaseAdmin: SupabaseClient): Promise<FxRefreshResult[]> {
+  const wanted = (await localCurrencies(supabaseAdmin)).filter((currency) => !PAR_CURRENCIES.includes(currency));
+
+  if (wanted.length) {
+    // New currencies start with default spreads and staleness window
+    const { error: seedError } = await supabaseAdmin
+      .from('fx_settings')
+      .upsert(wanted.map((currency) => ({ currency })), { onConflict: 'currency', ignoreDuplicates: true });
+
+    if (seedError) throw seedError;
+  }
+
+  const { data: disabled, error: settingsError } = await supabaseAdmin
+    .from('fx_settings')
+    .select('currency')
+    .eq('enabled', false);
+
+  if (settingsError) throw settingsError;
+
+  const disabledCurrencies = (disabled || []).map((row) => row.currency);
+  const currencies = wanted.filter((currency) => !disabledCurrencies.includes(currency));
+
+  if (!currencies.length) return [];
+
+  const sources = getFxSources();
+  const quotes = await Promise.all(sources.map(async (source) => {
+    try {
+      return { source: source.name, rates: await source.fetchRates(currencies) };
+    } catch (sourceError) {
+      console.error(`FX source ${source.name} failed:`, sourceError);
+      return { source: source.name, rates: {} as Record<string, number> };
+    }
+  }));
+
+  const fetchedAt = new Date().toISOString();
+  const results: FxRefreshResult[] = [];
+
+  for (const currency of currencies) {
+    const sourceRates: Record<string, number> = {};
+    for (const quote of quotes) {
+      if (quote.rates[currency]) sourceRates[quote.source] = quote.rates[currency];
+    }
+
+    const values = Object.values(sourceRates);
+    if (values.length < MIN_SOURCES) {
+      results.push({
+        currency,
+        rate: null,
+        sources: sourceRates,
+        error: `${values.length} of ${MIN_SOURCES} required sources answered`,
+      });
+      continue;
+    }
+
+    const rate = median(values);
+    const source = sources.length === 1 ? sources[0].name : 'aggregate';
+    const row = { base_currency: 'USD', quote_currency: currency, rate, source, sources: sourceRates, fetched_at: fetchedAt };
+
+    const { error: upsertError } = await supabaseAdmin
+      .from('conversion_rates')
+      .upsert(row, { onConflict: 'base_currency,quote_currency' });
+
+    if (upsertError) {
+      results.push({ currency, rate: null, sources: sourceRates, error: upsertError.message });
+      continue;
+    }
+
+    const { error: historyError } = await supabaseAdmin.from('rate_history').insert(row);
+    if (historyError) {
+      console.error(`Failed to record ${currency} rate history:`, historyError);
+    }
+
+    results.push({ currency, rate, sources: sourceRates });
+  }
+
+  return results;
+}
+
+// The rate to convert USD at on `side`, from get_fx_quotes. Throws
+// FxRateError when the currency has no rate or it is too old to trade on.
+export async function getFxQuote(supabaseAdmin: SupabaseClient, currency: string, side: FxSide): Promise<FxQuote> {
+  if (PAR_CURRENCIES.includes(currency)) {
+    return { currency, side, rate: 1, midRate: 1, source: 'par', fetchedAt: new Date().toISOString() };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .rpc('get_fx_quotes', { p_currency: currency })
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const quote = data as {
+    mid_rate: number | null;
+    buy_rate: number | null;
+    sell_rate: number | null;
+    source: string | null;
+    fetched_at: string | null;
+    is_stale: boolean | null;
+  } | null;
+
+  const rate = side === 'buy' ? quote?.buy_rate : quote?.sell_rate;
+  if (!quote || !rate || !quote.fetched_at) {
+    throw new FxRateError(`No exchange rate available for ${currency}`, 'fx_rate_unavailable');
+  }
+  if (quote.is_stale) {
+    throw new FxRateError(
+      `The ${currency} exchange rate is out of date. Please try again later.`,
+      'fx_rate_stale'
+    );
+  }
+
+  return {
+    currency,
+    side,
+    rate: Number(rate),
+    midRate: Number(quote.mid_rate),
+    source: quote.source || 'unknown',
+    fetchedAt: quote.fetched_at,
+  };
+}
+
+export interface FxConversion {
+  fromCurrency: string;
+  toCurrency: string;
+  // Minor units of each currency
+  amountCents: number;
+  convertedCents: number;
+  // Units of toCurrency per unit of fromCurrency, spreads included
+  rate: number;
+  quotes: FxQuote[];
+}
+
+// Prices a wallet conversion: out of a currency at its buy rate, into one at
+// its sell rate, through USD when neither side is USD. Rounds down.
+export async function quoteConversion(
+  supabaseAdmin: SupabaseClient,
+  amountCents: number,
+  fromCurrency: string,
+  toCurrency: string
+): Promise<FxConversion> {
+  const [fromUnits, toUnits] = await Promise.all([
+    currencyMinorUnits(supabaseAdmin, fromCurrency),
+    currencyMinorUnits(supabaseAdmin, toCurrency),
+  ]);
+  if (fromUnits === null || toUnits === null) {
+    throw new FxRateError(
+      `Balances in ${fromUnits === null ? fromCurrency : toCurrency} are not supported`,
+      'fx_rate_unavailable'
+    );
+  }
+
+  const [fromQuote, toQuote] = await Promise.all([
+    getFxQuote(supabaseAdmin, fromCurrency, 'buy'),
+    getFxQuote(supabaseAdmin, toCurrency, 'sell'),
+  ]);
+
+  const usd = amountCents / 10 ** fromUnits / fromQuote.rate;
+  // toFixed first so float noise like 1499.9999999 does not lose a unit
+  const convertedCents = Math.floor(Number((usd * toQuote.rate * 10 ** toUnits).toFixed(6)));
+
+  return {
+    fromCurrency,
+    toCurrency,
+    amountCents,
+    convertedCents,
+    rate: toQuote.rate / fromQuote.rate,
+    quotes: [fromQuote, toQuote].filter((quote) => !PAR_CURRENCIES.includes(quote.currency)),
+  };
+}
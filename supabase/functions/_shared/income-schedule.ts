@@ -0,0 +1,182 @@
+// Income drop schedules stored on plans. All times are UTC.
+//   interval: every schedule_interval_minutes
+//   daily:    once a day at schedule_time_of_day ("HH:MM" or "HH:MM:SS")
+//   cron:     a five-field cron expression in schedule_cron
+// skip_weekends pushes any drop that lands on Saturday or Sunday to Monday.
+
+export type ScheduleKind = 'interval' | 'daily' | 'cron';
+
+export interface IncomeSchedule {
+  schedule_kind: ScheduleKind;
+  schedule_interval_minutes: number | null;
+  schedule_time_of_day: string | null;
+  schedule_cron: string | null;
+  skip_weekends: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Cron searches give up after this long without a match (e.g. "0 0 30 2 *")
+const CRON_SEARCH_LIMIT_MS = 366 * DAY_MS;
+
+const isWeekend = (date: Date) => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either may match
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step: ${part}`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [startText, endText] = range.split('-');
+      start = Number(startText);
+      end = endText === undefined ? (stepText === undefined ? start : max) : Number(endText);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field: ${field}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: ${expression}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseCronField(dayOfWeek, 0, 7);
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31),
+    months: parseCronField(month, 1, 12),
+    daysOfWeek,
+    domRestricted: dayOfMonth !== '*',
+    dowRestricted: dayOfWeek !== '*',
+  };
+}
+
+function cronDayMatches(cron: CronFields, date: Date): boolean {
+  if (!cron.months.has(date.getUTCMonth() + 1)) return false;
+
+  const domMatch = cron.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (cron.domRestricted && cron.dowRestricted) return domMatch || dowMatch;
+  if (cron.domRestricted) return domMatch;
+  if (cron.dowRestricted) return dowMatch;
+  return true;
+}
+
+// First minute strictly after `after` that matches the expression
+function nextCronTime(cron: CronFields, after: Date): Date {
+  const limit = after.getTime() + CRON_SEARCH_LIMIT_MS;
+  const candidate = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+
+  while (candidate.getTime() <= limit) {
+    if (!cronDayMatches(cron, candidate)) {
+      candidate.setUTCHours(24, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new Error("Cron expression has no upcoming run");
+}
+
+function nextDailyTime(timeOfDay: string, after: Date): Date {
+  const [hours, minutes, seconds = 0] = timeOfDay.split(':').map(Number);
+  if ([hours, minutes, seconds].some((part) => !Number.isInteger(part))) {
+    throw new Error(`Invalid schedule time of day: ${timeOfDay}`);
+  }
+
+  const candidate = new Date(after);
+  candidate.setUTCHours(hours, minutes, seconds, 0);
+  if (candidate.getTime() <= after.getTime()) {
+    candidate.setUTCDate(candidate.getUTCDate() + 1);
+  }
+  return candidate;
+}
+
+// When the drop after `previous` is due. `previous` is the prior drop's due_at
+// (or the deposit confirmation time for the first drop), never the time the
+// job happened to run, so late runs do not push later drops back.
+export function nextDropAt(schedule: IncomeSchedule, previous: Date): Date {
+  let next: Date;
+
+  switch (schedule.schedule_kind) {
+    case 'interval': {
+      const minutes = schedule.schedule_interval_minutes;
+      if (!minutes || minutes <= 0) {
+        throw new Error("Interval schedule needs schedule_interval_minutes");
+      }
+      next = new Date(previous.getTime() + minutes * MINUTE_MS);
+      break;
+    }
+    case 'daily':
+      if (!schedule.schedule_time_of_day) {
+        throw new Error("Daily schedule needs schedule_time_of_day");
+      }
+      next = nextDailyTime(schedule.schedule_time_of_day, previous);
+      break;
+    case 'cron': {
+      if (!schedule.schedule_cron) {
+        throw new Error("Cron schedule needs schedule_cron");
+      }
+      const cron = parseCron(schedule.schedule_cron);
+      next = nextCronTime(cron, previous);
+      while (schedule.skip_weekends && isWeekend(next)) {
+        if (next.getTime() - previous.getTime() > CRON_SEARCH_LIMIT_MS) {
+          throw new Error("Cron expression only runs on weekends");
+        }
+        next = nextCronTime(cron, next);
+      }
+      return next;
+    }
+    default:
+      throw new Error(`Unknown schedule kind: ${schedule.schedule_kind}`);
+  }
+
+  while (schedule.skip_weekends && isWeekend(next)) {
+    next = new Date(next.getTime() + DAY_MS);
+  }
+
+  return next;
+}
@@ -0,0 +1,216 @@
+// Access to the mobile money operators' APIs, shared by the collection
+// providers in payments.ts and the payout providers in payouts.ts:
+//   mpesa:    Safaricom Daraja (STK push collections, B2C payouts), KES
+//   mtn_momo: MTN MoMo Open API (request-to-pay, disbursement transfers)
+// The API URLs default to the operators' sandboxes; point MPESA_API_URL or
+// MTN_MOMO_API_URL at the mpesa-sandbox / mtn-momo-sandbox functions (or
+// `deno task mpesa-sandbox` / `deno task mtn-momo-sandbox`) to run locally.
+
+export type MobileMoneyOperator = 'mpesa' | 'mtn_momo';
+
+export const MOBILE_MONEY_OPERATORS: MobileMoneyOperator[] = ['mpesa', 'mtn_momo'];
+
+export type MtnProduct = 'collection' | 'disbursement';
+
+// status null: the operator could not be reached at all
+export class MobileMoneyApiError extends Error {
+  constructor(message: string, public status: number | null, public raw?: unknown) {
+    super(message);
+    this.name = "MobileMoneyApiError";
+  }
+
+  get retryable(): boolean {
+    return this.status === null || this.status >= 500 || this.status === 429;
+  }
+}
+
+export interface MobileMoneyResponse {
+  status: number;
+  ok: boolean;
+  // Parsed JSON body; null for an empty or non-JSON body
+  body: Record<string, unknown> | null;
+}
+
+export async function callMobileMoneyApi(label: string, url: string, init: RequestInit): Promise<MobileMoneyResponse> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (networkError) {
+    throw new MobileMoneyApiError(`${label} unreachable: ${networkError.message}`, null);
+  }
+
+  const text = await response.text();
+  let body: Record<string, unknown> | null = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    body = null;
+  }
+
+  return { status: response.status, ok: response.ok, body };
+}
+
+export const mpesaApiUrl = () =>
+  (Deno.env.get("MPESA_API_URL") || "https://sandbox.safaricom.co.ke").replace(/\/$/, '');
+
+export const mtnApiUrl = () =>
+  (Deno.env.get("MTN_MOMO_API_URL") || "https://sandbox.momodeveloper.mtn.com").replace(/\/$/, '');
+
+// MTN's X-Target-Environment for each MoMo market we pay in. The sandbox
+// only knows "sandbox", so MTN_MOMO_TARGET_ENVIRONMENT overrides them all.
+const MTN_TARGET_ENVIRONMENTS: Record<string, string> = {
+  UGX: 'mtnuganda',
+  GHS: 'mtnghana',
+};
+
+export function mtnTargetEnvironment(currency: string): string {
+  const override = Deno.env.get("MTN_MOMO_TARGET_ENVIRONMENT");
+  if (override) return override;
+
+  const environment = MTN_TARGET_ENVIRONMENTS[currency.toUpperCase()];
+  if (!environment) {
+    throw new MobileMoneyApiError(`MTN MoMo does not pay in ${currency}`, 400);
+  }
+  return environment;
+}
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+// Access tokens live for about an hour; refresh a minute early
+const tokenCache = new Map<string, CachedToken>();
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+async function cachedToken(key: string, fetchToken: () => Promise<{ token: string; expiresIn: number }>): Promise<string> {
+  const cached = tokenCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.token;
+  }
+
+  const { token, expiresIn } = await fetchToken();
+  tokenCache.set(key, { token, expiresAt: Date.now() + expiresIn * 1000 - TOKEN_EXPIRY_MARGIN_MS });
+  return token;
+}
+
+// Daraja OAuth token for the app's consumer key and secret
+export function mpesaAccessToken(): Promise<string> {
+  return cachedToken('mpesa', async () => {
+    const consumerKey = Deno.env.get("MPESA_CONSUMER_KEY");
+    const consumerSecret = Deno.env.get("MPESA_CONSUMER_SECRET");
+
+    if (!consumerKey || !consumerSecret) {
+      throw new MobileMoneyApiError("M-Pesa credentials are not configured", 503);
+    }
+
+    const response = await callMobileMoneyApi(
+      'M-Pesa',
+      `${mpesaApiUrl()}/oauth/v1/generate?grant_type=client_credentials`,
+      { headers: { Authorization: `Basic ${btoa(`${consumerKey}:${consumerSecret}`)}` } }
+    );
+
+    if (!response.ok || !response.body?.access_token) {
+      throw new MobileMoneyApiError(`M-Pesa authentication failed with HTTP ${response.status}`, response.status, response.body);
+    }
+
+    return {
+      token: String(response.body.access_token),
+      expiresIn: Number(response.body.expires_in) || 3599,
+    };
+  });
+}
+
+// Collections and disbursements are separate MTN products, each with its
+// own subscription key and API user
+const mtnCredentials = (product: MtnProduct) => {
+  const prefix = `MTN_MOMO_${product.toUpperCase()}`;
+  return {
+    subscriptionKey: Deno.env.get(`${prefix}_SUBSCRIPTION_KEY`),
+    apiUser: Deno.env.get(`${prefix}_API_USER`),
+    apiKey: Deno.env.get(`${prefix}_API_KEY`),
+  };
+};
+
+export function mtnSubscriptionKey(product: MtnProduct): string {
+  const { subscriptionKey } = mtnCredentials(product);
+  if (!subscriptionKey) {
+    throw new MobileMoneyApiError(`MTN MoMo ${product} is not configured`, 503);
+  }
+  return subscriptionKey;
+}
+
+export function mtnAccessToken(product: MtnProduct): Promise<string> {
+  return cachedToken(`mtn_momo:${product}`, async () => {
+    const { subscriptionKey, apiUser, apiKey } = mtnCredentials(product);
+
+    if (!subscriptionKey || !apiUser || !apiKey) {
+      throw new MobileMoneyApiError(`MTN MoMo ${product} is not configured`, 503);
+    }
+
+    const response = await callMobileMoneyApi('MTN MoMo', `${mtnApiUrl()}/${product}/token/`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${apiUser}:${apiKey}`)}`,
+        'Ocp-Apim-Subscription-Key': subscriptionKey,
+      },
+    });
+
+    if (!response.ok || !response.body?.access_token) {
+      throw new MobileMoneyApiError(`MTN MoMo authentication failed with HTTP ${response.status}`, response.status, response.body);
+    }
+
+    return {
+      token: String(response.body.access_token),
+      expiresIn: Number(response.body.expires_in) || 3600,
+    };
+  });
+}
+
+// Daraja timestamps are Nairobi time (UTC+3, no DST) as yyyyMMddHHmmss
+export function mpesaTimestamp(date = new Date()): string {
+  const nairobi = new Date(date.getTime() + 3 * 60 * 60 * 1000);
+  return nairobi.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+// STK push password: base64(shortcode + passkey + timestamp)
+export const mpesaPassword = (shortCode: string, passkey: string, timestamp: string) =>
+  btoa(`${shortCode}${passkey}${timestamp}`);
+
+// Operators post results to a URL we hand them and do not sign the body, so
+// the URL carries a shared secret; mobile-money-callback rejects any other
+export function mobileMoneyCallbackUrl(operator: MobileMoneyOperator, params: Record<string, string> = {}): string {
+  const base = Deno.env.get("MOBILE_MONEY_CALLBACK_URL") ||
+    `${Deno.env.get("SUPABASE_URL")}/functions/v1/mobile-money-callback`;
+  const query = new URLSearchParams({ ...params, token: Deno.env.get("MOBILE_MONEY_CALLBACK_TOKEN") || '' });
+  return `${base.replace(/\/$/, '')}/${operator}?${query}`;
+}
+
+export function callbackTokenOk(url: URL): boolean {
+  const expected = Deno.env.get("MOBILE_MONEY_CALLBACK_TOKEN");
+  return !!expected && url.searchParams.get('token') === expected;
+}
+
+// The number as the operators want it: international format without the +.
+// payout_methods already stores E.164; deposits pass what the payer typed,
+// with national numbers read against the country's dial code.
+export function normalizeMsisdn(input: string, dialCode: string): string | null {
+  let number = input.replace(/[\s().-]/g, '');
+
+  if (number.startsWith('00')) {
+    number = `+${number.slice(2)}`;
+  } else if (number.startsWith('0')) {
+    number = `${dialCode}${number.slice(1)}`;
+  } else if (number.startsWith(dialCode.slice(1))) {
+    number = `+${number}`;
+  } else if (!number.startsWith('+')) {
+    number = `${dialCode}${number}`;
+  }
+
+  // Mobile numbers are nine digits after the dial code in KE, UG and GH
+  if (!/^\+[0-9]{8,15}$/.test(number) || !number.startsWith(dialCode) || number.length - dialCode.length !== 9) {
+    return null;
+  }
+
+  return number.slice(1);
+}
@@ -0,0 +1,766 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import Stripe from "https://esm.sh/stripe@13.10.0?target=deno";
+import { createSign, formatBasepayDate } from "./basepay.ts";
+import { getFxQuote } from "./fx.ts";
+import { getCountry } from "./countries.ts";
+import {
+  callbackTokenOk,
+  callMobileMoneyApi,
+  MobileMoneyApiError,
+  MobileMoneyResponse,
+  mobileMoneyCallbackUrl,
+  mpesaAccessToken,
+  mpesaApiUrl,
+  mpesaPassword,
+  mpesaTimestamp,
+  mtnAccessToken,
+  mtnApiUrl,
+  mtnSubscriptionKey,
+  mtnTargetEnvironment,
+} from "./mobile-money.ts";
+
+export type PaymentProviderName = 'basepay' | 'stripe' | 'manual_crypto' | 'mpesa' | 'mtn_momo';
+
+// An active payment_gateways row; config holds provider-specific settings
+export interface PaymentGateway {
+  id: string;
+  name: string;
+  provider: PaymentProviderName;
+  country_code: string;
+  currency: string;
+  priority: number;
+  config: Record<string, unknown>;
+}
+
+export interface PaymentRequest {
+  // Our order number (deposits.mch_order_no), echoed back in callbacks
+  orderNo: string;
+  // Amount to collect, in the gateway currency's major units (e.g. 16500.00 NGN or 25.00 USD)
+  amount: number;
+  currency: string;
+  description: string;
+  // Where the payer lands after a hosted payment page
+  returnUrl: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentInitiation {
+  // Gateway-side id, when the gateway assigns one up front
+  reference: string | null;
+  // What the client needs to complete payment: redirect URL, client secret, address...
+  payInfo: Record<string, unknown>;
+  raw: unknown;
+}
+
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded';
+
+export interface PaymentCallback {
+  signatureOk: boolean;
+  orderNo: string | null;
+  reference: string | null;
+  status: PaymentStatus;
+  // Gateway event id where the gateway has one, for idempotency
+  eventId: string | null;
+  raw: Record<string, unknown>;
+}
+
+export interface PaymentQueryResult {
+  status: PaymentStatus;
+  reference: string | null;
+  raw: unknown;
+}
+
+export interface PaymentRef {
+  orderNo: string;
+  reference: string | null;
+}
+
+export interface RefundResult {
+  reference: string;
+  raw: unknown;
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  // deposits.method for deposits made through this provider
+  depositMethod: string;
+  initiate(gateway: PaymentGateway, request: PaymentRequest): Promise<PaymentInitiation>;
+  // Reads and authenticates a gateway callback; never throws for a bad signature.
+  // Callbacks arrive before we know which deposit (and so gateway) they are for.
+  verifyCallback(req: Request): Promise<PaymentCallback>;
+  query(gateway: PaymentGateway, payment: PaymentRef): Promise<PaymentQueryResult>;
+  // amount in major units; omit for a full refund
+  refund(gateway: PaymentGateway, payment: PaymentRef, amount?: number): Promise<RefundResult>;
+}
+
+// retryable=false means retrying cannot help (unsupported operation, rejected by the gateway)
+export class PaymentProviderError extends Error {
+  constructor(message: string, public retryable: boolean, public raw?: unknown) {
+    super(message);
+    this.name = "PaymentProviderError";
+  }
+}
+
+const configString = (gateway: PaymentGateway, key: string): string | undefined => {
+  const value = gateway.config?.[key];
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+};
+
+// Basepay answers with JSON, or a bare redirect URL for some pay types
+const parseBasepayBody = (text: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { url: text };
+  }
+};
+
+// Authenticate and read a Basepay collection callback from its form fields.
+// Also used to re-check stored callbacks before they are replayed.
+export async function parseBasepayCallback(raw: Record<string, unknown>): Promise<PaymentCallback> {
+  const collectionKey = Deno.env.get("BASEPAY_COLLECTION_KEY");
+  const { sign: receivedSign, ...signed } = raw;
+  const signatureOk = !!collectionKey && !!receivedSign &&
+    String(receivedSign).toLowerCase() === await createSign(signed, collectionKey);
+
+  // Older integrations sent mch_order_no instead of mchOrderNo
+  const orderNo = raw.mchOrderNo || raw.mch_order_no;
+  const reference = raw.orderNo || raw.tradeNo;
+  // tradeResult "1" is a successful collection; anything else did not pay
+  const tradeResult = String(raw.tradeResult ?? '');
+
+  return {
+    signatureOk,
+    orderNo: orderNo ? String(orderNo) : null,
+    reference: reference ? String(reference) : null,
+    status: tradeResult === '1' ? 'paid' : 'failed',
+    // Basepay has no event id; the same order and result is the same callback
+    eventId: orderNo ? `basepay:${orderNo}:${tradeResult}` : null,
+    raw,
+  };
+}
+
+// Basepay hosted collection (local bank transfer)
+const basepayProvider: PaymentProvider = {
+  name: 'basepay',
+  depositMethod: 'base',
+
+  async initiate(gateway, request) {
+    const mchId = Deno.env.get("BASEPAY_MCH_ID");
+    const collectionKey = Deno.env.get("BASEPAY_COLLECTION_KEY");
+    const payUrl = configString(gateway, 'pay_url') || Deno.env.get("BASEPAY_PAY_URL") || "https://pay.aiffpay.com/pay/web";
+
+    if (!mchId || !collectionKey) {
+      throw new PaymentProviderError("Basepay collection credentials are not configured", true);
+    }
+
+    const payload = {
+      version: "1.0",
+      mch_id: mchId,
+      notify_url: configString(gateway, 'notify_url') || `${Deno.env.get("SUPABASE_URL")}/functions/v1/basepay-callback`,
+      page_url: request.returnUrl,
+      mch_order_no: request.orderNo,
+      pay_type: configString(gateway, 'pay_type') || Deno.env.get("BASEPAY_DEFAULT_PAY_TYPE") || "523",
+      trade_amount: request.amount.toFixed(2),
+      order_date: formatBasepayDate(),
+      bank_code: configString(gateway, 'bank_code') || (request.currency === 'NGN' ? "NGR044" : "DEFAULT"),
+      goods_name: request.description,
+      sign_type: "MD5",
+    };
+
+    const sign = await createSign(payload, collectionKey);
+    const formData = new FormData();
+    Object.entries({ ...payload, sign }).forEach(([key, value]) => {
+      formData.append(key, String(value));
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(payUrl, { method: 'POST', body: formData });
+    } catch (networkError) {
+      throw new PaymentProviderError(`Basepay unreachable: ${networkError.message}`, true);
+    }
+
+    const text = await response.text();
+    const raw = { request: { ...payload, sign }, response: text, status: response.status };
+
+    if (!response.ok) {
+      throw new PaymentProviderError(`Basepay request failed with HTTP ${response.status}`, response.status >= 500, raw);
+    }
+
+    const payInfo = parseBasepayBody(text);
+    if (payInfo.respCode && payInfo.respCode !== 'SUCCESS') {
+      throw new PaymentProviderError(String(payInfo.tradeMsg || payInfo.errorMsg || 'Basepay rejected the payment'), false, raw);
+    }
+
+    return {
+      reference: payInfo.orderNo ? String(payInfo.orderNo) : null,
+      payInfo,
+      raw,
+    };
+  },
+
+  async verifyCallback(req) {
+    const formData = await req.formData();
+    const raw: Record<string, unknown> = {};
+    for (const [key, value] of formData.entries()) {
+      raw[key] = value.toString();
+    }
+    return parseBasepayCallback(raw);
+  },
+
+  async query(gateway, payment) {
+    const mchId = Deno.env.get("BASEPAY_MCH_ID");
+    const collectionKey = Deno.env.get("BASEPAY_COLLECTION_KEY");
+    const queryUrl = configString(gateway, 'query_url') || Deno.env.get("BASEPAY_QUERY_URL") || "https://pay.aiffpay.com/query/order";
+
+    if (!mchId || !collectionKey) {
+      throw new PaymentProviderError("Basepay collection credentials are not configured", true);
+    }
+
+    const payload = {
+      mch_id: mchId,
+      mch_order_no: payment.orderNo,
+      sign_type: "MD5",
+    };
+
+    const sign = await createSign(payload, collectionKey);
+    const formData = new FormData();
+    Object.entries({ ...payload, sign }).forEach(([key, value]) => {
+      formData.append(key, String(value));
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(queryUrl, { method: 'POST', body: formData });
+    } catch (networkError) {
+      throw new PaymentProviderError(`Basepay unreachable: ${networkError.message}`, true);
+    }
+
+    const text = await response.text();
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new PaymentProviderError(`Unexpected Basepay response: ${text}`, response.status >= 500, text);
+    }
+
+    if (!response.ok || body.respCode !== 'SUCCESS') {
+      throw new PaymentProviderError(String(body.errorMsg || `Basepay query failed with HTTP ${response.status}`), response.status >= 500, body);
+    }
+
+    // tradeResult: "1" paid, "2" failed, anything else still in progress
+    const status: PaymentStatus = body.tradeResult === '1' ? 'paid' : body.tradeResult === '2' ? 'failed' : 'pending';
+    const reference = body.orderNo || body.tradeNo;
+
+    return { status, reference: reference ? String(reference) : payment.reference, raw: body };
+  },
+
+  refund() {
+    return Promise.reject(new PaymentProviderError("Basepay collections cannot be refunded through the gateway", false));
+  },
+};
+
+let stripeClient: Stripe | null = null;
+
+const getStripe = (): Stripe => {
+  const secretKey = Deno.env.get("STRIPE_SECRET_KEY");
+  if (!secretKey) {
+    throw new PaymentProviderError("Stripe is not configured", true);
+  }
+  if (!stripeClient) {
+    stripeClient = new Stripe(secretKey, {
+      apiVersion: '2023-10-16',
+      httpClient: Stripe.createFetchHttpClient(),
+    });
+  }
+  return stripeClient;
+};
+
+const stripeStatus = (intent: Stripe.PaymentIntent): PaymentStatus => {
+  if (intent.status === 'succeeded') return 'paid';
+  if (intent.status === 'canceled') return 'failed';
+  return 'pending';
+};
+
+// Stripe errors below 500 (bad card, invalid request) will fail the same way again
+const stripeError = (error: { message: string; statusCode?: number; raw?: unknown }) =>
+  new PaymentProviderError(error.message, !error.statusCode || error.statusCode >= 500 || error.statusCode === 429, error.raw);
+
+// Stripe PaymentIntents, confirmed client-side with the returned client secret
+const stripeProvider: PaymentProvider = {
+  name: 'stripe',
+  depositMethod: 'stripe',
+
+  async initiate(_gateway, request) {
+    const stripe = getStripe();
+
+    let intent: Stripe.PaymentIntent;
+    try {
+      intent = await stripe.paymentIntents.create(
+        {
+          amount: Math.round(request.amount * 100),
+          currency: request.currency.toLowerCase(),
+          description: request.description,
+          automatic_payment_methods: { enabled: true },
+          metadata: { ...request.metadata, order_no: request.orderNo },
+        },
+        // Retried initiations for the same order reuse the same intent
+        { idempotencyKey: request.orderNo }
+      );
+    } catch (error) {
+      throw stripeError(error);
+    }
+
+    return {
+      reference: intent.id,
+      payInfo: { clientSecret: intent.client_secret, paymentIntentId: intent.id },
+      raw: intent,
+    };
+  },
+
+  async verifyCallback(req) {
+    const stripe = getStripe();
+    const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+    const signature = req.headers.get('stripe-signature');
+    const body = await req.text();
+
+    let event: Stripe.Event;
+    try {
+      if (!webhookSecret || !signature) throw new Error("Missing Stripe signature");
+      event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret);
+    } catch (error) {
+      console.warn('Stripe signature verification failed:', error.message);
+      return { signatureOk: false, orderNo: null, reference: null, status: 'pending', eventId: null, raw: { body } };
+    }
+
+    const object = event.data.object as { id: string; metadata?: Record<string, string>; payment_intent?: string | null };
+    const statusByType: Record<string, PaymentStatus> = {
+      'payment_intent.succeeded': 'paid',
+      'payment_intent.payment_failed': 'failed',
+      'payment_intent.canceled': 'failed',
+      'charge.refunded': 'refunded',
+    };
+
+    return {
+      signatureOk: true,
+      orderNo: object.metadata?.order_no ?? null,
+      // Charges point back at their payment intent, which is what we store
+      reference: typeof object.payment_intent === 'string' ? object.payment_intent : object.id,
+      status: statusByType[event.type] ?? 'pending',
+      eventId: event.id,
+      raw: event as unknown as Record<string, unknown>,
+    };
+  },
+
+  async query(_gateway, payment) {
+    if (!payment.reference) {
+      throw new PaymentProviderError("Stripe payment has no payment intent id", false);
+    }
+
+    let intent: Stripe.PaymentIntent;
+    try {
+      intent = await getStripe().paymentIntents.retrieve(payment.reference);
+    } catch (error) {
+      throw stripeError(error);
+    }
+
+    return { status: stripeStatus(intent), reference: intent.id, raw: intent };
+  },
+
+  async refund(_gateway, payment, amount) {
+    if (!payment.reference) {
+      throw new PaymentProviderError("Stripe payment has no payment intent id", false);
+    }
+
+    let refund: Stripe.Refund;
+    try {
+      refund = await getStripe().refunds.create({
+        payment_intent: payment.reference,
+        ...(amount === undefined ? {} : { amount: Math.round(amount * 100) }),
+      });
+    } catch (error) {
+      throw stripeError(error);
+    }
+
+    return { reference: refund.id, raw: refund };
+  },
+};
+
+// Payer sends crypto to the deposit's address and submits the transaction
+// hash; verify-crypto-deposits checks it on chain, an admin handles what it
+// cannot verify. There is no gateway to call back, query or refund through.
+const manualCryptoProvider: PaymentProvider = {
+  name: 'manual_crypto',
+  depositMethod: 'crypto_manual',
+
+  // initiate-deposit assigns the address first (assignDepositAddress) and
+  // passes it in metadata; the gateway's shared address is the fallback
+  initiate(gateway, request) {
+    const address = request.metadata?.deposit_address || configString(gateway, 'address');
+    if (!address) {
+      return Promise.reject(new PaymentProviderError(`${gateway.name} has no deposit address configured`, false));
+    }
+
+    const amountTagCents = Number(request.metadata?.amount_tag_cents || 0);
+
+    return Promise.resolve({
+      reference: null,
+      payInfo: {
+        address,
+        network: request.metadata?.network || configString(gateway, 'network') || 'BEP20',
+        // The exact amount to send, amount tag included
+        amount: ((Math.round(request.amount * 100) + amountTagCents) / 100).toFixed(2),
+        amountTagCents,
+        currency: request.currency,
+      },
+      raw: null,
+    });
+  },
+
+  verifyCallback() {
+    return Promise.reject(new PaymentProviderError("Manual crypto deposits have no gateway callback", false));
+  },
+
+  query() {
+    return Promise.reject(new PaymentProviderError("Manual crypto deposits are verified on chain by verify-crypto-deposits", false));
+  },
+
+  refund() {
+    return Promise.reject(new PaymentProviderError("Manual crypto deposits must be refunded by hand", false));
+  },
+};
+
+// Operator errors below 500 (bad number, rejected request) will fail the same way again
+const mobileMoneyError = (error: unknown) =>
+  error instanceof MobileMoneyApiError ? new PaymentProviderError(error.message, error.retryable, error.raw) : error;
+
+const mobileMoneyFailure = (label: string, response: MobileMoneyResponse, message: unknown, raw: unknown) =>
+  new PaymentProviderError(
+    String(message || `${label} request failed with HTTP ${response.status}`),
+    response.status >= 500 || response.status === 429,
+    raw
+  );
+
+// initiate-deposit passes the payer's number, normalised with normalizeMsisdn
+const payerMsisdn = (provider: string, request: PaymentRequest) => {
+  const msisdn = request.metadata?.msisdn;
+  if (!msisdn) {
+    throw new PaymentProviderError(`A phone number is required for ${provider} deposits`, false);
+  }
+  return msisdn;
+};
+
+const mpesaStkCredentials = (gateway: PaymentGateway) => {
+  const shortCode = configString(gateway, 'short_code') || Deno.env.get("MPESA_SHORTCODE");
+  const passkey = Deno.env.get("MPESA_PASSKEY");
+  if (!shortCode || !passkey) {
+    throw new PaymentProviderError("M-Pesa STK push is not configured", true);
+  }
+  return { shortCode, passkey };
+};
+
+// Safaricom M-Pesa STK push: the payer approves a prompt on their phone and
+// Daraja posts the result to mobile-money-callback. The callback has no
+// order number of its own, so it is carried in the callback URL.
+const mpesaProvider: PaymentProvider = {
+  name: 'mpesa',
+  depositMethod: 'mobile_money',
+
+  async initiate(gateway, request) {
+    const msisdn = payerMsisdn('M-Pesa', request);
+    const { shortCode, passkey } = mpesaStkCredentials(gateway);
+    const timestamp = mpesaTimestamp();
+
+    const payload = {
+      BusinessShortCode: shortCode,
+      Password: mpesaPassword(shortCode, passkey, timestamp),
+      Timestamp: timestamp,
+      TransactionType: 'CustomerPayBillOnline',
+      // M-Pesa only moves whole shillings
+      Amount: Math.ceil(request.amount),
+      PartyA: msisdn,
+      PartyB: shortCode,
+      PhoneNumber: msisdn,
+      CallBackURL: mobileMoneyCallbackUrl('mpesa', { order: request.orderNo }),
+      AccountReference: request.orderNo.slice(-12),
+      TransactionDesc: request.description.slice(0, 13),
+    };
+
+    let response: MobileMoneyResponse;
+    try {
+      response = await callMobileMoneyApi('M-Pesa', `${mpesaApiUrl()}/mpesa/stkpush/v1/processrequest`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${await mpesaAccessToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+    } catch (error) {
+      throw mobileMoneyError(error);
+    }
+
+    const body = response.body;
+    const raw = { request: { ...payload, Password: undefined }, response: body, status: response.status };
+
+    if (!response.ok || String(body?.ResponseCode) !== '0' || !body?.CheckoutRequestID) {
+      throw mobileMoneyFailure('M-Pesa STK push', response, body?.errorMessage || body?.ResponseDescription, raw);
+    }
+
+    return {
+      reference: String(body.CheckoutRequestID),
+      payInfo: {
+        checkoutRequestId: body.CheckoutRequestID,
+        customerMessage: body.CustomerMessage ?? null,
+        msisdn,
+        amount: payload.Amount,
+        currency: request.currency,
+      },
+      raw,
+    };
+  },
+
+  async verifyCallback(req) {
+    const url = new URL(req.url);
+    const raw = ((await req.json().catch(() => null)) || {}) as Record<string, unknown>;
+    const stk = ((raw.Body as Record<string, unknown> | undefined)?.stkCallback || {}) as Record<string, unknown>;
+    const checkoutRequestId = stk.CheckoutRequestID ? String(stk.CheckoutRequestID) : null;
+    // ResultCode 0 is a completed payment; anything else (1032 cancelled, 1037 timed out...) did not pay
+    const resultCode = stk.ResultCode === undefined || stk.ResultCode === null ? '' : String(stk.ResultCode);
+
+    return {
+      signatureOk: callbackTokenOk(url),
+      orderNo: url.searchParams.get('order'),
+      reference: checkoutRequestId,
+      status: resultCode === '0' ? 'paid' : 'failed',
+      eventId: checkoutRequestId ? `mpesa:${checkoutRequestId}:${resultCode}` : null,
+      raw,
+    };
+  },
+
+  async query(gateway, payment) {
+    if (!payment.reference) {
+      throw new PaymentProviderError("M-Pesa payment has no checkout request id", false);
+    }
+
+    const { shortCode, passkey } = mpesaStkCredentials(gateway);
+    const timestamp = mpesaTimestamp();
+
+    let response: MobileMoneyResponse;
+    try {
+      response = await callMobileMoneyApi('M-Pesa', `${mpesaApiUrl()}/mpesa/stkpushquery/v1/query`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${await mpesaAccessToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          BusinessShortCode: shortCode,
+          Password: mpesaPassword(shortCode, passkey, timestamp),
+          Timestamp: timestamp,
+          CheckoutRequestID: payment.reference,
+        }),
+      });
+    } catch (error) {
+      throw mobileMoneyError(error);
+    }
+
+    const body = response.body;
+
+    // Daraja answers a payment the payer has not acted on yet with this error
+    if (body?.errorCode === '500.001.1001') {
+      return { status: 'pending', reference: payment.reference, raw: body };
+    }
+    if (!response.ok || String(body?.ResponseCode) !== '0') {
+      throw mobileMoneyFailure('M-Pesa query', response, body?.errorMessage, body);
+    }
+
+    const resultCode = body?.ResultCode === undefined ? '' : String(body.ResultCode);
+    const status: PaymentStatus = resultCode === '0' ? 'paid' : resultCode === '' ? 'pending' : 'failed';
+
+    return { status, reference: payment.reference, raw: body };
+  },
+
+  refund() {
+    return Promise.reject(new PaymentProviderError("M-Pesa collections cannot be reversed through the API; pay the customer back with a payout", false));
+  },
+};
+
+const mtnCollectionHeaders = async (gateway: PaymentGateway) => ({
+  Authorization: `Bearer ${await mtnAccessToken('collection')}`,
+  'Ocp-Apim-Subscription-Key': mtnSubscriptionKey('collection'),
+  'X-Target-Environment': configString(gateway, 'target_environment') || mtnTargetEnvironment(gateway.currency),
+});
+
+const mtnStatus = (status: unknown): PaymentStatus => {
+  if (status === 'SUCCESSFUL') return 'paid';
+  if (status === 'FAILED' || status === 'REJECTED' || status === 'TIMEOUT') return 'failed';
+  return 'pending';
+};
+
+// MTN MoMo request-to-pay: the payer approves on their phone and MTN PUTs the
+// outcome to the X-Callback-Url. Our order number travels as the externalId;
+// the reference is the X-Reference-Id we pick for the request.
+const mtnMomoProvider: PaymentProvider = {
+  name: 'mtn_momo',
+  depositMethod: 'mobile_money',
+
+  async initiate(gateway, request) {
+    const msisdn = payerMsisdn('MTN MoMo', request);
+    const referenceId = crypto.randomUUID();
+
+    const payload = {
+      amount: String(request.amount),
+      currency: request.currency,
+      externalId: request.orderNo,
+      payer: { partyIdType: 'MSISDN', partyId: msisdn },
+      payerMessage: request.description.slice(0, 160),
+      payeeNote: request.orderNo,
+    };
+
+    let response: MobileMoneyResponse;
+    try {
+      response = await callMobileMoneyApi('MTN MoMo', `${mtnApiUrl()}/collection/v1_0/requesttopay`, {
+        method: 'POST',
+        headers: {
+          ...await mtnCollectionHeaders(gateway),
+          'X-Reference-Id': referenceId,
+          'X-Callback-Url': mobileMoneyCallbackUrl('mtn_momo'),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+    } catch (error) {
+      throw mobileMoneyError(error);
+    }
+
+    const raw = { request: payload, referenceId, response: response.body, status: response.status };
+
+    // 202 Accepted: the prompt is on its way to the payer
+    if (!response.ok) {
+      throw mobileMoneyFailure('MTN MoMo request-to-pay', response, response.body?.message, raw);
+    }
+
+    return {
+      reference: referenceId,
+      payInfo: { referenceId, msisdn, amount: payload.amount, currency: request.currency },
+      raw,
+    };
+  },
+
+  async verifyCallback(req) {
+    const url = new URL(req.url);
+    const raw = ((await req.json().catch(() => null)) || {}) as Record<string, unknown>;
+    const orderNo = raw.externalId ? String(raw.externalId) : null;
+    const status = raw.status ? String(raw.status) : '';
+
+    return {
+      signatureOk: callbackTokenOk(url),
+      orderNo,
+      // The body does not repeat our X-Reference-Id, which is already stored
+      reference: null,
+      status: mtnStatus(status),
+      eventId: orderNo ? `mtn_momo:${orderNo}:${status}` : null,
+      raw,
+    };
+  },
+
+  async query(gateway, payment) {
+    if (!payment.reference) {
+      throw new PaymentProviderError("MTN MoMo payment has no reference id", false);
+    }
+
+    let response: MobileMoneyResponse;
+    try {
+      response = await callMobileMoneyApi(
+        'MTN MoMo',
+        `${mtnApiUrl()}/collection/v1_0/requesttopay/${encodeURIComponent(payment.reference)}`,
+        { headers: await mtnCollectionHeaders(gateway) }
+      );
+    } catch (error) {
+      throw mobileMoneyError(error);
+    }
+
+    if (!response.ok) {
+      throw mobileMoneyFailure('MTN MoMo query', response, response.body?.message, response.body);
+    }
+
+    return { status: mtnStatus(response.body?.status), reference: payment.reference, raw: response.body };
+  },
+
+  refund() {
+    return Promise.reject(new PaymentProviderError("MTN MoMo collections must be refunded with a payout", false));
+  },
+};
+
+const paymentProviders: Record<PaymentProviderName, PaymentProvider> = {
+  basepay: basepayProvider,
+  stripe: stripeProvider,
+  manual_crypto: manualCryptoProvider,
+  mpesa: mpesaProvider,
+  mtn_momo: mtnMomoProvider,
+};
+
+export function getPaymentProvider(name: string): PaymentProvider {
+  const provider = paymentProviders[name as PaymentProviderName];
+  if (!provider) {
+    throw new PaymentProviderError(`Unknown payment provider: ${name}`, false);
+  }
+  return provider;
+}
+
+// Best active gateway for the country and currency. Exact country rows beat
+// the '*' fallback, then lower priority wins. `provider` narrows the choice
+// when the payer picked a method (e.g. card vs crypto). A country in the
+// countries catalogue only gets the providers in its deposit_methods.
+export async function selectPaymentGateway(
+  supabaseAdmin: SupabaseClient,
+  countryCode: string | null,
+  currency: string,
+  provider?: PaymentProviderName
+): Promise<PaymentGateway> {
+  const countries = countryCode ? [countryCode.toUpperCase(), '*'] : ['*'];
+  const country = await getCountry(supabaseAdmin, countryCode);
+
+  if (country && provider && !country.deposit_methods.includes(provider)) {
+    throw new PaymentProviderError(`${provider} deposits are not available in ${country.name}`, false);
+  }
+
+  let query = supabaseAdmin
+    .from('payment_gateways')
+    .select('*')
+    .eq('is_active', true)
+    .eq('currency', currency.toUpperCase())
+    .in('country_code', countries)
+    .order('priority', { ascending: true });
+
+  if (provider) {
+    query = query.eq('provider', provider);
+  }
+  if (country) {
+    query = query.in('provider', country.deposit_methods);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const gateways = (data || []) as PaymentGateway[];
+  const gateway = gateways.find((row) => row.country_code !== '*') ?? gateways[0];
+
+  if (!gateway) {
+    throw new PaymentProviderError(
+      `No payment method available for ${currency.toUpperCase()}${countryCode ? ` in ${countryCode.toUpperCase()}` : ''}`,
+      false
+    );
+  }
+
+  return gateway;
+}
+
+// USD -> currency rate deposits are priced at: the buy side of the FX
+// service, spread included. Throws FxRateError when there is no usable rate.
+export async function getDepositRate(supabaseAdmin: SupabaseClient, currency: string): Promise<number> {
+  const quote = await getFxQuote(supabaseAdmin, currency, 'buy');
+  return quote.rate;
+}
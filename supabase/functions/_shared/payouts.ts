@@ -0,0 +1,514 @@
+import { createSign, formatBasepayDate } from "./basepay.ts";
+import {
+  callMobileMoneyApi,
+  MobileMoneyApiError,
+  MobileMoneyResponse,
+  mobileMoneyCallbackUrl,
+  mpesaAccessToken,
+  mpesaApiUrl,
+  mtnAccessToken,
+  mtnApiUrl,
+  mtnSubscriptionKey,
+  mtnTargetEnvironment,
+} from "./mobile-money.ts";
+
+export interface BankPayoutDetails {
+  bank_name: string | null;
+  bank_code?: string | null;
+  account_name: string | null;
+  account_number: string | null;
+}
+
+export interface UsdtPayoutDetails {
+  usdt_network: string | null;
+  wallet_address: string | null;
+}
+
+export interface MobileMoneyPayoutDetails {
+  // International format without the + (see normalizeMsisdn)
+  msisdn: string | null;
+  operator: string | null;
+}
+
+export interface PayoutRequest {
+  withdrawalId: string;
+  // Amount to deliver, in the payout currency's major units (e.g. 1520.50 NGN or 12.34 USDT)
+  amount: number;
+  currency: string;
+  bank?: BankPayoutDetails;
+  usdt?: UsdtPayoutDetails;
+  mobileMoney?: MobileMoneyPayoutDetails;
+}
+
+export interface PayoutResult {
+  reference: string;
+  raw: unknown;
+}
+
+// not_found: the gateway has no transfer for the withdrawal, so nothing went out
+export type PayoutStatus = 'paid' | 'failed' | 'pending' | 'not_found';
+
+export interface PayoutQueryResult {
+  status: PayoutStatus;
+  reference: string | null;
+  raw: unknown;
+}
+
+export interface PayoutProvider {
+  name: string;
+  // Set when send() only means the gateway accepted the transfer: the
+  // withdrawal stays processing until the result callback or query() reports
+  // it paid or failed. Otherwise a payout is settled on acceptance.
+  settlesByCallback?: boolean;
+  send(request: PayoutRequest): Promise<PayoutResult>;
+  // What became of an earlier send; providers without it leave unconfirmed
+  // payouts to an admin
+  query?(withdrawalId: string, currency: string): Promise<PayoutQueryResult>;
+  // The outcome a result callback (mobile-money-callback) reports
+  parseCallback?(body: unknown): PayoutQueryResult;
+}
+
+// retryable=false means retrying cannot help (bad account details, rejected by the gateway)
+export class PayoutError extends Error {
+  constructor(message: string, public retryable: boolean, public raw?: unknown) {
+    super(message);
+    this.name = "PayoutError";
+  }
+}
+
+// The transfer may have gone out: the response was lost or unreadable, or
+// was an error other than an explicit refusal (a duplicate transfer id after
+// a timed-out attempt, say). The funds stay reserved and the payout is not
+// resent until query() or an admin settles it.
+export class PayoutUnconfirmedError extends PayoutError {
+  constructor(message: string, raw?: unknown) {
+    super(message, false, raw);
+    this.name = "PayoutUnconfirmedError";
+  }
+}
+
+// A failed payout request other than an explicit refusal: only a 429 is
+// known to have been turned away before the transfer was looked at
+const unclearPayoutResponse = (message: string, status: number, raw: unknown) =>
+  status === 429 ? new PayoutError(message, true, raw) : new PayoutUnconfirmedError(message, raw);
+
+const basepayPayoutCredentials = () => {
+  const mchId = Deno.env.get("BASEPAY_MCH_ID");
+  const payoutKey = Deno.env.get("BASEPAY_PAYOUT_KEY");
+
+  if (!mchId || !payoutKey) {
+    throw new PayoutError("Basepay payout credentials are not configured", true);
+  }
+  return { mchId, payoutKey };
+};
+
+const signedBasepayForm = async (payload: Record<string, string | undefined>, key: string) => {
+  const sign = await createSign(payload, key);
+  const formData = new FormData();
+  Object.entries({ ...payload, sign }).forEach(([name, value]) => {
+    if (value !== undefined) formData.append(name, String(value));
+  });
+  return formData;
+};
+
+// Basepay transfer API for local bank payouts
+export const basepayBankProvider: PayoutProvider = {
+  name: 'basepay',
+  async send(request) {
+    const { mchId, payoutKey } = basepayPayoutCredentials();
+    const payoutUrl = Deno.env.get("BASEPAY_PAYOUT_URL") || "https://pay.aiffpay.com/pay/transfer";
+
+    const bank = request.bank;
+    if (!bank?.account_number || !bank.account_name) {
+      throw new PayoutError("Missing bank account details", false);
+    }
+
+    const bankCode = bank.bank_code || Deno.env.get("BASEPAY_DEFAULT_BANK_CODE");
+    if (!bankCode) {
+      throw new PayoutError("No bank code for this account", false);
+    }
+
+    const payload = {
+      mch_id: mchId,
+      mch_transferId: request.withdrawalId,
+      transfer_amount: request.amount.toFixed(2),
+      apply_date: formatBasepayDate(),
+      bank_code: bankCode,
+      receive_name: bank.account_name,
+      receive_account: bank.account_number,
+      remark: bank.bank_name || undefined,
+      // Optional: payouts are settled on acceptance, the callback is informational
+      back_url: Deno.env.get("BASEPAY_PAYOUT_NOTIFY_URL") || undefined,
+      sign_type: "MD5",
+    };
+
+    const formData = await signedBasepayForm(payload, payoutKey);
+
+    let response: Response;
+    try {
+      response = await fetch(payoutUrl, { method: 'POST', body: formData });
+    } catch (networkError) {
+      // The request may have reached Basepay before the connection dropped
+      throw new PayoutUnconfirmedError(`Basepay unreachable: ${networkError.message}`);
+    }
+
+    const text = await response.text();
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw unclearPayoutResponse(`Unexpected Basepay response: ${text}`, response.status, text);
+    }
+
+    // tradeResult "2" is the only answer that says the transfer was refused
+    if (body.tradeResult === '2') {
+      throw new PayoutError(String(body.errorMsg || 'Basepay refused the payout'), false, body);
+    }
+
+    // respCode is the request outcome; a FAIL (duplicate mch_transferId
+    // included) does not say whether an earlier attempt was paid
+    if (!response.ok || body.respCode !== 'SUCCESS') {
+      throw unclearPayoutResponse(
+        String(body.errorMsg || `Basepay payout failed with HTTP ${response.status}`),
+        response.status,
+        body
+      );
+    }
+
+    return { reference: String(body.tradeNo || request.withdrawalId), raw: body };
+  },
+
+  // Transfer query by mch_transferId, which is the withdrawal id
+  async query(withdrawalId) {
+    const { mchId, payoutKey } = basepayPayoutCredentials();
+    const queryUrl = Deno.env.get("BASEPAY_PAYOUT_QUERY_URL") || "https://pay.aiffpay.com/query/transfer";
+
+    const formData = await signedBasepayForm({
+      mch_id: mchId,
+      mch_transferId: withdrawalId,
+      sign_type: "MD5",
+    }, payoutKey);
+
+    let response: Response;
+    try {
+      response = await fetch(queryUrl, { method: 'POST', body: formData });
+    } catch (networkError) {
+      throw new PayoutError(`Basepay unreachable: ${networkError.message}`, true);
+    }
+
+    const text = await response.text();
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new PayoutError(`Unexpected Basepay response: ${text}`, true, text);
+    }
+
+    if (response.ok && body.respCode !== 'SUCCESS' && /not (exist|found)/i.test(String(body.errorMsg ?? ''))) {
+      return { status: 'not_found', reference: null, raw: body };
+    }
+
+    if (!response.ok || body.respCode !== 'SUCCESS') {
+      throw new PayoutError(String(body.errorMsg || `Basepay transfer query failed with HTTP ${response.status}`), true, body);
+    }
+
+    // tradeResult: "1" paid, "2" refused, anything else still in progress
+    const status: PayoutStatus = body.tradeResult === '1' ? 'paid' : body.tradeResult === '2' ? 'failed' : 'pending';
+    return { status, reference: body.tradeNo ? String(body.tradeNo) : null, raw: body };
+  },
+};
+
+// Generic HTTP USDT payout service: POST JSON, expects { id } back
+const httpUsdtProvider: PayoutProvider = {
+  name: 'usdt-http',
+  async send(request) {
+    const url = Deno.env.get("USDT_PAYOUT_URL");
+    const apiKey = Deno.env.get("USDT_PAYOUT_API_KEY");
+
+    if (!url || !apiKey) {
+      throw new PayoutError("USDT payout service is not configured", true);
+    }
+
+    const usdt = request.usdt;
+    if (!usdt?.wallet_address) {
+      throw new PayoutError("Missing USDT wallet address", false);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          reference: request.withdrawalId,
+          network: usdt.usdt_network || 'BEP20',
+          address: usdt.wallet_address,
+          amount: request.amount.toFixed(2),
+          asset: 'USDT',
+        }),
+      });
+    } catch (networkError) {
+      throw new PayoutUnconfirmedError(`USDT payout service unreachable: ${networkError.message}`);
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body?.id) {
+      throw unclearPayoutResponse(body?.error || `USDT payout failed with HTTP ${response.status}`, response.status, body);
+    }
+
+    return { reference: String(body.id), raw: body };
+  },
+};
+
+// Add new USDT providers here and select them with USDT_PAYOUT_PROVIDER
+const usdtProviders: Record<string, PayoutProvider> = {
+  'usdt-http': httpUsdtProvider,
+};
+
+export function getUsdtProvider(): PayoutProvider {
+  const name = Deno.env.get("USDT_PAYOUT_PROVIDER") || 'usdt-http';
+  const provider = usdtProviders[name];
+  if (!provider) {
+    throw new PayoutError(`Unknown USDT payout provider: ${name}`, true);
+  }
+  return provider;
+}
+
+// For calls made before the transfer request (tokens, configuration)
+const mobileMoneyPayoutError = (error: unknown) =>
+  error instanceof MobileMoneyApiError ? new PayoutError(error.message, error.retryable, error.raw) : error;
+
+// For the transfer request itself, which may have been received even if it failed
+const mobileMoneyTransferError = (error: unknown) =>
+  error instanceof MobileMoneyApiError ? new PayoutUnconfirmedError(error.message, error.raw) : error;
+
+const mobileMoneyPayoutFailure = (label: string, response: MobileMoneyResponse, message: unknown) =>
+  unclearPayoutResponse(String(message || `${label} failed with HTTP ${response.status}`), response.status, response.body);
+
+const payeeMsisdn = (request: PayoutRequest) => {
+  if (!request.mobileMoney?.msisdn) {
+    throw new PayoutError("Missing mobile money number", false);
+  }
+  return request.mobileMoney.msisdn;
+};
+
+// Mobile money moves whole units only; quotes refuse anything else (see
+// buildWithdrawalQuote), so a fraction here is never rounded away
+const wholePayoutAmount = (request: PayoutRequest) => {
+  if (!Number.isInteger(request.amount)) {
+    throw new PayoutError(`Mobile money cannot pay ${request.amount} ${request.currency}: not a whole amount`, false);
+  }
+  return request.amount;
+};
+
+// M-Pesa B2C. Daraja only accepts the request; the payout's outcome arrives
+// at the ResultURL, where mobile-money-callback settles the withdrawal.
+const mpesaPayoutProvider: PayoutProvider = {
+  name: 'mpesa',
+  settlesByCallback: true,
+  async send(request) {
+    const shortCode = Deno.env.get("MPESA_B2C_SHORTCODE") || Deno.env.get("MPESA_SHORTCODE");
+    const initiator = Deno.env.get("MPESA_B2C_INITIATOR");
+    const securityCredential = Deno.env.get("MPESA_B2C_SECURITY_CREDENTIAL");
+
+    if (!shortCode || !initiator || !securityCredential) {
+      throw new PayoutError("M-Pesa B2C credentials are not configured", true);
+    }
+
+    const msisdn = payeeMsisdn(request);
+    const amount = wholePayoutAmount(request);
+    const resultUrl = mobileMoneyCallbackUrl('mpesa', { payout: request.withdrawalId });
+
+    let accessToken: string;
+    try {
+      accessToken = await mpesaAccessToken();
+    } catch (error) {
+      throw mobileMoneyPayoutError(error);
+    }
+
+    let response: MobileMoneyResponse;
+    try {
+      response = await callMobileMoneyApi('M-Pesa', `${mpesaApiUrl()}/mpesa/b2c/v1/paymentrequest`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          OriginatorConversationID: request.withdrawalId,
+          InitiatorName: initiator,
+          SecurityCredential: securityCredential,
+          CommandID: 'BusinessPayment',
+          Amount: amount,
+          PartyA: shortCode,
+          PartyB: msisdn,
+          Remarks: 'Withdrawal',
+          QueueTimeOutURL: resultUrl,
+          ResultURL: resultUrl,
+          Occasion: request.withdrawalId,
+        }),
+      });
+    } catch (error) {
+      throw mobileMoneyTransferError(error);
+    }
+
+    const body = response.body;
+    if (!response.ok || !body) {
+      throw mobileMoneyPayoutFailure('M-Pesa payout', response, body?.errorMessage);
+    }
+
+    // A non-zero ResponseCode is Daraja declining the request
+    if (String(body.ResponseCode) !== '0') {
+      throw new PayoutError(String(body.ResponseDescription || 'M-Pesa refused the payout'), false, body);
+    }
+
+    return { reference: String(body?.ConversationID || request.withdrawalId), raw: body };
+  },
+
+  // ResultCode 0 is a completed payment; anything else, a queue timeout
+  // included, paid nothing
+  parseCallback(body) {
+    const result = ((body as Record<string, unknown> | null)?.Result || null) as Record<string, unknown> | null;
+    if (!result || result.ResultCode === undefined || result.ResultCode === null) {
+      return { status: 'pending', reference: null, raw: body };
+    }
+
+    return {
+      status: String(result.ResultCode) === '0' ? 'paid' : 'failed',
+      reference: result.TransactionID ? String(result.TransactionID) : null,
+      raw: body,
+    };
+  },
+};
+
+const mtnDisbursementHeaders = async (currency: string) => ({
+  Authorization: `Bearer ${await mtnAccessToken('disbursement')}`,
+  'Ocp-Apim-Subscription-Key': mtnSubscriptionKey('disbursement'),
+  'X-Target-Environment': mtnTargetEnvironment(currency),
+});
+
+const mtnPayoutStatus = (status: unknown): PayoutStatus => {
+  if (status === 'SUCCESSFUL') return 'paid';
+  if (status === 'FAILED' || status === 'REJECTED' || status === 'TIMEOUT') return 'failed';
+  return 'pending';
+};
+
+// MTN MoMo disbursement transfer. The withdrawal id is the X-Reference-Id,
+// so a retry after a lost response cannot pay twice: MTN answers 409 and the
+// existing transfer's status decides the outcome. A 202 only accepts the
+// transfer; the X-Callback-Url or query() settles it.
+const mtnMomoPayoutProvider: PayoutProvider = {
+  name: 'mtn_momo',
+  settlesByCallback: true,
+  async send(request) {
+    const msisdn = payeeMsisdn(request);
+    const amount = wholePayoutAmount(request);
+
+    let headers: Record<string, string>;
+    try {
+      headers = await mtnDisbursementHeaders(request.currency);
+    } catch (error) {
+      throw mobileMoneyPayoutError(error);
+    }
+
+    let response: MobileMoneyResponse;
+    try {
+      response = await callMobileMoneyApi('MTN MoMo', `${mtnApiUrl()}/disbursement/v1_0/transfer`, {
+        method: 'POST',
+        headers: {
+          ...headers,
+          'X-Reference-Id': request.withdrawalId,
+          'X-Callback-Url': mobileMoneyCallbackUrl('mtn_momo', { payout: request.withdrawalId }),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          amount: String(amount),
+          currency: request.currency,
+          externalId: request.withdrawalId,
+          payee: { partyIdType: 'MSISDN', partyId: msisdn },
+          payerMessage: 'Withdrawal',
+          payeeNote: request.withdrawalId,
+        }),
+      });
+
+      if (response.status === 409) {
+        response = await callMobileMoneyApi(
+          'MTN MoMo',
+          `${mtnApiUrl()}/disbursement/v1_0/transfer/${request.withdrawalId}`,
+          { headers }
+        );
+
+        const status = response.body?.status;
+        if (response.ok && status === 'FAILED') {
+          throw new PayoutError('MTN MoMo transfer already exists and failed', false, response.body);
+        }
+        if (!response.ok || (status !== 'SUCCESSFUL' && status !== 'PENDING')) {
+          throw new PayoutUnconfirmedError(`MTN MoMo transfer already exists with status ${status ?? 'unknown'}`, response.body);
+        }
+      }
+    } catch (error) {
+      throw mobileMoneyTransferError(error);
+    }
+
+    // 202 Accepted
+    if (!response.ok) {
+      throw mobileMoneyPayoutFailure('MTN MoMo payout', response, response.body?.message);
+    }
+
+    return { reference: request.withdrawalId, raw: response.body };
+  },
+
+  async query(withdrawalId, currency) {
+    let response: MobileMoneyResponse;
+    try {
+      response = await callMobileMoneyApi(
+        'MTN MoMo',
+        `${mtnApiUrl()}/disbursement/v1_0/transfer/${withdrawalId}`,
+        { headers: await mtnDisbursementHeaders(currency) }
+      );
+    } catch (error) {
+      throw mobileMoneyPayoutError(error);
+    }
+
+    if (response.status === 404) {
+      return { status: 'not_found', reference: null, raw: response.body };
+    }
+
+    if (!response.ok) {
+      throw new PayoutError(`MTN MoMo transfer query failed with HTTP ${response.status}`, true, response.body);
+    }
+
+    const reference = response.body?.financialTransactionId;
+    return {
+      status: mtnPayoutStatus(response.body?.status),
+      reference: reference ? String(reference) : withdrawalId,
+      raw: response.body,
+    };
+  },
+
+  parseCallback(body) {
+    const raw = (body || {}) as Record<string, unknown>;
+    return {
+      status: mtnPayoutStatus(raw.status),
+      reference: raw.financialTransactionId ? String(raw.financialTransactionId) : null,
+      raw: body,
+    };
+  },
+};
+
+const mobileMoneyProviders: Record<string, PayoutProvider> = {
+  mpesa: mpesaPayoutProvider,
+  mtn_momo: mtnMomoPayoutProvider,
+};
+
+// Payout provider for a payout_methods.operator
+export function getMobileMoneyProvider(operator: string | null): PayoutProvider {
+  const provider = operator ? mobileMoneyProviders[operator] : undefined;
+  if (!provider) {
+    throw new PayoutError(`Unknown mobile money operator: ${operator}`, false);
+  }
+  return provider;
+}
@@ -0,0 +1,261 @@
+// Payment proof images (deposit screenshots, crypto proofs). storeProof is
+// the one way a proof gets into storage: the bytes are sniffed for their real
+// type, checked against size and dimension limits and re-encoded, which drops
+// EXIF/GPS metadata, before the image and a thumbnail are uploaded. Every
+// proof is recorded in deposit_proofs with a SHA-256 of its bytes and a
+// perceptual hash, and matched against earlier proofs so a reused screenshot
+// is flagged even after it was re-encoded or resized.
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { decode, Image } from "https://deno.land/x/imagescript@1.2.17/mod.ts";
+
+export type ProofBucket = 'deposit-screenshots' | 'crypto-proofs';
+
+export const PROOF_BUCKETS: ProofBucket[] = ['deposit-screenshots', 'crypto-proofs'];
+
+type ProofMimeType = 'image/jpeg' | 'image/png';
+
+export const MAX_PROOF_BYTES = Number(Deno.env.get("PROOF_MAX_BYTES") || 5 * 1024 * 1024);
+const MIN_PROOF_DIMENSION = 200;
+const MAX_PROOF_DIMENSION = 8000;
+const THUMBNAIL_WIDTH = 320;
+
+// Hashes this many bits apart or fewer are treated as the same picture
+const MAX_PHASH_DISTANCE = Number(Deno.env.get("PROOF_PHASH_MAX_DISTANCE") || 6);
+
+// The upload itself is unacceptable; status is the HTTP status to answer with
+export class ProofRejectedError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ProofRejectedError";
+  }
+}
+
+export interface ProofMatch {
+  proof_id: string;
+  bucket: ProofBucket;
+  path: string;
+  user_id: string;
+  deposit_id: string | null;
+  crypto_deposit_id: string | null;
+  // 0 for the same bytes, otherwise differing phash bits
+  distance: number;
+  created_at: string;
+}
+
+export interface StoredProof {
+  id: string;
+  bucket: ProofBucket;
+  path: string;
+  thumbnailPath: string;
+  mimeType: ProofMimeType;
+  sizeBytes: number;
+  width: number;
+  height: number;
+  matches: ProofMatch[];
+}
+
+export interface ProofUpload {
+  bytes: Uint8Array;
+  name: string | null;
+  // Other form fields sent along with the file
+  fields: Record<string, string>;
+}
+
+// The image type from its leading bytes; whatever the client claims is ignored
+export function sniffImageType(bytes: Uint8Array): ProofMimeType | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  const png = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  if (bytes.length >= png.length && png.every((byte, i) => bytes[i] === byte)) {
+    return 'image/png';
+  }
+  return null;
+}
+
+// Reads a multipart/form-data proof upload with the image in `field`
+export async function readProofUpload(req: Request, field = 'file'): Promise<ProofUpload> {
+  if (!(req.headers.get("content-type") || '').startsWith("multipart/form-data")) {
+    throw new ProofRejectedError("Proof must be uploaded as multipart/form-data", 415);
+  }
+
+  const declaredLength = Number(req.headers.get("content-length") || 0);
+  if (declaredLength > MAX_PROOF_BYTES + 64 * 1024) {
+    throw new ProofRejectedError(`Proof must be at most ${Math.floor(MAX_PROOF_BYTES / 1024 / 1024)} MB`, 413);
+  }
+
+  const form = await req.formData();
+  const file = form.get(field);
+  if (!(file instanceof File)) {
+    throw new ProofRejectedError("Proof image is required");
+  }
+
+  const fields: Record<string, string> = {};
+  form.forEach((value, key) => {
+    if (typeof value === 'string') fields[key] = value;
+  });
+
+  return { bytes: new Uint8Array(await file.arrayBuffer()), name: file.name || null, fields };
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// 64 bit difference hash: shrink to 9x8 grayscale, one bit per pixel for
+// whether it is brighter than its right-hand neighbour. Returned as a signed
+// 64 bit integer string to fit deposit_proofs.phash (BIGINT).
+export function perceptualHash(image: Image): string {
+  const { bitmap } = image.clone().resize(9, 8);
+
+  const luminance = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return bitmap[i] * 0.299 + bitmap[i + 1] * 0.587 + bitmap[i + 2] * 0.114;
+  };
+
+  let hash = 0n;
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      hash = (hash << 1n) | (luminance(x, y) > luminance(x + 1, y) ? 1n : 0n);
+    }
+  }
+  return BigInt.asIntN(64, hash).toString();
+}
+
+async function decodeProof(bytes: Uint8Array): Promise<Image> {
+  const decoded = await decode(bytes).catch(() => null);
+  if (!(decoded instanceof Image)) {
+    throw new ProofRejectedError("Proof image could not be read");
+  }
+  return decoded;
+}
+
+// Validates, cleans and stores an uploaded proof under the owner's folder in
+// `bucket`, then records it. The proof is linked to a deposit later with
+// attachProof.
+export async function storeProof(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  bucket: ProofBucket,
+  upload: Pick<ProofUpload, 'bytes' | 'name'>
+): Promise<StoredProof> {
+  const { bytes } = upload;
+
+  if (bytes.length === 0) {
+    throw new ProofRejectedError("Proof image is empty");
+  }
+  if (bytes.length > MAX_PROOF_BYTES) {
+    throw new ProofRejectedError(`Proof must be at most ${Math.floor(MAX_PROOF_BYTES / 1024 / 1024)} MB`, 413);
+  }
+
+  const mimeType = sniffImageType(bytes);
+  if (!mimeType) {
+    throw new ProofRejectedError("Proof must be a JPEG or PNG image", 415);
+  }
+
+  const image = await decodeProof(bytes);
+  const { width, height } = image;
+  if (Math.min(width, height) < MIN_PROOF_DIMENSION) {
+    throw new ProofRejectedError(`Proof must be at least ${MIN_PROOF_DIMENSION}x${MIN_PROOF_DIMENSION} pixels`);
+  }
+  if (Math.max(width, height) > MAX_PROOF_DIMENSION) {
+    throw new ProofRejectedError(`Proof must be at most ${MAX_PROOF_DIMENSION} pixels on each side`);
+  }
+
+  // Re-encoding from pixels writes no EXIF, GPS or other metadata
+  const cleaned = mimeType === 'image/png' ? await image.encode(1) : await image.encodeJPEG(90);
+  const thumbnail = await image.clone().resize(Math.min(THUMBNAIL_WIDTH, width), Image.RESIZE_AUTO).encodeJPEG(75);
+
+  const extension = mimeType === 'image/png' ? 'png' : 'jpg';
+  const name = `${Date.now()}-${crypto.randomUUID()}`;
+  const path = `${userId}/${name}.${extension}`;
+  const thumbnailPath = `${userId}/thumbnails/${name}.jpg`;
+
+  const storage = supabaseAdmin.storage.from(bucket);
+  const { error: uploadError } = await storage.upload(path, cleaned, { contentType: mimeType, upsert: false });
+  if (uploadError) {
+    throw new Error(`Failed to upload proof: ${uploadError.message}`);
+  }
+
+  const { error: thumbnailError } = await storage.upload(thumbnailPath, thumbnail, { contentType: 'image/jpeg', upsert: false });
+  if (thumbnailError) {
+    await storage.remove([path]);
+    throw new Error(`Failed to upload proof thumbnail: ${thumbnailError.message}`);
+  }
+
+  const { data: row, error: insertError } = await supabaseAdmin
+    .from('deposit_proofs')
+    .insert({
+      user_id: userId,
+      bucket,
+      path,
+      thumbnail_path: thumbnailPath,
+      mime_type: mimeType,
+      size_bytes: cleaned.length,
+      width,
+      height,
+      original_name: upload.name,
+      // Hash what was uploaded: the same file sent twice is an exact match
+      sha256: await sha256Hex(bytes),
+      phash: perceptualHash(image),
+    })
+    .select('id')
+    .single();
+
+  if (insertError) {
+    await storage.remove([path, thumbnailPath]);
+    throw insertError;
+  }
+
+  const { data: matches, error: matchError } = await supabaseAdmin.rpc('find_similar_proofs', {
+    p_proof_id: row.id,
+    p_max_distance: MAX_PHASH_DISTANCE,
+  });
+
+  if (matchError) throw matchError;
+
+  await supabaseAdmin
+    .from('deposit_proofs')
+    .update({ matches: matches || [] })
+    .eq('id', row.id);
+
+  return {
+    id: row.id,
+    bucket,
+    path,
+    thumbnailPath,
+    mimeType,
+    sizeBytes: cleaned.length,
+    width,
+    height,
+    matches: (matches || []) as ProofMatch[],
+  };
+}
+
+// Links an uploaded proof to the deposit it proves. Only the uploader's own,
+// not yet linked proofs from `bucket` qualify.
+export async function attachProof(
+  supabaseAdmin: SupabaseClient,
+  proofId: string,
+  userId: string,
+  bucket: ProofBucket,
+  link: { deposit_id: string } | { crypto_deposit_id: string }
+): Promise<{ id: string; path: string }> {
+  const { data, error } = await supabaseAdmin
+    .from('deposit_proofs')
+    .update(link)
+    .eq('id', proofId)
+    .eq('user_id', userId)
+    .eq('bucket', bucket)
+    .is('deposit_id', null)
+    .is('crypto_deposit_id', null)
+    .select('id, path')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new ProofRejectedError("Proof not found or already used");
+  }
+  return data;
+}
@@ -0,0 +1,90 @@
+import { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export type Role = 'admin' | 'finance' | 'support';
+
+export type Permission =
+  | 'deposits.approve'
+  | 'withdrawals.approve'
+  | 'plans.edit'
+  | 'gateways.manage'
+  | 'audit_logs.view'
+  | 'users.view'
+  | 'roles.manage'
+  | 'fx.manage';
+
+// Resolve the caller from the request's bearer token
+export async function requireUser(req: Request, supabaseAdmin: SupabaseClient): Promise<User> {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    throw new Error("Missing authorization header");
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+
+  if (error || !user) {
+    throw new Error("Unauthorized");
+  }
+
+  return user;
+}
+
+// Authenticated caller holding at least one of the given roles
+export async function requireRole(
+  req: Request,
+  supabaseAdmin: SupabaseClient,
+  roles: Role | Role[]
+): Promise<User> {
+  const user = await requireUser(req, supabaseAdmin);
+  const allowed = Array.isArray(roles) ? roles : [roles];
+
+  const { data, error } = await supabaseAdmin
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .in('role', allowed)
+    .limit(1);
+
+  if (error) {
+    console.error('Role lookup error:', error);
+    throw new Error("Forbidden");
+  }
+
+  if (!data?.length) {
+    throw new Error("Forbidden");
+  }
+
+  return user;
+}
+
+// Authenticated caller whose roles grant the given permission
+export async function requirePermission(
+  req: Request,
+  supabaseAdmin: SupabaseClient,
+  permission: Permission
+): Promise<User> {
+  const user = await requireUser(req, supabaseAdmin);
+
+  const { data: allowed, error } = await supabaseAdmin.rpc('has_permission', {
+    _user_id: user.id,
+    _permission: permission,
+  });
+
+  if (error) {
+    console.error('Permission lookup error:', error);
+    throw new Error("Forbidden");
+  }
+
+  if (!allowed) {
+    throw new Error("Forbidden");
+  }
+
+  return user;
+}
+
+// HTTP status for the errors thrown above
+export function accessErrorStatus(error: Error, fallback = 400): number {
+  if (error.message === "Unauthorized" || error.message === "Missing authorization header") return 401;
+  if (error.message === "Forbidden") return 403;
+  return fallback;
+}
@@ -0,0 +1,199 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { FxRateError, getFxQuote } from "./fx.ts";
+import { currencyMinorUnits } from "./countries.ts";
+
+export type WithdrawalMethod = 'usdt' | 'bank' | 'mobile_money';
+
+export const WITHDRAWAL_METHODS: WithdrawalMethod[] = ['usdt', 'bank', 'mobile_money'];
+
+export const WITHDRAWAL_METHOD_LABELS: Record<WithdrawalMethod, string> = {
+  usdt: 'USDT',
+  bank: 'Bank',
+  mobile_money: 'Mobile money',
+};
+
+// The payout_methods row each method pays out to, as named to the user
+export const PAYOUT_DETAILS_LABELS: Record<WithdrawalMethod, string> = {
+  usdt: 'USDT wallet',
+  bank: 'bank details',
+  mobile_money: 'mobile money number',
+};
+
+export interface WithdrawalQuote {
+  amount_cents: number;
+  fee_cents: number;
+  net_cents: number;
+  currency: string;
+  method: WithdrawalMethod;
+  tier: string;
+  fee_percent: number;
+  fee_flat_cents: number;
+  fee_schedule_id: string;
+  // Null for USD withdrawals, which are paid out 1:1 in USDT
+  fx_rate: number | null;
+  local_amount: number | null;
+  // The balance the withdrawal is taken from and how much, in its minor
+  // units: USD for USDT, otherwise amount_cents at fx_rate in the currency
+  // (see chooseDebitBalance for when that balance falls short)
+  debit_currency: string;
+  debit_cents: number;
+}
+
+// Thrown for requests the user can fix (amount out of range, no payout details)
+export class QuoteError extends Error {
+  constructor(message: string, public details?: Record<string, unknown>) {
+    super(message);
+    this.name = "QuoteError";
+  }
+}
+
+export const isWithdrawalMethod = (value: unknown): value is WithdrawalMethod =>
+  WITHDRAWAL_METHODS.includes(value as WithdrawalMethod);
+
+// Default when the caller does not pick one: USD withdrawals go out as USDT,
+// every other currency to a bank account
+export const withdrawalMethodFor = (currency: string): WithdrawalMethod =>
+  currency === 'USD' ? 'usdt' : 'bank';
+
+// USD -> currency rate withdrawals are paid out at: the sell side of the FX
+// service, spread included. A missing or stale rate refuses the withdrawal.
+export async function getPayoutRate(supabaseAdmin: SupabaseClient, currency: string): Promise<number> {
+  try {
+    const quote = await getFxQuote(supabaseAdmin, currency, 'sell');
+    return quote.rate;
+  } catch (error) {
+    if (error instanceof FxRateError) {
+      throw new QuoteError(error.message, { code: error.code });
+    }
+    throw error;
+  }
+}
+
+// Price a withdrawal from fee_schedules. Does not check the wallet balance;
+// create_withdrawal does that atomically when the withdrawal is committed.
+export async function buildWithdrawalQuote(
+  supabaseAdmin: SupabaseClient,
+  amountCents: number,
+  currency: string,
+  method: WithdrawalMethod = withdrawalMethodFor(currency)
+): Promise<WithdrawalQuote> {
+  if (!Number.isInteger(amountCents) || amountCents <= 0) {
+    throw new QuoteError("Invalid withdrawal amount");
+  }
+
+  // USDT is the only way USD leaves; the local methods pay in local currency
+  if ((method === 'usdt') !== (currency === 'USD')) {
+    throw new QuoteError(`${WITHDRAWAL_METHOD_LABELS[method]} withdrawals in ${currency} are not available`);
+  }
+
+  const { data: schedules, error } = await supabaseAdmin
+    .from('fee_schedules')
+    .select('*')
+    .eq('currency', currency)
+    .eq('method', method)
+    .eq('active', true)
+    .order('min_amount_cents', { ascending: true });
+
+  if (error) throw error;
+
+  if (!schedules?.length) {
+    throw new QuoteError(`Withdrawals in ${currency} are not available`);
+  }
+
+  const minimumCents = Number(schedules[0].min_amount_cents);
+  if (amountCents < minimumCents) {
+    throw new QuoteError(`Minimum withdrawal is $${(minimumCents / 100).toFixed(2)}`, {
+      min_amount_cents: minimumCents,
+    });
+  }
+
+  const schedule = schedules.find((row) =>
+    amountCents >= Number(row.min_amount_cents) &&
+    (row.max_amount_cents === null || amountCents <= Number(row.max_amount_cents))
+  );
+
+  if (!schedule) {
+    const maximumCents = Math.max(...schedules.map((row) => Number(row.max_amount_cents ?? 0)));
+    if (amountCents > maximumCents) {
+      throw new QuoteError(`Maximum withdrawal is $${(maximumCents / 100).toFixed(2)}`, {
+        max_amount_cents: maximumCents,
+      });
+    }
+    throw new QuoteError("No fee schedule covers this amount");
+  }
+
+  const feePercent = Number(schedule.fee_percent);
+  const feeFlatCents = Number(schedule.fee_flat_cents);
+  const feeCents = Math.round(amountCents * feePercent / 100) + feeFlatCents;
+  const netCents = amountCents - feeCents;
+
+  if (netCents <= 0) {
+    throw new QuoteError("Amount does not cover the withdrawal fee");
+  }
+
+  let fxRate: number | null = null;
+  let localAmount: number | null = null;
+  let debitCents = amountCents;
+
+  if (method !== 'usdt') {
+    fxRate = await getPayoutRate(supabaseAdmin, currency);
+    // Paid out in whole minor units of the currency (UGX has none)
+    const scale = 10 ** ((await currencyMinorUnits(supabaseAdmin, currency)) ?? 2);
+    localAmount = Math.round(netCents / 100 * fxRate * scale) / scale;
+    debitCents = Math.round(amountCents / 100 * fxRate * scale);
+
+    // M-Pesa and MTN MoMo only move whole units: refuse the amount rather
+    // than pay out less than is debited
+    if (method === 'mobile_money' && !Number.isInteger(localAmount)) {
+      throw new QuoteError(
+        `Mobile money pays whole ${currency} amounts only; this withdrawal would pay ${localAmount} ${currency}. Please adjust the amount.`,
+        { code: 'amount_not_whole', local_amount: localAmount }
+      );
+    }
+  }
+
+  return {
+    amount_cents: amountCents,
+    fee_cents: feeCents,
+    net_cents: netCents,
+    currency,
+    method,
+    tier: schedule.tier,
+    fee_percent: feePercent,
+    fee_flat_cents: feeFlatCents,
+    fee_schedule_id: schedule.id,
+    fx_rate: fxRate,
+    local_amount: localAmount,
+    debit_currency: method === 'usdt' ? 'USD' : currency,
+    debit_cents: debitCents,
+  };
+}
+
+// A local withdrawal comes out of that currency's balance when it covers the
+// debit, so money deposited in NGN leaves without a second conversion.
+// Otherwise it is converted from USD at the quote's rate: income accrues in
+// USD, and the user should not have to convert it first.
+export async function chooseDebitBalance(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  quote: WithdrawalQuote
+): Promise<WithdrawalQuote> {
+  if (quote.debit_currency === 'USD') {
+    return quote;
+  }
+
+  const { data: balance, error } = await supabaseAdmin
+    .from('wallet_balances')
+    .select('available_cents')
+    .eq('user_id', userId)
+    .eq('currency', quote.debit_currency)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (Number(balance?.available_cents ?? 0) >= quote.debit_cents) {
+    return quote;
+  }
+
+  return { ...quote, debit_currency: 'USD', debit_cents: quote.amount_cents };
+}
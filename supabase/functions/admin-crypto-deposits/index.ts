@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { requirePermission, accessErrorStatus } from "../_shared/roles.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -20,36 +21,7 @@ serve(async (req) => {
       { auth: { persistSession: false } }
     );
 
-    // Create user client for authentication
-    const supabaseUser = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_ANON_KEY") ?? ""
-    );
-
-    // Get user from auth header
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader) {
-      throw new Error("Missing authorization header");
-    }
-
-    const token = authHeader.replace("Bearer ", "");
-    const { data: { user }, error: authError } = await supabaseUser.auth.getUser(token);
-    
-    if (authError || !user) {
-      throw new Error("Unauthorized");
-    }
-
-    // Check if user is admin
-    const { data: profile } = await supabaseAdmin
-      .from('profiles')
-      .select('phone, country')
-      .eq('user_id', user.id)
-      .single();
-
-    const isAdmin = profile?.phone === 'admin@example.com' || profile?.country === 'ADMIN';
-    if (!isAdmin) {
-      throw new Error("Admin access required");
-    }
+    const user = await requirePermission(req, supabaseAdmin, 'deposits.approve');
 
     const url = new URL(req.url);
     const pathSegments = url.pathname.split('/').filter(Boolean);
@@ -308,7 +280,7 @@ serve(async (req) => {
       JSON.stringify({ error: error.message }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 400,
+        status: accessErrorStatus(error),
       }
     );
   }
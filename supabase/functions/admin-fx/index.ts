@@ -0,0 +1,174 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { requirePermission, accessErrorStatus } from "../_shared/roles.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Longest an override may run; the fetched rate takes over again after it
+const MAX_OVERRIDE_HOURS = Number(Deno.env.get("FX_OVERRIDE_MAX_HOURS") || 72);
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Create Supabase client with service role for admin operations
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const user = await requirePermission(req, supabaseAdmin, 'fx.manage');
+
+    const url = new URL(req.url);
+    const pathSegments = url.pathname.split('/').filter(Boolean);
+
+    // POST /admin-fx/overrides { currency, rate, durationMinutes, reason } - pin a mid rate for a while
+    if (req.method === "POST" && pathSegments[1] === 'overrides' && pathSegments.length === 2) {
+      const { currency, rate, durationMinutes, reason } = await req.json();
+
+      const overrideRate = Number(rate);
+      const minutes = Number(durationMinutes);
+
+      if (typeof currency !== 'string' || !currency) {
+        throw new Error("Currency is required");
+      }
+      if (!Number.isFinite(overrideRate) || overrideRate <= 0) {
+        throw new Error("Rate must be a positive number");
+      }
+      if (!Number.isInteger(minutes) || minutes <= 0 || minutes > MAX_OVERRIDE_HOURS * 60) {
+        throw new Error(`Overrides must last between 1 minute and ${MAX_OVERRIDE_HOURS} hours`);
+      }
+      if (typeof reason !== 'string' || !reason.trim()) {
+        throw new Error("A reason is required");
+      }
+
+      const { data: settings } = await supabaseAdmin
+        .from('fx_settings')
+        .select('currency')
+        .eq('currency', currency)
+        .maybeSingle();
+
+      if (!settings) {
+        throw new Error(`${currency} is not a configured currency`);
+      }
+
+      const { data: current } = await supabaseAdmin
+        .rpc('get_fx_quotes', { p_currency: currency })
+        .maybeSingle();
+
+      const startsAt = new Date();
+      const expiresAt = new Date(startsAt.getTime() + minutes * 60 * 1000);
+
+      const { data: override, error: insertError } = await supabaseAdmin
+        .from('fx_overrides')
+        .insert({
+          currency,
+          rate: overrideRate,
+          reason: reason.trim(),
+          starts_at: startsAt.toISOString(),
+          expires_at: expiresAt.toISOString(),
+          created_by: user.id
+        })
+        .select('*')
+        .single();
+
+      if (insertError) throw insertError;
+
+      // So the chart shows what was in effect
+      await supabaseAdmin
+        .from('rate_history')
+        .insert({
+          base_currency: 'USD',
+          quote_currency: currency,
+          rate: overrideRate,
+          source: 'manual',
+          sources: { override_id: override.id },
+          fetched_at: startsAt.toISOString()
+        });
+
+      await supabaseAdmin
+        .from('audit_logs')
+        .insert({
+          admin_id: user.id,
+          action: 'create_fx_override',
+          target_table: 'fx_overrides',
+          target_id: override.id,
+          details: {
+            currency,
+            rate: overrideRate,
+            previous_rate: (current as { mid_rate?: number } | null)?.mid_rate ?? null,
+            expires_at: override.expires_at,
+            reason: override.reason
+          }
+        });
+
+      return new Response(
+        JSON.stringify({ success: true, override }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    // POST /admin-fx/overrides/revoke { id } - end an override early
+    if (req.method === "POST" && pathSegments[1] === 'overrides' && pathSegments[2] === 'revoke') {
+      const { id } = await req.json();
+
+      if (!id) {
+        throw new Error("Override id is required");
+      }
+
+      const { data: override, error: updateError } = await supabaseAdmin
+        .from('fx_overrides')
+        .update({ revoked_at: new Date().toISOString(), revoked_by: user.id })
+        .eq('id', id)
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .select('*')
+        .maybeSingle();
+
+      if (updateError) throw updateError;
+      if (!override) {
+        throw new Error("Override not found or no longer active");
+      }
+
+      await supabaseAdmin
+        .from('audit_logs')
+        .insert({
+          admin_id: user.id,
+          action: 'revoke_fx_override',
+          target_table: 'fx_overrides',
+          target_id: override.id,
+          details: { currency: override.currency, rate: override.rate, expires_at: override.expires_at }
+        });
+
+      return new Response(
+        JSON.stringify({ success: true, override }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    throw new Error("Invalid endpoint");
+
+  } catch (error) {
+    console.error("Admin FX error:", error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: accessErrorStatus(error),
+      }
+    );
+  }
+});
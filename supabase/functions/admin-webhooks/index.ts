@@ -0,0 +1,134 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { requirePermission, accessErrorStatus } from "../_shared/roles.ts";
+import { applyPaymentCallback, storedCallbackFields } from "../_shared/basepay-callback.ts";
+import { parseBasepayCallback } from "../_shared/payments.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Create Supabase client with service role for admin operations
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const user = await requirePermission(req, supabaseAdmin, 'gateways.manage');
+
+    const url = new URL(req.url);
+    const pathSegments = url.pathname.split('/').filter(Boolean);
+
+    // GET /admin-webhooks?status={all|unprocessed|invalid|processed}&search= - stored callbacks
+    if (req.method === "GET" && pathSegments.length === 1) {
+      const status = url.searchParams.get('status') || 'unprocessed';
+      const search = url.searchParams.get('search')?.trim();
+
+      let query = supabaseAdmin
+        .from('webhook_events')
+        .select('*')
+        .order('processed_at', { ascending: false })
+        .limit(200);
+
+      if (status === 'unprocessed') query = query.eq('processed', false).eq('signature_ok', true);
+      if (status === 'invalid') query = query.eq('signature_ok', false);
+      if (status === 'processed') query = query.eq('processed', true);
+      if (search) query = query.ilike('event_id', `%${search}%`);
+
+      const { data: events, error } = await query;
+
+      if (error) {
+        throw new Error('Failed to fetch webhook events');
+      }
+
+      return new Response(
+        JSON.stringify({ events: events || [] }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    // POST /admin-webhooks/replay { id } - run a stored callback through the handler again
+    if (req.method === "POST" && pathSegments[1] === 'replay') {
+      const { id } = await req.json();
+
+      if (!id) {
+        throw new Error("Webhook event id is required");
+      }
+
+      const { data: event, error: eventError } = await supabaseAdmin
+        .from('webhook_events')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (eventError || !event) {
+        throw new Error('Webhook event not found');
+      }
+
+      if ((event.gateway || event.gateway_name) !== 'basepay') {
+        throw new Error('Only Basepay callbacks can be replayed');
+      }
+
+      // Re-check the stored signature rather than trusting the flag on the row
+      const callback = await parseBasepayCallback(storedCallbackFields(event.payload));
+
+      await supabaseAdmin
+        .from('webhook_events')
+        .update({
+          signature_ok: callback.signatureOk,
+          replay_count: (event.replay_count ?? 0) + 1,
+          last_replayed_at: new Date().toISOString(),
+          last_replayed_by: user.id
+        })
+        .eq('id', event.id);
+
+      if (!callback.signatureOk) {
+        throw new Error('Stored callback signature is invalid; it cannot be replayed');
+      }
+
+      const outcome = await applyPaymentCallback(supabaseAdmin, event.id, callback);
+
+      await supabaseAdmin
+        .from('audit_logs')
+        .insert({
+          admin_id: user.id,
+          action: 'replay_webhook_event',
+          target_table: 'webhook_events',
+          target_id: event.id,
+          details: { event_id: event.event_id, processed: outcome.processed, error: outcome.error ?? null }
+        });
+
+      return new Response(
+        JSON.stringify({ success: outcome.processed, error: outcome.error }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    throw new Error("Invalid endpoint");
+
+  } catch (error) {
+    console.error("Admin webhooks error:", error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: accessErrorStatus(error),
+      }
+    );
+  }
+});
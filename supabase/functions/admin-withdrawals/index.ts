@@ -0,0 +1,295 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { requirePermission, accessErrorStatus } from "../_shared/roles.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const REVIEWABLE_STATUSES = ['pending_review', 'on_hold'];
+// Payouts process-withdrawals could not confirm either way
+const CONFIRMABLE_STATUSES = ['unconfirmed'];
+const MAX_BULK = 100;
+
+interface BulkResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Create Supabase client with service role for admin operations
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const user = await requirePermission(req, supabaseAdmin, 'withdrawals.approve');
+
+    const url = new URL(req.url);
+    const pathSegments = url.pathname.split('/').filter(Boolean);
+
+    // GET /admin-withdrawals?status=&currency=&min_cents=&max_cents=&user= - review queue
+    if (req.method === "GET" && pathSegments.length === 1) {
+      const status = url.searchParams.get('status') || 'pending_review';
+      const currency = url.searchParams.get('currency');
+      const minCents = url.searchParams.get('min_cents');
+      const maxCents = url.searchParams.get('max_cents');
+      // Characters that would break out of the PostgREST or() filter are dropped
+      const userSearch = url.searchParams.get('user')?.replace(/[,()]/g, '').trim();
+
+      let query = supabaseAdmin
+        .from('withdrawals')
+        .select('*')
+        .order('created_at', { ascending: true })
+        .limit(200);
+
+      if (status !== 'all') query = query.eq('status', status);
+      if (currency) query = query.eq('local_currency', currency);
+      if (minCents) query = query.gte('amount_cents', Number(minCents));
+      if (maxCents) query = query.lte('amount_cents', Number(maxCents));
+
+      if (userSearch) {
+        // Match a user id exactly, otherwise search names and phones
+        const isUuid = /^[0-9a-f-]{36}$/i.test(userSearch);
+        if (isUuid) {
+          query = query.eq('user_id', userSearch);
+        } else {
+          const { data: matches } = await supabaseAdmin
+            .from('profiles')
+            .select('user_id')
+            .or(`full_name.ilike.%${userSearch}%,phone.ilike.%${userSearch}%`)
+            .limit(100);
+
+          const userIds = (matches || []).map((profile) => profile.user_id);
+          if (userIds.length === 0) {
+            return new Response(
+              JSON.stringify({ withdrawals: [] }),
+              {
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+                status: 200,
+              }
+            );
+          }
+          query = query.in('user_id', userIds);
+        }
+      }
+
+      const { data: withdrawals, error } = await query;
+
+      if (error) {
+        throw new Error('Failed to fetch withdrawals');
+      }
+
+      // withdrawals.user_id points at auth.users, so profiles are joined by hand
+      const userIds = [...new Set((withdrawals || []).map((w) => w.user_id))];
+      const { data: profiles } = userIds.length
+        ? await supabaseAdmin
+            .from('profiles')
+            .select('user_id, full_name, phone, country')
+            .in('user_id', userIds)
+        : { data: [] };
+
+      const profilesByUser = new Map((profiles || []).map((profile) => [profile.user_id, profile]));
+
+      return new Response(
+        JSON.stringify({
+          withdrawals: (withdrawals || []).map((withdrawal) => ({
+            ...withdrawal,
+            profile: profilesByUser.get(withdrawal.user_id) ?? null
+          }))
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    // POST /admin-withdrawals/{approve|reject|hold|mark_paid|mark_failed} - bulk actions on { ids, reason }
+    // mark_paid and mark_failed settle unconfirmed payouts from what the admin found at the gateway
+    if (req.method === "POST" && pathSegments.length === 2) {
+      const action = pathSegments[1];
+      const { ids, reason } = await req.json();
+
+      if (!Array.isArray(ids) || ids.length === 0) {
+        throw new Error("At least one withdrawal id is required");
+      }
+
+      if (ids.length > MAX_BULK) {
+        throw new Error(`At most ${MAX_BULK} withdrawals per request`);
+      }
+
+      if (action !== 'approve' && !reason?.trim()) {
+        throw new Error("A reason is required");
+      }
+
+      const results: BulkResult[] = [];
+
+      for (const id of ids as string[]) {
+        try {
+          if (action === 'approve') {
+            const { data: updated, error } = await supabaseAdmin
+              .from('withdrawals')
+              .update({
+                status: 'queued',
+                next_attempt: null,
+                reviewed_by: user.id,
+                reviewed_at: new Date().toISOString(),
+                review_note: reason || null
+              })
+              .eq('id', id)
+              .in('status', REVIEWABLE_STATUSES)
+              .select('id, amount_cents, user_id');
+
+            if (error) throw error;
+            if (!updated?.length) throw new Error('Withdrawal is not awaiting review');
+
+            await supabaseAdmin
+              .from('audit_logs')
+              .insert({
+                admin_id: user.id,
+                action: 'approve_withdrawal',
+                target_table: 'withdrawals',
+                target_id: id,
+                details: { note: reason || null, amount_cents: updated[0].amount_cents, user_id: updated[0].user_id }
+              });
+
+          } else if (action === 'reject') {
+            const { data: result, error } = await supabaseAdmin
+              .rpc('reject_withdrawal', {
+                p_withdrawal_id: id,
+                p_admin_id: user.id,
+                p_reason: reason
+              });
+
+            if (error) throw error;
+            if (!result?.success) throw new Error(result?.error || 'Failed to reject withdrawal');
+
+            await supabaseAdmin
+              .from('audit_logs')
+              .insert({
+                admin_id: user.id,
+                action: 'reject_withdrawal',
+                target_table: 'withdrawals',
+                target_id: id,
+                details: { reason, refunded_cents: result.refunded_cents, currency: result.currency }
+              });
+
+          } else if (action === 'hold') {
+            const { data: updated, error } = await supabaseAdmin
+              .from('withdrawals')
+              .update({
+                status: 'on_hold',
+                reviewed_by: user.id,
+                reviewed_at: new Date().toISOString(),
+                review_note: reason
+              })
+              .eq('id', id)
+              .in('status', ['pending_review', 'queued'])
+              .select('id');
+
+            if (error) throw error;
+            if (!updated?.length) throw new Error('Withdrawal can no longer be held');
+
+            await supabaseAdmin
+              .from('audit_logs')
+              .insert({
+                admin_id: user.id,
+                action: 'hold_withdrawal',
+                target_table: 'withdrawals',
+                target_id: id,
+                details: { reason }
+              });
+
+          } else if (action === 'mark_paid' || action === 'mark_failed') {
+            const { data: withdrawal, error: fetchError } = await supabaseAdmin
+              .from('withdrawals')
+              .select('status, payment_ref, payout_provider')
+              .eq('id', id)
+              .maybeSingle();
+
+            if (fetchError) throw fetchError;
+            if (!withdrawal || !CONFIRMABLE_STATUSES.includes(withdrawal.status)) {
+              throw new Error('Withdrawal is not awaiting payout confirmation');
+            }
+
+            // Paid: the reservation leaves the wallet. Failed: it is returned.
+            const { data: result, error } = action === 'mark_paid'
+              ? await supabaseAdmin.rpc('complete_withdrawal', {
+                  p_withdrawal_id: id,
+                  p_payment_ref: withdrawal.payment_ref || id,
+                  p_provider: withdrawal.payout_provider || 'manual'
+                })
+              : await supabaseAdmin.rpc('fail_withdrawal', {
+                  p_withdrawal_id: id,
+                  p_reason: reason
+                });
+
+            if (error) throw error;
+            if (!result?.success) throw new Error(result?.error || 'Failed to settle withdrawal');
+
+            await supabaseAdmin
+              .from('withdrawals')
+              .update({
+                reviewed_by: user.id,
+                reviewed_at: new Date().toISOString(),
+                review_note: reason
+              })
+              .eq('id', id);
+
+            await supabaseAdmin
+              .from('audit_logs')
+              .insert({
+                admin_id: user.id,
+                action: action === 'mark_paid' ? 'confirm_withdrawal_paid' : 'confirm_withdrawal_failed',
+                target_table: 'withdrawals',
+                target_id: id,
+                details: { reason, payout_provider: withdrawal.payout_provider }
+              });
+
+          } else {
+            throw new Error("Invalid endpoint");
+          }
+
+          results.push({ id, success: true });
+        } catch (actionError) {
+          if (actionError.message === "Invalid endpoint") throw actionError;
+          console.error(`Failed to ${action} withdrawal ${id}:`, actionError);
+          results.push({ id, success: false, error: actionError.message });
+        }
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: results.every((result) => result.success),
+          results
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    throw new Error("Invalid endpoint");
+
+  } catch (error) {
+    console.error("Admin withdrawals error:", error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: accessErrorStatus(error),
+      }
+    );
+  }
+});
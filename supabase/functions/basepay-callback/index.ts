@@ -0,0 +1,5 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { handleBasepayCallback } from "../_shared/basepay-callback.ts";
+
+// notify_url for Basepay collections started by initiate-deposit
+serve(handleBasepayCallback);
@@ -0,0 +1,442 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createSign, formatBasepayDate } from "../_shared/basepay.ts";
+
+// Stand-in for pay.aiffpay.com in development and automated tests. Implements
+// the collection (/pay/web, /query/order) and payout (/pay/transfer,
+// /query/transfer) endpoints
+// with Basepay's MD5 signing, using the same BASEPAY_MCH_ID,
+// BASEPAY_COLLECTION_KEY and BASEPAY_PAYOUT_KEY as the functions calling it.
+//
+// Point the app at it with
+//   BASEPAY_PAY_URL=<sandbox>/pay/web
+//   BASEPAY_QUERY_URL=<sandbox>/query/order
+//   BASEPAY_PAYOUT_URL=<sandbox>/pay/transfer
+//   BASEPAY_PAYOUT_QUERY_URL=<sandbox>/query/transfer
+// where <sandbox> is .../functions/v1/basepay-sandbox, or http://localhost:8000
+// when run on its own with `deno task basepay-sandbox`.
+//
+// It answers 404 unless BASEPAY_SANDBOX_ENABLED=true: anyone reaching the
+// checkout page can mark an order paid with a correctly signed callback.
+//
+// Orders live in memory. Run it on its own for long delays; a recycled edge
+// worker forgets its orders and pending callbacks.
+//
+// How orders settle (POST /scenario, or BASEPAY_SANDBOX_OUTCOME for the default):
+//   manual         wait for a choice on the hosted checkout page (default)
+//   success        paid, callback sent right away
+//   fail           refused, failure callback sent right away
+//   delay          paid, callback sent after delay_ms; query says pending until then
+//   duplicate      paid, the same callback sent twice
+//   bad_signature  paid, callback signed with the wrong key
+//   no_callback    paid, no callback at all; only the order query tells
+// Payouts are refused with tradeResult "2" under fail and accepted otherwise.
+//
+// Test helpers:
+//   POST /scenario { outcome, delay_ms? }    outcome for orders created from now on
+//   POST /orders/<mch_order_no>/settle { outcome }   settle a manual order
+//   GET  /orders                              orders and transfers seen so far
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const OUTCOMES = ['manual', 'success', 'fail', 'delay', 'duplicate', 'bad_signature', 'no_callback'] as const;
+type SandboxOutcome = typeof OUTCOMES[number];
+
+interface SandboxScenario {
+  outcome: SandboxOutcome;
+  delayMs: number;
+}
+
+interface SandboxOrder {
+  mchOrderNo: string;
+  orderNo: string;
+  amount: string;
+  orderDate: string;
+  notifyUrl: string;
+  pageUrl: string | null;
+  goodsName: string | null;
+  scenario: SandboxScenario;
+  // "0" in progress, "1" paid, "2" failed: what the order query reports
+  tradeResult: '0' | '1' | '2';
+  paidAt: number | null;
+  callbacks: { sentAt: string; status: number | null; error?: string }[];
+}
+
+interface SandboxTransfer {
+  mchTransferId: string;
+  tradeNo: string;
+  amount: string;
+  tradeResult: '1' | '2';
+  backUrl: string | null;
+}
+
+const orders = new Map<string, SandboxOrder>();
+const transfers = new Map<string, SandboxTransfer>();
+
+const isOutcome = (value: unknown): value is SandboxOutcome =>
+  OUTCOMES.includes(value as SandboxOutcome);
+
+let scenario: SandboxScenario = {
+  outcome: isOutcome(Deno.env.get("BASEPAY_SANDBOX_OUTCOME")) ? Deno.env.get("BASEPAY_SANDBOX_OUTCOME") as SandboxOutcome : 'manual',
+  delayMs: Number(Deno.env.get("BASEPAY_SANDBOX_DELAY_MS") || 30000),
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+async function readParams(req: Request): Promise<Record<string, string>> {
+  const params: Record<string, string> = {};
+  const contentType = req.headers.get("content-type") || "";
+
+  if (contentType.includes("application/json")) {
+    const body = await req.json().catch(() => ({}));
+    Object.entries(body as Record<string, unknown>).forEach(([key, value]) => {
+      params[key] = String(value);
+    });
+    return params;
+  }
+
+  const formData = await req.formData();
+  for (const [key, value] of formData.entries()) {
+    params[key] = value.toString();
+  }
+  return params;
+}
+
+// Checks mch_id and sign the way Basepay does; returns the error message, if any
+async function checkSignature(params: Record<string, string>, key: string | undefined): Promise<string | null> {
+  if (!key || !Deno.env.get("BASEPAY_MCH_ID")) {
+    return "Sandbox merchant credentials are not configured";
+  }
+  if (params.mch_id !== Deno.env.get("BASEPAY_MCH_ID")) {
+    return "Merchant does not exist";
+  }
+  if (!params.sign || params.sign.toLowerCase() !== await createSign(params, key)) {
+    return "Sign error";
+  }
+  return null;
+}
+
+async function sendCallback(order: SandboxOrder, badSignature = false) {
+  const collectionKey = Deno.env.get("BASEPAY_COLLECTION_KEY") ?? "";
+  const fields: Record<string, string> = {
+    tradeResult: order.tradeResult,
+    mchId: Deno.env.get("BASEPAY_MCH_ID") ?? "",
+    mchOrderNo: order.mchOrderNo,
+    oriAmount: order.amount,
+    amount: order.amount,
+    orderDate: order.orderDate,
+    orderNo: order.orderNo,
+    signType: "MD5",
+  };
+  const sign = await createSign(fields, badSignature ? `${collectionKey}-wrong` : collectionKey);
+
+  const formData = new FormData();
+  Object.entries({ ...fields, sign }).forEach(([key, value]) => {
+    formData.append(key, value);
+  });
+
+  try {
+    const response = await fetch(order.notifyUrl, { method: 'POST', body: formData });
+    const text = await response.text();
+    order.callbacks.push({ sentAt: new Date().toISOString(), status: response.status });
+    console.log(`Sandbox callback for ${order.mchOrderNo}: HTTP ${response.status} ${text}`);
+  } catch (error) {
+    order.callbacks.push({ sentAt: new Date().toISOString(), status: null, error: error.message });
+    console.error(`Sandbox callback for ${order.mchOrderNo} failed:`, error);
+  }
+}
+
+// Apply an order's outcome: set what the query reports and send its callbacks
+async function settle(order: SandboxOrder, outcome: SandboxOutcome) {
+  switch (outcome) {
+    case 'manual':
+      return;
+    case 'fail':
+      order.tradeResult = '2';
+      await sendCallback(order);
+      return;
+    case 'delay':
+      setTimeout(() => {
+        order.tradeResult = '1';
+        order.paidAt = Date.now();
+        sendCallback(order);
+      }, order.scenario.delayMs);
+      return;
+    default:
+      order.tradeResult = '1';
+      order.paidAt = Date.now();
+      if (outcome === 'no_callback') return;
+      await sendCallback(order, outcome === 'bad_signature');
+      if (outcome === 'duplicate') {
+        await sendCallback(order);
+      }
+  }
+}
+
+async function handlePay(req: Request, baseUrl: string): Promise<Response> {
+  const params = await readParams(req);
+  const signError = await checkSignature(params, Deno.env.get("BASEPAY_COLLECTION_KEY"));
+  if (signError) {
+    return json({ respCode: 'FAIL', tradeMsg: signError });
+  }
+
+  if (!params.mch_order_no || !params.notify_url || !(Number(params.trade_amount) > 0)) {
+    return json({ respCode: 'FAIL', tradeMsg: 'Missing order parameters' });
+  }
+  if (orders.has(params.mch_order_no)) {
+    return json({ respCode: 'FAIL', tradeMsg: 'Duplicate merchant order number' });
+  }
+
+  const order: SandboxOrder = {
+    mchOrderNo: params.mch_order_no,
+    orderNo: `SBX${Date.now()}${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`,
+    amount: Number(params.trade_amount).toFixed(2),
+    orderDate: params.order_date || formatBasepayDate(),
+    notifyUrl: params.notify_url,
+    pageUrl: params.page_url || null,
+    goodsName: params.goods_name || null,
+    scenario: { ...scenario },
+    tradeResult: '0',
+    paidAt: null,
+    callbacks: [],
+  };
+  orders.set(order.mchOrderNo, order);
+
+  await settle(order, order.scenario.outcome);
+
+  const response: Record<string, string> = {
+    respCode: 'SUCCESS',
+    tradeMsg: 'Request success',
+    mchId: params.mch_id,
+    mchOrderNo: order.mchOrderNo,
+    orderNo: order.orderNo,
+    oriAmount: order.amount,
+    tradeAmount: order.amount,
+    orderDate: order.orderDate,
+    payInfo: `${baseUrl}/checkout/${encodeURIComponent(order.mchOrderNo)}`,
+    signType: 'MD5',
+  };
+  response.sign = await createSign(response, Deno.env.get("BASEPAY_COLLECTION_KEY") ?? "");
+  return json(response);
+}
+
+async function handleQuery(req: Request): Promise<Response> {
+  const params = await readParams(req);
+  const signError = await checkSignature(params, Deno.env.get("BASEPAY_COLLECTION_KEY"));
+  if (signError) {
+    return json({ respCode: 'FAIL', errorMsg: signError });
+  }
+
+  const order = orders.get(params.mch_order_no);
+  if (!order) {
+    return json({ respCode: 'FAIL', errorMsg: 'Order does not exist' });
+  }
+
+  const response: Record<string, string> = {
+    respCode: 'SUCCESS',
+    mchId: params.mch_id,
+    mchOrderNo: order.mchOrderNo,
+    orderNo: order.orderNo,
+    oriAmount: order.amount,
+    amount: order.amount,
+    orderDate: order.orderDate,
+    tradeResult: order.tradeResult,
+    signType: 'MD5',
+  };
+  response.sign = await createSign(response, Deno.env.get("BASEPAY_COLLECTION_KEY") ?? "");
+  return json(response);
+}
+
+async function handleTransfer(req: Request): Promise<Response> {
+  const payoutKey = Deno.env.get("BASEPAY_PAYOUT_KEY");
+  const params = await readParams(req);
+  const signError = await checkSignature(params, payoutKey);
+  if (signError) {
+    return json({ respCode: 'FAIL', errorMsg: signError });
+  }
+
+  if (!params.mch_transferId || !(Number(params.transfer_amount) > 0) || !params.receive_account) {
+    return json({ respCode: 'FAIL', errorMsg: 'Missing transfer parameters' });
+  }
+  if (transfers.has(params.mch_transferId)) {
+    return json({ respCode: 'FAIL', errorMsg: 'Duplicate merchant transfer number' });
+  }
+
+  const transfer: SandboxTransfer = {
+    mchTransferId: params.mch_transferId,
+    tradeNo: `SBXT${Date.now()}`,
+    amount: Number(params.transfer_amount).toFixed(2),
+    tradeResult: scenario.outcome === 'fail' ? '2' : '1',
+    backUrl: params.back_url || null,
+  };
+  transfers.set(transfer.mchTransferId, transfer);
+
+  const response: Record<string, string> = {
+    respCode: 'SUCCESS',
+    mchId: params.mch_id,
+    merTransferId: transfer.mchTransferId,
+    tradeNo: transfer.tradeNo,
+    transferAmount: transfer.amount,
+    applyDate: params.apply_date || formatBasepayDate(),
+    tradeResult: transfer.tradeResult,
+    signType: 'MD5',
+  };
+  if (transfer.tradeResult === '2') {
+    response.errorMsg = 'Transfer refused by sandbox';
+  }
+  response.sign = await createSign(response, payoutKey ?? "");
+
+  // Payouts are settled on acceptance; the notification is informational
+  if (transfer.backUrl) {
+    const { respCode: _respCode, errorMsg: _errorMsg, ...notification } = response;
+    const formData = new FormData();
+    Object.entries({ ...notification, sign: await createSign(notification, payoutKey ?? "") }).forEach(([key, value]) => {
+      formData.append(key, value);
+    });
+    fetch(transfer.backUrl, { method: 'POST', body: formData })
+      .catch((error) => console.error(`Sandbox transfer notification for ${transfer.mchTransferId} failed:`, error));
+  }
+
+  return json(response);
+}
+
+async function handleTransferQuery(req: Request): Promise<Response> {
+  const payoutKey = Deno.env.get("BASEPAY_PAYOUT_KEY");
+  const params = await readParams(req);
+  const signError = await checkSignature(params, payoutKey);
+  if (signError) {
+    return json({ respCode: 'FAIL', errorMsg: signError });
+  }
+
+  const transfer = transfers.get(params.mch_transferId);
+  if (!transfer) {
+    return json({ respCode: 'FAIL', errorMsg: 'Transfer does not exist' });
+  }
+
+  const response: Record<string, string> = {
+    respCode: 'SUCCESS',
+    mchId: params.mch_id,
+    merTransferId: transfer.mchTransferId,
+    tradeNo: transfer.tradeNo,
+    transferAmount: transfer.amount,
+    tradeResult: transfer.tradeResult,
+    signType: 'MD5',
+  };
+  response.sign = await createSign(response, payoutKey ?? "");
+  return json(response);
+}
+
+function checkoutPage(order: SandboxOrder, baseUrl: string): Response {
+  const action = `${baseUrl}/orders/${encodeURIComponent(order.mchOrderNo)}/settle`;
+  const state = order.tradeResult === '1' ? 'Paid' : order.tradeResult === '2' ? 'Failed' : 'Awaiting payment';
+  const buttons = order.tradeResult === '0' && order.scenario.outcome === 'manual'
+    ? OUTCOMES.filter((outcome) => outcome !== 'manual')
+      .map((outcome) => `<button name="outcome" value="${outcome}">${outcome.replace('_', ' ')}</button>`)
+      .join(' ')
+    : `<p>Outcome: ${order.scenario.outcome}</p>`;
+  const back = order.pageUrl ? `<p><a href="${escapeHtml(order.pageUrl)}">Return to merchant</a></p>` : '';
+
+  const html = `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>Basepay sandbox</title></head>
+<body style="font-family: sans-serif; max-width: 32rem; margin: 3rem auto;">
+  <h1>Basepay sandbox checkout</h1>
+  <p>Order <code>${escapeHtml(order.mchOrderNo)}</code>${order.goodsName ? ` &middot; ${escapeHtml(order.goodsName)}` : ''}</p>
+  <p>Amount <strong>${order.amount}</strong> &middot; ${state}</p>
+  <form method="post" action="${escapeHtml(action)}">${buttons}</form>
+  ${back}
+</body>
+</html>`;
+
+  return new Response(html, { headers: { ...corsHeaders, "Content-Type": "text/html; charset=utf-8" } });
+}
+
+async function handleSettle(req: Request, order: SandboxOrder, baseUrl: string): Promise<Response> {
+  const { outcome } = await readParams(req);
+  if (!isOutcome(outcome) || outcome === 'manual') {
+    return json({ error: `outcome must be one of ${OUTCOMES.filter((o) => o !== 'manual').join(', ')}` }, 400);
+  }
+  if (order.tradeResult !== '0') {
+    return json({ error: 'Order is already settled' }, 409);
+  }
+
+  order.scenario = { ...order.scenario, outcome };
+  await settle(order, outcome);
+
+  // Checkout page form: show the result, and the way back to the merchant
+  if (!(req.headers.get("content-type") || "").includes("application/json")) {
+    return checkoutPage(order, baseUrl);
+  }
+  return json({ success: true, order });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (Deno.env.get("BASEPAY_SANDBOX_ENABLED") !== 'true') {
+    return new Response("Not found", { status: 404, headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    // Served as an edge function the path keeps the function name in front
+    const prefix = url.pathname.match(/^.*\/basepay-sandbox/)?.[0] ?? '';
+    const path = url.pathname.slice(prefix.length) || '/';
+    const baseUrl = (Deno.env.get("BASEPAY_SANDBOX_URL") || `${url.origin}${prefix}`).replace(/\/$/, '');
+
+    if (req.method === "POST" && path === '/pay/web') {
+      return await handlePay(req, baseUrl);
+    }
+    if (req.method === "POST" && path === '/query/order') {
+      return await handleQuery(req);
+    }
+    if (req.method === "POST" && path === '/pay/transfer') {
+      return await handleTransfer(req);
+    }
+    if (req.method === "POST" && path === '/query/transfer') {
+      return await handleTransferQuery(req);
+    }
+
+    if (req.method === "POST" && path === '/scenario') {
+      const { outcome, delay_ms } = await readParams(req);
+      if (!isOutcome(outcome)) {
+        return json({ error: `outcome must be one of ${OUTCOMES.join(', ')}` }, 400);
+      }
+      scenario = { outcome, delayMs: delay_ms ? Number(delay_ms) : scenario.delayMs };
+      return json({ success: true, scenario });
+    }
+
+    if (req.method === "GET" && path === '/orders') {
+      return json({ scenario, orders: [...orders.values()], transfers: [...transfers.values()] });
+    }
+
+    const orderMatch = path.match(/^\/(checkout|orders)\/([^/]+)(\/settle)?$/);
+    const order = orderMatch ? orders.get(decodeURIComponent(orderMatch[2])) : undefined;
+    if (orderMatch && !order) {
+      return json({ error: 'Order not found' }, 404);
+    }
+    if (order && req.method === "GET" && orderMatch?.[1] === 'checkout') {
+      return checkoutPage(order, baseUrl);
+    }
+    if (order && req.method === "POST" && orderMatch?.[3]) {
+      return await handleSettle(req, order, baseUrl);
+    }
+
+    return json({ error: 'Not found' }, 404);
+
+  } catch (error) {
+    console.error("Basepay sandbox error:", error);
+    return json({ error: error.message }, 500);
+  }
+});
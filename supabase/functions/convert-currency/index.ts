@@ -0,0 +1,106 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { requireUser, accessErrorStatus } from "../_shared/roles.ts";
+import { FxRateError, quoteConversion } from "../_shared/fx.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Errors raised by convert_wallet_currency, as shown to the user
+const CONVERT_ERRORS: Record<string, string> = {
+  insufficient_funds: "Insufficient funds for this conversion",
+  same_currency: "Choose two different currencies",
+  invalid_amount: "This amount is too small to convert",
+  wallet_not_found: "Wallet not found",
+};
+
+// POST { from_currency, to_currency, amount_cents } -> { conversion }
+// amount_cents is in from_currency's minor units; the rate is the FX
+// service's quote at the time of the request (see quoteConversion).
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const user = await requireUser(req, supabaseAdmin);
+
+    if (req.method !== "POST") {
+      throw new Error("Invalid endpoint");
+    }
+
+    const { from_currency, to_currency, amount_cents } = await req.json();
+
+    if (typeof from_currency !== "string" || typeof to_currency !== "string" || !from_currency || !to_currency) {
+      throw new Error("Both currencies are required");
+    }
+
+    const fromCurrency = from_currency.toUpperCase();
+    const toCurrency = to_currency.toUpperCase();
+    const amountCents = Number(amount_cents);
+
+    if (fromCurrency === toCurrency) {
+      throw new Error(CONVERT_ERRORS.same_currency);
+    }
+    if (!Number.isInteger(amountCents) || amountCents <= 0) {
+      throw new Error("Amount must be a positive whole number of minor units");
+    }
+
+    const pricing = await quoteConversion(supabaseAdmin, amountCents, fromCurrency, toCurrency);
+
+    const { data: conversion, error: convertError } = await supabaseAdmin.rpc('convert_wallet_currency', {
+      p_user_id: user.id,
+      p_from_currency: fromCurrency,
+      p_to_currency: toCurrency,
+      p_amount_cents: pricing.amountCents,
+      p_converted_cents: pricing.convertedCents,
+      p_rate: pricing.rate,
+      p_meta: {
+        quotes: pricing.quotes.map((quote) => ({
+          currency: quote.currency,
+          side: quote.side,
+          rate: quote.rate,
+          source: quote.source,
+          fetched_at: quote.fetchedAt,
+        })),
+      },
+    });
+
+    if (convertError) {
+      throw new Error(CONVERT_ERRORS[convertError.message] || convertError.message);
+    }
+
+    console.log(
+      `Converted ${amountCents} ${fromCurrency} to ${pricing.convertedCents} ${toCurrency} for ${user.id} at ${pricing.rate}`
+    );
+
+    return new Response(
+      JSON.stringify({ conversion }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error("Convert currency error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error.message,
+        ...(error instanceof FxRateError ? { code: error.code } : {}),
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: error instanceof FxRateError ? 503 : accessErrorStatus(error),
+      }
+    );
+  }
+});
@@ -1,82 +1,95 @@
-import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
-import Stripe from 'https://esm.sh/stripe@13.10.0';
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { requireUser, accessErrorStatus } from "../_shared/roles.ts";
+import { getPaymentProvider, PaymentProviderError, selectPaymentGateway } from "../_shared/payments.ts";
 
-export const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Initialize Stripe with your secret key
-const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
-  apiVersion: '2023-10-16',
-  httpClient: Stripe.createFetchHttpClient(),
-});
-
-// Initialize Supabase client
-const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
-const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-// This is the main function that will be called when the endpoint is hit
+// Card top-up of the wallet (no plan). Goes through the Stripe gateway in
+// payment_gateways; stripe-webhook credits the wallet on payment_intent.succeeded.
+// POST { amount (cents), currency?, metadata? } -> { clientSecret, paymentIntentId }
 serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    // Parse the request body
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const user = await requireUser(req, supabaseAdmin);
+
     const { amount, currency = 'usd', metadata = {} } = await req.json();
-    
-    // Get the authorization header
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      throw new Error('Authorization header is missing');
+
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new Error("Invalid amount");
     }
 
-    // Get the JWT token from the Authorization header
-    const token = authHeader.replace('Bearer ', '');
-    
-    // Verify the JWT and get the user
-    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-    
-    if (userError || !user) {
-      throw new Error('Invalid or expired token');
+    const { data: wallet, error: walletError } = await supabaseAdmin
+      .from('wallets')
+      .select('id')
+      .eq('user_id', user.id)
+      .single();
+
+    if (walletError || !wallet) {
+      throw new Error("Wallet not found");
     }
 
-    // Call the database function to create a payment intent
-    const { data, error } = await supabase.rpc('create_payment_intent', {
-      p_user_id: user.id,
-      p_amount_cents: amount,
-      p_currency: currency.toLowerCase(),
-      p_metadata: metadata
+    const gateway = await selectPaymentGateway(supabaseAdmin, null, currency, 'stripe');
+    const provider = getPaymentProvider(gateway.provider);
+
+    // Stripe metadata values must be strings; stripe-webhook reads userId
+    const intentMetadata: Record<string, string> = {};
+    Object.entries(metadata as Record<string, unknown>).forEach(([key, value]) => {
+      intentMetadata[key] = String(value);
     });
 
-    if (error) throw error;
-    if (!data) throw new Error('Failed to create payment intent');
+    const siteUrl = req.headers.get("origin") || Deno.env.get("SITE_URL") || "https://yourapp.com";
+    const initiation = await provider.initiate(gateway, {
+      orderNo: `TU-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+      amount: amount / 100,
+      currency,
+      description: 'Wallet top-up',
+      returnUrl: `${siteUrl}/wallet`,
+      metadata: { ...intentMetadata, userId: user.id, walletId: wallet.id },
+    });
+
+    const { error: insertError } = await supabaseAdmin
+      .from('stripe_payment_intents')
+      .insert({
+        id: initiation.reference,
+        user_id: user.id,
+        wallet_id: wallet.id,
+        amount_cents: amount,
+        currency: currency.toLowerCase(),
+        status: 'requires_payment_method',
+        client_secret: initiation.payInfo.clientSecret,
+        metadata
+      });
+
+    if (insertError) throw insertError;
 
-    // Return the client secret to the client
     return new Response(
-      JSON.stringify(data),
-      { 
-        status: 200, 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
+      JSON.stringify(initiation.payInfo),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
       }
     );
   } catch (error) {
-    console.error('Error creating payment intent:', error);
+    console.error("Error creating payment intent:", error);
     return new Response(
       JSON.stringify({ error: error.message }),
-      { 
-        status: 500, 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: error instanceof PaymentProviderError && error.retryable ? 502 : accessErrorStatus(error, 500),
       }
     );
   }
@@ -0,0 +1,169 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { requireUser, accessErrorStatus } from "../_shared/roles.ts";
+import {
+  buildWithdrawalQuote,
+  chooseDebitBalance,
+  isWithdrawalMethod,
+  PAYOUT_DETAILS_LABELS,
+  QuoteError,
+  WITHDRAWAL_METHOD_LABELS,
+  WithdrawalMethod,
+  withdrawalMethodFor,
+} from "../_shared/withdrawal-quote.ts";
+import { getUserCountry } from "../_shared/countries.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// How long a quoted fee and FX rate stay valid
+const QUOTE_TTL_SECONDS = 300;
+
+// Errors raised by create_withdrawal_from_quote, as shown to the user
+const CONFIRM_ERRORS: Record<string, string> = {
+  quote_not_found: "Quote not found",
+  quote_already_used: "This quote has already been used",
+  quote_expired: "This quote has expired. Please review the updated amount.",
+  insufficient_funds: "Insufficient funds for this withdrawal",
+};
+
+// POST { amount_cents, currency, method? } -> { quote }  (priced and locked for QUOTE_TTL_SECONDS)
+// method defaults to USDT for USD and bank for other currencies
+// POST { quote_id, confirm: true } -> { success, withdrawal_id, quote }
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const user = await requireUser(req, supabaseAdmin);
+
+    if (req.method !== "POST") {
+      throw new Error("Invalid endpoint");
+    }
+
+    const { amount_cents, currency, method: requestedMethod, confirm, quote_id } = await req.json();
+
+    if (!confirm) {
+      if (typeof currency !== "string" || !currency) {
+        throw new QuoteError("Currency is required");
+      }
+      if (requestedMethod !== undefined && !isWithdrawalMethod(requestedMethod)) {
+        throw new QuoteError("Unknown withdrawal method");
+      }
+
+      const method = requestedMethod ?? withdrawalMethodFor(currency);
+      const country = await getUserCountry(supabaseAdmin, user.id);
+      if (country && !country.withdrawal_methods.includes(method)) {
+        throw new QuoteError(
+          `${WITHDRAWAL_METHOD_LABELS[method]} withdrawals are not available in ${country.name}`,
+          { code: 'method_unavailable' }
+        );
+      }
+      if (country && method !== 'usdt' && currency !== country.currency) {
+        throw new QuoteError(`${WITHDRAWAL_METHOD_LABELS[method]} withdrawals in ${country.name} are paid in ${country.currency}`, {
+          code: 'method_unavailable',
+        });
+      }
+
+      const pricing = await chooseDebitBalance(
+        supabaseAdmin,
+        user.id,
+        await buildWithdrawalQuote(supabaseAdmin, Number(amount_cents), currency, method)
+      );
+
+      const { data: quote, error: quoteError } = await supabaseAdmin
+        .from('withdrawal_quotes')
+        .insert({
+          user_id: user.id,
+          ...pricing,
+          expires_at: new Date(Date.now() + QUOTE_TTL_SECONDS * 1000).toISOString(),
+        })
+        .select('*')
+        .single();
+
+      if (quoteError) throw quoteError;
+
+      return new Response(
+        JSON.stringify({ quote }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    if (!quote_id) {
+      throw new QuoteError("Quote is required");
+    }
+
+    const { data: quote } = await supabaseAdmin
+      .from('withdrawal_quotes')
+      .select('*')
+      .eq('id', quote_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!quote) {
+      throw new QuoteError(CONFIRM_ERRORS.quote_not_found, { code: 'quote_not_found' });
+    }
+
+    const { data: payoutMethod } = await supabaseAdmin
+      .from('payout_methods')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('type', quote.method)
+      .maybeSingle();
+
+    if (!payoutMethod) {
+      throw new QuoteError(
+        `Please add your ${PAYOUT_DETAILS_LABELS[quote.method as WithdrawalMethod]} before withdrawing`,
+        { code: 'payout_method_required' }
+      );
+    }
+
+    const { data: withdrawalId, error: createError } = await supabaseAdmin.rpc('create_withdrawal_from_quote', {
+      p_quote_id: quote.id,
+      p_user_id: user.id,
+    });
+
+    if (createError) {
+      if (CONFIRM_ERRORS[createError.message]) {
+        throw new QuoteError(CONFIRM_ERRORS[createError.message], { code: createError.message });
+      }
+      throw createError;
+    }
+
+    console.log(`Withdrawal ${withdrawalId} created for ${user.id} from quote ${quote.id}`);
+
+    return new Response(
+      JSON.stringify({ success: true, withdrawal_id: withdrawalId, quote }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error("Create withdrawal error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error.message,
+        ...(error instanceof QuoteError ? error.details : {}),
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: accessErrorStatus(error),
+      }
+    );
+  }
+});
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { attachProof, ProofRejectedError, readProofUpload, storeProof } from "../_shared/proofs.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -40,31 +41,35 @@ serve(async (req) => {
     }
 
     if (req.method === "POST") {
-      const { planId, currency, amountCrypto, txHash, proofFile, note } = await req.json();
+      // multipart/form-data with the image in `proof`; JSON with a base64
+      // proofFile is still accepted from older clients. Either way the image
+      // goes through storeProof, and proofFile.type is not trusted.
+      let fields: Record<string, string>;
+      let upload: { bytes: Uint8Array; name: string | null } | null = null;
+
+      if ((req.headers.get("content-type") || '').startsWith("multipart/form-data")) {
+        const proofUpload = await readProofUpload(req, 'proof');
+        fields = proofUpload.fields;
+        upload = proofUpload;
+      } else {
+        const { proofFile, ...rest } = await req.json();
+        fields = rest;
+        if (proofFile?.data) {
+          upload = {
+            bytes: Uint8Array.from(atob(proofFile.data), c => c.charCodeAt(0)),
+            name: proofFile.name ?? null,
+          };
+        }
+      }
+
+      const { planId, currency, amountCrypto, txHash, note } = fields;
 
       // Validate required fields
-      if (!txHash || !proofFile) {
+      if (!txHash || !upload) {
         throw new Error("Transaction hash and proof image are required");
       }
 
-      // Upload proof image to storage
-      const fileExt = proofFile.name?.split('.').pop() || 'jpg';
-      const fileName = `${user.id}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-      
-      // Convert base64 to file for upload
-      const fileData = Uint8Array.from(atob(proofFile.data), c => c.charCodeAt(0));
-      
-      const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
-        .from('crypto-proofs')
-        .upload(fileName, fileData, {
-          contentType: proofFile.type || 'image/jpeg',
-          upsert: false
-        });
-
-      if (uploadError) {
-        console.error('Upload error:', uploadError);
-        throw new Error('Failed to upload proof image');
-      }
+      const proof = await storeProof(supabaseAdmin, user.id, 'crypto-proofs', upload);
 
       // Create crypto deposit record
       const { data: depositData, error: depositError } = await supabaseAdmin
@@ -75,7 +80,7 @@ serve(async (req) => {
           currency: currency || 'USDT',
           amount_crypto: amountCrypto,
           tx_hash: txHash,
-          proof_path: uploadData.path,
+          proof_path: proof.path,
           status: 'pending',
           admin_note: note
         })
@@ -84,9 +89,17 @@ serve(async (req) => {
 
       if (depositError) {
         console.error('Deposit creation error:', depositError);
+        // claim_crypto_tx_hash: another deposit already holds this transaction
+        if (depositError.code === '23505') {
+          throw new Error('This transaction hash has already been submitted');
+        }
         throw new Error('Failed to create crypto deposit record');
       }
 
+      await attachProof(supabaseAdmin, proof.id, user.id, 'crypto-proofs', {
+        crypto_deposit_id: depositData.id,
+      });
+
       return new Response(
         JSON.stringify({
           success: true,
@@ -133,7 +146,7 @@ serve(async (req) => {
       JSON.stringify({ error: error.message }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 400,
+        status: error instanceof ProofRejectedError ? error.status : 400,
       }
     );
   }
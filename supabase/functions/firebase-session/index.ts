@@ -0,0 +1,117 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createRemoteJWKSet, jwtVerify } from "https://esm.sh/jose@5.2.4";
+import { ensureSupabaseUser } from "../_shared/firebase-identity.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Google publishes the keys used to sign Firebase ID tokens here
+const FIREBASE_JWKS = createRemoteJWKSet(
+  new URL("https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com")
+);
+
+// Exchanges a Firebase ID token for a Supabase session so that auth.uid()
+// and the RLS policies keyed on it apply to users who signed in with Firebase.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const supabaseAnon = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    // The bearer token here is the Firebase ID token, not a Supabase JWT
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("Missing authorization header");
+    }
+
+    const idToken = authHeader.replace("Bearer ", "");
+    const projectId = Deno.env.get("FIREBASE_PROJECT_ID") || "naira-drop-pay";
+
+    let claims;
+    try {
+      const { payload } = await jwtVerify(idToken, FIREBASE_JWKS, {
+        issuer: `https://securetoken.google.com/${projectId}`,
+        audience: projectId,
+      });
+      claims = payload;
+    } catch (verifyError) {
+      console.error("Firebase token verification failed:", verifyError);
+      throw new Error("Unauthorized");
+    }
+
+    const firebaseUid = claims.sub;
+    const email = typeof claims.email === "string" ? claims.email.toLowerCase() : null;
+
+    if (!firebaseUid || !email) {
+      throw new Error("Firebase account has no email address");
+    }
+
+    // Anyone can register a Firebase account under someone else's address;
+    // until Firebase has verified it, it must not resolve to a Supabase user
+    if (claims.email_verified !== true) {
+      throw new Error("Please verify your email before signing in");
+    }
+
+    const { userId: supabaseUserId, hashedToken } = await ensureSupabaseUser(supabaseAdmin, {
+      firebaseUid,
+      email,
+      emailVerified: true,
+      fullName: typeof claims.name === "string" ? claims.name : null,
+      phone: typeof claims.phone_number === "string" ? claims.phone_number : null,
+    });
+
+    // Redeem the one-time login link server-side for a real session,
+    // so the client gets a refresh token and supabase-js keeps it alive.
+    const { data: sessionData, error: otpError } = await supabaseAnon.auth.verifyOtp({
+      type: 'magiclink',
+      token_hash: hashedToken,
+    });
+
+    if (otpError || !sessionData.session) {
+      console.error('Session exchange error:', otpError);
+      throw new Error('Failed to issue Supabase session');
+    }
+
+    const { session } = sessionData;
+
+    return new Response(
+      JSON.stringify({
+        access_token: session.access_token,
+        refresh_token: session.refresh_token,
+        expires_at: session.expires_at,
+        user_id: supabaseUserId,
+        firebase_uid: firebaseUid
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error("Firebase session exchange error:", error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: error.message === "Unauthorized" ? 401 : 400,
+      }
+    );
+  }
+});
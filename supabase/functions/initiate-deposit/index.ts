@@ -0,0 +1,230 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { requireUser, accessErrorStatus } from "../_shared/roles.ts";
+import {
+  getDepositRate,
+  getPaymentProvider,
+  PaymentProviderError,
+  PaymentProviderName,
+  selectPaymentGateway,
+} from "../_shared/payments.ts";
+import { assignDepositAddress } from "../_shared/crypto-addresses.ts";
+import { FxRateError } from "../_shared/fx.ts";
+import { currencyMinorUnits, getCountry } from "../_shared/countries.ts";
+import { normalizeMsisdn } from "../_shared/mobile-money.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Smallest wallet deposit (no plan), in USD cents
+const MIN_WALLET_DEPOSIT_CENTS = 500;
+
+// POST { planId, currency, countryCode?, provider? }
+// POST { amountUsdCents, currency, provider: 'manual_crypto' }   wallet deposit without a plan
+// Mobile money (mpesa, mtn_momo) also needs { msisdn }: the payer's number,
+// which gets the approval prompt. National numbers are read in the gateway's country.
+//   -> { success, depositId, mchOrderNo, provider, gateway, payInfo, localAmount, localCurrency, fxRate }
+// countryCode defaults to the caller's profile country. The gateway (and so
+// the provider) comes from payment_gateways; see selectPaymentGateway.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const user = await requireUser(req, supabaseAdmin);
+
+    if (req.method !== "POST") {
+      throw new Error("Invalid endpoint");
+    }
+
+    const { planId, amountUsdCents, countryCode, currency, provider: requestedProvider, msisdn } = await req.json();
+
+    if (!planId && requestedProvider !== 'manual_crypto') {
+      throw new Error("Plan ID is required");
+    }
+    if (!planId && (!Number.isInteger(amountUsdCents) || amountUsdCents < MIN_WALLET_DEPOSIT_CENTS)) {
+      throw new Error(`Minimum deposit is $${(MIN_WALLET_DEPOSIT_CENTS / 100).toFixed(2)}`);
+    }
+    if (typeof currency !== "string" || !currency) {
+      throw new Error("Currency is required");
+    }
+
+    let plan = null;
+    if (planId) {
+      const { data, error: planError } = await supabaseAdmin
+        .from('plans')
+        .select('*')
+        .eq('id', planId)
+        .single();
+
+      if (planError || !data) {
+        throw new Error("Plan not found");
+      }
+      plan = data;
+    }
+
+    const depositCents: number = plan ? plan.deposit_usd : amountUsdCents;
+
+    let country: string | null = countryCode || null;
+    if (!country) {
+      const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('country')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      country = profile?.country || null;
+    }
+
+    const gateway = await selectPaymentGateway(
+      supabaseAdmin,
+      country,
+      currency,
+      requestedProvider as PaymentProviderName | undefined
+    );
+    const provider = getPaymentProvider(gateway.provider);
+
+    let payerMsisdn: string | null = null;
+    if (provider.depositMethod === 'mobile_money') {
+      const gatewayCountry = await getCountry(supabaseAdmin, gateway.country_code);
+      payerMsisdn = typeof msisdn === 'string' && gatewayCountry ? normalizeMsisdn(msisdn, gatewayCountry.dial_code) : null;
+      if (!payerMsisdn) {
+        throw new Error("Enter a valid mobile money number");
+      }
+    }
+
+    const localCurrency = gateway.currency;
+    const fxRate = await getDepositRate(supabaseAdmin, localCurrency);
+    // plans store USD cents; local amounts are major units, in whole minor units (UGX has none)
+    const minorUnits = (await currencyMinorUnits(supabaseAdmin, localCurrency)) ?? 2;
+    const localAmount = Math.round(depositCents / 100 * fxRate * 10 ** minorUnits) / 10 ** minorUnits;
+    const mchOrderNo = `WS-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+
+    const { data: deposit, error: depositError } = await supabaseAdmin
+      .from('deposits')
+      .insert({
+        user_id: user.id,
+        plan_id: plan?.id ?? null,
+        amount_usd_cents: depositCents,
+        local_amount: localAmount,
+        local_currency: localCurrency,
+        fx_rate: fxRate,
+        fx_at: new Date().toISOString(),
+        gateway: provider.name,
+        gateway_id: gateway.id,
+        method: provider.depositMethod,
+        mch_order_no: mchOrderNo,
+        status: 'pending'
+      })
+      .select()
+      .single();
+
+    if (depositError) {
+      console.error('Deposit creation error:', depositError);
+      throw new Error("Failed to create deposit record");
+    }
+
+    const siteUrl = req.headers.get("origin") || Deno.env.get("SITE_URL") || "https://yourapp.com";
+
+    let initiation;
+    try {
+      const metadata: Record<string, string> = { deposit_id: deposit.id, user_id: user.id, plan_id: plan?.id ?? '' };
+
+      if (provider.name === 'manual_crypto') {
+        const depositAddress = await assignDepositAddress(supabaseAdmin, gateway, deposit);
+        metadata.deposit_address = depositAddress.address;
+        metadata.network = depositAddress.network;
+        metadata.amount_tag_cents = String(depositAddress.amountTagCents);
+      }
+      if (payerMsisdn) {
+        metadata.msisdn = payerMsisdn;
+      }
+
+      initiation = await provider.initiate(gateway, {
+        orderNo: mchOrderNo,
+        amount: localAmount,
+        currency: localCurrency,
+        description: plan ? `Investment Plan: ${plan.name}` : 'Wallet deposit',
+        returnUrl: `${siteUrl}/wallet`,
+        metadata,
+      });
+    } catch (initiateError) {
+      await supabaseAdmin
+        .from('gateway_logs')
+        .insert({
+          type: 'initiate_payment',
+          payload: {
+            provider: provider.name,
+            gateway_id: gateway.id,
+            error: initiateError.message,
+            raw: initiateError instanceof PaymentProviderError ? initiateError.raw ?? null : null
+          },
+          deposit_id: deposit.id
+        });
+
+      await supabaseAdmin
+        .from('deposits')
+        .update({ status: 'failed' })
+        .eq('id', deposit.id);
+
+      throw initiateError;
+    }
+
+    if (initiation.reference) {
+      await supabaseAdmin
+        .from('deposits')
+        .update({ gateway_ref: initiation.reference })
+        .eq('id', deposit.id);
+    }
+
+    await supabaseAdmin
+      .from('gateway_logs')
+      .insert({
+        type: 'initiate_payment',
+        payload: { provider: provider.name, gateway_id: gateway.id, raw: initiation.raw ?? null },
+        deposit_id: deposit.id
+      });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        depositId: deposit.id,
+        mchOrderNo,
+        provider: provider.name,
+        gateway: gateway.name,
+        payInfo: initiation.payInfo,
+        localAmount: localAmount.toFixed(minorUnits),
+        localCurrency,
+        fxRate
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error("Initiate deposit error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error.message,
+        ...(error instanceof FxRateError ? { code: error.code } : {}),
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: error instanceof FxRateError
+          ? 503
+          : error instanceof PaymentProviderError && error.retryable ? 502 : accessErrorStatus(error),
+      }
+    );
+  }
+});
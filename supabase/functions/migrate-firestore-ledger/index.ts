@@ -0,0 +1,212 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createFirestoreReader } from "../_shared/firestore.ts";
+import { ensureSupabaseUser } from "../_shared/firebase-identity.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Firestore stored money inconsistently: users.balance is in dollars (that is
+// how every page rendered it), while transactions.amount/amount_usd and
+// investments.deposit_usd were written in cents.
+const dollarsToCents = (value: unknown) => Math.round(Number(value || 0) * 100);
+const toCents = (value: unknown) => Math.round(Number(value || 0));
+
+const toTimestamp = (value: unknown) => (typeof value === "string" ? value : null);
+
+// One-way copy of Firestore users/transactions/investments into wallets,
+// wallet_transactions and deposits. Safe to rerun: every document is recorded
+// in firestore_migrations and skipped on later runs.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    // Only the service role may run the migration
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+      throw new Error("Unauthorized");
+    }
+
+    const startTime = Date.now();
+    console.log('Migrating Firestore ledger...');
+
+    const firestore = await createFirestoreReader(Deno.env.get("FIREBASE_SERVICE_ACCOUNT") ?? "");
+
+    const stats = {
+      users: { imported: 0, skipped: 0, failed: 0 },
+      transactions: { imported: 0, skipped: 0, failed: 0 },
+      investments: { imported: 0, skipped: 0, failed: 0 },
+    };
+
+    // Firestore transactions and investments reference users by email
+    const userIdsByEmail = new Map<string, string>();
+
+    for await (const doc of firestore.listDocuments('users')) {
+      try {
+        const email = typeof doc.data.email === "string" ? doc.data.email.toLowerCase() : null;
+        if (!email) {
+          stats.users.failed++;
+          continue;
+        }
+
+        const { userId } = await ensureSupabaseUser(supabaseAdmin, {
+          firebaseUid: doc.id,
+          email,
+          // Firestore user documents do not record verification, so existing
+          // accounts are only linked once the user signs in with a verified
+          // address; rerun the migration afterwards to import their ledger
+          emailVerified: false,
+          fullName: (doc.data.name as string) ?? null,
+          phone: (doc.data.phone as string) ?? null,
+          country: (doc.data.country as string) ?? null,
+        });
+        userIdsByEmail.set(email, userId);
+
+        // Fill profile gaps without overwriting anything entered on the Supabase side
+        const { data: profile } = await supabaseAdmin
+          .from('profiles')
+          .select('full_name, phone, country')
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (profile) {
+          await supabaseAdmin
+            .from('profiles')
+            .update({
+              full_name: profile.full_name || doc.data.name || null,
+              phone: profile.phone || doc.data.phone || null,
+              country: profile.country || doc.data.country || null,
+            })
+            .eq('user_id', userId);
+        }
+
+        const { data: result, error } = await supabaseAdmin.rpc('import_firestore_balance', {
+          p_user_id: userId,
+          p_source_id: doc.id,
+          p_amount_cents: dollarsToCents(doc.data.balance),
+        });
+
+        if (error) throw error;
+        if (result?.skipped) stats.users.skipped++;
+        else stats.users.imported++;
+      } catch (userError) {
+        console.error(`Failed to migrate Firestore user ${doc.id}:`, userError);
+        stats.users.failed++;
+      }
+    }
+
+    for await (const doc of firestore.listDocuments('transactions')) {
+      const email = typeof doc.data.userEmail === "string" ? doc.data.userEmail.toLowerCase() : "";
+      const userId = userIdsByEmail.get(email);
+      if (!userId) {
+        stats.transactions.failed++;
+        continue;
+      }
+
+      const { data: result, error } = await supabaseAdmin.rpc('import_firestore_transaction', {
+        p_user_id: userId,
+        p_source_id: doc.id,
+        p_amount_cents: toCents(doc.data.amount_usd ?? doc.data.amount),
+        p_meta: {
+          description: doc.data.note || `Legacy ${doc.data.type || 'transaction'}`,
+          original_type: doc.data.type ?? null,
+          original_status: doc.data.status ?? null,
+          method: doc.data.method ?? null,
+          tx_hash: doc.data.txHash ?? null,
+          plan_id: doc.data.planId ?? null,
+        },
+        p_created_at: toTimestamp(doc.data.createdAt),
+      });
+
+      if (error || !result?.success) {
+        console.error(`Failed to migrate Firestore transaction ${doc.id}:`, error || result?.error);
+        stats.transactions.failed++;
+      } else if (result.skipped) {
+        stats.transactions.skipped++;
+      } else {
+        stats.transactions.imported++;
+      }
+    }
+
+    for await (const doc of firestore.listDocuments('investments')) {
+      const email = typeof doc.data.userEmail === "string" ? doc.data.userEmail.toLowerCase() : "";
+      const userId = userIdsByEmail.get(email);
+      if (!userId || !doc.data.planId) {
+        stats.investments.failed++;
+        continue;
+      }
+
+      const { data: result, error } = await supabaseAdmin.rpc('import_firestore_investment', {
+        p_user_id: userId,
+        p_source_id: doc.id,
+        p_plan_id: doc.data.planId,
+        p_amount_cents: toCents(doc.data.deposit_usd),
+        p_created_at: toTimestamp(doc.data.createdAt),
+      });
+
+      if (error || !result?.success) {
+        console.error(`Failed to migrate Firestore investment ${doc.id}:`, error || result?.error);
+        stats.investments.failed++;
+      } else if (result.skipped) {
+        stats.investments.skipped++;
+      } else {
+        stats.investments.imported++;
+      }
+    }
+
+    const executionTime = Date.now() - startTime;
+    const processedCount = stats.users.imported + stats.transactions.imported + stats.investments.imported;
+    const errorCount = stats.users.failed + stats.transactions.failed + stats.investments.failed;
+
+    await supabaseAdmin
+      .from('jobs_log')
+      .insert({
+        job: 'migrate_firestore_ledger',
+        status: errorCount > 0 ? 'completed_with_errors' : 'completed',
+        payload: stats,
+        execution_time_ms: executionTime,
+        processed_count: processedCount,
+        error_count: errorCount
+      });
+
+    console.log('Firestore ledger migration completed:', stats);
+
+    return new Response(
+      JSON.stringify({ success: true, ...stats, execution_time_ms: executionTime }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error("Firestore ledger migration error:", error);
+
+    await supabaseAdmin
+      .from('jobs_log')
+      .insert({
+        job: 'migrate_firestore_ledger',
+        status: 'failed',
+        payload: { error: error.message },
+        error_count: 1
+      });
+
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: error.message === "Unauthorized" ? 401 : 500,
+      }
+    );
+  }
+});
@@ -0,0 +1,108 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getSourceIp, recordPaymentCallback } from "../_shared/basepay-callback.ts";
+import { getPaymentProvider } from "../_shared/payments.ts";
+import { callbackTokenOk, MOBILE_MONEY_OPERATORS, MobileMoneyOperator } from "../_shared/mobile-money.ts";
+import { getMobileMoneyProvider } from "../_shared/payouts.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Daraja wants this acknowledgement; MTN ignores the body
+const acknowledge = (status: number, description: string) =>
+  new Response(
+    JSON.stringify({ ResultCode: status === 200 ? 0 : 1, ResultDesc: description }),
+    { headers: { ...corsHeaders, "Content-Type": "application/json" }, status }
+  );
+
+// Result callbacks from the mobile money operators (see mobileMoneyCallbackUrl):
+//   /mobile-money-callback/<operator>?token=&order=    collections, applied like Basepay callbacks
+//   /mobile-money-callback/<operator>?token=&payout=   payouts, completed or failed from the reported outcome
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const url = new URL(req.url);
+    const operator = url.pathname.split('/').filter(Boolean).pop() as MobileMoneyOperator;
+
+    if (!MOBILE_MONEY_OPERATORS.includes(operator)) {
+      return acknowledge(404, 'Unknown operator');
+    }
+
+    const withdrawalId = url.searchParams.get('payout');
+    if (withdrawalId) {
+      if (!callbackTokenOk(url)) {
+        console.warn(`Unauthenticated ${operator} payout callback for ${withdrawalId}`);
+        return acknowledge(403, 'Invalid token');
+      }
+
+      const body = await req.json().catch(() => null);
+      const result = getMobileMoneyProvider(operator).parseCallback?.(body) ??
+        { status: 'pending', reference: null, raw: body };
+
+      await supabaseAdmin
+        .from('gateway_logs')
+        .insert({
+          type: 'payout_callback',
+          payload: { provider: operator, status: result.status, result: result.raw },
+          withdrawal_id: withdrawalId
+        });
+
+      // Interim reports change nothing; process-withdrawals recovery polls
+      // transfers that never get a final one
+      if (result.status !== 'paid' && result.status !== 'failed') {
+        return acknowledge(200, 'Accepted');
+      }
+
+      // Both skip a withdrawal already settled the same way, so a repeated
+      // callback is harmless
+      const { data: settled, error: settleError } = result.status === 'paid'
+        ? await supabaseAdmin.rpc('complete_withdrawal', {
+          p_withdrawal_id: withdrawalId,
+          p_payment_ref: result.reference || withdrawalId,
+          p_provider: operator
+        })
+        : await supabaseAdmin.rpc('fail_withdrawal', {
+          p_withdrawal_id: withdrawalId,
+          p_reason: `Payout failed at ${operator}`
+        });
+
+      if (settleError || !settled?.success) {
+        console.error(`Could not settle withdrawal ${withdrawalId} from ${operator} callback:`, settleError?.message || settled?.error);
+        // A withdrawal that is not processing any more will not be settled
+        // by a retry; anything else is worth the operator resending
+        return settled?.error === 'invalid_status' || settled?.error === 'withdrawal_not_found'
+          ? acknowledge(200, 'Ignored')
+          : acknowledge(500, 'Settlement failed');
+      }
+
+      return acknowledge(200, 'Accepted');
+    }
+
+    const callback = await getPaymentProvider(operator).verifyCallback(req);
+
+    // MTN may report a request that is still waiting on the payer; only
+    // final outcomes are stored, reconcile-deposits picks up the rest
+    if (callback.signatureOk && callback.status === 'pending') {
+      console.log(`Pending ${operator} callback ignored:`, callback.orderNo);
+      return acknowledge(200, 'Accepted');
+    }
+
+    const outcome = await recordPaymentCallback(supabaseAdmin, operator, callback, getSourceIp(req));
+    return acknowledge(outcome.status, outcome.status === 200 ? 'Accepted' : outcome.body);
+
+  } catch (error) {
+    console.error("Mobile money callback error:", error);
+    return acknowledge(500, error.message || 'error');
+  }
+});
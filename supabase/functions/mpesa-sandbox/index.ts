@@ -0,0 +1,383 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { mpesaPassword } from "../_shared/mobile-money.ts";
+
+// Stand-in for Safaricom's Daraja API in development and automated tests.
+// Implements OAuth (/oauth/v1/generate), STK push (/mpesa/stkpush/v1/processrequest,
+// /mpesa/stkpushquery/v1/query) and B2C (/mpesa/b2c/v1/paymentrequest),
+// checking the same MPESA_CONSUMER_KEY, MPESA_CONSUMER_SECRET, MPESA_SHORTCODE
+// and MPESA_PASSKEY as the functions calling it.
+//
+// Point the app at it with MPESA_API_URL=<sandbox>, where <sandbox> is
+// .../functions/v1/mpesa-sandbox, or http://localhost:8000 when run on its
+// own with `deno task mpesa-sandbox`.
+//
+// It answers 404 unless MPESA_SANDBOX_ENABLED=true: anyone reaching it can
+// settle a payment and have the callback sent with the real callback token.
+//
+// Requests live in memory. Run it on its own for long delays; a recycled edge
+// worker forgets its requests and pending callbacks.
+//
+// How STK pushes settle (POST /scenario, or MPESA_SANDBOX_OUTCOME for the default):
+//   manual       wait for POST /requests/<id>/settle, as if the payer had the prompt (default)
+//   success      paid, callback sent right away
+//   fail         cancelled by the payer (ResultCode 1032), callback sent right away
+//   delay        paid, callback sent after delay_ms; the query says pending until then
+//   duplicate    paid, the same callback sent twice
+//   bad_token    paid, callback sent without the callback token
+//   no_callback  paid, no callback at all; only the query tells
+// B2C payouts are refused under fail and accepted otherwise, with the result
+// posted to their ResultURL.
+//
+// Test helpers:
+//   POST /scenario { outcome, delay_ms? }            outcome for requests made from now on
+//   POST /requests/<CheckoutRequestID>/settle { outcome }   settle a manual request
+//   GET  /requests                                   STK pushes and payouts seen so far
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const OUTCOMES = ['manual', 'success', 'fail', 'delay', 'duplicate', 'bad_token', 'no_callback'] as const;
+type SandboxOutcome = typeof OUTCOMES[number];
+
+interface SandboxScenario {
+  outcome: SandboxOutcome;
+  delayMs: number;
+}
+
+interface SandboxStkPush {
+  merchantRequestId: string;
+  checkoutRequestId: string;
+  amount: number;
+  phoneNumber: string;
+  accountReference: string | null;
+  callbackUrl: string;
+  scenario: SandboxScenario;
+  // What the query reports: null while the payer has not answered
+  resultCode: 0 | 1032 | null;
+  receipt: string | null;
+  callbacks: { sentAt: string; status: number | null; error?: string }[];
+}
+
+interface SandboxPayout {
+  conversationId: string;
+  originatorConversationId: string;
+  amount: number;
+  partyB: string;
+  resultUrl: string | null;
+}
+
+const stkPushes = new Map<string, SandboxStkPush>();
+const payouts = new Map<string, SandboxPayout>();
+
+const isOutcome = (value: unknown): value is SandboxOutcome =>
+  OUTCOMES.includes(value as SandboxOutcome);
+
+let scenario: SandboxScenario = {
+  outcome: isOutcome(Deno.env.get("MPESA_SANDBOX_OUTCOME")) ? Deno.env.get("MPESA_SANDBOX_OUTCOME") as SandboxOutcome : 'manual',
+  delayMs: Number(Deno.env.get("MPESA_SANDBOX_DELAY_MS") || 30000),
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// Daraja's error body
+const darajaError = (status: number, errorCode: string, errorMessage: string) =>
+  json({ requestId: crypto.randomUUID(), errorCode, errorMessage }, status);
+
+const sandboxId = (prefix: string) =>
+  `${prefix}${Date.now()}${Math.floor(Math.random() * 100000).toString().padStart(5, '0')}`;
+
+// Ten characters, like a real M-Pesa transaction code
+const mpesaReceipt = () => `SBX${crypto.randomUUID().replace(/-/g, '').slice(0, 7).toUpperCase()}`;
+
+// Stateless, so tokens survive a recycled worker
+const accessTokenFor = (consumerKey: string) => btoa(`mpesa-sandbox:${consumerKey}`);
+
+function checkBearer(req: Request): Response | null {
+  const consumerKey = Deno.env.get("MPESA_CONSUMER_KEY");
+  if (!consumerKey) {
+    return darajaError(500, '500.001.1001', 'Sandbox credentials are not configured');
+  }
+  if (req.headers.get("authorization") !== `Bearer ${accessTokenFor(consumerKey)}`) {
+    return darajaError(401, '404.001.03', 'Invalid Access Token');
+  }
+  return null;
+}
+
+function checkPassword(body: Record<string, unknown>): Response | null {
+  const shortCode = Deno.env.get("MPESA_SHORTCODE");
+  const passkey = Deno.env.get("MPESA_PASSKEY");
+  if (!shortCode || !passkey) {
+    return darajaError(500, '500.001.1001', 'Sandbox shortcode is not configured');
+  }
+  if (String(body.BusinessShortCode) !== shortCode ||
+    body.Password !== mpesaPassword(shortCode, passkey, String(body.Timestamp))) {
+    return darajaError(400, '400.002.02', 'Bad Request - Invalid Password');
+  }
+  return null;
+}
+
+function handleToken(req: Request): Response {
+  const consumerKey = Deno.env.get("MPESA_CONSUMER_KEY");
+  const consumerSecret = Deno.env.get("MPESA_CONSUMER_SECRET");
+  if (!consumerKey || !consumerSecret) {
+    return darajaError(500, '500.001.1001', 'Sandbox credentials are not configured');
+  }
+  if (req.headers.get("authorization") !== `Basic ${btoa(`${consumerKey}:${consumerSecret}`)}`) {
+    return darajaError(400, '400.008.01', 'Invalid Authentication passed');
+  }
+  return json({ access_token: accessTokenFor(consumerKey), expires_in: '3599' });
+}
+
+async function sendCallback(push: SandboxStkPush, withoutToken = false) {
+  const stkCallback: Record<string, unknown> = {
+    MerchantRequestID: push.merchantRequestId,
+    CheckoutRequestID: push.checkoutRequestId,
+    ResultCode: push.resultCode,
+    ResultDesc: push.resultCode === 0 ? 'The service request is processed successfully.' : 'Request cancelled by user',
+  };
+  if (push.resultCode === 0) {
+    stkCallback.CallbackMetadata = {
+      Item: [
+        { Name: 'Amount', Value: push.amount },
+        { Name: 'MpesaReceiptNumber', Value: push.receipt },
+        { Name: 'TransactionDate', Value: Number(new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)) },
+        { Name: 'PhoneNumber', Value: Number(push.phoneNumber) },
+      ],
+    };
+  }
+
+  const url = new URL(push.callbackUrl);
+  if (withoutToken) url.searchParams.delete('token');
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ Body: { stkCallback } }),
+    });
+    const text = await response.text();
+    push.callbacks.push({ sentAt: new Date().toISOString(), status: response.status });
+    console.log(`Sandbox callback for ${push.checkoutRequestId}: HTTP ${response.status} ${text}`);
+  } catch (error) {
+    push.callbacks.push({ sentAt: new Date().toISOString(), status: null, error: error.message });
+    console.error(`Sandbox callback for ${push.checkoutRequestId} failed:`, error);
+  }
+}
+
+const markPaid = (push: SandboxStkPush) => {
+  push.resultCode = 0;
+  push.receipt = mpesaReceipt();
+};
+
+// Apply a request's outcome: set what the query reports and send its callbacks
+async function settle(push: SandboxStkPush, outcome: SandboxOutcome) {
+  switch (outcome) {
+    case 'manual':
+      return;
+    case 'fail':
+      push.resultCode = 1032;
+      await sendCallback(push);
+      return;
+    case 'delay':
+      setTimeout(() => {
+        markPaid(push);
+        sendCallback(push);
+      }, push.scenario.delayMs);
+      return;
+    default:
+      markPaid(push);
+      if (outcome === 'no_callback') return;
+      await sendCallback(push, outcome === 'bad_token');
+      if (outcome === 'duplicate') {
+        await sendCallback(push);
+      }
+  }
+}
+
+async function handleStkPush(req: Request): Promise<Response> {
+  const body = await req.json().catch(() => ({})) as Record<string, unknown>;
+  const passwordError = checkPassword(body);
+  if (passwordError) return passwordError;
+
+  const amount = Number(body.Amount);
+  if (!Number.isInteger(amount) || amount < 1 || !/^254[0-9]{9}$/.test(String(body.PhoneNumber)) || !body.CallBackURL) {
+    return darajaError(400, '400.002.02', 'Bad Request - Invalid STK push parameters');
+  }
+
+  const push: SandboxStkPush = {
+    merchantRequestId: sandboxId('SBXM-'),
+    checkoutRequestId: sandboxId('ws_CO_SBX'),
+    amount,
+    phoneNumber: String(body.PhoneNumber),
+    accountReference: body.AccountReference ? String(body.AccountReference) : null,
+    callbackUrl: String(body.CallBackURL),
+    scenario: { ...scenario },
+    resultCode: null,
+    receipt: null,
+    callbacks: [],
+  };
+  stkPushes.set(push.checkoutRequestId, push);
+
+  await settle(push, push.scenario.outcome);
+
+  return json({
+    MerchantRequestID: push.merchantRequestId,
+    CheckoutRequestID: push.checkoutRequestId,
+    ResponseCode: '0',
+    ResponseDescription: 'Success. Request accepted for processing',
+    CustomerMessage: 'Success. Request accepted for processing',
+  });
+}
+
+async function handleStkQuery(req: Request): Promise<Response> {
+  const body = await req.json().catch(() => ({})) as Record<string, unknown>;
+  const passwordError = checkPassword(body);
+  if (passwordError) return passwordError;
+
+  const push = stkPushes.get(String(body.CheckoutRequestID));
+  if (!push) {
+    return darajaError(400, '400.002.02', 'Bad Request - Invalid CheckoutRequestID');
+  }
+  if (push.resultCode === null) {
+    return darajaError(500, '500.001.1001', 'The transaction is being processed');
+  }
+
+  return json({
+    ResponseCode: '0',
+    ResponseDescription: 'The service request has been accepted successfully',
+    MerchantRequestID: push.merchantRequestId,
+    CheckoutRequestID: push.checkoutRequestId,
+    ResultCode: String(push.resultCode),
+    ResultDesc: push.resultCode === 0 ? 'The service request is processed successfully.' : 'Request cancelled by user',
+  });
+}
+
+async function handleB2c(req: Request): Promise<Response> {
+  const body = await req.json().catch(() => ({})) as Record<string, unknown>;
+  const amount = Number(body.Amount);
+
+  if (!body.OriginatorConversationID || !Number.isInteger(amount) || amount < 1 || !/^254[0-9]{9}$/.test(String(body.PartyB))) {
+    return darajaError(400, '400.002.02', 'Bad Request - Invalid B2C parameters');
+  }
+  if (scenario.outcome === 'fail') {
+    return darajaError(400, '400.002.02', 'Bad Request - Payout refused by sandbox');
+  }
+
+  const payout: SandboxPayout = {
+    conversationId: sandboxId('AG_SBX_'),
+    originatorConversationId: String(body.OriginatorConversationID),
+    amount,
+    partyB: String(body.PartyB),
+    resultUrl: body.ResultURL ? String(body.ResultURL) : null,
+  };
+  payouts.set(payout.conversationId, payout);
+
+  // The result callback is what settles the withdrawal (mobile-money-callback)
+  if (payout.resultUrl) {
+    fetch(payout.resultUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        Result: {
+          ResultType: 0,
+          ResultCode: 0,
+          ResultDesc: 'The service request is processed successfully.',
+          OriginatorConversationID: payout.originatorConversationId,
+          ConversationID: payout.conversationId,
+          TransactionID: mpesaReceipt(),
+        },
+      }),
+    }).catch((error) => console.error(`Sandbox B2C result for ${payout.originatorConversationId} failed:`, error));
+  }
+
+  return json({
+    ConversationID: payout.conversationId,
+    OriginatorConversationID: payout.originatorConversationId,
+    ResponseCode: '0',
+    ResponseDescription: 'Accept the service request successfully.',
+  });
+}
+
+async function handleSettle(req: Request, push: SandboxStkPush): Promise<Response> {
+  const { outcome } = await req.json().catch(() => ({}));
+  if (!isOutcome(outcome) || outcome === 'manual') {
+    return json({ error: `outcome must be one of ${OUTCOMES.filter((o) => o !== 'manual').join(', ')}` }, 400);
+  }
+  if (push.resultCode !== null) {
+    return json({ error: 'Request is already settled' }, 409);
+  }
+
+  push.scenario = { ...push.scenario, outcome };
+  await settle(push, outcome);
+  return json({ success: true, request: push });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (Deno.env.get("MPESA_SANDBOX_ENABLED") !== 'true') {
+    return new Response("Not found", { status: 404, headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    // Served as an edge function the path keeps the function name in front
+    const prefix = url.pathname.match(/^.*\/mpesa-sandbox/)?.[0] ?? '';
+    const path = url.pathname.slice(prefix.length) || '/';
+
+    if (req.method === "GET" && path === '/oauth/v1/generate') {
+      return handleToken(req);
+    }
+
+    if (path.startsWith('/mpesa/')) {
+      const authError = checkBearer(req);
+      if (authError) return authError;
+
+      if (req.method === "POST" && path === '/mpesa/stkpush/v1/processrequest') {
+        return await handleStkPush(req);
+      }
+      if (req.method === "POST" && path === '/mpesa/stkpushquery/v1/query') {
+        return await handleStkQuery(req);
+      }
+      if (req.method === "POST" && path === '/mpesa/b2c/v1/paymentrequest') {
+        return await handleB2c(req);
+      }
+    }
+
+    if (req.method === "POST" && path === '/scenario') {
+      const { outcome, delay_ms } = await req.json().catch(() => ({}));
+      if (!isOutcome(outcome)) {
+        return json({ error: `outcome must be one of ${OUTCOMES.join(', ')}` }, 400);
+      }
+      scenario = { outcome, delayMs: delay_ms ? Number(delay_ms) : scenario.delayMs };
+      return json({ success: true, scenario });
+    }
+
+    if (req.method === "GET" && path === '/requests') {
+      return json({ scenario, requests: [...stkPushes.values()], payouts: [...payouts.values()] });
+    }
+
+    const settleMatch = path.match(/^\/requests\/([^/]+)\/settle$/);
+    if (req.method === "POST" && settleMatch) {
+      const push = stkPushes.get(decodeURIComponent(settleMatch[1]));
+      if (!push) {
+        return json({ error: 'Request not found' }, 404);
+      }
+      return await handleSettle(req, push);
+    }
+
+    return json({ error: 'Not found' }, 404);
+
+  } catch (error) {
+    console.error("M-Pesa sandbox error:", error);
+    return json({ error: error.message }, 500);
+  }
+});
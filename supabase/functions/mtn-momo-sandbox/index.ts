@@ -0,0 +1,336 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+
+// Stand-in for the MTN MoMo Open API in development and automated tests.
+// Implements the collection (/collection/token/, /collection/v1_0/requesttopay)
+// and disbursement (/disbursement/token/, /disbursement/v1_0/transfer) endpoints,
+// checking the same MTN_MOMO_<PRODUCT>_API_USER, _API_KEY and
+// _SUBSCRIPTION_KEY as the functions calling it.
+//
+// Point the app at it with MTN_MOMO_API_URL=<sandbox>, where <sandbox> is
+// .../functions/v1/mtn-momo-sandbox, or http://localhost:8000 when run on its
+// own with `deno task mtn-momo-sandbox`. Any X-Target-Environment is accepted.
+//
+// It answers 404 unless MTN_MOMO_SANDBOX_ENABLED=true: anyone reaching it can
+// settle a payment and have the callback sent with the real callback token.
+//
+// Requests live in memory. Run it on its own for long delays; a recycled edge
+// worker forgets its requests and pending callbacks.
+//
+// How requests to pay settle (POST /scenario, or MTN_MOMO_SANDBOX_OUTCOME for the default):
+//   manual       wait for POST /requests/<reference>/settle, as if the payer had the prompt (default)
+//   success      SUCCESSFUL, callback sent right away
+//   fail         FAILED (APPROVAL_REJECTED), callback sent right away
+//   delay        SUCCESSFUL, callback sent after delay_ms; status is PENDING until then
+//   duplicate    SUCCESSFUL, the same callback sent twice
+//   bad_token    SUCCESSFUL, callback sent without the callback token
+//   no_callback  SUCCESSFUL, no callback at all; only the status endpoint tells
+// Transfers are refused under fail and SUCCESSFUL otherwise.
+//
+// Test helpers:
+//   POST /scenario { outcome, delay_ms? }             outcome for requests made from now on
+//   POST /requests/<X-Reference-Id>/settle { outcome }   settle a manual request
+//   GET  /requests                                    requests to pay and transfers seen so far
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-reference-id, x-target-environment, x-callback-url, ocp-apim-subscription-key",
+};
+
+const OUTCOMES = ['manual', 'success', 'fail', 'delay', 'duplicate', 'bad_token', 'no_callback'] as const;
+type SandboxOutcome = typeof OUTCOMES[number];
+
+type Product = 'collection' | 'disbursement';
+type MomoStatus = 'PENDING' | 'SUCCESSFUL' | 'FAILED';
+
+interface SandboxScenario {
+  outcome: SandboxOutcome;
+  delayMs: number;
+}
+
+// A request to pay (collection) or a transfer (disbursement), as the status endpoints report it
+interface SandboxTransaction {
+  referenceId: string;
+  product: Product;
+  amount: string;
+  currency: string;
+  externalId: string;
+  partyId: string;
+  payerMessage: string | null;
+  payeeNote: string | null;
+  callbackUrl: string | null;
+  scenario: SandboxScenario;
+  status: MomoStatus;
+  reason: string | null;
+  financialTransactionId: string | null;
+  callbacks: { sentAt: string; status: number | null; error?: string }[];
+}
+
+const transactions = new Map<string, SandboxTransaction>();
+
+const isOutcome = (value: unknown): value is SandboxOutcome =>
+  OUTCOMES.includes(value as SandboxOutcome);
+
+let scenario: SandboxScenario = {
+  outcome: isOutcome(Deno.env.get("MTN_MOMO_SANDBOX_OUTCOME")) ? Deno.env.get("MTN_MOMO_SANDBOX_OUTCOME") as SandboxOutcome : 'manual',
+  delayMs: Number(Deno.env.get("MTN_MOMO_SANDBOX_DELAY_MS") || 30000),
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// MTN's error body
+const momoError = (status: number, code: string, message: string) => json({ code, message }, status);
+
+const credentials = (product: Product) => {
+  const prefix = `MTN_MOMO_${product.toUpperCase()}`;
+  return {
+    subscriptionKey: Deno.env.get(`${prefix}_SUBSCRIPTION_KEY`),
+    apiUser: Deno.env.get(`${prefix}_API_USER`),
+    apiKey: Deno.env.get(`${prefix}_API_KEY`),
+  };
+};
+
+// Stateless, so tokens survive a recycled worker
+const accessTokenFor = (product: Product, apiUser: string) => btoa(`mtn-momo-sandbox:${product}:${apiUser}`);
+
+function checkAccess(req: Request, product: Product): Response | null {
+  const { subscriptionKey, apiUser } = credentials(product);
+  if (!subscriptionKey || !apiUser) {
+    return momoError(500, 'INTERNAL_PROCESSING_ERROR', 'Sandbox credentials are not configured');
+  }
+  if (req.headers.get("ocp-apim-subscription-key") !== subscriptionKey) {
+    return momoError(401, 'ACCESS_DENIED', 'Access denied due to invalid subscription key');
+  }
+  if (req.headers.get("authorization") !== `Bearer ${accessTokenFor(product, apiUser)}`) {
+    return momoError(401, 'ACCESS_DENIED', 'Access token is invalid');
+  }
+  return null;
+}
+
+function handleToken(req: Request, product: Product): Response {
+  const { subscriptionKey, apiUser, apiKey } = credentials(product);
+  if (!subscriptionKey || !apiUser || !apiKey) {
+    return momoError(500, 'INTERNAL_PROCESSING_ERROR', 'Sandbox credentials are not configured');
+  }
+  if (req.headers.get("ocp-apim-subscription-key") !== subscriptionKey ||
+    req.headers.get("authorization") !== `Basic ${btoa(`${apiUser}:${apiKey}`)}`) {
+    return momoError(401, 'ACCESS_DENIED', 'Invalid credentials');
+  }
+  return json({ access_token: accessTokenFor(product, apiUser), token_type: 'access_token', expires_in: 3600 });
+}
+
+const statusBody = (transaction: SandboxTransaction) => {
+  const party = { partyIdType: 'MSISDN', partyId: transaction.partyId };
+  return {
+    amount: transaction.amount,
+    currency: transaction.currency,
+    financialTransactionId: transaction.financialTransactionId ?? undefined,
+    externalId: transaction.externalId,
+    ...(transaction.product === 'collection' ? { payer: party } : { payee: party }),
+    payerMessage: transaction.payerMessage ?? undefined,
+    payeeNote: transaction.payeeNote ?? undefined,
+    status: transaction.status,
+    reason: transaction.reason ?? undefined,
+  };
+};
+
+async function sendCallback(transaction: SandboxTransaction, withoutToken = false) {
+  if (!transaction.callbackUrl) return;
+
+  const url = new URL(transaction.callbackUrl);
+  if (withoutToken) url.searchParams.delete('token');
+
+  try {
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(statusBody(transaction)),
+    });
+    const text = await response.text();
+    transaction.callbacks.push({ sentAt: new Date().toISOString(), status: response.status });
+    console.log(`Sandbox callback for ${transaction.referenceId}: HTTP ${response.status} ${text}`);
+  } catch (error) {
+    transaction.callbacks.push({ sentAt: new Date().toISOString(), status: null, error: error.message });
+    console.error(`Sandbox callback for ${transaction.referenceId} failed:`, error);
+  }
+}
+
+const markSuccessful = (transaction: SandboxTransaction) => {
+  transaction.status = 'SUCCESSFUL';
+  transaction.financialTransactionId = String(Math.floor(Math.random() * 1e9)).padStart(9, '0');
+};
+
+// Apply a request's outcome: set what the status endpoint reports and send its callbacks
+async function settle(transaction: SandboxTransaction, outcome: SandboxOutcome) {
+  switch (outcome) {
+    case 'manual':
+      return;
+    case 'fail':
+      transaction.status = 'FAILED';
+      transaction.reason = 'APPROVAL_REJECTED';
+      await sendCallback(transaction);
+      return;
+    case 'delay':
+      setTimeout(() => {
+        markSuccessful(transaction);
+        sendCallback(transaction);
+      }, transaction.scenario.delayMs);
+      return;
+    default:
+      markSuccessful(transaction);
+      if (outcome === 'no_callback') return;
+      await sendCallback(transaction, outcome === 'bad_token');
+      if (outcome === 'duplicate') {
+        await sendCallback(transaction);
+      }
+  }
+}
+
+// POST requesttopay / transfer: 202 with no body, like MTN
+async function handleCreate(req: Request, product: Product): Promise<Response> {
+  const referenceId = req.headers.get("x-reference-id") || '';
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(referenceId)) {
+    return momoError(400, 'INVALID_REFERENCE_ID', 'X-Reference-Id must be a UUID');
+  }
+  if (transactions.has(referenceId)) {
+    return momoError(409, 'RESOURCE_ALREADY_EXIST', 'Duplicated reference id. Creation of resource failed.');
+  }
+
+  const body = await req.json().catch(() => ({})) as Record<string, unknown>;
+  const party = (product === 'collection' ? body.payer : body.payee) as Record<string, unknown> | undefined;
+  const partyId = party?.partyId ? String(party.partyId) : '';
+
+  if (!(Number(body.amount) > 0) || !body.currency || !/^[0-9]{9,15}$/.test(partyId)) {
+    return momoError(400, 'INVALID_PARAMETERS', 'Amount, currency and an MSISDN party are required');
+  }
+  if (product === 'disbursement' && scenario.outcome === 'fail') {
+    return momoError(400, 'PAYEE_NOT_ALLOWED_TO_RECEIVE', 'Transfer refused by sandbox');
+  }
+
+  const transaction: SandboxTransaction = {
+    referenceId,
+    product,
+    amount: String(body.amount),
+    currency: String(body.currency),
+    externalId: body.externalId ? String(body.externalId) : '',
+    partyId,
+    payerMessage: body.payerMessage ? String(body.payerMessage) : null,
+    payeeNote: body.payeeNote ? String(body.payeeNote) : null,
+    callbackUrl: req.headers.get("x-callback-url"),
+    scenario: { ...scenario },
+    status: 'PENDING',
+    reason: null,
+    financialTransactionId: null,
+    callbacks: [],
+  };
+  transactions.set(referenceId, transaction);
+
+  if (product === 'disbursement') {
+    // Paid at once; the callback is what settles the withdrawal (mobile-money-callback)
+    markSuccessful(transaction);
+    sendCallback(transaction);
+  } else {
+    await settle(transaction, transaction.scenario.outcome);
+  }
+
+  return new Response(null, { status: 202, headers: corsHeaders });
+}
+
+function handleStatus(product: Product, referenceId: string): Response {
+  const transaction = transactions.get(referenceId);
+  if (!transaction || transaction.product !== product) {
+    return momoError(404, 'RESOURCE_NOT_FOUND', 'Requested resource was not found.');
+  }
+  return json(statusBody(transaction));
+}
+
+async function handleSettle(req: Request, transaction: SandboxTransaction): Promise<Response> {
+  const { outcome } = await req.json().catch(() => ({}));
+  if (!isOutcome(outcome) || outcome === 'manual') {
+    return json({ error: `outcome must be one of ${OUTCOMES.filter((o) => o !== 'manual').join(', ')}` }, 400);
+  }
+  if (transaction.status !== 'PENDING') {
+    return json({ error: 'Request is already settled' }, 409);
+  }
+
+  transaction.scenario = { ...transaction.scenario, outcome };
+  await settle(transaction, outcome);
+  return json({ success: true, request: transaction });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (Deno.env.get("MTN_MOMO_SANDBOX_ENABLED") !== 'true') {
+    return new Response("Not found", { status: 404, headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    // Served as an edge function the path keeps the function name in front
+    const prefix = url.pathname.match(/^.*\/mtn-momo-sandbox/)?.[0] ?? '';
+    const path = url.pathname.slice(prefix.length) || '/';
+
+    const apiMatch = path.match(/^\/(collection|disbursement)\/(token\/|v1_0\/(requesttopay|transfer)(?:\/([^/]+))?)$/);
+    if (apiMatch) {
+      const product = apiMatch[1] as Product;
+      const resource = apiMatch[3];
+      const referenceId = apiMatch[4];
+
+      if (apiMatch[2] === 'token/') {
+        return req.method === "POST" ? handleToken(req, product) : json({ error: 'Not found' }, 404);
+      }
+      if (resource !== (product === 'collection' ? 'requesttopay' : 'transfer')) {
+        return json({ error: 'Not found' }, 404);
+      }
+
+      const accessError = checkAccess(req, product);
+      if (accessError) return accessError;
+
+      if (req.method === "POST" && !referenceId) {
+        return await handleCreate(req, product);
+      }
+      if (req.method === "GET" && referenceId) {
+        return handleStatus(product, decodeURIComponent(referenceId));
+      }
+    }
+
+    if (req.method === "POST" && path === '/scenario') {
+      const { outcome, delay_ms } = await req.json().catch(() => ({}));
+      if (!isOutcome(outcome)) {
+        return json({ error: `outcome must be one of ${OUTCOMES.join(', ')}` }, 400);
+      }
+      scenario = { outcome, delayMs: delay_ms ? Number(delay_ms) : scenario.delayMs };
+      return json({ success: true, scenario });
+    }
+
+    if (req.method === "GET" && path === '/requests') {
+      const all = [...transactions.values()];
+      return json({
+        scenario,
+        requests: all.filter((transaction) => transaction.product === 'collection'),
+        transfers: all.filter((transaction) => transaction.product === 'disbursement'),
+      });
+    }
+
+    const settleMatch = path.match(/^\/requests\/([^/]+)\/settle$/);
+    if (req.method === "POST" && settleMatch) {
+      const transaction = transactions.get(decodeURIComponent(settleMatch[1]));
+      if (!transaction || transaction.product !== 'collection') {
+        return json({ error: 'Request not found' }, 404);
+      }
+      return await handleSettle(req, transaction);
+    }
+
+    return json({ error: 'Not found' }, 404);
+
+  } catch (error) {
+    console.error("MTN MoMo sandbox error:", error);
+    return json({ error: error.message }, 500);
+  }
+});
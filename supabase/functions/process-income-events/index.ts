@@ -1,16 +1,94 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { nextDropAt } from "../_shared/income-schedule.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+const BATCH_SIZE = 100;
+
+// Catch-up runs stop starting new batches after this, leaving headroom under
+// the edge function wall-clock limit. The next run continues where it stopped.
+const CATCH_UP_TIME_BUDGET_MS = 120_000;
+
+interface IncomeLag {
+  overdue_count: number;
+  oldest_due_at: string | null;
+  lag_seconds: number;
+}
+
+interface EventCursor {
+  due_at: string;
+  id: string;
+}
+
+// How far behind the schedule we are: pending events already due at `asOf`
+async function measureLag(supabaseAdmin: SupabaseClient, asOf: Date): Promise<IncomeLag> {
+  const { data: oldest, count, error } = await supabaseAdmin
+    .from('income_events')
+    .select('due_at', { count: 'exact' })
+    .eq('status', 'pending')
+    .lte('due_at', asOf.toISOString())
+    .order('due_at', { ascending: true })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to measure income lag: ${error.message}`);
+  }
+
+  const oldestDueAt = oldest?.[0]?.due_at ?? null;
+
+  return {
+    overdue_count: count ?? 0,
+    oldest_due_at: oldestDueAt,
+    lag_seconds: oldestDueAt ? Math.max(0, Math.floor((asOf.getTime() - new Date(oldestDueAt).getTime()) / 1000)) : 0,
+  };
+}
+
+// One page of due events in (due_at, id) order, strictly after the cursor.
+// Keyset paging keeps failed events from being refetched in the same run.
+async function fetchDueBatch(supabaseAdmin: SupabaseClient, cutoff: Date, cursor: EventCursor | null) {
+  let query = supabaseAdmin
+    .from('income_events')
+    .select(`
+      *,
+      deposits!inner(*, plans!inner(*))
+    `)
+    .eq('status', 'pending')
+    .lte('due_at', cutoff.toISOString())
+    .order('due_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (cursor) {
+    query = query.or(`due_at.gt."${cursor.due_at}",and(due_at.eq."${cursor.due_at}",id.gt.${cursor.id})`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch income events: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Request options, from the JSON body or the query string:
+//   catch_up: keep paging through overdue events until drained (or out of time)
+//   dry_run:  pay nothing; report what a catch-up run would pay, including
+//             later drops of the same deposit that would also already be due
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const url = new URL(req.url);
+  const body = req.method === "POST" ? await req.json().catch(() => ({})) : {};
+  const catchUp = body.catch_up === true || url.searchParams.get('catch_up') === 'true';
+  const dryRun = body.dry_run === true || url.searchParams.get('dry_run') === 'true';
+
   try {
     const supabaseAdmin = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
@@ -18,105 +96,160 @@ serve(async (req) => {
       { auth: { persistSession: false } }
     );
 
-    const startTime = Date.now();
-    console.log('Processing income events...');
-
-    // Get due income events that haven't been processed
-    const { data: dueEvents, error: eventsError } = await supabaseAdmin
-      .from('income_events')
-      .select(`
-        *,
-        deposits!inner(*, plans!inner(*))
-      `)
-      .eq('status', 'pending')
-      .lte('due_at', new Date().toISOString())
-      .order('due_at', { ascending: true })
-      .limit(100);
-
-    if (eventsError) {
-      throw new Error(`Failed to fetch income events: ${eventsError.message}`);
+    // Every mode, dry runs included, is for the scheduler (service role) only
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+      throw new Error("Unauthorized");
     }
 
-    console.log(`Found ${dueEvents?.length || 0} due income events`);
+    const startTime = Date.now();
+    const cutoff = new Date(startTime);
+    console.log(`Processing income events${catchUp ? ' (catch-up)' : ''}${dryRun ? ' (dry run)' : ''}...`);
+
+    const lagBefore = await measureLag(supabaseAdmin, cutoff);
+    if (lagBefore.overdue_count > 0) {
+      console.log(`${lagBefore.overdue_count} overdue income events, oldest due ${lagBefore.oldest_due_at} (${lagBefore.lag_seconds}s behind)`);
+    }
 
     let processedCount = 0;
     let errorCount = 0;
+    let totalEvents = 0;
+    let batches = 0;
+    let drained = false;
+    let cursor: EventCursor | null = null;
 
-    for (const event of dueEvents || []) {
-      try {
-        // Use the atomic function to process each income event
-        const { data: result, error: processError } = await supabaseAdmin
-          .rpc('process_income_event_atomic', {
-            event_id: event.id,
-            user_id: event.user_id,
-            amount_cents: event.amount_cents,
-            deposit_id: event.deposit_id,
-            drop_number: event.drop_number
-          });
-
-        if (processError) {
-          console.error(`Failed to process income event ${event.id}:`, processError);
-          errorCount++;
-          continue;
-        }
+    const projection = { drops: 0, total_cents: 0, user_ids: new Set<string>() };
 
-        const processResult = result as any;
-        if (!processResult?.success) {
-          console.error(`Income event processing failed for ${event.id}:`, processResult?.error);
-          errorCount++;
-          continue;
-        }
+    do {
+      const dueEvents = await fetchDueBatch(supabaseAdmin, cutoff, cursor);
+      batches++;
+      totalEvents += dueEvents.length;
+      drained = dueEvents.length < BATCH_SIZE;
 
-        console.log(`Processed income event ${event.id} for user ${event.user_id}: ${event.amount_cents} cents`);
-        processedCount++;
+      console.log(`Batch ${batches}: ${dueEvents.length} due income events`);
 
-        // Schedule next income event if there are more drops
+      for (const event of dueEvents) {
+        cursor = { due_at: event.due_at, id: event.id };
         const deposit = event.deposits;
         const plan = deposit.plans;
-        
-        if (event.drop_number < plan.drops_count) {
-          const nextDueDate = new Date();
-          nextDueDate.setHours(nextDueDate.getHours() + 22); // 22 hours from now
-
-          const { error: nextEventError } = await supabaseAdmin
-            .from('income_events')
-            .insert({
-              deposit_id: event.deposit_id,
+
+        if (dryRun) {
+          // This drop, plus any later drops that would come due before the cutoff
+          let drops = 1;
+          let dropNumber = event.drop_number;
+          let dueAt = new Date(event.due_at);
+          try {
+            while (dropNumber < plan.drops_count) {
+              dueAt = nextDropAt(plan, dueAt);
+              if (dueAt > cutoff) break;
+              dropNumber++;
+              drops++;
+            }
+          } catch (scheduleError) {
+            console.error(`Cannot project schedule for plan ${plan.id}:`, scheduleError);
+            errorCount++;
+          }
+
+          projection.drops += drops;
+          projection.total_cents += drops * event.amount_cents;
+          projection.user_ids.add(event.user_id);
+          continue;
+        }
+
+        try {
+          // Use the atomic function to process each income event
+          const { data: result, error: processError } = await supabaseAdmin
+            .rpc('process_income_event_atomic', {
+              event_id: event.id,
               user_id: event.user_id,
-              amount_cents: plan.payout_per_drop_usd,
-              drop_number: event.drop_number + 1,
-              due_at: nextDueDate.toISOString(),
-              status: 'pending'
+              amount_cents: event.amount_cents,
+              deposit_id: event.deposit_id,
+              drop_number: event.drop_number
             });
 
-          if (nextEventError) {
-            console.error(`Failed to schedule next income event:`, nextEventError);
+          if (processError) {
+            console.error(`Failed to process income event ${event.id}:`, processError);
+            errorCount++;
+            continue;
+          }
+
+          const processResult = result as any;
+          if (!processResult?.success) {
+            console.error(`Income event processing failed for ${event.id}:`, processResult?.error);
+            errorCount++;
+            continue;
+          }
+
+          console.log(`Processed income event ${event.id} for user ${event.user_id}: ${event.amount_cents} cents`);
+          processedCount++;
+
+          // Schedule next income event if there are more drops
+          if (event.drop_number < plan.drops_count) {
+            // Next slot follows this drop's scheduled time, not when this run happened.
+            // After an outage it may already be due; catch-up picks it up in a later batch.
+            const nextDueDate = nextDropAt(plan, new Date(event.due_at));
+
+            const { error: nextEventError } = await supabaseAdmin
+              .from('income_events')
+              .insert({
+                deposit_id: event.deposit_id,
+                user_id: event.user_id,
+                // Drop amount is fixed in cents when the first drop is scheduled
+                amount_cents: event.amount_cents,
+                drop_number: event.drop_number + 1,
+                due_at: nextDueDate.toISOString(),
+                status: 'pending'
+              });
+
+            if (nextEventError) {
+              console.error(`Failed to schedule next income event:`, nextEventError);
+            } else {
+              console.log(`Scheduled next income event (drop ${event.drop_number + 1}) for user ${event.user_id} at ${nextDueDate.toISOString()}`);
+            }
           } else {
-            console.log(`Scheduled next income event (drop ${event.drop_number + 1}) for user ${event.user_id}`);
+            console.log(`All drops completed for deposit ${event.deposit_id}`);
           }
-        } else {
-          console.log(`All drops completed for deposit ${event.deposit_id}`);
-        }
 
-      } catch (eventError) {
-        console.error(`Error processing income event ${event.id}:`, eventError);
-        errorCount++;
+        } catch (eventError) {
+          console.error(`Error processing income event ${event.id}:`, eventError);
+          errorCount++;
+        }
       }
+    } while (catchUp && !drained && Date.now() - startTime < CATCH_UP_TIME_BUDGET_MS);
+
+    const lagAfter = dryRun ? lagBefore : await measureLag(supabaseAdmin, new Date());
+    if (!drained) {
+      console.warn(`Income events not drained: ${lagAfter.overdue_count} still overdue, oldest due ${lagAfter.oldest_due_at}`);
     }
 
     const executionTime = Date.now() - startTime;
 
+    const summary = {
+      mode: catchUp ? 'catch_up' : 'batch',
+      dry_run: dryRun,
+      batches,
+      total_events: totalEvents,
+      processed_count: processedCount,
+      error_count: errorCount,
+      drained,
+      lag_before: lagBefore,
+      lag_after: lagAfter,
+      ...(dryRun ? {
+        would_pay: {
+          drops: projection.drops,
+          total_cents: projection.total_cents,
+          users: projection.user_ids.size
+        }
+      } : {})
+    };
+
     // Log job completion
     await supabaseAdmin
       .from('jobs_log')
       .insert({
         job: 'process_income_events',
-        status: errorCount > 0 ? 'completed_with_errors' : 'completed',
-        payload: { 
-          total_events: dueEvents?.length || 0,
-          processed_count: processedCount,
-          error_count: errorCount
-        },
+        status: dryRun ? 'dry_run' : errorCount > 0 ? 'completed_with_errors' : 'completed',
+        payload: summary,
         execution_time_ms: executionTime,
         processed_count: processedCount,
         error_count: errorCount
@@ -127,8 +260,7 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({
         success: true,
-        processed_count: processedCount,
-        error_count: errorCount,
+        ...summary,
         execution_time_ms: executionTime
       }),
       {
@@ -153,7 +285,7 @@ serve(async (req) => {
         .insert({
           job: 'process_income_events',
           status: 'failed',
-          payload: { error: error.message },
+          payload: { error: error.message, mode: catchUp ? 'catch_up' : 'batch', dry_run: dryRun },
           error_count: 1
         });
     } catch (logError) {
@@ -164,8 +296,8 @@ serve(async (req) => {
       JSON.stringify({ error: error.message }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 500,
+        status: error.message === "Unauthorized" ? 401 : 500,
       }
     );
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,526 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  BankPayoutDetails,
+  basepayBankProvider,
+  getMobileMoneyProvider,
+  getUsdtProvider,
+  MobileMoneyPayoutDetails,
+  PayoutError,
+  PayoutProvider,
+  PayoutQueryResult,
+  PayoutRequest,
+  PayoutUnconfirmedError,
+} from "../_shared/payouts.ts";
+import { FxRateError, getFxQuote } from "../_shared/fx.ts";
+import { currencyMinorUnits, getUserCountry } from "../_shared/countries.ts";
+import { PAYOUT_DETAILS_LABELS, WithdrawalMethod, withdrawalMethodFor } from "../_shared/withdrawal-quote.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MINUTES = 5;
+const MAX_BACKOFF_MINUTES = 6 * 60;
+
+// Rows still processing this long after being claimed are recovered
+const STALE_PROCESSING_MINUTES = 15;
+// Recovered rows the gateway still cannot account for go to an admin after this
+const UNCONFIRMED_REVIEW_HOURS = 24;
+
+// 5, 10, 20, 40... minutes, capped at 6 hours
+const nextAttemptAt = (retryCount: number) => {
+  const minutes = Math.min(BASE_BACKOFF_MINUTES * 2 ** retryCount, MAX_BACKOFF_MINUTES);
+  return new Date(Date.now() + minutes * 60 * 1000).toISOString();
+};
+
+const payoutProviderFor = (method: WithdrawalMethod, operator: string | null): PayoutProvider =>
+  method === 'usdt'
+    ? getUsdtProvider()
+    : method === 'mobile_money' ? getMobileMoneyProvider(operator) : basepayBankProvider;
+
+type RecoveryAction = 'completed' | 'failed' | 'requeued' | 'unconfirmed' | 'still_processing';
+
+// The withdrawals columns recovery reads
+interface ProcessingWithdrawal {
+  id: string;
+  user_id: string;
+  method: WithdrawalMethod | null;
+  local_currency: string | null;
+  payment_ref: string | null;
+  payout_provider: string | null;
+  last_error: string | null;
+  retry_count: number | null;
+  claimed_at: string | null;
+  created_at: string;
+}
+
+// A withdrawal left in processing: the run that claimed it crashed, or the
+// gateway's answer to its payout was unclear. It is settled from what the
+// gateway reports and only sent again if the gateway never received it;
+// without an answer it is parked as unconfirmed for an admin.
+async function recoverWithdrawal(supabaseAdmin: SupabaseClient, withdrawal: ProcessingWithdrawal): Promise<RecoveryAction> {
+  const method: WithdrawalMethod = withdrawal.method || withdrawalMethodFor(withdrawal.local_currency || 'USD');
+
+  const settle = async (rpc: 'complete_withdrawal' | 'fail_withdrawal', params: Record<string, unknown>) => {
+    const { data: result, error } = await supabaseAdmin
+      .rpc(rpc, { p_withdrawal_id: withdrawal.id, ...params });
+
+    if (error || !result?.success) {
+      throw new Error(`${rpc} failed: ${error?.message || result?.error}`);
+    }
+  };
+
+  // Accepted by the gateway, only the ledger update failed
+  if (withdrawal.payment_ref) {
+    await settle('complete_withdrawal', {
+      p_payment_ref: withdrawal.payment_ref,
+      p_provider: withdrawal.payout_provider || method
+    });
+    return 'completed';
+  }
+
+  let provider: PayoutProvider | null = null;
+  let result: PayoutQueryResult | null = null;
+  let queryError: string | null = null;
+
+  try {
+    const { data: payoutMethod } = await supabaseAdmin
+      .from('payout_methods')
+      .select('operator')
+      .eq('user_id', withdrawal.user_id)
+      .eq('type', method)
+      .maybeSingle();
+
+    provider = payoutProviderFor(method, payoutMethod?.operator ?? null);
+    if (provider.query) {
+      result = await provider.query(withdrawal.id, method === 'usdt' ? 'USDT' : withdrawal.local_currency || 'USD');
+    }
+  } catch (error) {
+    queryError = error.message;
+    console.error(`Payout query failed for withdrawal ${withdrawal.id}:`, error.message);
+  }
+
+  await supabaseAdmin
+    .from('gateway_logs')
+    .insert({
+      type: 'payout_recovery',
+      payload: { provider: provider?.name ?? null, result: result?.raw ?? null, status: result?.status ?? null, error: queryError },
+      withdrawal_id: withdrawal.id
+    });
+
+  const claimedAt = new Date(withdrawal.claimed_at || withdrawal.created_at).getTime();
+  const overdue = Date.now() - claimedAt > UNCONFIRMED_REVIEW_HOURS * 60 * 60 * 1000;
+
+  if (!result) {
+    // A failed query is tried again on the next run, for a while; a payout
+    // settled by callback waits for its callback as long
+    if (!overdue && (queryError ? provider?.query : provider?.settlesByCallback)) {
+      return 'still_processing';
+    }
+
+    await supabaseAdmin
+      .from('withdrawals')
+      .update({
+        status: 'unconfirmed',
+        payout_provider: provider?.name ?? null,
+        last_error: `Payout outcome unknown: ${queryError || withdrawal.last_error || 'the payout run did not finish'}`
+      })
+      .eq('id', withdrawal.id)
+      .eq('status', 'processing');
+    return 'unconfirmed';
+  }
+
+  // Still in flight at a gateway that reports the outcome later
+  if (result.status === 'pending' && provider?.settlesByCallback) {
+    if (!overdue) {
+      return 'still_processing';
+    }
+
+    await supabaseAdmin
+      .from('withdrawals')
+      .update({
+        status: 'unconfirmed',
+        payout_provider: provider.name,
+        last_error: `Payout still pending at ${provider.name} after ${UNCONFIRMED_REVIEW_HOURS} hours`
+      })
+      .eq('id', withdrawal.id)
+      .eq('status', 'processing');
+    return 'unconfirmed';
+  }
+
+  switch (result.status) {
+    // Other payouts are settled on acceptance, as in the main loop
+    case 'paid':
+    case 'pending':
+      await settle('complete_withdrawal', {
+        p_payment_ref: result.reference || withdrawal.id,
+        p_provider: provider?.name
+      });
+      return 'completed';
+
+    case 'failed':
+      await settle('fail_withdrawal', { p_reason: 'Payout refused by the gateway' });
+      return 'failed';
+
+    case 'not_found': {
+      const attempt = (withdrawal.retry_count || 0) + 1;
+      if (attempt >= MAX_ATTEMPTS) {
+        await settle('fail_withdrawal', { p_reason: withdrawal.last_error || 'Payout never reached the gateway' });
+        return 'failed';
+      }
+
+      await supabaseAdmin
+        .from('withdrawals')
+        .update({
+          status: 'queued',
+          retry_count: attempt,
+          next_attempt: nextAttemptAt(attempt - 1)
+        })
+        .eq('id', withdrawal.id)
+        .eq('status', 'processing');
+      return 'requeued';
+    }
+  }
+}
+
+// Scheduled job: dispatches queued withdrawals to the payout gateways by
+// withdrawals.method: USDT, a local bank transfer or a mobile money transfer
+// through the operator on the user's payout method. Each run first recovers
+// withdrawals earlier runs left in processing.
+//
+// Reserved funds are only released when nothing was paid: the gateway
+// refused the transfer, or never received it. An unclear answer
+// (PayoutUnconfirmedError) leaves the withdrawal processing for recovery, as
+// does a transfer accepted by a gateway that settles by callback (mobile
+// money): mobile-money-callback or recovery's query completes or fails it.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    // Sends money out; only the scheduler (service role) may start a run
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+      throw new Error("Unauthorized");
+    }
+
+    const startTime = Date.now();
+    console.log('Processing withdrawals...');
+
+    const staleBefore = new Date(Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000).toISOString();
+    const { data: stale, error: staleError } = await supabaseAdmin
+      .from('withdrawals')
+      .select('*')
+      .eq('status', 'processing')
+      .or(`claimed_at.is.null,claimed_at.lt.${staleBefore}`)
+      .order('created_at')
+      .limit(20);
+
+    if (staleError) {
+      throw new Error(`Failed to load stale withdrawals: ${staleError.message}`);
+    }
+
+    const recovered: Record<RecoveryAction | 'error', number> = {
+      completed: 0,
+      failed: 0,
+      requeued: 0,
+      unconfirmed: 0,
+      still_processing: 0,
+      error: 0,
+    };
+
+    for (const withdrawal of stale || []) {
+      try {
+        const action = await recoverWithdrawal(supabaseAdmin, withdrawal);
+        console.log(`Recovered withdrawal ${withdrawal.id}: ${action}`);
+        recovered[action]++;
+      } catch (recoveryError) {
+        console.error(`Failed to recover withdrawal ${withdrawal.id}:`, recoveryError.message);
+        recovered.error++;
+      }
+    }
+
+    const { data: withdrawals, error: claimError } = await supabaseAdmin
+      .rpc('claim_withdrawals', { p_limit: 20 });
+
+    if (claimError) {
+      throw new Error(`Failed to claim withdrawals: ${claimError.message}`);
+    }
+
+    console.log(`Claimed ${withdrawals?.length || 0} withdrawals`);
+
+    let completedCount = 0;
+    let retryCount = 0;
+    let failedCount = 0;
+    let unconfirmedCount = 0;
+    let acceptedCount = 0;
+
+    for (const withdrawal of withdrawals || []) {
+      const attempt = (withdrawal.retry_count || 0) + 1;
+      // Withdrawals from before withdrawals.method have none
+      const method: WithdrawalMethod = withdrawal.method || withdrawalMethodFor(withdrawal.local_currency || 'USD');
+      const isUsdt = method === 'usdt';
+      let provider: PayoutProvider | null = null;
+      let request: PayoutRequest | null = null;
+
+      try {
+        const { data: payoutMethod } = await supabaseAdmin
+          .from('payout_methods')
+          .select('*')
+          .eq('user_id', withdrawal.user_id)
+          .eq('type', method)
+          .maybeSingle();
+
+        if (!payoutMethod) {
+          throw new PayoutError(`No ${PAYOUT_DETAILS_LABELS[method]} on file`, false);
+        }
+
+        provider = payoutProviderFor(method, payoutMethod.operator);
+
+        let amount = withdrawal.net_cents / 100;
+
+        if (!isUsdt && withdrawal.local_amount !== null && withdrawal.fx_rate !== null) {
+          // Converted by create-withdrawal at the rate the user confirmed
+          amount = Number(withdrawal.local_amount);
+        } else if (!isUsdt) {
+          let fxRate: number;
+          try {
+            fxRate = (await getFxQuote(supabaseAdmin, withdrawal.local_currency, 'sell')).rate;
+          } catch (fxError) {
+            // Retried on a later run, once update-conversion-rates has a fresh rate
+            if (fxError instanceof FxRateError) throw new PayoutError(fxError.message, true);
+            throw fxError;
+          }
+
+          const scale = 10 ** ((await currencyMinorUnits(supabaseAdmin, withdrawal.local_currency)) ?? 2);
+          amount = Math.round(amount * fxRate * scale) / scale;
+
+          await supabaseAdmin
+            .from('withdrawals')
+            .update({
+              local_amount: amount,
+              fx_rate: fxRate,
+              fx_at: new Date().toISOString()
+            })
+            .eq('id', withdrawal.id);
+        }
+
+        let bank: BankPayoutDetails | undefined;
+        if (method === 'bank') {
+          // Accounts saved without a bank code fall back to the country's default
+          const country = await getUserCountry(supabaseAdmin, withdrawal.user_id);
+          bank = { ...payoutMethod, bank_code: payoutMethod.bank_code || country?.default_bank_code || null };
+        }
+
+        let mobileMoney: MobileMoneyPayoutDetails | undefined;
+        if (method === 'mobile_money') {
+          // Stored in E.164; the operators take it without the +
+          mobileMoney = { msisdn: payoutMethod.msisdn?.replace(/^\+/, '') ?? null, operator: payoutMethod.operator };
+        }
+
+        request = {
+          withdrawalId: withdrawal.id,
+          amount,
+          currency: isUsdt ? 'USDT' : withdrawal.local_currency,
+          bank,
+          usdt: isUsdt ? payoutMethod : undefined,
+          mobileMoney,
+        };
+
+        const result = await provider.send(request);
+
+        await supabaseAdmin
+          .from('gateway_logs')
+          .insert({
+            type: provider.settlesByCallback ? 'payout_accepted' : 'payout_success',
+            payload: { attempt, provider: provider.name, request, response: result.raw },
+            withdrawal_id: withdrawal.id
+          });
+
+        if (provider.settlesByCallback) {
+          // Not paid yet: stays processing, with the funds reserved, until
+          // the gateway reports the outcome
+          await supabaseAdmin
+            .from('withdrawals')
+            .update({ payout_provider: provider.name, last_error: null })
+            .eq('id', withdrawal.id);
+
+          console.log(`Withdrawal ${withdrawal.id} accepted by ${provider.name}: ${result.reference}`);
+          acceptedCount++;
+          continue;
+        }
+
+        const { data: completion, error: completeError } = await supabaseAdmin
+          .rpc('complete_withdrawal', {
+            p_withdrawal_id: withdrawal.id,
+            p_payment_ref: result.reference,
+            p_provider: provider.name
+          });
+
+        if (completeError || !completion?.success) {
+          // The money has left; never resend it. Recovery retries the ledger
+          // update from payment_ref on a later run.
+          console.error(`Payout sent but completion failed for ${withdrawal.id}:`, completeError || completion?.error);
+          await supabaseAdmin
+            .from('withdrawals')
+            .update({
+              payment_ref: result.reference,
+              payout_provider: provider.name,
+              last_error: `Payout sent, ledger update failed: ${completeError?.message || completion?.error}`
+            })
+            .eq('id', withdrawal.id);
+          failedCount++;
+          continue;
+        }
+
+        console.log(`Withdrawal ${withdrawal.id} paid via ${provider.name}: ${result.reference}`);
+        completedCount++;
+
+      } catch (error) {
+        if (error instanceof PayoutUnconfirmedError) {
+          // May have been paid: keep the reservation and leave it processing
+          // until recovery learns the outcome from the gateway
+          console.error(`Payout outcome unknown for withdrawal ${withdrawal.id}:`, error.message);
+
+          await supabaseAdmin
+            .from('gateway_logs')
+            .insert({
+              type: 'payout_unconfirmed',
+              payload: { attempt, provider: provider?.name ?? null, request, error: error.message, response: error.raw ?? null },
+              withdrawal_id: withdrawal.id
+            });
+
+          await supabaseAdmin
+            .from('withdrawals')
+            .update({ retry_count: attempt, last_error: error.message })
+            .eq('id', withdrawal.id);
+          unconfirmedCount++;
+          continue;
+        }
+
+        const retryable = error instanceof PayoutError ? error.retryable : true;
+        const terminal = !retryable || attempt >= MAX_ATTEMPTS;
+
+        console.error(`Payout attempt ${attempt} failed for withdrawal ${withdrawal.id}:`, error.message);
+
+        await supabaseAdmin
+          .from('gateway_logs')
+          .insert({
+            type: terminal ? 'payout_failed' : 'payout_retry',
+            payload: {
+              attempt,
+              provider: provider?.name ?? null,
+              request,
+              error: error.message,
+              response: error instanceof PayoutError ? error.raw ?? null : null
+            },
+            withdrawal_id: withdrawal.id
+          });
+
+        if (terminal) {
+          const { error: failError } = await supabaseAdmin
+            .rpc('fail_withdrawal', {
+              p_withdrawal_id: withdrawal.id,
+              p_reason: error.message
+            });
+
+          if (failError) {
+            console.error(`Failed to release funds for withdrawal ${withdrawal.id}:`, failError);
+          }
+          failedCount++;
+        } else {
+          await supabaseAdmin
+            .from('withdrawals')
+            .update({
+              status: 'queued',
+              retry_count: attempt,
+              next_attempt: nextAttemptAt(attempt - 1),
+              last_error: error.message
+            })
+            .eq('id', withdrawal.id);
+          retryCount++;
+        }
+      }
+    }
+
+    const executionTime = Date.now() - startTime;
+
+    await supabaseAdmin
+      .from('jobs_log')
+      .insert({
+        job: 'process_withdrawals',
+        status: failedCount > 0 || unconfirmedCount > 0 || recovered.unconfirmed > 0 ? 'completed_with_errors' : 'completed',
+        payload: {
+          total_withdrawals: withdrawals?.length || 0,
+          completed_count: completedCount,
+          retry_count: retryCount,
+          failed_count: failedCount,
+          unconfirmed_count: unconfirmedCount,
+          accepted_count: acceptedCount,
+          recovered
+        },
+        execution_time_ms: executionTime,
+        processed_count: completedCount,
+        error_count: failedCount
+      });
+
+    console.log(`Withdrawals processing completed: ${completedCount} paid, ${acceptedCount} awaiting the gateway, ${retryCount} retrying, ${failedCount} failed, ${unconfirmedCount} unconfirmed`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        completed_count: completedCount,
+        retry_count: retryCount,
+        failed_count: failedCount,
+        unconfirmed_count: unconfirmedCount,
+        accepted_count: acceptedCount,
+        recovered,
+        execution_time_ms: executionTime
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error("Process withdrawals error:", error);
+
+    try {
+      const supabaseAdmin = createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+        { auth: { persistSession: false } }
+      );
+
+      await supabaseAdmin
+        .from('jobs_log')
+        .insert({
+          job: 'process_withdrawals',
+          status: 'failed',
+          payload: { error: error.message },
+          error_count: 1
+        });
+    } catch (logError) {
+      console.error('Failed to log error:', logError);
+    }
+
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: error.message === "Unauthorized" ? 401 : 500,
+      }
+    );
+  }
+});
@@ -0,0 +1,240 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { closePendingDeposit, confirmPaidDeposit } from "../_shared/deposits.ts";
+import {
+  getPaymentProvider,
+  PaymentGateway,
+  PaymentProviderError,
+  PaymentProviderName,
+  PaymentQueryResult,
+} from "../_shared/payments.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = 100;
+
+// Give the callback this long to arrive before asking the gateway
+const DEFAULT_QUERY_AFTER_MINUTES = Number(Deno.env.get("DEPOSIT_RECONCILE_AFTER_MINUTES") || 15);
+// Orders still unpaid this long after creation are abandoned
+const DEFAULT_ORDER_TTL_MINUTES = Number(Deno.env.get("DEPOSIT_ORDER_TTL_MINUTES") || 1440);
+
+// Manual crypto deposits are reviewed by an admin, not queried
+const QUERYABLE_PROVIDERS: PaymentProviderName[] = ['basepay', 'stripe'];
+
+type ReconcileAction = 'confirmed' | 'already_confirmed' | 'failed' | 'expired' | 'still_pending' | 'error';
+
+// Deposits from before payment_gateways routing have no gateway_id; query
+// them with the provider's defaults.
+async function loadGateway(
+  supabaseAdmin: SupabaseClient,
+  cache: Map<string, PaymentGateway>,
+  deposit: { gateway_id: string | null; gateway: string | null; local_currency: string | null }
+): Promise<PaymentGateway> {
+  const key = deposit.gateway_id ?? `legacy:${deposit.gateway}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  let gateway: PaymentGateway | null = null;
+  if (deposit.gateway_id) {
+    const { data } = await supabaseAdmin
+      .from('payment_gateways')
+      .select('*')
+      .eq('id', deposit.gateway_id)
+      .maybeSingle();
+    gateway = data as PaymentGateway | null;
+  }
+
+  gateway ??= {
+    id: '',
+    name: deposit.gateway || 'basepay',
+    provider: (deposit.gateway || 'basepay') as PaymentProviderName,
+    country_code: '*',
+    currency: deposit.local_currency || 'USD',
+    priority: 0,
+    config: {},
+  };
+
+  cache.set(key, gateway);
+  return gateway;
+}
+
+// Request options, from the JSON body or the query string:
+//   older_than_minutes: only query deposits pending at least this long
+//   ttl_minutes:        expire deposits still unpaid after this long
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const body = req.method === "POST" ? await req.json().catch(() => ({})) : {};
+  const olderThanMinutes = Number(body.older_than_minutes ?? url.searchParams.get('older_than_minutes') ?? DEFAULT_QUERY_AFTER_MINUTES);
+  const ttlMinutes = Number(body.ttl_minutes ?? url.searchParams.get('ttl_minutes') ?? DEFAULT_ORDER_TTL_MINUTES);
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    // Confirms, fails and expires deposits; only the scheduler (service role) may run this
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+      throw new Error("Unauthorized");
+    }
+
+    const startTime = Date.now();
+    const queryBefore = new Date(startTime - olderThanMinutes * 60 * 1000);
+    const expireBefore = new Date(startTime - ttlMinutes * 60 * 1000);
+
+    console.log(`Reconciling deposits pending since before ${queryBefore.toISOString()}...`);
+
+    const { data: deposits, error: fetchError } = await supabaseAdmin
+      .from('deposits')
+      .select('id, user_id, plan_id, gateway, gateway_id, gateway_ref, mch_order_no, amount_usd_cents, local_currency, created_at')
+      .eq('status', 'pending')
+      .in('gateway', QUERYABLE_PROVIDERS)
+      .not('mch_order_no', 'is', null)
+      .lte('created_at', queryBefore.toISOString())
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch pending deposits: ${fetchError.message}`);
+    }
+
+    const gateways = new Map<string, PaymentGateway>();
+    const counts: Record<ReconcileAction, number> = {
+      confirmed: 0,
+      already_confirmed: 0,
+      failed: 0,
+      expired: 0,
+      still_pending: 0,
+      error: 0,
+    };
+
+    for (const deposit of deposits || []) {
+      const abandoned = deposit.created_at !== null && new Date(deposit.created_at) <= expireBefore;
+      let action: ReconcileAction;
+      let queryResult: PaymentQueryResult | null = null;
+      let errorMessage: string | null = null;
+
+      try {
+        const gateway = await loadGateway(supabaseAdmin, gateways, deposit);
+        const provider = getPaymentProvider(gateway.provider);
+
+        try {
+          queryResult = await provider.query(gateway, {
+            orderNo: deposit.mch_order_no,
+            reference: deposit.gateway_ref,
+          });
+        } catch (queryError) {
+          // The gateway not knowing the order is final once the TTL has passed;
+          // outages and other retryable errors are left for the next run
+          if (!(queryError instanceof PaymentProviderError) || queryError.retryable || !abandoned) {
+            throw queryError;
+          }
+          errorMessage = queryError.message;
+        }
+
+        if (queryResult?.status === 'paid') {
+          const result = await confirmPaidDeposit(supabaseAdmin, deposit, queryResult.reference);
+          action = result.already_confirmed ? 'already_confirmed' : 'confirmed';
+        } else if (queryResult?.status === 'failed') {
+          action = await closePendingDeposit(supabaseAdmin, deposit.id, 'failed') ? 'failed' : 'still_pending';
+        } else if (abandoned) {
+          action = await closePendingDeposit(supabaseAdmin, deposit.id, 'expired') ? 'expired' : 'still_pending';
+        } else {
+          action = 'still_pending';
+        }
+      } catch (depositError) {
+        console.error(`Failed to reconcile deposit ${deposit.id}:`, depositError);
+        action = 'error';
+        errorMessage = depositError.message;
+      }
+
+      counts[action]++;
+
+      await supabaseAdmin
+        .from('gateway_logs')
+        .insert({
+          type: 'reconcile_deposit',
+          payload: {
+            action,
+            mch_order_no: deposit.mch_order_no,
+            gateway_status: queryResult?.status ?? null,
+            gateway_ref: queryResult?.reference ?? null,
+            error: errorMessage,
+            response: queryResult?.raw ?? null
+          },
+          deposit_id: deposit.id
+        });
+    }
+
+    const checked = (deposits || []).length;
+    const processedCount = checked - counts.error;
+    const executionTime = Date.now() - startTime;
+
+    const summary = {
+      older_than_minutes: olderThanMinutes,
+      ttl_minutes: ttlMinutes,
+      checked,
+      ...counts,
+      // A full batch means more pending deposits are waiting for the next run
+      drained: checked < BATCH_SIZE
+    };
+
+    await supabaseAdmin
+      .from('jobs_log')
+      .insert({
+        job: 'reconcile_deposits',
+        status: counts.error > 0 ? 'completed_with_errors' : 'completed',
+        payload: summary,
+        execution_time_ms: executionTime,
+        processed_count: processedCount,
+        error_count: counts.error
+      });
+
+    console.log(`Deposit reconciliation completed:`, summary);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ...summary,
+        execution_time_ms: executionTime
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error("Deposit reconciliation error:", error);
+
+    try {
+      await supabaseAdmin
+        .from('jobs_log')
+        .insert({
+          job: 'reconcile_deposits',
+          status: 'failed',
+          payload: { error: error.message },
+          error_count: 1
+        });
+    } catch (logError) {
+      console.error('Failed to log error:', logError);
+    }
+
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: error.message === "Unauthorized" ? 401 : 500,
+      }
+    );
+  }
+});
@@ -0,0 +1,123 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Scheduled alongside process-income-events: flags every wallet and currency
+// balance whose stored amount no longer matches the sum of its ledger_entries.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    // Findings expose every drifted wallet; only the scheduler (service role) may run this
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+      throw new Error("Unauthorized");
+    }
+
+    const startTime = Date.now();
+    console.log('Reconciling wallet balances against the ledger...');
+
+    const { data: drifted, error: reconcileError } = await supabaseAdmin
+      .rpc('reconcile_wallet_balances');
+
+    if (reconcileError) {
+      throw new Error(`Failed to reconcile wallets: ${reconcileError.message}`);
+    }
+
+    const findings: Record<string, unknown>[] = (drifted || []).map((wallet) => ({
+      user_id: wallet.user_id,
+      currency: 'USD',
+      available_cents: wallet.available_cents,
+      ledger_available_cents: wallet.ledger_available_cents,
+      available_drift_cents: wallet.available_cents - wallet.ledger_available_cents,
+      pending_cents: wallet.pending_cents,
+      ledger_pending_cents: wallet.ledger_pending_cents,
+      pending_drift_cents: wallet.pending_cents - wallet.ledger_pending_cents,
+    }));
+
+    const { data: driftedCurrencies, error: currencyError } = await supabaseAdmin
+      .rpc('reconcile_currency_balances');
+
+    if (currencyError) {
+      throw new Error(`Failed to reconcile currency balances: ${currencyError.message}`);
+    }
+
+    findings.push(...(driftedCurrencies || []).map((balance) => ({
+      user_id: balance.user_id,
+      currency: balance.currency,
+      available_cents: balance.available_cents,
+      ledger_available_cents: balance.ledger_available_cents,
+      available_drift_cents: balance.available_cents - balance.ledger_available_cents,
+      pending_cents: balance.pending_cents,
+      ledger_pending_cents: balance.ledger_pending_cents,
+      pending_drift_cents: balance.pending_cents - balance.ledger_pending_cents,
+    })));
+
+    for (const finding of findings) {
+      console.warn(`Wallet drift for user ${finding.user_id}:`, finding);
+    }
+
+    const executionTime = Date.now() - startTime;
+
+    await supabaseAdmin
+      .from('jobs_log')
+      .insert({
+        job: 'reconcile_wallets',
+        status: findings.length > 0 ? 'drift_detected' : 'completed',
+        payload: {
+          drifted_count: findings.length,
+          wallets: findings
+        },
+        execution_time_ms: executionTime,
+        processed_count: findings.length,
+        error_count: findings.length
+      });
+
+    console.log(`Wallet reconciliation completed: ${findings.length} wallets drifted`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        drifted_count: findings.length,
+        wallets: findings,
+        execution_time_ms: executionTime
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error("Wallet reconciliation error:", error);
+
+    await supabaseAdmin
+      .from('jobs_log')
+      .insert({
+        job: 'reconcile_wallets',
+        status: 'failed',
+        payload: { error: error.message },
+        error_count: 1
+      });
+
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: error.message === "Unauthorized" ? 401 : 500,
+      }
+    );
+  }
+});
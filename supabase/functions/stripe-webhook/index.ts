@@ -4,24 +4,28 @@
 import { serve } from 'std/http/server.ts';
 import { createClient } from '@supabase/supabase-js';
 import Stripe from 'stripe';
+import { closePendingDeposit, confirmPaidDeposit } from '../_shared/deposits.ts';
+import { getPaymentProvider } from '../_shared/payments.ts';
 
 export const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Initialize Stripe with your secret key
-const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
-  apiVersion: '2023-10-16',
-  httpClient: Stripe.createFetchHttpClient(),
-});
-
 // Initialize Supabase client
 const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-// This is the webhook handler for Stripe events
+// This is the webhook handler for Stripe events. Every event is stored in
+// webhook_events under its Stripe event id first, so a redelivered event is
+// acknowledged without being applied twice.
+//
+// Payment intents come from two places:
+//   - initiate-deposit (plan purchases): metadata.deposit_id; confirms the deposit
+//   - create-payment-intent (wallet top-ups): metadata.userId; credits the wallet
+// Refunds, disputes and chargebacks freeze or reverse what the payment
+// credited and flag the account for review.
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -29,51 +33,89 @@ serve(async (req) => {
   }
 
   try {
-    // Get the signature from the headers
-    const signature = req.headers.get('stripe-signature');
-    if (!signature) {
-      throw new Error('No signature found in headers');
-    }
-
-    // Get the raw body
-    const body = await req.text();
-    
-    // Verify the webhook signature
-    const webhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
-    if (!webhookSecret) {
-      throw new Error('STRIPE_WEBHOOK_SECRET is not set');
-    }
-
-    let event: Stripe.Event;
-    try {
-      event = stripe.webhooks.constructEvent(
-        body,
-        signature,
-        webhookSecret
-      );
-    } catch (err) {
-      console.error('Webhook signature verification failed:', err);
+    const callback = await getPaymentProvider('stripe').verifyCallback(req);
+    if (!callback.signatureOk || !callback.eventId) {
       return new Response(
         JSON.stringify({ error: 'Webhook signature verification failed' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Handle the event
-    switch (event.type) {
-      case 'payment_intent.succeeded':
-        await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent);
-        break;
-      case 'payment_intent.payment_failed':
-        await handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
-        break;
-      case 'charge.refunded':
-        await handleChargeRefunded(event.data.object as Stripe.Charge);
-        break;
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
+    let { data: storedEvent, error: insertError } = await supabase
+      .from('webhook_events')
+      .insert({
+        event_id: callback.eventId,
+        gateway: 'stripe',
+        gateway_name: 'stripe',
+        payload: callback.raw,
+        signature_ok: true,
+        source_ip: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+        processed: false,
+      })
+      .select('id, processed')
+      .single();
+
+    // Unique violation: Stripe is redelivering an event we already stored
+    if (insertError?.code === '23505') {
+      ({ data: storedEvent, error: insertError } = await supabase
+        .from('webhook_events')
+        .select('id, processed')
+        .eq('event_id', callback.eventId)
+        .single());
+
+      if (storedEvent?.processed) {
+        console.log('Duplicate Stripe event ignored:', callback.eventId);
+        return new Response(
+          JSON.stringify({ received: true }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    if (insertError || !storedEvent) {
+      throw new Error(`Failed to store event: ${insertError?.message}`);
     }
 
+    const event = callback.raw as unknown as Stripe.Event;
+
+    try {
+      // Handle the event
+      switch (event.type) {
+        case 'payment_intent.succeeded':
+          await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent, storedEvent.id);
+          break;
+        case 'payment_intent.payment_failed':
+          await handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
+          break;
+        case 'payment_intent.canceled':
+          await handlePaymentIntentCanceled(event.data.object as Stripe.PaymentIntent);
+          break;
+        case 'charge.refunded':
+          await handleChargeRefunded(event.data.object as Stripe.Charge, storedEvent.id);
+          break;
+        case 'charge.dispute.created':
+          await handleDisputeCreated(event.data.object as Stripe.Dispute, storedEvent.id);
+          break;
+        case 'charge.dispute.closed':
+          await handleDisputeClosed(event.data.object as Stripe.Dispute, storedEvent.id);
+          break;
+        default:
+          console.log(`Unhandled event type: ${event.type}`);
+      }
+    } catch (handlerError) {
+      await supabase
+        .from('webhook_events')
+        .update({ error: handlerError.message })
+        .eq('id', storedEvent.id);
+      throw handlerError;
+    }
+
+    // The deposit functions mark their event processed themselves; this covers everything else
+    await supabase
+      .from('webhook_events')
+      .update({ processed: true, error: null })
+      .eq('id', storedEvent.id);
+
     // Return a response to acknowledge receipt of the event
     return new Response(
       JSON.stringify({ received: true }),
@@ -88,10 +130,55 @@ serve(async (req) => {
   }
 });
 
-async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent) {
+// Plan purchase started by initiate-deposit: the deposit is credited and its
+// income schedule started, as for any other gateway
+async function confirmPlanDeposit(paymentIntent: Stripe.PaymentIntent, webhookEventId: string) {
+  const depositId = paymentIntent.metadata.deposit_id;
+
+  const { data: deposit, error: depositError } = await supabase
+    .from('deposits')
+    .select('id, plan_id, gateway_id, amount_usd_cents, local_amount, local_currency')
+    .eq('id', depositId)
+    .maybeSingle();
+
+  if (depositError || !deposit) {
+    throw new Error(`Deposit ${depositId} not found`);
+  }
+
+  // The intent is created server-side from the plan price; anything else was tampered with
+  const expectedCents = Math.round(Number(deposit.local_amount) * 100);
+  if (
+    paymentIntent.amount_received !== expectedCents ||
+    paymentIntent.currency.toUpperCase() !== String(deposit.local_currency).toUpperCase()
+  ) {
+    throw new Error(
+      `Payment ${paymentIntent.id} of ${paymentIntent.amount_received} ${paymentIntent.currency} ` +
+      `does not match deposit ${deposit.id}`
+    );
+  }
+
+  const result = await confirmPaidDeposit(supabase, deposit, paymentIntent.id, webhookEventId);
+
+  await supabase
+    .from('gateway_logs')
+    .insert({
+      type: 'webhook_success',
+      payload: { payment_intent: paymentIntent.id, result },
+      deposit_id: deposit.id
+    });
+
+  console.log(result.already_confirmed ? 'Deposit already confirmed:' : 'Deposit confirmed:', deposit.id);
+}
+
+async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent, webhookEventId: string) {
+  if (paymentIntent.metadata?.deposit_id) {
+    await confirmPlanDeposit(paymentIntent, webhookEventId);
+    return;
+  }
+
   const { id: paymentIntentId, amount, currency, metadata } = paymentIntent;
   const userId = metadata?.userId;
-  
+
   if (!userId) {
     console.error('No userId in payment intent metadata');
     return;
@@ -126,7 +213,20 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
 
 async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
   const { id: paymentIntentId, last_payment_error } = paymentIntent;
-  
+
+  // A declined card leaves the intent open for another attempt, so the
+  // deposit stays pending; reconcile-deposits expires it if none comes
+  if (paymentIntent.metadata?.deposit_id) {
+    await supabase
+      .from('gateway_logs')
+      .insert({
+        type: 'webhook_failed',
+        payload: { payment_intent: paymentIntentId, error: last_payment_error?.message || 'Payment failed' },
+        deposit_id: paymentIntent.metadata.deposit_id
+      });
+    return;
+  }
+
   // Update the payment intent status in the database
   const { error } = await supabase
     .from('stripe_payment_intents')
@@ -141,11 +241,110 @@ async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
   }
 }
 
-async function handleChargeRefunded(charge: Stripe.Charge) {
+async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent) {
+  if (paymentIntent.metadata?.deposit_id) {
+    await closePendingDeposit(supabase, paymentIntent.metadata.deposit_id, 'failed');
+    return;
+  }
+
+  const { error } = await supabase
+    .from('stripe_payment_intents')
+    .update({ status: 'canceled' })
+    .eq('id', paymentIntent.id);
+
+  if (error) {
+    console.error('Error updating canceled payment intent:', error);
+  }
+}
+
+// Plan deposit paid with this payment intent, if any
+async function findDeposit(paymentIntentId: string | Stripe.PaymentIntent | null) {
+  const id = typeof paymentIntentId === 'string' ? paymentIntentId : paymentIntentId?.id;
+  if (!id) return null;
+
+  const { data: deposit } = await supabase
+    .from('deposits')
+    .select('id, user_id, amount_usd_cents, status')
+    .eq('gateway', 'stripe')
+    .eq('gateway_ref', id)
+    .maybeSingle();
+
+  return deposit;
+}
+
+// Wallet top-up (stripe_payment_intents id) paid with this payment intent, if any
+async function findTopUp(paymentIntentId: string | Stripe.PaymentIntent | null) {
+  const id = typeof paymentIntentId === 'string' ? paymentIntentId : paymentIntentId?.id;
+  if (!id) return null;
+
+  const { data: paymentIntent } = await supabase
+    .from('stripe_payment_intents')
+    .select('id')
+    .eq('id', id)
+    .maybeSingle();
+
+  return paymentIntent?.id ?? null;
+}
+
+async function callDepositRpc(fn: string, params: Record<string, unknown>, depositId: string, logType: string) {
+  const { data: result, error } = await supabase.rpc(fn, params);
+  if (error) {
+    throw new Error(`${fn} failed for deposit ${depositId}: ${error.message}`);
+  }
+
+  await supabase
+    .from('gateway_logs')
+    .insert({ type: logType, payload: { ...params, result }, deposit_id: depositId });
+
+  console.log(`${fn} applied to deposit ${depositId}:`, result);
+}
+
+async function callTopUpRpc(fn: string, params: Record<string, unknown>, paymentIntentId: string, logType: string) {
+  const { data: result, error } = await supabase.rpc(fn, params);
+  if (error) {
+    throw new Error(`${fn} failed for top-up ${paymentIntentId}: ${error.message}`);
+  }
+
+  await supabase
+    .from('gateway_logs')
+    .insert({ type: logType, payload: { ...params, result } });
+
+  console.log(`${fn} applied to top-up ${paymentIntentId}:`, result);
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge, webhookEventId: string) {
   const { payment_intent: paymentIntentId, amount_refunded } = charge;
-  
+
   if (typeof paymentIntentId !== 'string') return;
-  
+
+  const deposit = await findDeposit(paymentIntentId);
+  if (deposit) {
+    // A plan is bought whole, so only a full refund unwinds it; anything
+    // partial is left to an admin
+    if (!charge.refunded) {
+      await supabase.rpc('flag_account_for_review', {
+        p_user_id: deposit.user_id,
+        p_reason: `Partial refund of ${amount_refunded} ${charge.currency} on ${charge.id}`,
+      });
+      await supabase
+        .from('gateway_logs')
+        .insert({
+          type: 'stripe_partial_refund',
+          payload: { charge: charge.id, amount: charge.amount, amount_refunded },
+          deposit_id: deposit.id
+        });
+      return;
+    }
+
+    await callDepositRpc('reverse_deposit', {
+      p_deposit_id: deposit.id,
+      p_kind: 'refund',
+      p_reference: charge.id,
+      p_webhook_event_id: webhookEventId,
+    }, deposit.id, 'stripe_refund');
+    return;
+  }
+
   // Update the payment intent status in the database
   const { data: paymentIntent, error: fetchError } = await supabase
     .from('stripe_payment_intents')
@@ -168,5 +367,75 @@ async function handleChargeRefunded(charge: Stripe.Charge) {
 
   if (refundError) {
     console.error('Error processing refund:', refundError);
+    // Usually insufficient_funds: the top-up has been spent already
+    await supabase.rpc('flag_account_for_review', {
+      p_user_id: paymentIntent.user_id,
+      p_reason: `Refund of top-up ${paymentIntentId} failed: ${refundError.message}`,
+    });
+  }
+}
+
+async function handleDisputeCreated(dispute: Stripe.Dispute, webhookEventId: string) {
+  const deposit = await findDeposit(dispute.payment_intent);
+  if (deposit) {
+    await callDepositRpc('hold_disputed_deposit', {
+      p_deposit_id: deposit.id,
+      p_dispute_ref: dispute.id,
+      p_webhook_event_id: webhookEventId,
+    }, deposit.id, 'stripe_dispute_created');
+    return;
+  }
+
+  const topUpId = await findTopUp(dispute.payment_intent);
+  if (topUpId) {
+    await callTopUpRpc('hold_disputed_top_up', {
+      p_payment_intent_id: topUpId,
+      p_dispute_ref: dispute.id,
+      p_webhook_event_id: webhookEventId,
+    }, topUpId, 'stripe_dispute_created');
+    return;
+  }
+
+  console.error(`Dispute ${dispute.id} matches no deposit or top-up`);
+}
+
+async function handleDisputeClosed(dispute: Stripe.Dispute, webhookEventId: string) {
+  const deposit = await findDeposit(dispute.payment_intent);
+  if (!deposit) {
+    const topUpId = await findTopUp(dispute.payment_intent);
+    if (!topUpId) {
+      console.error(`Dispute ${dispute.id} matches no deposit or top-up`);
+    } else if (dispute.status === 'won' || dispute.status === 'warning_closed') {
+      await callTopUpRpc('release_disputed_top_up', {
+        p_payment_intent_id: topUpId,
+        p_webhook_event_id: webhookEventId,
+      }, topUpId, 'stripe_dispute_won');
+    } else if (dispute.status === 'lost') {
+      await callTopUpRpc('reverse_top_up', {
+        p_payment_intent_id: topUpId,
+        p_reference: dispute.id,
+        p_webhook_event_id: webhookEventId,
+      }, topUpId, 'stripe_chargeback');
+    } else {
+      console.log(`Dispute ${dispute.id} closed with status ${dispute.status}; nothing to do`);
+    }
+    return;
+  }
+
+  // warning_closed: an inquiry that never became a chargeback
+  if (dispute.status === 'won' || dispute.status === 'warning_closed') {
+    await callDepositRpc('release_disputed_deposit', {
+      p_deposit_id: deposit.id,
+      p_webhook_event_id: webhookEventId,
+    }, deposit.id, 'stripe_dispute_won');
+  } else if (dispute.status === 'lost') {
+    await callDepositRpc('reverse_deposit', {
+      p_deposit_id: deposit.id,
+      p_kind: 'chargeback',
+      p_reference: dispute.id,
+      p_webhook_event_id: webhookEventId,
+    }, deposit.id, 'stripe_chargeback');
+  } else {
+    console.log(`Dispute ${dispute.id} closed with status ${dispute.status}; nothing to do`);
   }
 }
@@ -0,0 +1,110 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { requireUser, accessErrorStatus } from "../_shared/roles.ts";
+import { normalizeTxHash } from "../_shared/chain.ts";
+import { attachProof, ProofRejectedError } from "../_shared/proofs.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// POST { depositId, txHash, proofId }
+// Attaches the payer's transaction and proof (uploaded through upload-proof)
+// to a manual crypto deposit started through initiate-deposit. The client
+// then asks verify-crypto-deposits to check it.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const user = await requireUser(req, supabaseAdmin);
+
+    if (req.method !== "POST") {
+      throw new Error("Method not allowed");
+    }
+
+    const { depositId, txHash, proofId } = await req.json();
+
+    if (!depositId || !txHash || !proofId) {
+      throw new Error("Deposit, transaction hash and screenshot are required");
+    }
+
+    const hash = normalizeTxHash(String(txHash));
+
+    const { data: deposit, error: fetchError } = await supabaseAdmin
+      .from('deposits')
+      .select('id, user_id, method, status, tx_hash')
+      .eq('id', depositId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!deposit || deposit.method !== 'crypto_manual') {
+      throw new Error("Deposit not found");
+    }
+    if (deposit.status !== 'pending') {
+      throw new Error(`Deposit is already ${deposit.status}`);
+    }
+    if (deposit.tx_hash) {
+      throw new Error("A transaction was already submitted for this deposit");
+    }
+
+    const proof = await attachProof(supabaseAdmin, String(proofId), user.id, 'deposit-screenshots', {
+      deposit_id: deposit.id,
+    });
+
+    const { error: updateError } = await supabaseAdmin
+      .from('deposits')
+      .update({ tx_hash: hash, screenshot_url: proof.path })
+      .eq('id', deposit.id)
+      .is('tx_hash', null);
+
+    if (updateError) {
+      console.error('Crypto deposit submission error:', updateError);
+      // Free the proof so a corrected submission can use it
+      await supabaseAdmin
+        .from('deposit_proofs')
+        .update({ deposit_id: null })
+        .eq('id', proof.id);
+
+      // claim_crypto_tx_hash: another deposit already holds this transaction
+      if (updateError.code === '23505') {
+        return new Response(
+          JSON.stringify({ error: "This transaction hash has already been submitted" }),
+          {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 409,
+          }
+        );
+      }
+      throw new Error("Failed to submit transaction");
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, depositId: deposit.id, txHash: hash }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error("Submit crypto deposit error:", error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: error instanceof ProofRejectedError ? error.status : accessErrorStatus(error),
+      }
+    );
+  }
+});
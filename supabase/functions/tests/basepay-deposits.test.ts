@@ -0,0 +1,104 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import {
+  adminClient,
+  createBasepayGateway,
+  createTestPlan,
+  createTestUser,
+  deactivateGateway,
+  depositCredits,
+  depositStatus,
+  initiateBasepayDeposit,
+  sandboxOrder,
+  setSandboxOutcome,
+  waitFor,
+} from "./helpers.ts";
+
+const DELAY_MS = 3000;
+
+// A deposit through initiate-deposit and basepay-callback for each
+// basepay-sandbox outcome. The sandbox sends its callbacks to the served
+// basepay-callback function.
+Deno.test("Basepay deposits end to end", async (t) => {
+  const supabaseAdmin = adminClient();
+  const gatewayId = await createBasepayGateway(supabaseAdmin);
+
+  const webhookEvents = async (mchOrderNo: string) => {
+    const { data, error } = await supabaseAdmin
+      .from('webhook_events')
+      .select('event_id, signature_ok, processed, error')
+      .eq('gateway', 'basepay')
+      .like('event_id', `basepay:${mchOrderNo}:%`);
+    if (error) throw error;
+    return data || [];
+  };
+
+  try {
+    const user = await createTestUser(supabaseAdmin);
+    const planId = await createTestPlan(supabaseAdmin);
+
+    await t.step("success: the callback confirms the deposit", async () => {
+      await setSandboxOutcome('success');
+      const { depositId, mchOrderNo } = await initiateBasepayDeposit(user, planId);
+
+      await waitFor(async () => await depositStatus(supabaseAdmin, depositId) === 'confirmed', 'the deposit to confirm');
+      assertEquals(await depositCredits(supabaseAdmin, depositId), 1);
+      assertEquals((await sandboxOrder(mchOrderNo))?.callbacks.map((callback) => callback.status), [200]);
+      assertEquals(await webhookEvents(mchOrderNo), [
+        { event_id: `basepay:${mchOrderNo}:1`, signature_ok: true, processed: true, error: null },
+      ]);
+    });
+
+    await t.step("fail: the callback fails the deposit", async () => {
+      await setSandboxOutcome('fail');
+      const { depositId, mchOrderNo } = await initiateBasepayDeposit(user, planId);
+
+      await waitFor(async () => await depositStatus(supabaseAdmin, depositId) === 'failed', 'the deposit to fail');
+      assertEquals(await depositCredits(supabaseAdmin, depositId), 0);
+      assertEquals((await sandboxOrder(mchOrderNo))?.callbacks.map((callback) => callback.status), [200]);
+    });
+
+    await t.step("delay: the deposit stays pending until the late callback", async () => {
+      await setSandboxOutcome('delay', DELAY_MS);
+      const { depositId, mchOrderNo } = await initiateBasepayDeposit(user, planId);
+
+      assertEquals(await depositStatus(supabaseAdmin, depositId), 'pending');
+      assertEquals((await sandboxOrder(mchOrderNo))?.tradeResult, '0');
+
+      await waitFor(
+        async () => await depositStatus(supabaseAdmin, depositId) === 'confirmed',
+        'the delayed callback',
+        DELAY_MS + 10000
+      );
+      assertEquals(await depositCredits(supabaseAdmin, depositId), 1);
+    });
+
+    await t.step("duplicate: a repeated callback credits the deposit once", async () => {
+      await setSandboxOutcome('duplicate');
+      const { depositId, mchOrderNo } = await initiateBasepayDeposit(user, planId);
+
+      await waitFor(
+        async () => (await sandboxOrder(mchOrderNo))?.callbacks.length === 2,
+        'both callbacks'
+      );
+      assertEquals((await sandboxOrder(mchOrderNo))?.callbacks.map((callback) => callback.status), [200, 200]);
+      assertEquals(await depositStatus(supabaseAdmin, depositId), 'confirmed');
+      assertEquals(await depositCredits(supabaseAdmin, depositId), 1);
+      assertEquals((await webhookEvents(mchOrderNo)).length, 1);
+    });
+
+    await t.step("bad_signature: the callback is refused and the deposit left pending", async () => {
+      await setSandboxOutcome('bad_signature');
+      const { depositId, mchOrderNo } = await initiateBasepayDeposit(user, planId);
+
+      assertEquals((await sandboxOrder(mchOrderNo))?.callbacks.map((callback) => callback.status), [400]);
+      assertEquals(await depositStatus(supabaseAdmin, depositId), 'pending');
+      assertEquals(await depositCredits(supabaseAdmin, depositId), 0);
+      assertEquals(await webhookEvents(mchOrderNo), [
+        { event_id: `basepay:${mchOrderNo}:1`, signature_ok: false, processed: false, error: 'invalid_signature' },
+      ]);
+    });
+  } finally {
+    await setSandboxOutcome('manual');
+    await deactivateGateway(supabaseAdmin, gatewayId);
+  }
+});
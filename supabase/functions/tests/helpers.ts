@@ -0,0 +1,224 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+// Integration tests for the edge functions. They run against a local stack,
+// never production: they create users, plans and gateways and reconcile every
+// pending deposit they find.
+//
+//   supabase start
+//   supabase functions serve --env-file supabase/functions/.env.test
+//   deno task test
+//
+// .env.test sets BASEPAY_SANDBOX_ENABLED=true, BASEPAY_MCH_ID and the
+// Basepay keys, and points BASEPAY_PAY_URL / BASEPAY_QUERY_URL at the served
+// sandbox (http://kong:8000/functions/v1/basepay-sandbox/...), and sets a
+// STRIPE_WEBHOOK_SECRET. The tests themselves need SUPABASE_URL,
+// SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY from `supabase status`, and
+// the same STRIPE_WEBHOOK_SECRET to sign the Stripe fixtures.
+
+export type SandboxOutcome = 'manual' | 'success' | 'fail' | 'delay' | 'duplicate' | 'bad_signature' | 'no_callback';
+
+// Inside the edge runtime: the sandbox sends its callbacks nowhere
+export const LOST_CALLBACK_URL = "http://127.0.0.1:9/basepay-callback";
+
+const PLAN_DEPOSIT_CENTS = 1000;
+
+export function env(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not set; see supabase/functions/tests/helpers.ts`);
+  }
+  return value;
+}
+
+export const functionsUrl = () => `${env("SUPABASE_URL")}/functions/v1`;
+
+const sandboxUrl = () =>
+  (Deno.env.get("BASEPAY_SANDBOX_URL") || `${functionsUrl()}/basepay-sandbox`).replace(/\/$/, '');
+
+export function adminClient(): SupabaseClient {
+  return createClient(env("SUPABASE_URL"), env("SUPABASE_SERVICE_ROLE_KEY"), {
+    auth: { persistSession: false },
+  });
+}
+
+// POST a JSON body to an edge function; `token` defaults to the service role
+export async function callFunction(
+  name: string,
+  body: Record<string, unknown>,
+  token = env("SUPABASE_SERVICE_ROLE_KEY")
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const response = await fetch(`${functionsUrl()}/${name}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      apikey: env("SUPABASE_ANON_KEY"),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+  const text = await response.text();
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    parsed = { text };
+  }
+  return { status: response.status, body: parsed };
+}
+
+async function sandboxRequest(method: string, path: string, body?: Record<string, unknown>) {
+  const response = await fetch(`${sandboxUrl()}${path}`, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(`Sandbox ${method} ${path}: HTTP ${response.status} ${JSON.stringify(result)}`);
+  }
+  return result;
+}
+
+// Outcome for sandbox orders created from now on
+export async function setSandboxOutcome(outcome: SandboxOutcome, delayMs?: number) {
+  await sandboxRequest('POST', '/scenario', { outcome, ...(delayMs !== undefined ? { delay_ms: delayMs } : {}) });
+}
+
+export interface SandboxOrderState {
+  mchOrderNo: string;
+  tradeResult: '0' | '1' | '2';
+  callbacks: { sentAt: string; status: number | null; error?: string }[];
+}
+
+export async function sandboxOrder(mchOrderNo: string): Promise<SandboxOrderState | undefined> {
+  const { orders } = await sandboxRequest('GET', '/orders') as { orders: SandboxOrderState[] };
+  return orders.find((order) => order.mchOrderNo === mchOrderNo);
+}
+
+export interface TestUser {
+  id: string;
+  token: string;
+}
+
+export async function createTestUser(supabaseAdmin: SupabaseClient): Promise<TestUser> {
+  const email = `deposit-test-${crypto.randomUUID()}@example.com`;
+  const password = crypto.randomUUID();
+
+  const { data: created, error: createError } = await supabaseAdmin.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true,
+  });
+  if (createError || !created.user) {
+    throw new Error(`Failed to create test user: ${createError?.message}`);
+  }
+
+  const anon = createClient(env("SUPABASE_URL"), env("SUPABASE_ANON_KEY"), {
+    auth: { persistSession: false },
+  });
+  const { data: session, error: signInError } = await anon.auth.signInWithPassword({ email, password });
+  if (signInError || !session.session) {
+    throw new Error(`Failed to sign in test user: ${signInError?.message}`);
+  }
+
+  return { id: created.user.id, token: session.session.access_token };
+}
+
+export async function createTestPlan(supabaseAdmin: SupabaseClient): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from('plans')
+    .insert({
+      name: `Test plan ${crypto.randomUUID().slice(0, 8)}`,
+      deposit_usd: PLAN_DEPOSIT_CENTS,
+      payout_per_drop_usd: 100,
+      drops_count: 12,
+      total_return_usd: 1200,
+    })
+    .select('id')
+    .single();
+  if (error || !data) {
+    throw new Error(`Failed to create test plan: ${error?.message}`);
+  }
+  return data.id;
+}
+
+// A USD Basepay gateway ahead of any other, so deposits need no FX rate.
+// Deactivate it when done or it keeps taking USD Basepay deposits.
+export async function createBasepayGateway(
+  supabaseAdmin: SupabaseClient,
+  config: Record<string, unknown> = {}
+): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from('payment_gateways')
+    .insert({
+      name: `Basepay sandbox test ${crypto.randomUUID().slice(0, 8)}`,
+      country_code: '*',
+      currency: 'USD',
+      provider: 'basepay',
+      priority: -1000,
+      is_active: true,
+      config,
+    })
+    .select('id')
+    .single();
+  if (error || !data) {
+    throw new Error(`Failed to create test gateway: ${error?.message}`);
+  }
+  return data.id;
+}
+
+export async function deactivateGateway(supabaseAdmin: SupabaseClient, gatewayId: string) {
+  await supabaseAdmin
+    .from('payment_gateways')
+    .update({ is_active: false })
+    .eq('id', gatewayId);
+}
+
+// Start a Basepay deposit for `user` through initiate-deposit
+export async function initiateBasepayDeposit(
+  user: TestUser,
+  planId: string
+): Promise<{ depositId: string; mchOrderNo: string }> {
+  const { status, body } = await callFunction(
+    'initiate-deposit',
+    { planId, currency: 'USD', provider: 'basepay' },
+    user.token
+  );
+  if (status !== 200 || typeof body.depositId !== 'string' || typeof body.mchOrderNo !== 'string') {
+    throw new Error(`initiate-deposit failed: HTTP ${status} ${JSON.stringify(body)}`);
+  }
+  return { depositId: body.depositId, mchOrderNo: body.mchOrderNo };
+}
+
+export async function depositStatus(supabaseAdmin: SupabaseClient, depositId: string): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from('deposits')
+    .select('status')
+    .eq('id', depositId)
+    .single();
+  if (error || !data) {
+    throw new Error(`Deposit ${depositId} not found: ${error?.message}`);
+  }
+  return data.status;
+}
+
+// Wallet credits written for a deposit: confirm_deposit writes one
+export async function depositCredits(supabaseAdmin: SupabaseClient, depositId: string): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from('wallet_transactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('type', 'deposit')
+    .eq('reference_id', depositId);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// Poll until `check` returns true, for callbacks and timers to land
+export async function waitFor(check: () => Promise<boolean>, what: string, timeoutMs = 10000) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (await check()) return;
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+  throw new Error(`Timed out waiting for ${what}`);
+}
@@ -0,0 +1,85 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import {
+  adminClient,
+  callFunction,
+  createBasepayGateway,
+  createTestPlan,
+  createTestUser,
+  deactivateGateway,
+  depositCredits,
+  depositStatus,
+  initiateBasepayDeposit,
+  LOST_CALLBACK_URL,
+  sandboxOrder,
+  setSandboxOutcome,
+} from "./helpers.ts";
+
+// reconcile-deposits against basepay-sandbox. The test gateway sends every
+// callback to LOST_CALLBACK_URL, so only the order query settles a deposit.
+Deno.test("reconcile-deposits settles Basepay orders whose callback was lost", async (t) => {
+  const supabaseAdmin = adminClient();
+  const gatewayId = await createBasepayGateway(supabaseAdmin, { notify_url: LOST_CALLBACK_URL });
+
+  try {
+    const user = await createTestUser(supabaseAdmin);
+    const planId = await createTestPlan(supabaseAdmin);
+
+    await t.step("confirms a paid order the callback never reported", async () => {
+      await setSandboxOutcome('success');
+      const { depositId, mchOrderNo } = await initiateBasepayDeposit(user, planId);
+
+      const order = await sandboxOrder(mchOrderNo);
+      assertEquals(order?.tradeResult, '1');
+      assertEquals(order?.callbacks.every((callback) => callback.status === null), true);
+      assertEquals(await depositStatus(supabaseAdmin, depositId), 'pending');
+
+      const { status, body } = await callFunction('reconcile-deposits', { older_than_minutes: 0 });
+      assertEquals(status, 200);
+      assertEquals((body.confirmed as number) >= 1, true);
+      assertEquals(await depositStatus(supabaseAdmin, depositId), 'confirmed');
+      assertEquals(await depositCredits(supabaseAdmin, depositId), 1);
+
+      // A second run leaves the confirmed deposit alone
+      await callFunction('reconcile-deposits', { older_than_minutes: 0 });
+      assertEquals(await depositCredits(supabaseAdmin, depositId), 1);
+    });
+
+    await t.step("fails an order the gateway refused", async () => {
+      await setSandboxOutcome('fail');
+      const { depositId, mchOrderNo } = await initiateBasepayDeposit(user, planId);
+
+      assertEquals((await sandboxOrder(mchOrderNo))?.tradeResult, '2');
+
+      const { status, body } = await callFunction('reconcile-deposits', { older_than_minutes: 0 });
+      assertEquals(status, 200);
+      assertEquals((body.failed as number) >= 1, true);
+      assertEquals(await depositStatus(supabaseAdmin, depositId), 'failed');
+      assertEquals(await depositCredits(supabaseAdmin, depositId), 0);
+    });
+
+    await t.step("keeps an unpaid order pending until its TTL passes, then expires it", async () => {
+      await setSandboxOutcome('manual');
+      const { depositId, mchOrderNo } = await initiateBasepayDeposit(user, planId);
+
+      assertEquals((await sandboxOrder(mchOrderNo))?.tradeResult, '0');
+
+      const early = await callFunction('reconcile-deposits', { older_than_minutes: 0, ttl_minutes: 60 });
+      assertEquals(early.status, 200);
+      assertEquals(await depositStatus(supabaseAdmin, depositId), 'pending');
+
+      const late = await callFunction('reconcile-deposits', { older_than_minutes: 0, ttl_minutes: 0 });
+      assertEquals(late.status, 200);
+      assertEquals((late.body.expired as number) >= 1, true);
+      assertEquals(await depositStatus(supabaseAdmin, depositId), 'expired');
+      assertEquals(await depositCredits(supabaseAdmin, depositId), 0);
+    });
+
+    await t.step("refuses callers without the service role key", async () => {
+      const { status } = await callFunction('reconcile-deposits', { older_than_minutes: 0 }, user.token);
+      assertEquals(status, 401);
+    });
+  } finally {
+    await setSandboxOutcome('manual');
+    await deactivateGateway(supabaseAdmin, gatewayId);
+  }
+});
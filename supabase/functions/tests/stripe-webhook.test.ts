@@ -0,0 +1,277 @@
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { adminClient, createTestPlan, createTestUser, env, functionsUrl, TestUser } from "./helpers.ts";
+
+// Refund and dispute events from fixtures/stripe, signed with
+// STRIPE_WEBHOOK_SECRET (the same secret stripe-webhook is served with) and
+// pointed at a plan deposit or wallet top-up made for the test. The fixtures
+// charge 1000 cents, the price of the test plan.
+type StripeFixture =
+  | 'charge.refunded.full'
+  | 'charge.refunded.partial'
+  | 'charge.dispute.created'
+  | 'charge.dispute.closed.won'
+  | 'charge.dispute.closed.lost'
+  | 'charge.dispute.closed.warning_closed';
+
+const AMOUNT_CENTS = 1000;
+
+async function signStripePayload(payload: string): Promise<string> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(env("STRIPE_WEBHOOK_SECRET")),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${payload}`));
+  const hex = Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `t=${timestamp},v1=${hex}`;
+}
+
+// Deliver a fixture as a fresh event for `paymentIntentId`. Disputes keep
+// `disputeId` across their created and closed events.
+async function sendStripeFixture(fixture: StripeFixture, paymentIntentId: string, disputeId?: string) {
+  const event = JSON.parse(await Deno.readTextFile(new URL(`./fixtures/stripe/${fixture}.json`, import.meta.url)));
+  event.id = `evt_test_${crypto.randomUUID().replaceAll('-', '')}`;
+  event.data.object.payment_intent = paymentIntentId;
+  if (disputeId) {
+    event.data.object.id = disputeId;
+  }
+
+  const payload = JSON.stringify(event);
+  const response = await fetch(`${functionsUrl()}/stripe-webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'stripe-signature': await signStripePayload(payload) },
+    body: payload,
+  });
+  const body = await response.text();
+  assertEquals(response.status, 200, `${fixture}: ${body}`);
+
+  return event.id as string;
+}
+
+const newPaymentIntentId = () => `pi_test_${crypto.randomUUID().replaceAll('-', '')}`;
+const newDisputeId = () => `dp_test_${crypto.randomUUID().replaceAll('-', '')}`;
+
+async function wallet(supabaseAdmin: SupabaseClient, userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('wallets')
+    .select('available_cents, frozen_cents')
+    .eq('user_id', userId)
+    .single();
+  if (error || !data) throw new Error(`Wallet of ${userId} not found: ${error?.message}`);
+  return { available: Number(data.available_cents), frozen: Number(data.frozen_cents) };
+}
+
+async function depositState(supabaseAdmin: SupabaseClient, depositId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('deposits')
+    .select('status, frozen_cents')
+    .eq('id', depositId)
+    .single();
+  if (error || !data) throw new Error(`Deposit ${depositId} not found: ${error?.message}`);
+  return { status: data.status, frozen: Number(data.frozen_cents) };
+}
+
+async function topUpState(supabaseAdmin: SupabaseClient, paymentIntentId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('stripe_payment_intents')
+    .select('status, frozen_cents')
+    .eq('id', paymentIntentId)
+    .single();
+  if (error || !data) throw new Error(`Top-up ${paymentIntentId} not found: ${error?.message}`);
+  return { status: data.status, frozen: Number(data.frozen_cents) };
+}
+
+async function isFlagged(supabaseAdmin: SupabaseClient, userId: string): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('account_reviews')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+  return !!data;
+}
+
+async function eventProcessed(supabaseAdmin: SupabaseClient, eventId: string): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('webhook_events')
+    .select('processed')
+    .eq('event_id', eventId)
+    .single();
+  return data?.processed === true;
+}
+
+// A plan deposit paid by card and confirmed, as initiate-deposit and
+// payment_intent.succeeded leave it
+async function paidPlanDeposit(supabaseAdmin: SupabaseClient, user: TestUser, planId: string) {
+  const paymentIntentId = newPaymentIntentId();
+  const { data: deposit, error } = await supabaseAdmin
+    .from('deposits')
+    .insert({
+      user_id: user.id,
+      plan_id: planId,
+      amount_usd_cents: AMOUNT_CENTS,
+      local_amount: AMOUNT_CENTS / 100,
+      local_currency: 'USD',
+      fx_rate: 1,
+      gateway: 'stripe',
+      method: 'stripe',
+      mch_order_no: `WS-TEST-${crypto.randomUUID()}`,
+      status: 'pending',
+    })
+    .select('id')
+    .single();
+  if (error || !deposit) throw new Error(`Failed to create deposit: ${error?.message}`);
+
+  const { error: confirmError } = await supabaseAdmin.rpc('confirm_deposit', {
+    p_deposit_id: deposit.id,
+    p_gateway_ref: paymentIntentId,
+  });
+  if (confirmError) throw new Error(`Failed to confirm deposit: ${confirmError.message}`);
+
+  return { depositId: deposit.id as string, paymentIntentId };
+}
+
+// A wallet top-up from create-payment-intent, credited by payment_intent.succeeded
+async function paidTopUp(supabaseAdmin: SupabaseClient, user: TestUser) {
+  const paymentIntentId = newPaymentIntentId();
+  const { data: userWallet } = await supabaseAdmin
+    .from('wallets')
+    .select('id')
+    .eq('user_id', user.id)
+    .single();
+  if (!userWallet) throw new Error(`Wallet of ${user.id} not found`);
+
+  const { error } = await supabaseAdmin
+    .from('stripe_payment_intents')
+    .insert({
+      id: paymentIntentId,
+      user_id: user.id,
+      wallet_id: userWallet.id,
+      amount_cents: AMOUNT_CENTS,
+      currency: 'usd',
+      status: 'requires_payment_method',
+    });
+  if (error) throw new Error(`Failed to create top-up: ${error.message}`);
+
+  const { error: creditError } = await supabaseAdmin.rpc('handle_successful_payment', {
+    p_payment_intent_id: paymentIntentId,
+    p_wallet_id: userWallet.id,
+    p_user_id: user.id,
+    p_amount: AMOUNT_CENTS,
+    p_currency: 'usd',
+  });
+  if (creditError) throw new Error(`Failed to credit top-up: ${creditError.message}`);
+
+  return paymentIntentId;
+}
+
+Deno.test("stripe-webhook refunds and disputes on plan deposits", async (t) => {
+  const supabaseAdmin = adminClient();
+  const planId = await createTestPlan(supabaseAdmin);
+
+  await t.step("charge.refunded (full) reverses the deposit", async () => {
+    const user = await createTestUser(supabaseAdmin);
+    const before = await wallet(supabaseAdmin, user.id);
+    const { depositId, paymentIntentId } = await paidPlanDeposit(supabaseAdmin, user, planId);
+
+    const eventId = await sendStripeFixture('charge.refunded.full', paymentIntentId);
+
+    assertEquals((await depositState(supabaseAdmin, depositId)).status, 'refunded');
+    assertEquals((await wallet(supabaseAdmin, user.id)).available, before.available);
+    assert(await isFlagged(supabaseAdmin, user.id));
+    assert(await eventProcessed(supabaseAdmin, eventId));
+  });
+
+  await t.step("charge.refunded (partial) leaves the deposit to an admin", async () => {
+    const user = await createTestUser(supabaseAdmin);
+    const before = await wallet(supabaseAdmin, user.id);
+    const { depositId, paymentIntentId } = await paidPlanDeposit(supabaseAdmin, user, planId);
+
+    await sendStripeFixture('charge.refunded.partial', paymentIntentId);
+
+    assertEquals((await depositState(supabaseAdmin, depositId)).status, 'confirmed');
+    assertEquals((await wallet(supabaseAdmin, user.id)).available, before.available + AMOUNT_CENTS);
+    assert(await isFlagged(supabaseAdmin, user.id));
+  });
+
+  await t.step("charge.dispute.created freezes the deposit", async () => {
+    const user = await createTestUser(supabaseAdmin);
+    const before = await wallet(supabaseAdmin, user.id);
+    const { depositId, paymentIntentId } = await paidPlanDeposit(supabaseAdmin, user, planId);
+
+    await sendStripeFixture('charge.dispute.created', paymentIntentId, newDisputeId());
+
+    assertEquals(await depositState(supabaseAdmin, depositId), { status: 'disputed', frozen: AMOUNT_CENTS });
+    assertEquals(await wallet(supabaseAdmin, user.id), { available: before.available, frozen: before.frozen + AMOUNT_CENTS });
+    assert(await isFlagged(supabaseAdmin, user.id));
+  });
+
+  for (const [outcome, status, available] of [
+    ['won', 'confirmed', AMOUNT_CENTS],
+    ['warning_closed', 'confirmed', AMOUNT_CENTS],
+    ['lost', 'charged_back', 0],
+  ] as const) {
+    await t.step(`charge.dispute.closed (${outcome}) leaves the deposit ${status}`, async () => {
+      const user = await createTestUser(supabaseAdmin);
+      const before = await wallet(supabaseAdmin, user.id);
+      const { depositId, paymentIntentId } = await paidPlanDeposit(supabaseAdmin, user, planId);
+      const disputeId = newDisputeId();
+
+      await sendStripeFixture('charge.dispute.created', paymentIntentId, disputeId);
+      await sendStripeFixture(`charge.dispute.closed.${outcome}`, paymentIntentId, disputeId);
+
+      assertEquals(await depositState(supabaseAdmin, depositId), { status, frozen: 0 });
+      assertEquals(await wallet(supabaseAdmin, user.id), { available: before.available + available, frozen: before.frozen });
+    });
+  }
+});
+
+Deno.test("stripe-webhook disputes on wallet top-ups", async (t) => {
+  const supabaseAdmin = adminClient();
+
+  await t.step("charge.dispute.created freezes the top-up", async () => {
+    const user = await createTestUser(supabaseAdmin);
+    const before = await wallet(supabaseAdmin, user.id);
+    const paymentIntentId = await paidTopUp(supabaseAdmin, user);
+
+    const eventId = await sendStripeFixture('charge.dispute.created', paymentIntentId, newDisputeId());
+
+    assertEquals(await topUpState(supabaseAdmin, paymentIntentId), { status: 'disputed', frozen: AMOUNT_CENTS });
+    assertEquals(await wallet(supabaseAdmin, user.id), { available: before.available, frozen: before.frozen + AMOUNT_CENTS });
+    assert(await isFlagged(supabaseAdmin, user.id));
+    assert(await eventProcessed(supabaseAdmin, eventId));
+  });
+
+  for (const [outcome, status, available] of [
+    ['won', 'succeeded', AMOUNT_CENTS],
+    ['warning_closed', 'succeeded', AMOUNT_CENTS],
+    ['lost', 'charged_back', 0],
+  ] as const) {
+    await t.step(`charge.dispute.closed (${outcome}) leaves the top-up ${status}`, async () => {
+      const user = await createTestUser(supabaseAdmin);
+      const before = await wallet(supabaseAdmin, user.id);
+      const paymentIntentId = await paidTopUp(supabaseAdmin, user);
+      const disputeId = newDisputeId();
+
+      await sendStripeFixture('charge.dispute.created', paymentIntentId, disputeId);
+      await sendStripeFixture(`charge.dispute.closed.${outcome}`, paymentIntentId, disputeId);
+
+      assertEquals(await topUpState(supabaseAdmin, paymentIntentId), { status, frozen: 0 });
+      assertEquals(await wallet(supabaseAdmin, user.id), { available: before.available + available, frozen: before.frozen });
+    });
+  }
+
+  await t.step("a lost dispute without a hold first still takes the top-up back", async () => {
+    const user = await createTestUser(supabaseAdmin);
+    const before = await wallet(supabaseAdmin, user.id);
+    const paymentIntentId = await paidTopUp(supabaseAdmin, user);
+
+    await sendStripeFixture('charge.dispute.closed.lost', paymentIntentId, newDisputeId());
+
+    assertEquals(await topUpState(supabaseAdmin, paymentIntentId), { status: 'charged_back', frozen: 0 });
+    assertEquals((await wallet(supabaseAdmin, user.id)).available, before.available);
+  });
+});
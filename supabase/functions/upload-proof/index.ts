@@ -0,0 +1,69 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { requireUser, accessErrorStatus } from "../_shared/roles.ts";
+import { PROOF_BUCKETS, ProofBucket, ProofRejectedError, readProofUpload, storeProof } from "../_shared/proofs.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// POST multipart/form-data { file, bucket? }
+//   -> { success, proofId, path, thumbnailPath, mimeType, sizeBytes, width, height }
+// bucket defaults to deposit-screenshots. The returned proofId is what
+// submit-crypto-deposit takes to link the proof to a deposit.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const user = await requireUser(req, supabaseAdmin);
+
+    if (req.method !== "POST") {
+      throw new Error("Method not allowed");
+    }
+
+    const upload = await readProofUpload(req);
+    const bucket = (upload.fields.bucket || 'deposit-screenshots') as ProofBucket;
+    if (!PROOF_BUCKETS.includes(bucket)) {
+      throw new ProofRejectedError(`Unknown proof bucket: ${bucket}`);
+    }
+
+    const proof = await storeProof(supabaseAdmin, user.id, bucket, upload);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        proofId: proof.id,
+        path: proof.path,
+        thumbnailPath: proof.thumbnailPath,
+        mimeType: proof.mimeType,
+        sizeBytes: proof.sizeBytes,
+        width: proof.width,
+        height: proof.height
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error("Proof upload error:", error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: error instanceof ProofRejectedError ? error.status : accessErrorStatus(error),
+      }
+    );
+  }
+});
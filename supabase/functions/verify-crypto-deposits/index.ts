@@ -0,0 +1,335 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { confirmPaidDeposit } from "../_shared/deposits.ts";
+import {
+  ChainIndexer,
+  ChainIndexerError,
+  ChainNetwork,
+  getChainIndexer,
+  isChainNetwork,
+  normalizeTxHash,
+  verifyUsdtTransfer,
+} from "../_shared/chain.ts";
+import { accessErrorStatus, requirePermission, requireUser } from "../_shared/roles.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = 50;
+
+// A hash the network still does not know after this long goes to the manual queue
+const NOT_FOUND_GIVE_UP_MINUTES = Number(Deno.env.get("CRYPTO_NOT_FOUND_GIVE_UP_MINUTES") || 60);
+
+// Deposits that already hold the money a transaction carried
+const CREDITED_STATUSES = ['confirmed', 'completed', 'disputed', 'refunded', 'charged_back'];
+
+type VerificationStatus = 'not_found' | 'unconfirmed' | 'verified' | 'mismatch';
+
+interface CryptoDeposit {
+  id: string;
+  user_id: string;
+  plan_id: string | null;
+  gateway_id: string | null;
+  amount_usd_cents: number;
+  amount_tag_cents: number;
+  tx_hash: string | null;
+  network: string | null;
+  deposit_address: string | null;
+  created_at: string | null;
+}
+
+interface ReceivingGateway {
+  id: string;
+  // The shared address; null for gateways that derive one per user from an xpub
+  address: string | null;
+  minConfirmations?: number;
+}
+
+// Our manual_crypto gateways on `network`, from payment_gateways
+async function loadReceivingGateways(
+  supabaseAdmin: SupabaseClient,
+  network: ChainNetwork
+): Promise<ReceivingGateway[]> {
+  const { data, error } = await supabaseAdmin
+    .from('payment_gateways')
+    .select('id, config')
+    .eq('provider', 'manual_crypto')
+    .eq('is_active', true);
+
+  if (error) throw error;
+
+  return (data || [])
+    .map((row) => ({ id: row.id, config: (row.config || {}) as Record<string, unknown> }))
+    .filter(({ config }) => (config.address || config.xpub) && (config.network || 'BEP20') === network)
+    .map(({ id, config }) => ({
+      id,
+      address: config.address ? String(config.address) : null,
+      minConfirmations: config.min_confirmations ? Number(config.min_confirmations) : undefined,
+    }));
+}
+
+async function verifyDeposit(
+  supabaseAdmin: SupabaseClient,
+  indexer: ChainIndexer,
+  deposit: CryptoDeposit
+): Promise<{ status: VerificationStatus; discrepancies: string[]; details: Record<string, unknown> }> {
+  const network = deposit.network || 'BEP20';
+  if (!isChainNetwork(network)) {
+    return { status: 'mismatch', discrepancies: [`Unsupported network ${network}`], details: {} };
+  }
+
+  let hash: string;
+  try {
+    hash = normalizeTxHash(deposit.tx_hash || '');
+  } catch (hashError) {
+    return { status: 'mismatch', discrepancies: [hashError.message], details: { network } };
+  }
+
+  const details: Record<string, unknown> = { network, tx_hash: hash, indexer: indexer.name };
+
+  // One transaction pays one deposit
+  const { data: earlier } = await supabaseAdmin
+    .from('deposits')
+    .select('id')
+    .neq('id', deposit.id)
+    .in('status', CREDITED_STATUSES)
+    .eq('tx_hash_normalized', hash)
+    .limit(1);
+
+  if (earlier?.length) {
+    return {
+      status: 'mismatch',
+      discrepancies: [`Transaction already credited to deposit ${earlier[0].id}`],
+      details: { ...details, duplicate_of: earlier[0].id },
+    };
+  }
+
+  // Deposits started through initiate-deposit were given their own address
+  // (or amount tag); older ones could pay any of our addresses
+  const gateways = (await loadReceivingGateways(supabaseAdmin, network))
+    .filter((gateway) => !deposit.deposit_address || !deposit.gateway_id || gateway.id === deposit.gateway_id);
+  const addresses = deposit.deposit_address
+    ? [deposit.deposit_address]
+    : gateways.flatMap((gateway) => gateway.address ? [gateway.address] : []);
+  if (addresses.length === 0) {
+    return { status: 'mismatch', discrepancies: [`No ${network} receiving address is configured`], details };
+  }
+  const expectedCents = deposit.amount_usd_cents + (deposit.amount_tag_cents || 0);
+
+  const tx = await indexer.getTransaction(network, hash);
+  if (!tx) {
+    const ageMinutes = deposit.created_at ? (Date.now() - new Date(deposit.created_at).getTime()) / 60000 : Infinity;
+    return ageMinutes >= NOT_FOUND_GIVE_UP_MINUTES
+      ? { status: 'mismatch', discrepancies: [`Transaction not found on ${network}`], details }
+      : { status: 'not_found', discrepancies: [`Transaction not found on ${network} yet`], details };
+  }
+
+  const minConfirmations = Math.max(0, ...gateways.map((gateway) => gateway.minConfirmations ?? 0)) || undefined;
+  const result = verifyUsdtTransfer(tx, addresses, expectedCents, minConfirmations);
+
+  return {
+    status: result.verdict,
+    discrepancies: result.discrepancies,
+    details: {
+      ...details,
+      gateway_id: deposit.gateway_id ?? gateways[0]?.id,
+      deposit_address: deposit.deposit_address,
+      block_number: tx.blockNumber,
+      confirmations: result.confirmations,
+      received_cents: result.receivedCents,
+      expected_cents: expectedCents,
+    },
+  };
+}
+
+// The scheduler (service role) may sweep every deposit. Anyone else may only
+// check one deposit: their own, or any with the deposits.approve permission.
+async function authorizeCaller(
+  req: Request,
+  supabaseAdmin: SupabaseClient,
+  depositId: string | undefined
+): Promise<void> {
+  if (req.headers.get("Authorization") === `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+    return;
+  }
+  if (!depositId) {
+    throw new Error("Unauthorized");
+  }
+
+  const user = await requireUser(req, supabaseAdmin);
+  const { data: owned } = await supabaseAdmin
+    .from('deposits')
+    .select('id')
+    .eq('id', depositId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (!owned) {
+    await requirePermission(req, supabaseAdmin, 'deposits.approve');
+  }
+}
+
+// Checks pending manual crypto deposits against the chain. Deposits whose
+// transaction pays our address the full amount are confirmed; anything else
+// stays pending for CryptoApproval with the discrepancies recorded.
+//   POST { deposit_id }  check one deposit now, including one already marked mismatch
+//   POST {}              scheduled run over every deposit still waiting on the chain
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const startTime = Date.now();
+    const body = req.method === "POST" ? await req.json().catch(() => ({})) : {};
+    const depositId: string | undefined = body.deposit_id;
+    await authorizeCaller(req, supabaseAdmin, depositId);
+
+    const indexer = getChainIndexer();
+
+    let query = supabaseAdmin
+      .from('deposits')
+      .select('id, user_id, plan_id, gateway_id, amount_usd_cents, amount_tag_cents, tx_hash, network, deposit_address, created_at')
+      .eq('method', 'crypto_manual')
+      .eq('status', 'pending')
+      .not('tx_hash', 'is', null);
+
+    query = depositId
+      ? query.eq('id', depositId)
+      : query.or('verification_status.is.null,verification_status.in.(not_found,unconfirmed)')
+        .order('created_at', { ascending: true })
+        .limit(BATCH_SIZE);
+
+    const { data: deposits, error: fetchError } = await query;
+    if (fetchError) {
+      throw new Error(`Failed to fetch crypto deposits: ${fetchError.message}`);
+    }
+
+    const counts: Record<VerificationStatus | 'error', number> = {
+      verified: 0,
+      unconfirmed: 0,
+      not_found: 0,
+      mismatch: 0,
+      error: 0,
+    };
+    const results: Record<string, unknown>[] = [];
+
+    for (const deposit of (deposits || []) as CryptoDeposit[]) {
+      try {
+        const verification = await verifyDeposit(supabaseAdmin, indexer, deposit);
+        const gatewayId = (verification.details.gateway_id as string | undefined) ?? deposit.gateway_id;
+
+        await supabaseAdmin
+          .from('deposits')
+          .update({
+            verification_status: verification.status,
+            verification: {
+              ...verification.details,
+              discrepancies: verification.discrepancies,
+              checked_at: new Date().toISOString(),
+            },
+            gateway_id: gatewayId,
+            ...(verification.status === 'verified' ? { verified_at: new Date().toISOString() } : {}),
+          })
+          .eq('id', deposit.id);
+
+        let confirmation = null;
+        if (verification.status === 'verified') {
+          confirmation = await confirmPaidDeposit(
+            supabaseAdmin,
+            { ...deposit, gateway_id: gatewayId },
+            String(verification.details.tx_hash)
+          );
+        }
+
+        await supabaseAdmin
+          .from('gateway_logs')
+          .insert({
+            type: 'chain_verification',
+            payload: { ...verification, confirmation },
+            deposit_id: deposit.id
+          });
+
+        counts[verification.status]++;
+        results.push({ deposit_id: deposit.id, status: verification.status, discrepancies: verification.discrepancies });
+      } catch (depositError) {
+        console.error(`Failed to verify crypto deposit ${deposit.id}:`, depositError);
+        counts.error++;
+        results.push({ deposit_id: deposit.id, status: 'error', error: depositError.message });
+
+        // Node outages are retried on the next run without touching the deposit
+        if (!(depositError instanceof ChainIndexerError && depositError.retryable)) {
+          await supabaseAdmin
+            .from('gateway_logs')
+            .insert({
+              type: 'chain_verification',
+              payload: { error: depositError.message },
+              deposit_id: deposit.id
+            });
+        }
+      }
+    }
+
+    const checked = (deposits || []).length;
+    const executionTime = Date.now() - startTime;
+
+    await supabaseAdmin
+      .from('jobs_log')
+      .insert({
+        job: 'verify_crypto_deposits',
+        status: counts.error > 0 ? 'completed_with_errors' : 'completed',
+        payload: { indexer: indexer.name, deposit_id: depositId ?? null, checked, ...counts },
+        execution_time_ms: executionTime,
+        processed_count: checked - counts.error,
+        error_count: counts.error
+      });
+
+    console.log(`Crypto deposit verification completed:`, counts);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        checked,
+        ...counts,
+        results,
+        execution_time_ms: executionTime
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    console.error("Crypto deposit verification error:", error);
+
+    try {
+      await supabaseAdmin
+        .from('jobs_log')
+        .insert({
+          job: 'verify_crypto_deposits',
+          status: 'failed',
+          payload: { error: error.message },
+          error_count: 1
+        });
+    } catch (logError) {
+      console.error('Failed to log error:', logError);
+    }
+
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: accessErrorStatus(error, 500),
+      }
+    );
+  }
+});
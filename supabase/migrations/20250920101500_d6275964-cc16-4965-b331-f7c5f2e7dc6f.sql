@@ -0,0 +1,18 @@
+-- Link Firebase accounts to Supabase auth users so one login works across both stacks
+CREATE TABLE IF NOT EXISTS public.firebase_identities (
+  firebase_uid text PRIMARY KEY,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE UNIQUE NOT NULL,
+  email text NOT NULL,
+  last_exchanged_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_firebase_identities_user_id ON public.firebase_identities(user_id);
+
+-- Only the firebase-session edge function (service role) writes links
+ALTER TABLE public.firebase_identities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own firebase identity"
+ON public.firebase_identities
+FOR SELECT
+USING (auth.uid() = user_id);
@@ -0,0 +1,158 @@
+-- One-way migration of the Firestore users/transactions/investments collections into the Supabase ledger
+
+-- Track every imported Firestore document so reruns are idempotent
+CREATE TABLE IF NOT EXISTS public.firestore_migrations (
+  source_collection text NOT NULL,
+  source_id text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_table text NOT NULL,
+  target_id uuid,
+  migrated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (source_collection, source_id)
+);
+
+ALTER TABLE public.firestore_migrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin access to firestore migrations"
+ON public.firestore_migrations
+FOR ALL
+USING (false);
+
+-- Allow the ledger types used by the import
+--   migration: opening balance carried over from Firestore users.balance (moves money)
+--   legacy:    historical Firestore transaction, kept for display only (does not move money)
+ALTER TABLE public.wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_type_check;
+ALTER TABLE public.wallet_transactions ADD CONSTRAINT wallet_transactions_type_check
+  CHECK (type IN ('deposit', 'income', 'withdrawal', 'referral', 'welcome_bonus', 'refund', 'migration', 'legacy'));
+
+-- Firestore investments were never charged, so they land as 'imported' and are not scheduled for income
+ALTER TABLE public.deposits DROP CONSTRAINT IF EXISTS deposits_method_check;
+ALTER TABLE public.deposits ADD CONSTRAINT deposits_method_check
+  CHECK (method IN ('base', 'crypto_manual', 'stripe', 'firestore'));
+
+ALTER TABLE public.deposits DROP CONSTRAINT IF EXISTS deposits_status_check;
+ALTER TABLE public.deposits ADD CONSTRAINT deposits_status_check
+  CHECK (status IN ('pending', 'confirmed', 'completed', 'failed', 'imported'));
+
+-- Credit a Firestore users.balance to the wallet exactly once
+CREATE OR REPLACE FUNCTION public.import_firestore_balance(
+  p_user_id UUID,
+  p_source_id TEXT,
+  p_amount_cents BIGINT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance BIGINT;
+  v_tx_id UUID;
+BEGIN
+  INSERT INTO firestore_migrations (source_collection, source_id, user_id, target_table)
+  VALUES ('users', p_source_id, p_user_id, 'wallet_transactions')
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', true, 'skipped', true);
+  END IF;
+
+  IF p_amount_cents <= 0 THEN
+    RETURN jsonb_build_object('success', true, 'skipped', false, 'amount_cents', 0);
+  END IF;
+
+  UPDATE wallets
+  SET available_cents = available_cents + p_amount_cents,
+      total_earned_cents = total_earned_cents + p_amount_cents
+  WHERE user_id = p_user_id
+  RETURNING available_cents INTO v_balance;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'wallet_not_found';
+  END IF;
+
+  INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, meta)
+  VALUES (
+    p_user_id,
+    'migration',
+    p_amount_cents,
+    v_balance,
+    jsonb_build_object('description', 'Balance carried over from previous system', 'source', 'firestore', 'firestore_id', p_source_id)
+  )
+  RETURNING id INTO v_tx_id;
+
+  UPDATE firestore_migrations SET target_id = v_tx_id
+  WHERE source_collection = 'users' AND source_id = p_source_id;
+
+  RETURN jsonb_build_object('success', true, 'skipped', false, 'amount_cents', p_amount_cents);
+END;
+$$;
+
+-- Copy a Firestore transaction into wallet history without touching balances
+CREATE OR REPLACE FUNCTION public.import_firestore_transaction(
+  p_user_id UUID,
+  p_source_id TEXT,
+  p_amount_cents BIGINT,
+  p_meta JSONB,
+  p_created_at TIMESTAMPTZ
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx_id UUID;
+BEGIN
+  IF EXISTS (SELECT 1 FROM firestore_migrations WHERE source_collection = 'transactions' AND source_id = p_source_id) THEN
+    RETURN jsonb_build_object('success', true, 'skipped', true);
+  END IF;
+
+  INSERT INTO wallet_transactions (user_id, type, amount_cents, meta, created_at)
+  VALUES (
+    p_user_id,
+    'legacy',
+    GREATEST(p_amount_cents, 0),
+    COALESCE(p_meta, '{}'::jsonb) || jsonb_build_object('source', 'firestore', 'firestore_id', p_source_id),
+    COALESCE(p_created_at, now())
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO firestore_migrations (source_collection, source_id, user_id, target_table, target_id)
+  VALUES ('transactions', p_source_id, p_user_id, 'wallet_transactions', v_tx_id);
+
+  RETURN jsonb_build_object('success', true, 'skipped', false, 'id', v_tx_id);
+END;
+$$;
+
+-- Record a Firestore investment as an imported deposit
+CREATE OR REPLACE FUNCTION public.import_firestore_investment(
+  p_user_id UUID,
+  p_source_id TEXT,
+  p_plan_id UUID,
+  p_amount_cents BIGINT,
+  p_created_at TIMESTAMPTZ
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deposit_id UUID;
+BEGIN
+  IF EXISTS (SELECT 1 FROM firestore_migrations WHERE source_collection = 'investments' AND source_id = p_source_id) THEN
+    RETURN jsonb_build_object('success', true, 'skipped', true);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM plans WHERE id = p_plan_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'plan_not_found');
+  END IF;
+
+  INSERT INTO deposits (user_id, plan_id, amount_usd_cents, method, status, gateway, client_ref, created_at)
+  VALUES (p_user_id, p_plan_id, p_amount_cents, 'firestore', 'imported', 'firestore', p_source_id, COALESCE(p_created_at, now()))
+  RETURNING id INTO v_deposit_id;
+
+  INSERT INTO firestore_migrations (source_collection, source_id, user_id, target_table, target_id)
+  VALUES ('investments', p_source_id, p_user_id, 'deposits', v_deposit_id);
+
+  RETURN jsonb_build_object('success', true, 'skipped', false, 'id', v_deposit_id);
+END;
+$$;
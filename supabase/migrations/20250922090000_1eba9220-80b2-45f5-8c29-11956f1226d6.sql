@@ -0,0 +1,349 @@
+-- Append-only double-entry ledger underneath wallets
+--
+-- Every money movement is a ledger transaction (txn_id) made of legs whose
+-- amounts sum to zero. User balances live in the 'wallet:available' and
+-- 'wallet:pending' accounts; the opposite leg goes to a 'system:*' account
+-- naming where the money came from or went to. wallets.available_cents and
+-- pending_cents are kept as a cache and checked against the ledger by
+-- reconcile_wallet_balances().
+
+CREATE TABLE IF NOT EXISTS public.ledger_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  txn_id UUID NOT NULL,
+  -- No foreign keys: the ledger outlives the users and rows it describes
+  user_id UUID,
+  account TEXT NOT NULL CHECK (
+    account IN (
+      'wallet:available',
+      'wallet:pending',
+      'system:opening_balance',
+      'system:deposits',
+      'system:income',
+      'system:referrals',
+      'system:bonuses',
+      'system:refunds',
+      'system:withdrawals',
+      'system:migration'
+    )
+  ),
+  -- Signed: positive increases the account, negative decreases it
+  amount_cents BIGINT NOT NULL CHECK (amount_cents <> 0),
+  entry_type TEXT NOT NULL,
+  reference_id TEXT,
+  wallet_transaction_id UUID,
+  meta JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT wallet_accounts_have_user CHECK (account NOT LIKE 'wallet:%' OR user_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_user_account ON public.ledger_entries(user_id, account);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_txn_id ON public.ledger_entries(txn_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_reference_id ON public.ledger_entries(reference_id);
+
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ledger entries"
+ON public.ledger_entries
+FOR SELECT
+USING (auth.uid() = user_id AND account LIKE 'wallet:%');
+
+-- Entries are never edited or removed; corrections are new transactions
+CREATE OR REPLACE FUNCTION public.prevent_ledger_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'ledger_entries is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_entries_append_only ON public.ledger_entries;
+CREATE TRIGGER ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON public.ledger_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_ledger_mutation();
+
+-- Checked at commit so that all legs of a transaction can be inserted first
+CREATE OR REPLACE FUNCTION public.check_ledger_txn_balanced()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT SUM(amount_cents) FROM ledger_entries WHERE txn_id = NEW.txn_id) <> 0 THEN
+    RAISE EXCEPTION 'ledger transaction % is unbalanced', NEW.txn_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_entries_balanced ON public.ledger_entries;
+CREATE CONSTRAINT TRIGGER ledger_entries_balanced
+  AFTER INSERT ON public.ledger_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_ledger_txn_balanced();
+
+-- Move p_amount_cents from one account to another as a single balanced transaction
+CREATE OR REPLACE FUNCTION public.post_ledger_transfer(
+  p_user_id UUID,
+  p_from_account TEXT,
+  p_to_account TEXT,
+  p_amount_cents BIGINT,
+  p_entry_type TEXT,
+  p_reference_id TEXT DEFAULT NULL,
+  p_wallet_transaction_id UUID DEFAULT NULL,
+  p_meta JSONB DEFAULT NULL
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_txn_id UUID := gen_random_uuid();
+BEGIN
+  IF p_amount_cents <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO ledger_entries (txn_id, user_id, account, amount_cents, entry_type, reference_id, wallet_transaction_id, meta)
+  VALUES
+    (v_txn_id, p_user_id, p_from_account, -p_amount_cents, p_entry_type, p_reference_id, p_wallet_transaction_id, p_meta),
+    (v_txn_id, p_user_id, p_to_account, p_amount_cents, p_entry_type, p_reference_id, p_wallet_transaction_id, p_meta);
+
+  RETURN v_txn_id;
+END;
+$$;
+
+-- Every wallet_transactions row describes a movement on the user's wallet;
+-- journal it so the ledger sees all writers, including edge functions that
+-- update wallets directly. 'legacy' rows are display-only history.
+CREATE OR REPLACE FUNCTION public.journal_wallet_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE NEW.type
+    WHEN 'deposit' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:deposits', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'income' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:income', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'referral' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:referrals', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'welcome_bonus' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:bonuses', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'migration' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:migration', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'refund' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'system:refunds', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    -- Withdrawals are reserved into pending first; the transaction records the payout leaving pending
+    WHEN 'withdrawal' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:pending', 'system:withdrawals', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS journal_wallet_transaction_trigger ON public.wallet_transactions;
+CREATE TRIGGER journal_wallet_transaction_trigger
+  AFTER INSERT ON public.wallet_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.journal_wallet_transaction();
+
+-- Opening balances so existing wallets start out reconciled
+INSERT INTO public.ledger_entries (txn_id, user_id, account, amount_cents, entry_type, meta)
+SELECT txn_id, user_id, account, amount_cents, 'opening_balance', '{"description": "Opening balance"}'::jsonb
+FROM (
+  SELECT gen_random_uuid() AS txn_id, user_id, available_cents, pending_cents
+  FROM public.wallets
+  WHERE COALESCE(available_cents, 0) <> 0 OR COALESCE(pending_cents, 0) <> 0
+) w
+CROSS JOIN LATERAL (
+  VALUES
+    ('wallet:available', COALESCE(w.available_cents, 0)),
+    ('wallet:pending', COALESCE(w.pending_cents, 0)),
+    ('system:opening_balance', -(COALESCE(w.available_cents, 0) + COALESCE(w.pending_cents, 0)))
+) AS legs(account, amount_cents)
+WHERE legs.amount_cents <> 0;
+
+-- Balances can only change through the functions below, never from the client
+DROP POLICY IF EXISTS "Users can update their own wallet" ON public.wallets;
+DROP POLICY IF EXISTS "Users can update their own wallets" ON public.wallets;
+DROP POLICY IF EXISTS "Users can insert their own transactions" ON public.wallet_transactions;
+
+-- Reserve moves money from available to pending in the ledger as well
+CREATE OR REPLACE FUNCTION public.reserve_withdrawal(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_fee INTEGER
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.wallets
+  SET available_cents = available_cents - p_amount,
+      pending_cents = pending_cents + p_amount
+  WHERE user_id = p_user_id AND available_cents >= p_amount;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'insufficient_funds';
+  END IF;
+
+  PERFORM post_ledger_transfer(
+    p_user_id,
+    'wallet:available',
+    'wallet:pending',
+    p_amount,
+    'withdrawal_reserve',
+    NULL,
+    NULL,
+    jsonb_build_object('fee_cents', p_fee)
+  );
+END;
+$$;
+
+-- Payment credit, rewritten against the current wallet_transactions columns
+CREATE OR REPLACE FUNCTION public.handle_successful_payment(
+  p_payment_intent_id TEXT,
+  p_wallet_id UUID,
+  p_user_id UUID,
+  p_amount BIGINT,
+  p_currency VARCHAR(3)
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet_balance BIGINT;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM wallet_transactions
+    WHERE reference_id = p_payment_intent_id AND type = 'deposit'
+  ) THEN
+    RAISE NOTICE 'Payment % already processed', p_payment_intent_id;
+    RETURN;
+  END IF;
+
+  UPDATE wallets
+  SET available_cents = available_cents + p_amount,
+      total_earned_cents = total_earned_cents + p_amount,
+      updated_at = NOW()
+  WHERE id = p_wallet_id AND user_id = p_user_id
+  RETURNING available_cents INTO v_wallet_balance;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'wallet_not_found';
+  END IF;
+
+  INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+  VALUES (
+    p_user_id,
+    'deposit',
+    p_amount,
+    v_wallet_balance,
+    p_payment_intent_id,
+    jsonb_build_object('description', 'Wallet top-up via Stripe', 'currency', p_currency, 'source', 'stripe')
+  );
+
+  UPDATE stripe_payment_intents
+  SET status = 'succeeded', updated_at = NOW()
+  WHERE id = p_payment_intent_id;
+END;
+$$;
+
+-- Refunds used to record the transaction even when the wallet could not
+-- cover the debit; now the whole refund fails instead
+CREATE OR REPLACE FUNCTION public.process_refund(
+  p_payment_intent_id TEXT,
+  p_wallet_id UUID,
+  p_user_id UUID,
+  p_amount BIGINT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet_balance BIGINT;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM wallet_transactions
+    WHERE reference_id = p_payment_intent_id AND type = 'refund'
+  ) THEN
+    RAISE NOTICE 'Refund for payment % already processed', p_payment_intent_id;
+    RETURN;
+  END IF;
+
+  UPDATE wallets
+  SET available_cents = available_cents - p_amount,
+      updated_at = NOW()
+  WHERE id = p_wallet_id
+    AND user_id = p_user_id
+    AND available_cents >= p_amount
+  RETURNING available_cents INTO v_wallet_balance;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'insufficient_funds';
+  END IF;
+
+  INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+  VALUES (
+    p_user_id,
+    'refund',
+    p_amount,
+    v_wallet_balance,
+    p_payment_intent_id,
+    jsonb_build_object('description', 'Refund processed', 'source', 'stripe')
+  );
+
+  UPDATE stripe_payment_intents
+  SET status = 'refunded', updated_at = NOW()
+  WHERE id = p_payment_intent_id;
+END;
+$$;
+
+-- Wallets whose cached balances differ from the sum of their ledger entries
+CREATE OR REPLACE FUNCTION public.reconcile_wallet_balances()
+RETURNS TABLE (
+  user_id UUID,
+  available_cents BIGINT,
+  ledger_available_cents BIGINT,
+  pending_cents BIGINT,
+  ledger_pending_cents BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    w.user_id,
+    COALESCE(w.available_cents, 0)::BIGINT,
+    COALESCE(l.available, 0)::BIGINT,
+    COALESCE(w.pending_cents, 0)::BIGINT,
+    COALESCE(l.pending, 0)::BIGINT
+  FROM wallets w
+  LEFT JOIN (
+    SELECT
+      le.user_id,
+      SUM(le.amount_cents) FILTER (WHERE le.account = 'wallet:available') AS available,
+      SUM(le.amount_cents) FILTER (WHERE le.account = 'wallet:pending') AS pending
+    FROM ledger_entries le
+    WHERE le.account LIKE 'wallet:%'
+    GROUP BY le.user_id
+  ) l ON l.user_id = w.user_id
+  WHERE COALESCE(w.available_cents, 0) <> COALESCE(l.available, 0)
+     OR COALESCE(w.pending_cents, 0) <> COALESCE(l.pending, 0);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_ledger_transfer(UUID, TEXT, TEXT, BIGINT, TEXT, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reconcile_wallet_balances() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,177 @@
+-- Roles and permissions, replacing the profiles.phone/country admin sentinel
+
+CREATE TABLE IF NOT EXISTS public.user_roles (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'finance', 'support')),
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  role TEXT NOT NULL CHECK (role IN ('admin', 'finance', 'support')),
+  permission TEXT NOT NULL CHECK (
+    permission IN (
+      'deposits.approve',
+      'withdrawals.approve',
+      'plans.edit',
+      'gateways.manage',
+      'audit_logs.view',
+      'users.view',
+      'roles.manage'
+    )
+  ),
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'deposits.approve'),
+  ('admin', 'withdrawals.approve'),
+  ('admin', 'plans.edit'),
+  ('admin', 'gateways.manage'),
+  ('admin', 'audit_logs.view'),
+  ('admin', 'users.view'),
+  ('admin', 'roles.manage'),
+  ('finance', 'deposits.approve'),
+  ('finance', 'withdrawals.approve'),
+  ('finance', 'audit_logs.view'),
+  ('finance', 'users.view'),
+  ('support', 'users.view')
+ON CONFLICT DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_user_id ON public.user_roles(user_id);
+
+-- SECURITY DEFINER so policies on user_roles itself can call these without recursing
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_roles WHERE user_id = _user_id AND role = _role
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    JOIN role_permissions rp ON rp.role = ur.role
+    WHERE ur.user_id = _user_id AND rp.permission = _permission
+  );
+$$;
+
+-- Roles and permissions of the calling user, for route guards in the client
+CREATE OR REPLACE FUNCTION public.get_my_access()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'roles', COALESCE((SELECT jsonb_agg(DISTINCT role) FROM user_roles WHERE user_id = auth.uid()), '[]'::jsonb),
+    'permissions', COALESCE((
+      SELECT jsonb_agg(DISTINCT rp.permission)
+      FROM user_roles ur
+      JOIN role_permissions rp ON rp.role = ur.role
+      WHERE ur.user_id = auth.uid()
+    ), '[]'::jsonb)
+  );
+$$;
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own roles"
+ON public.user_roles
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Role managers can manage roles"
+ON public.user_roles
+FOR ALL
+USING (public.has_permission(auth.uid(), 'roles.manage'))
+WITH CHECK (public.has_permission(auth.uid(), 'roles.manage'));
+
+CREATE POLICY "Role permissions are viewable by authenticated users"
+ON public.role_permissions
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Seed the first admins by user id. Users can set their own phone and country,
+-- so the sentinel cannot say who the admins are; list their auth.users ids
+-- here. Everyone after them is granted a role through roles.manage.
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'admin'
+FROM auth.users
+WHERE id = ANY (ARRAY[
+  -- '00000000-0000-0000-0000-000000000000'
+]::UUID[])
+ON CONFLICT DO NOTHING;
+
+-- Replace sentinel-based policies
+DROP POLICY IF EXISTS "Admins can view all crypto deposits" ON public.crypto_deposits;
+CREATE POLICY "Deposit approvers can manage crypto deposits"
+ON public.crypto_deposits
+FOR ALL
+USING (public.has_permission(auth.uid(), 'deposits.approve'));
+
+DROP POLICY IF EXISTS "Admins can manage audit logs" ON public.audit_logs;
+CREATE POLICY "Audit log viewers can view audit logs"
+ON public.audit_logs
+FOR SELECT
+USING (public.has_permission(auth.uid(), 'audit_logs.view'));
+
+DROP POLICY IF EXISTS "Admins can view all crypto proofs" ON storage.objects;
+CREATE POLICY "Deposit approvers can view all crypto proofs"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'crypto-proofs'
+  AND public.has_permission(auth.uid(), 'deposits.approve')
+);
+
+DROP POLICY IF EXISTS "Only admins can manage payment gateways" ON public.payment_gateways;
+DROP POLICY IF EXISTS "Only admins can manage gateways" ON public.payment_gateways;
+CREATE POLICY "Gateway managers can manage payment gateways"
+ON public.payment_gateways
+FOR ALL
+USING (public.has_permission(auth.uid(), 'gateways.manage'));
+
+-- Admin pages read across users
+CREATE POLICY "Deposit approvers can view all deposits"
+ON public.deposits
+FOR SELECT
+USING (public.has_permission(auth.uid(), 'deposits.approve'));
+
+CREATE POLICY "Deposit approvers can update deposits"
+ON public.deposits
+FOR UPDATE
+USING (public.has_permission(auth.uid(), 'deposits.approve'));
+
+CREATE POLICY "Withdrawal approvers can view all withdrawals"
+ON public.withdrawals
+FOR SELECT
+USING (public.has_permission(auth.uid(), 'withdrawals.approve'));
+
+CREATE POLICY "Staff can view all profiles"
+ON public.profiles
+FOR SELECT
+USING (public.has_permission(auth.uid(), 'users.view'));
+
+CREATE POLICY "Plan editors can manage plans"
+ON public.plans
+FOR ALL
+USING (public.has_permission(auth.uid(), 'plans.edit'))
+WITH CHECK (public.has_permission(auth.uid(), 'plans.edit'));
@@ -0,0 +1,148 @@
+-- Admin review of withdrawals before they are paid out
+--   pending_review: submitted by the user, waiting for an admin
+--   on_hold:        parked by an admin for investigation
+--   queued:         approved, picked up by process-withdrawals
+--   rejected:       refused by an admin, reserved funds returned
+
+ALTER TABLE public.withdrawals DROP CONSTRAINT IF EXISTS withdrawals_status_check;
+ALTER TABLE public.withdrawals ADD CONSTRAINT withdrawals_status_check
+  CHECK (status IN ('pending_review', 'on_hold', 'queued', 'processing', 'completed', 'failed', 'rejected'));
+
+ALTER TABLE public.withdrawals ALTER COLUMN status SET DEFAULT 'pending_review';
+
+ALTER TABLE public.withdrawals ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.withdrawals ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.withdrawals ADD COLUMN IF NOT EXISTS review_note TEXT;
+
+-- Users cannot skip review by inserting a withdrawal that is already queued
+CREATE OR REPLACE FUNCTION public.enforce_withdrawal_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated' THEN
+    NEW.status := 'pending_review';
+    NEW.retry_count := 0;
+    NEW.next_attempt := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_withdrawal_review_trigger ON public.withdrawals;
+CREATE TRIGGER enforce_withdrawal_review_trigger
+  BEFORE INSERT ON public.withdrawals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_withdrawal_review();
+
+-- Return a withdrawal's reservation from pending to available
+CREATE OR REPLACE FUNCTION public.release_withdrawal_reservation(
+  p_withdrawal_id UUID,
+  p_user_id UUID,
+  p_amount_cents BIGINT,
+  p_reason TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE wallets
+  SET pending_cents = pending_cents - p_amount_cents,
+      available_cents = available_cents + p_amount_cents
+  WHERE user_id = p_user_id AND pending_cents >= p_amount_cents;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'reservation_not_found';
+  END IF;
+
+  PERFORM post_ledger_transfer(
+    p_user_id,
+    'wallet:pending',
+    'wallet:available',
+    p_amount_cents,
+    'withdrawal_release',
+    p_withdrawal_id::text,
+    NULL,
+    jsonb_build_object('reason', p_reason)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.fail_withdrawal(
+  p_withdrawal_id UUID,
+  p_reason TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal withdrawals%ROWTYPE;
+BEGIN
+  SELECT * INTO v_withdrawal FROM withdrawals WHERE id = p_withdrawal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'withdrawal_not_found');
+  END IF;
+
+  IF v_withdrawal.status = 'failed' THEN
+    RETURN jsonb_build_object('success', true, 'skipped', true);
+  END IF;
+
+  IF v_withdrawal.status NOT IN ('queued', 'processing') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_status', 'status', v_withdrawal.status);
+  END IF;
+
+  PERFORM release_withdrawal_reservation(p_withdrawal_id, v_withdrawal.user_id, v_withdrawal.amount_cents, p_reason);
+
+  UPDATE withdrawals
+  SET status = 'failed',
+      processed_at = now(),
+      last_error = p_reason
+  WHERE id = p_withdrawal_id;
+
+  RETURN jsonb_build_object('success', true, 'skipped', false);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_withdrawal(
+  p_withdrawal_id UUID,
+  p_admin_id UUID,
+  p_reason TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal withdrawals%ROWTYPE;
+BEGIN
+  SELECT * INTO v_withdrawal FROM withdrawals WHERE id = p_withdrawal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'withdrawal_not_found');
+  END IF;
+
+  IF v_withdrawal.status NOT IN ('pending_review', 'on_hold', 'queued') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_status', 'status', v_withdrawal.status);
+  END IF;
+
+  PERFORM release_withdrawal_reservation(p_withdrawal_id, v_withdrawal.user_id, v_withdrawal.amount_cents, p_reason);
+
+  UPDATE withdrawals
+  SET status = 'rejected',
+      reviewed_by = p_admin_id,
+      reviewed_at = now(),
+      review_note = p_reason,
+      processed_at = now()
+  WHERE id = p_withdrawal_id;
+
+  RETURN jsonb_build_object('success', true, 'refunded_cents', v_withdrawal.amount_cents);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_withdrawal_reservation(UUID, UUID, BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_withdrawal(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reject_withdrawal(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,109 @@
+-- Withdrawal fees move server-side. Each schedule row covers an amount band
+-- for one payout currency and method; the lowest active band sets the
+-- minimum withdrawal for that currency.
+CREATE TABLE IF NOT EXISTS public.fee_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  currency TEXT NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('usdt', 'bank')),
+  tier TEXT NOT NULL DEFAULT 'standard',
+  min_amount_cents BIGINT NOT NULL DEFAULT 0 CHECK (min_amount_cents >= 0),
+  max_amount_cents BIGINT CHECK (max_amount_cents IS NULL OR max_amount_cents >= min_amount_cents),
+  fee_percent NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (fee_percent >= 0 AND fee_percent < 100),
+  fee_flat_cents BIGINT NOT NULL DEFAULT 0 CHECK (fee_flat_cents >= 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (currency, method, tier)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fee_schedules_lookup
+  ON public.fee_schedules (currency, method, min_amount_cents)
+  WHERE active;
+
+ALTER TABLE public.fee_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active fee schedules are viewable by everyone"
+ON public.fee_schedules
+FOR SELECT
+USING (active = true);
+
+CREATE POLICY "Admins can manage fee schedules"
+ON public.fee_schedules
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_fee_schedules_updated_at
+  BEFORE UPDATE ON public.fee_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The rates WithdrawalModal used to hardcode: 8% for USDT, 15% for Naira, $2 minimum
+INSERT INTO public.fee_schedules (currency, method, tier, min_amount_cents, fee_percent)
+VALUES
+  ('USD', 'usdt', 'standard', 200, 8),
+  ('NGN', 'bank', 'standard', 200, 15)
+ON CONFLICT (currency, method, tier) DO NOTHING;
+
+ALTER TABLE public.withdrawals
+  ADD COLUMN IF NOT EXISTS fee_schedule_id UUID REFERENCES public.fee_schedules(id) ON DELETE SET NULL;
+
+-- Reserve the amount and record the withdrawal in one transaction. Only the
+-- create-withdrawal edge function calls this, after computing the fee and FX
+-- conversion itself.
+CREATE OR REPLACE FUNCTION public.create_withdrawal(
+  p_user_id UUID,
+  p_amount_cents BIGINT,
+  p_fee_cents BIGINT,
+  p_currency TEXT,
+  p_fee_schedule_id UUID,
+  p_fx_rate NUMERIC,
+  p_local_amount NUMERIC
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal_id UUID := gen_random_uuid();
+BEGIN
+  IF p_amount_cents <= 0 OR p_fee_cents < 0 OR p_fee_cents >= p_amount_cents THEN
+    RAISE EXCEPTION 'invalid_amount';
+  END IF;
+
+  UPDATE wallets
+  SET available_cents = available_cents - p_amount_cents,
+      pending_cents = pending_cents + p_amount_cents
+  WHERE user_id = p_user_id AND available_cents >= p_amount_cents;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'insufficient_funds';
+  END IF;
+
+  INSERT INTO withdrawals (
+    id, user_id, amount_cents, fee_cents, net_cents, status,
+    local_currency, local_amount, fx_rate, fx_at, fee_schedule_id
+  ) VALUES (
+    v_withdrawal_id, p_user_id, p_amount_cents, p_fee_cents, p_amount_cents - p_fee_cents, 'pending_review',
+    p_currency, p_local_amount, p_fx_rate, CASE WHEN p_fx_rate IS NULL THEN NULL ELSE now() END, p_fee_schedule_id
+  );
+
+  PERFORM post_ledger_transfer(
+    p_user_id,
+    'wallet:available',
+    'wallet:pending',
+    p_amount_cents,
+    'withdrawal_reserve',
+    v_withdrawal_id::text,
+    NULL,
+    jsonb_build_object('fee_cents', p_fee_cents)
+  );
+
+  RETURN v_withdrawal_id;
+END;
+$$;
+
+-- Withdrawals are now created only through create-withdrawal
+DROP POLICY IF EXISTS "Users can create their own withdrawals" ON public.withdrawals;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_withdrawal(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_withdrawal(UUID, BIGINT, BIGINT, TEXT, UUID, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,113 @@
+-- Withdrawal quotes: the fee and FX rate shown to the user, locked until
+-- expires_at. A withdrawal can only be created by consuming an unexpired
+-- quote, so withdrawals.fx_rate/local_amount always match what was confirmed.
+CREATE TABLE IF NOT EXISTS public.withdrawal_quotes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  fee_cents BIGINT NOT NULL CHECK (fee_cents >= 0),
+  net_cents BIGINT NOT NULL CHECK (net_cents > 0),
+  currency TEXT NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('usdt', 'bank')),
+  tier TEXT NOT NULL,
+  fee_percent NUMERIC(5, 2) NOT NULL,
+  fee_flat_cents BIGINT NOT NULL,
+  fee_schedule_id UUID REFERENCES public.fee_schedules(id) ON DELETE SET NULL,
+  fx_rate NUMERIC,
+  local_amount NUMERIC,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  withdrawal_id UUID REFERENCES public.withdrawals(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_quotes_user ON public.withdrawal_quotes (user_id, created_at DESC);
+
+ALTER TABLE public.withdrawal_quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own withdrawal quotes"
+ON public.withdrawal_quotes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+ALTER TABLE public.withdrawals
+  ADD COLUMN IF NOT EXISTS quote_id UUID REFERENCES public.withdrawal_quotes(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_withdrawals_quote_id
+  ON public.withdrawals (quote_id)
+  WHERE quote_id IS NOT NULL;
+
+-- Replaced by create_withdrawal_from_quote
+DROP FUNCTION IF EXISTS public.create_withdrawal(UUID, BIGINT, BIGINT, TEXT, UUID, NUMERIC, NUMERIC);
+
+-- Reserve the quoted amount and record the withdrawal, consuming the quote.
+-- fx_at is the time the rate was quoted, not the time of confirmation.
+CREATE OR REPLACE FUNCTION public.create_withdrawal_from_quote(
+  p_quote_id UUID,
+  p_user_id UUID
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote withdrawal_quotes%ROWTYPE;
+  v_withdrawal_id UUID := gen_random_uuid();
+BEGIN
+  SELECT * INTO v_quote
+  FROM withdrawal_quotes
+  WHERE id = p_quote_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'quote_not_found';
+  END IF;
+
+  IF v_quote.consumed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'quote_already_used';
+  END IF;
+
+  IF v_quote.expires_at <= now() THEN
+    RAISE EXCEPTION 'quote_expired';
+  END IF;
+
+  UPDATE wallets
+  SET available_cents = available_cents - v_quote.amount_cents,
+      pending_cents = pending_cents + v_quote.amount_cents
+  WHERE user_id = p_user_id AND available_cents >= v_quote.amount_cents;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'insufficient_funds';
+  END IF;
+
+  INSERT INTO withdrawals (
+    id, user_id, amount_cents, fee_cents, net_cents, status,
+    local_currency, local_amount, fx_rate, fx_at, fee_schedule_id, quote_id
+  ) VALUES (
+    v_withdrawal_id, p_user_id, v_quote.amount_cents, v_quote.fee_cents, v_quote.net_cents, 'pending_review',
+    v_quote.currency, v_quote.local_amount, v_quote.fx_rate,
+    CASE WHEN v_quote.fx_rate IS NULL THEN NULL ELSE v_quote.created_at END,
+    v_quote.fee_schedule_id, v_quote.id
+  );
+
+  UPDATE withdrawal_quotes
+  SET consumed_at = now(),
+      withdrawal_id = v_withdrawal_id
+  WHERE id = v_quote.id;
+
+  PERFORM post_ledger_transfer(
+    p_user_id,
+    'wallet:available',
+    'wallet:pending',
+    v_quote.amount_cents,
+    'withdrawal_reserve',
+    v_withdrawal_id::text,
+    NULL,
+    jsonb_build_object('fee_cents', v_quote.fee_cents, 'quote_id', v_quote.id)
+  );
+
+  RETURN v_withdrawal_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_withdrawal_from_quote(UUID, UUID) FROM PUBLIC, anon, authenticated;
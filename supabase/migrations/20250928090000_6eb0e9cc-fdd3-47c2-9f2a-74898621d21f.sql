@@ -0,0 +1,19 @@
+-- Income drop schedule per plan (evaluated in UTC by _shared/income-schedule.ts)
+--   interval: every schedule_interval_minutes after the previous drop
+--   daily:    every day at schedule_time_of_day
+--   cron:     five-field cron expression in schedule_cron
+-- skip_weekends moves drops that land on Saturday or Sunday to Monday.
+-- Existing plans keep the previous 22-hour cadence.
+ALTER TABLE public.plans
+  ADD COLUMN IF NOT EXISTS schedule_kind TEXT NOT NULL DEFAULT 'interval',
+  ADD COLUMN IF NOT EXISTS schedule_interval_minutes INTEGER DEFAULT 1320,
+  ADD COLUMN IF NOT EXISTS schedule_time_of_day TIME,
+  ADD COLUMN IF NOT EXISTS schedule_cron TEXT,
+  ADD COLUMN IF NOT EXISTS skip_weekends BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.plans DROP CONSTRAINT IF EXISTS plans_schedule_check;
+ALTER TABLE public.plans ADD CONSTRAINT plans_schedule_check CHECK (
+  (schedule_kind = 'interval' AND schedule_interval_minutes > 0)
+  OR (schedule_kind = 'daily' AND schedule_time_of_day IS NOT NULL)
+  OR (schedule_kind = 'cron' AND schedule_cron IS NOT NULL AND array_length(regexp_split_to_array(trim(schedule_cron), '\s+'), 1) = 5)
+);
@@ -0,0 +1,35 @@
+-- Deposits pick their payment provider from payment_gateways by the user's
+-- country and currency (see _shared/payments.ts). country_code '*' matches
+-- any country; when several gateways match, the lowest priority wins and an
+-- exact country match beats '*'.
+ALTER TABLE public.payment_gateways
+  ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'basepay',
+  ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 100;
+
+ALTER TABLE public.payment_gateways DROP CONSTRAINT IF EXISTS payment_gateways_provider_check;
+ALTER TABLE public.payment_gateways ADD CONSTRAINT payment_gateways_provider_check
+  CHECK (provider IN ('basepay', 'stripe', 'manual_crypto'));
+
+CREATE INDEX IF NOT EXISTS idx_payment_gateways_lookup
+  ON public.payment_gateways (currency, country_code, priority)
+  WHERE is_active;
+
+-- The seeded Nigeria gateway is the Basepay NGN collection
+UPDATE public.payment_gateways
+SET provider = 'basepay',
+    config = config || '{"bank_code": "NGR044", "pay_type": "523"}'::jsonb
+WHERE country_code = 'NG' AND currency = 'NGN';
+
+INSERT INTO public.payment_gateways (name, country_code, currency, provider, priority, config)
+SELECT 'Card (Stripe)', '*', 'USD', 'stripe', 100, '{}'::jsonb
+WHERE NOT EXISTS (SELECT 1 FROM public.payment_gateways WHERE provider = 'stripe');
+
+-- Same address the deposit page has been showing
+INSERT INTO public.payment_gateways (name, country_code, currency, provider, priority, config)
+SELECT 'USDT (BEP20)', '*', 'USDT', 'manual_crypto', 100,
+  '{"address": "0x34FEcfBE68b7DC59aebdF42373aac8c9DdEcBd83", "network": "BEP20"}'::jsonb
+WHERE NOT EXISTS (SELECT 1 FROM public.payment_gateways WHERE provider = 'manual_crypto');
+
+-- Which gateway a deposit was initiated through
+ALTER TABLE public.deposits
+  ADD COLUMN IF NOT EXISTS gateway_id UUID REFERENCES public.payment_gateways(id) ON DELETE SET NULL;
@@ -0,0 +1,181 @@
+-- One Basepay callback handler (_shared/basepay-callback.ts) for what used to
+-- be basepay-webhook, basepay-webhook-v2 and webhookDeposit.
+--
+-- webhook_events.event_id identifies a callback (order number + result), so a
+-- gateway retry of the same callback is stored once and applied once. Earlier
+-- migrations dropped event_id on some databases; it is restored here.
+ALTER TABLE public.webhook_events
+  ADD COLUMN IF NOT EXISTS event_id TEXT,
+  ADD COLUMN IF NOT EXISTS gateway_name TEXT,
+  ADD COLUMN IF NOT EXISTS deposit_id UUID REFERENCES public.deposits(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS error TEXT,
+  ADD COLUMN IF NOT EXISTS replay_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_replayed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS last_replayed_by UUID;
+
+UPDATE public.webhook_events SET event_id = id::text WHERE event_id IS NULL;
+UPDATE public.webhook_events SET gateway = COALESCE(gateway, gateway_name, 'basepay') WHERE gateway IS NULL;
+
+ALTER TABLE public.webhook_events ALTER COLUMN event_id SET NOT NULL;
+ALTER TABLE public.webhook_events ALTER COLUMN gateway_name DROP NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_event_id ON public.webhook_events (event_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_processed_at ON public.webhook_events (processed_at DESC);
+
+CREATE POLICY "Gateway managers can view webhook events"
+ON public.webhook_events
+FOR SELECT
+USING (public.has_permission(auth.uid(), 'gateways.manage'));
+
+-- Gateway-funded bonus on top of a deposit (payment_gateways.config.deposit_bonus_percent)
+ALTER TABLE public.wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_type_check;
+ALTER TABLE public.wallet_transactions ADD CONSTRAINT wallet_transactions_type_check
+  CHECK (type IN ('deposit', 'deposit_bonus', 'income', 'withdrawal', 'referral', 'welcome_bonus', 'refund', 'migration', 'legacy'));
+
+CREATE OR REPLACE FUNCTION public.journal_wallet_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE NEW.type
+    WHEN 'deposit' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:deposits', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'deposit_bonus' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:bonuses', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'income' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:income', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'referral' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:referrals', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'welcome_bonus' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:bonuses', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'migration' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:migration', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'refund' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'system:refunds', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    -- Withdrawals are reserved into pending first; the transaction records the payout leaving pending
+    WHEN 'withdrawal' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:pending', 'system:withdrawals', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Confirm a paid deposit: status, wallet credit, optional bonus, first income
+-- drop and the webhook event's processed flag, all in one transaction. The
+-- referral bonus follows from process_referral_bonus_trigger on the status
+-- change. Safe to call again for the same deposit; later calls only mark the
+-- webhook event processed.
+CREATE OR REPLACE FUNCTION public.confirm_deposit(
+  p_deposit_id UUID,
+  p_gateway_ref TEXT DEFAULT NULL,
+  p_bonus_cents BIGINT DEFAULT 0,
+  p_first_drop_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_webhook_event_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deposit deposits%ROWTYPE;
+  v_payout_per_drop BIGINT;
+  v_balance BIGINT;
+  v_bonus BIGINT := GREATEST(COALESCE(p_bonus_cents, 0), 0);
+  v_already_confirmed BOOLEAN := false;
+BEGIN
+  SELECT * INTO v_deposit
+  FROM deposits
+  WHERE id = p_deposit_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'deposit_not_found';
+  END IF;
+
+  IF v_deposit.status IN ('confirmed', 'completed') THEN
+    v_already_confirmed := true;
+  ELSIF v_deposit.status NOT IN ('pending', 'failed') THEN
+    RAISE EXCEPTION 'deposit_not_confirmable';
+  ELSE
+    UPDATE deposits
+    SET status = 'confirmed',
+        gateway_ref = COALESCE(p_gateway_ref, gateway_ref),
+        confirmed_at = now()
+    WHERE id = v_deposit.id;
+
+    UPDATE wallets
+    SET available_cents = available_cents + v_deposit.amount_usd_cents + v_bonus,
+        total_earned_cents = total_earned_cents + v_deposit.amount_usd_cents + v_bonus,
+        updated_at = now()
+    WHERE user_id = v_deposit.user_id
+    RETURNING available_cents INTO v_balance;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'wallet_not_found';
+    END IF;
+
+    INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+    VALUES (
+      v_deposit.user_id,
+      'deposit',
+      v_deposit.amount_usd_cents,
+      v_balance - v_bonus,
+      v_deposit.id,
+      jsonb_build_object(
+        'description', 'Deposit confirmed',
+        'deposit_id', v_deposit.id,
+        'mch_order_no', v_deposit.mch_order_no,
+        'gateway_ref', COALESCE(p_gateway_ref, v_deposit.gateway_ref),
+        'local_amount', v_deposit.local_amount,
+        'local_currency', v_deposit.local_currency,
+        'fx_rate', v_deposit.fx_rate
+      )
+    );
+
+    IF v_bonus > 0 THEN
+      INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+      VALUES (
+        v_deposit.user_id,
+        'deposit_bonus',
+        v_bonus,
+        v_balance,
+        v_deposit.id,
+        jsonb_build_object('description', 'Deposit bonus', 'deposit_id', v_deposit.id)
+      );
+    END IF;
+
+    IF p_first_drop_at IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM income_events WHERE deposit_id = v_deposit.id
+    ) THEN
+      SELECT payout_per_drop_usd INTO v_payout_per_drop FROM plans WHERE id = v_deposit.plan_id;
+
+      IF v_payout_per_drop IS NOT NULL THEN
+        INSERT INTO income_events (deposit_id, user_id, amount_cents, drop_number, due_at, status)
+        VALUES (v_deposit.id, v_deposit.user_id, v_payout_per_drop, 1, p_first_drop_at, 'pending');
+      END IF;
+    END IF;
+  END IF;
+
+  IF p_webhook_event_id IS NOT NULL THEN
+    UPDATE webhook_events
+    SET processed = true,
+        error = NULL,
+        deposit_id = v_deposit.id
+    WHERE id = p_webhook_event_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'deposit_id', v_deposit.id,
+    'already_confirmed', v_already_confirmed,
+    'amount_cents', v_deposit.amount_usd_cents,
+    'bonus_cents', CASE WHEN v_already_confirmed THEN 0 ELSE v_bonus END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.confirm_deposit(UUID, TEXT, BIGINT, TIMESTAMP WITH TIME ZONE, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,122 @@
+-- Pending deposit reconciliation (reconcile-deposits): orders whose callback
+-- never arrived are looked up with the gateway and confirmed or failed; orders
+-- still unpaid after the TTL are marked 'expired'.
+ALTER TABLE public.deposits DROP CONSTRAINT IF EXISTS deposits_status_check;
+ALTER TABLE public.deposits ADD CONSTRAINT deposits_status_check
+  CHECK (status IN ('pending', 'confirmed', 'completed', 'failed', 'expired', 'imported'));
+
+CREATE INDEX IF NOT EXISTS idx_deposits_pending_created_at
+  ON public.deposits (created_at)
+  WHERE status = 'pending';
+
+-- confirm_deposit as before, except that a payment landing after its order
+-- expired is still credited
+CREATE OR REPLACE FUNCTION public.confirm_deposit(
+  p_deposit_id UUID,
+  p_gateway_ref TEXT DEFAULT NULL,
+  p_bonus_cents BIGINT DEFAULT 0,
+  p_first_drop_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_webhook_event_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deposit deposits%ROWTYPE;
+  v_payout_per_drop BIGINT;
+  v_balance BIGINT;
+  v_bonus BIGINT := GREATEST(COALESCE(p_bonus_cents, 0), 0);
+  v_already_confirmed BOOLEAN := false;
+BEGIN
+  SELECT * INTO v_deposit
+  FROM deposits
+  WHERE id = p_deposit_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'deposit_not_found';
+  END IF;
+
+  IF v_deposit.status IN ('confirmed', 'completed') THEN
+    v_already_confirmed := true;
+  ELSIF v_deposit.status NOT IN ('pending', 'failed', 'expired') THEN
+    RAISE EXCEPTION 'deposit_not_confirmable';
+  ELSE
+    UPDATE deposits
+    SET status = 'confirmed',
+        gateway_ref = COALESCE(p_gateway_ref, gateway_ref),
+        confirmed_at = now()
+    WHERE id = v_deposit.id;
+
+    UPDATE wallets
+    SET available_cents = available_cents + v_deposit.amount_usd_cents + v_bonus,
+        total_earned_cents = total_earned_cents + v_deposit.amount_usd_cents + v_bonus,
+        updated_at = now()
+    WHERE user_id = v_deposit.user_id
+    RETURNING available_cents INTO v_balance;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'wallet_not_found';
+    END IF;
+
+    INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+    VALUES (
+      v_deposit.user_id,
+      'deposit',
+      v_deposit.amount_usd_cents,
+      v_balance - v_bonus,
+      v_deposit.id,
+      jsonb_build_object(
+        'description', 'Deposit confirmed',
+        'deposit_id', v_deposit.id,
+        'mch_order_no', v_deposit.mch_order_no,
+        'gateway_ref', COALESCE(p_gateway_ref, v_deposit.gateway_ref),
+        'local_amount', v_deposit.local_amount,
+        'local_currency', v_deposit.local_currency,
+        'fx_rate', v_deposit.fx_rate
+      )
+    );
+
+    IF v_bonus > 0 THEN
+      INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+      VALUES (
+        v_deposit.user_id,
+        'deposit_bonus',
+        v_bonus,
+        v_balance,
+        v_deposit.id,
+        jsonb_build_object('description', 'Deposit bonus', 'deposit_id', v_deposit.id)
+      );
+    END IF;
+
+    IF p_first_drop_at IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM income_events WHERE deposit_id = v_deposit.id
+    ) THEN
+      SELECT payout_per_drop_usd INTO v_payout_per_drop FROM plans WHERE id = v_deposit.plan_id;
+
+      IF v_payout_per_drop IS NOT NULL THEN
+        INSERT INTO income_events (deposit_id, user_id, amount_cents, drop_number, due_at, status)
+        VALUES (v_deposit.id, v_deposit.user_id, v_payout_per_drop, 1, p_first_drop_at, 'pending');
+      END IF;
+    END IF;
+  END IF;
+
+  IF p_webhook_event_id IS NOT NULL THEN
+    UPDATE webhook_events
+    SET processed = true,
+        error = NULL,
+        deposit_id = v_deposit.id
+    WHERE id = p_webhook_event_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'deposit_id', v_deposit.id,
+    'already_confirmed', v_already_confirmed,
+    'amount_cents', v_deposit.amount_usd_cents,
+    'bonus_cents', CASE WHEN v_already_confirmed THEN 0 ELSE v_bonus END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.confirm_deposit(UUID, TEXT, BIGINT, TIMESTAMP WITH TIME ZONE, UUID) FROM PUBLIC, anon, authenticated;
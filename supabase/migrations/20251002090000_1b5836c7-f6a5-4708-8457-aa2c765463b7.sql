@@ -0,0 +1,489 @@
+-- Card refunds and disputes (stripe-webhook)
+--   disputed:     the payer opened a dispute; the deposit's credit is frozen
+--                 and its income drops are held until the dispute closes
+--   refunded:     fully refunded through Stripe
+--   charged_back: dispute lost
+-- Refunded and charged back deposits lose their remaining income drops,
+-- their deposit bonus and the referral bonuses they paid. The account is
+-- flagged for review either way.
+ALTER TABLE public.deposits DROP CONSTRAINT IF EXISTS deposits_status_check;
+ALTER TABLE public.deposits ADD CONSTRAINT deposits_status_check
+  CHECK (status IN ('pending', 'confirmed', 'completed', 'failed', 'expired', 'imported', 'disputed', 'refunded', 'charged_back'));
+
+-- Part of the deposit currently frozen in the owner's wallet
+ALTER TABLE public.deposits ADD COLUMN IF NOT EXISTS frozen_cents BIGINT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.wallets ADD COLUMN IF NOT EXISTS frozen_cents BIGINT NOT NULL DEFAULT 0;
+
+-- Accounts an admin should look at; withdrawals requested in the meantime
+-- are put on hold. Not on profiles, which users can update themselves:
+-- only flag_account_for_review and admins write here, and an admin clears
+-- the flag by deleting the row.
+CREATE TABLE IF NOT EXISTS public.account_reviews (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  flagged_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reason TEXT
+);
+
+ALTER TABLE public.account_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage account reviews"
+ON public.account_reviews
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- 'held' drops wait for a dispute to close; 'cancelled' drops are never paid
+ALTER TABLE public.income_events ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending';
+
+ALTER TABLE public.wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_type_check;
+ALTER TABLE public.wallet_transactions ADD CONSTRAINT wallet_transactions_type_check
+  CHECK (type IN (
+    'deposit', 'deposit_bonus', 'income', 'withdrawal', 'referral', 'welcome_bonus', 'refund', 'migration', 'legacy',
+    'dispute_hold', 'dispute_release', 'chargeback', 'referral_clawback'
+  ));
+
+-- Frozen credit and what chargebacks take back get their own ledger accounts
+ALTER TABLE public.ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_account_check;
+ALTER TABLE public.ledger_entries ADD CONSTRAINT ledger_entries_account_check
+  CHECK (
+    account IN (
+      'wallet:available',
+      'wallet:pending',
+      'wallet:frozen',
+      'system:opening_balance',
+      'system:deposits',
+      'system:income',
+      'system:referrals',
+      'system:bonuses',
+      'system:refunds',
+      'system:withdrawals',
+      'system:migration',
+      'system:chargebacks'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.journal_wallet_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE NEW.type
+    WHEN 'deposit' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:deposits', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'deposit_bonus' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:bonuses', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'income' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:income', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'referral' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:referrals', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'welcome_bonus' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:bonuses', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'migration' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:migration', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'refund' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'system:refunds', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'dispute_hold' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'wallet:frozen', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'dispute_release' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:frozen', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'chargeback' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'system:chargebacks', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'referral_clawback' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'system:referrals', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    -- Withdrawals are reserved into pending first; the transaction records the payout leaving pending
+    WHEN 'withdrawal' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:pending', 'system:withdrawals', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Keeps the first reason until an admin clears the flag
+CREATE OR REPLACE FUNCTION public.flag_account_for_review(
+  p_user_id UUID,
+  p_reason TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO account_reviews (user_id, reason)
+  VALUES (p_user_id, p_reason)
+  ON CONFLICT (user_id) DO NOTHING;
+END;
+$$;
+
+-- Withdrawals from flagged accounts wait on hold instead of in the review
+-- queue. SECURITY DEFINER: the user inserting cannot see account_reviews.
+CREATE OR REPLACE FUNCTION public.enforce_withdrawal_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated' THEN
+    NEW.status := 'pending_review';
+    NEW.retry_count := 0;
+    NEW.next_attempt := NULL;
+  END IF;
+
+  IF NEW.status = 'pending_review' AND EXISTS (
+    SELECT 1 FROM account_reviews WHERE user_id = NEW.user_id
+  ) THEN
+    NEW.status := 'on_hold';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Freeze a confirmed deposit's credit while its payment is disputed. Only
+-- what is still available can be frozen; the rest has been spent or
+-- withdrawn already. Safe to call again for the same deposit.
+CREATE OR REPLACE FUNCTION public.hold_disputed_deposit(
+  p_deposit_id UUID,
+  p_dispute_ref TEXT,
+  p_webhook_event_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deposit deposits%ROWTYPE;
+  v_available BIGINT;
+  v_hold BIGINT := 0;
+  v_already BOOLEAN := false;
+BEGIN
+  SELECT * INTO v_deposit
+  FROM deposits
+  WHERE id = p_deposit_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'deposit_not_found';
+  END IF;
+
+  IF v_deposit.status IN ('disputed', 'refunded', 'charged_back') THEN
+    v_already := true;
+  ELSIF v_deposit.status NOT IN ('confirmed', 'completed') THEN
+    RAISE EXCEPTION 'deposit_not_disputable';
+  ELSE
+    SELECT available_cents INTO v_available
+    FROM wallets
+    WHERE user_id = v_deposit.user_id
+    FOR UPDATE;
+
+    v_hold := LEAST(v_deposit.amount_usd_cents, GREATEST(COALESCE(v_available, 0), 0));
+
+    IF v_hold > 0 THEN
+      UPDATE wallets
+      SET available_cents = available_cents - v_hold,
+          frozen_cents = frozen_cents + v_hold,
+          updated_at = now()
+      WHERE user_id = v_deposit.user_id;
+
+      INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+      VALUES (
+        v_deposit.user_id,
+        'dispute_hold',
+        v_hold,
+        v_available - v_hold,
+        v_deposit.id,
+        jsonb_build_object('description', 'Frozen: payment disputed', 'deposit_id', v_deposit.id, 'dispute', p_dispute_ref)
+      );
+    END IF;
+
+    UPDATE deposits
+    SET status = 'disputed',
+        frozen_cents = v_hold
+    WHERE id = v_deposit.id;
+
+    UPDATE income_events
+    SET status = 'held'
+    WHERE deposit_id = v_deposit.id AND status = 'pending';
+
+    PERFORM flag_account_for_review(v_deposit.user_id, 'Payment disputed: ' || p_dispute_ref);
+  END IF;
+
+  IF p_webhook_event_id IS NOT NULL THEN
+    UPDATE webhook_events
+    SET processed = true,
+        error = NULL,
+        deposit_id = v_deposit.id
+    WHERE id = p_webhook_event_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'deposit_id', v_deposit.id,
+    'already_applied', v_already,
+    'frozen_cents', CASE WHEN v_already THEN v_deposit.frozen_cents ELSE v_hold END,
+    'shortfall_cents', CASE WHEN v_already THEN 0 ELSE v_deposit.amount_usd_cents - v_hold END
+  );
+END;
+$$;
+
+-- Unfreeze a disputed deposit; shared by a won dispute and the start of a reversal
+CREATE OR REPLACE FUNCTION public.unfreeze_deposit(
+  p_deposit deposits,
+  p_description TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance BIGINT;
+BEGIN
+  IF p_deposit.frozen_cents <= 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE wallets
+  SET frozen_cents = frozen_cents - p_deposit.frozen_cents,
+      available_cents = available_cents + p_deposit.frozen_cents,
+      updated_at = now()
+  WHERE user_id = p_deposit.user_id
+  RETURNING available_cents INTO v_balance;
+
+  INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+  VALUES (
+    p_deposit.user_id,
+    'dispute_release',
+    p_deposit.frozen_cents,
+    v_balance,
+    p_deposit.id,
+    jsonb_build_object('description', p_description, 'deposit_id', p_deposit.id)
+  );
+
+  UPDATE deposits SET frozen_cents = 0 WHERE id = p_deposit.id;
+END;
+$$;
+
+-- Dispute closed in our favour: unfreeze the credit and resume income drops.
+-- Held drops that fell due in the meantime are picked up by catch-up.
+CREATE OR REPLACE FUNCTION public.release_disputed_deposit(
+  p_deposit_id UUID,
+  p_webhook_event_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deposit deposits%ROWTYPE;
+  v_released BIGINT := 0;
+  v_already BOOLEAN := false;
+BEGIN
+  SELECT * INTO v_deposit
+  FROM deposits
+  WHERE id = p_deposit_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'deposit_not_found';
+  END IF;
+
+  IF v_deposit.status <> 'disputed' THEN
+    v_already := true;
+  ELSE
+    v_released := v_deposit.frozen_cents;
+    PERFORM unfreeze_deposit(v_deposit, 'Unfrozen: dispute won');
+
+    UPDATE deposits SET status = 'confirmed' WHERE id = v_deposit.id;
+
+    UPDATE income_events
+    SET status = 'pending'
+    WHERE deposit_id = v_deposit.id AND status = 'held';
+  END IF;
+
+  IF p_webhook_event_id IS NOT NULL THEN
+    UPDATE webhook_events
+    SET processed = true,
+        error = NULL,
+        deposit_id = v_deposit.id
+    WHERE id = p_webhook_event_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'deposit_id', v_deposit.id,
+    'already_applied', v_already,
+    'released_cents', v_released
+  );
+END;
+$$;
+
+-- Take back everything a refunded or charged back deposit put into wallets:
+-- the deposit and its bonus from the owner, referral bonuses from the
+-- referrers. Remaining income drops are cancelled. Wallets are never taken
+-- below zero; whatever could not be recovered is returned as a shortfall and
+-- the account is flagged. Safe to call again for the same deposit.
+CREATE OR REPLACE FUNCTION public.reverse_deposit(
+  p_deposit_id UUID,
+  p_kind TEXT,
+  p_reference TEXT,
+  p_webhook_event_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deposit deposits%ROWTYPE;
+  v_already BOOLEAN := false;
+  v_owed BIGINT := 0;
+  v_available BIGINT;
+  v_taken BIGINT := 0;
+  v_clawed BIGINT := 0;
+  v_referral_shortfall BIGINT := 0;
+  v_cancelled INTEGER := 0;
+  v_referral RECORD;
+  v_take BIGINT;
+BEGIN
+  IF p_kind NOT IN ('refund', 'chargeback') THEN
+    RAISE EXCEPTION 'invalid_reversal_kind';
+  END IF;
+
+  SELECT * INTO v_deposit
+  FROM deposits
+  WHERE id = p_deposit_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'deposit_not_found';
+  END IF;
+
+  IF v_deposit.status IN ('refunded', 'charged_back') THEN
+    v_already := true;
+  ELSIF v_deposit.status NOT IN ('confirmed', 'completed', 'disputed') THEN
+    RAISE EXCEPTION 'deposit_not_reversible';
+  ELSE
+    PERFORM unfreeze_deposit(v_deposit, 'Unfrozen for reversal');
+
+    SELECT v_deposit.amount_usd_cents + COALESCE(SUM(amount_cents), 0) INTO v_owed
+    FROM wallet_transactions
+    WHERE reference_id = v_deposit.id::TEXT AND type = 'deposit_bonus';
+
+    SELECT available_cents INTO v_available
+    FROM wallets
+    WHERE user_id = v_deposit.user_id
+    FOR UPDATE;
+
+    v_taken := LEAST(v_owed, GREATEST(COALESCE(v_available, 0), 0));
+
+    IF v_taken > 0 THEN
+      UPDATE wallets
+      SET available_cents = available_cents - v_taken,
+          updated_at = now()
+      WHERE user_id = v_deposit.user_id;
+
+      INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+      VALUES (
+        v_deposit.user_id,
+        p_kind,
+        v_taken,
+        v_available - v_taken,
+        v_deposit.id,
+        jsonb_build_object(
+          'description', CASE p_kind WHEN 'refund' THEN 'Deposit refunded' ELSE 'Deposit charged back' END,
+          'deposit_id', v_deposit.id,
+          'gateway_ref', p_reference,
+          'owed_cents', v_owed
+        )
+      );
+    END IF;
+
+    FOR v_referral IN
+      SELECT r.id, r.referrer_id, r.bonus_cents
+      FROM referrals r
+      WHERE r.deposit_id = v_deposit.id
+        AND r.status IS DISTINCT FROM 'clawed_back'
+      FOR UPDATE
+    LOOP
+      SELECT available_cents INTO v_available
+      FROM wallets
+      WHERE user_id = v_referral.referrer_id
+      FOR UPDATE;
+
+      v_take := LEAST(v_referral.bonus_cents, GREATEST(COALESCE(v_available, 0), 0));
+
+      IF v_take > 0 THEN
+        UPDATE wallets
+        SET available_cents = available_cents - v_take,
+            updated_at = now()
+        WHERE user_id = v_referral.referrer_id;
+
+        INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+        VALUES (
+          v_referral.referrer_id,
+          'referral_clawback',
+          v_take,
+          v_available - v_take,
+          v_deposit.id,
+          jsonb_build_object(
+            'description', 'Referral bonus reversed',
+            'deposit_id', v_deposit.id,
+            'referred_user_id', v_deposit.user_id,
+            'bonus_cents', v_referral.bonus_cents
+          )
+        );
+      END IF;
+
+      IF v_take < v_referral.bonus_cents THEN
+        v_referral_shortfall := v_referral_shortfall + v_referral.bonus_cents - v_take;
+        PERFORM flag_account_for_review(v_referral.referrer_id, 'Referral bonus could not be reversed for deposit ' || v_deposit.id);
+      END IF;
+
+      v_clawed := v_clawed + v_take;
+
+      UPDATE referrals SET status = 'clawed_back' WHERE id = v_referral.id;
+    END LOOP;
+
+    UPDATE income_events
+    SET status = 'cancelled'
+    WHERE deposit_id = v_deposit.id AND status IN ('pending', 'held');
+    GET DIAGNOSTICS v_cancelled = ROW_COUNT;
+
+    UPDATE deposits
+    SET status = CASE p_kind WHEN 'refund' THEN 'refunded' ELSE 'charged_back' END
+    WHERE id = v_deposit.id;
+
+    PERFORM flag_account_for_review(
+      v_deposit.user_id,
+      CASE p_kind WHEN 'refund' THEN 'Payment refunded: ' ELSE 'Payment charged back: ' END || p_reference
+    );
+  END IF;
+
+  IF p_webhook_event_id IS NOT NULL THEN
+    UPDATE webhook_events
+    SET processed = true,
+        error = NULL,
+        deposit_id = v_deposit.id
+    WHERE id = p_webhook_event_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'deposit_id', v_deposit.id,
+    'already_applied', v_already,
+    'reversed_cents', v_taken,
+    'shortfall_cents', v_owed - v_taken,
+    'referral_clawback_cents', v_clawed,
+    'referral_shortfall_cents', v_referral_shortfall,
+    'cancelled_drops', v_cancelled
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.flag_account_for_review(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.hold_disputed_deposit(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.unfreeze_deposit(deposits, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_disputed_deposit(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_deposit(UUID, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,27 @@
+-- On-chain verification of manual crypto deposits (verify-crypto-deposits)
+--   verification_status: NULL until first checked, then
+--     not_found    the network does not know the transaction yet
+--     unconfirmed  pays the deposit but is not final yet
+--     verified     pays the deposit; the deposit was confirmed automatically
+--     mismatch     does not pay the deposit; left for an admin, see verification
+ALTER TABLE public.deposits ADD COLUMN IF NOT EXISTS network TEXT;
+ALTER TABLE public.deposits ADD COLUMN IF NOT EXISTS verification_status TEXT;
+ALTER TABLE public.deposits ADD COLUMN IF NOT EXISTS verification JSONB;
+ALTER TABLE public.deposits ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.deposits DROP CONSTRAINT IF EXISTS deposits_network_check;
+ALTER TABLE public.deposits ADD CONSTRAINT deposits_network_check
+  CHECK (network IS NULL OR network IN ('BEP20', 'TRC20', 'ERC20'));
+
+ALTER TABLE public.deposits DROP CONSTRAINT IF EXISTS deposits_verification_status_check;
+ALTER TABLE public.deposits ADD CONSTRAINT deposits_verification_status_check
+  CHECK (verification_status IS NULL OR verification_status IN ('not_found', 'unconfirmed', 'verified', 'mismatch'));
+
+-- Crypto deposits submitted before networks were recorded all went to the BEP20 address
+UPDATE public.deposits
+SET network = 'BEP20'
+WHERE method = 'crypto_manual' AND network IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deposits_crypto_unverified
+  ON public.deposits (created_at)
+  WHERE method = 'crypto_manual' AND status = 'pending';
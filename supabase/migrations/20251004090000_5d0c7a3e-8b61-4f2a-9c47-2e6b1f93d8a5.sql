@@ -0,0 +1,116 @@
+-- Receiving addresses for manual crypto deposits. A manual_crypto gateway
+-- either derives one address per user from an xpub in its config
+-- (crypto_deposit_addresses), or shares config.address and tells deposits
+-- apart by a few cents added to the amount due (deposits.amount_tag_cents).
+-- Either way initiate-deposit records the address on the deposit, so
+-- verify-crypto-deposits only accepts transfers to that address.
+CREATE TABLE IF NOT EXISTS public.crypto_deposit_addresses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  gateway_id UUID NOT NULL REFERENCES public.payment_gateways(id) ON DELETE CASCADE,
+  network TEXT NOT NULL CHECK (network IN ('BEP20', 'TRC20', 'ERC20')),
+  address TEXT NOT NULL,
+  -- Child index under the gateway's xpub (m/0/<index>)
+  derivation_index INTEGER NOT NULL CHECK (derivation_index >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, gateway_id),
+  UNIQUE (gateway_id, derivation_index)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_crypto_deposit_addresses_address
+  ON public.crypto_deposit_addresses (network, lower(address));
+
+ALTER TABLE public.crypto_deposit_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own crypto deposit addresses"
+ON public.crypto_deposit_addresses
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Deposit approvers can view crypto deposit addresses"
+ON public.crypto_deposit_addresses
+FOR SELECT
+USING (public.has_permission(auth.uid(), 'deposits.approve'));
+
+CREATE SEQUENCE IF NOT EXISTS public.crypto_deposit_address_index_seq AS INTEGER MINVALUE 0 START 0;
+
+-- Next unused xpub child index; a sequence so concurrent requests never share one
+CREATE OR REPLACE FUNCTION public.next_crypto_address_index()
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT nextval('public.crypto_deposit_address_index_seq')::INTEGER;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_crypto_address_index() FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE public.deposits ADD COLUMN IF NOT EXISTS deposit_address TEXT;
+ALTER TABLE public.deposits ADD COLUMN IF NOT EXISTS amount_tag_cents INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.deposits DROP CONSTRAINT IF EXISTS deposits_amount_tag_cents_check;
+ALTER TABLE public.deposits ADD CONSTRAINT deposits_amount_tag_cents_check
+  CHECK (amount_tag_cents >= 0 AND amount_tag_cents < 100);
+
+CREATE INDEX IF NOT EXISTS idx_deposits_deposit_address
+  ON public.deposits (lower(deposit_address))
+  WHERE deposit_address IS NOT NULL;
+
+-- Picks the smallest tag in 1..p_max_tag that makes the deposit's amount due
+-- (amount_usd_cents + tag) unique among pending deposits to p_address created
+-- since p_since, and records address and tag on the deposit. Serialized per
+-- address so two deposits cannot draw the same tag.
+CREATE OR REPLACE FUNCTION public.assign_crypto_amount_tag(
+  p_deposit_id UUID,
+  p_address TEXT,
+  p_since TIMESTAMP WITH TIME ZONE,
+  p_max_tag INTEGER DEFAULT 99
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_amount BIGINT;
+  v_tag INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('crypto_amount_tag:' || lower(p_address)));
+
+  SELECT amount_usd_cents INTO v_amount
+  FROM deposits
+  WHERE id = p_deposit_id AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pending deposit % not found', p_deposit_id;
+  END IF;
+
+  SELECT tag INTO v_tag
+  FROM generate_series(1, LEAST(p_max_tag, 99)) AS tag
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM deposits d
+    WHERE d.id <> p_deposit_id
+      AND d.status = 'pending'
+      AND lower(d.deposit_address) = lower(p_address)
+      AND d.created_at >= p_since
+      AND d.amount_usd_cents + d.amount_tag_cents = v_amount + tag
+  )
+  ORDER BY tag
+  LIMIT 1;
+
+  IF v_tag IS NULL THEN
+    RAISE EXCEPTION 'No free amount tag for % cents on %', v_amount, p_address;
+  END IF;
+
+  UPDATE deposits
+  SET deposit_address = p_address,
+      amount_tag_cents = v_tag
+  WHERE id = p_deposit_id;
+
+  RETURN v_tag;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assign_crypto_amount_tag(UUID, TEXT, TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,178 @@
+-- Duplicate crypto proof detection
+--   crypto_tx_hashes: one row per normalized transaction hash, claimed by the
+--     first live deposits or crypto_deposits row that submits it. Rejected,
+--     failed and expired rows give their claim up so the payer can try again.
+--   deposit_proofs:   uploaded proof images with a perceptual hash, so the
+--     same screenshot (re-encoded, resized or cropped slightly) is recognized
+--     when it is submitted again; see _shared/proofs.ts.
+
+-- Transaction hashes compare as lowercase hex without a 0x prefix
+CREATE OR REPLACE FUNCTION public.normalize_tx_hash(p_tx_hash TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(lower(regexp_replace(btrim(p_tx_hash), '^0x', '', 'i')), '');
+$$;
+
+ALTER TABLE public.deposits
+  ADD COLUMN IF NOT EXISTS tx_hash_normalized TEXT GENERATED ALWAYS AS (public.normalize_tx_hash(tx_hash)) STORED;
+ALTER TABLE public.crypto_deposits
+  ADD COLUMN IF NOT EXISTS tx_hash_normalized TEXT GENERATED ALWAYS AS (public.normalize_tx_hash(tx_hash)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_deposits_tx_hash_normalized
+  ON public.deposits (tx_hash_normalized)
+  WHERE tx_hash_normalized IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_crypto_deposits_tx_hash_normalized
+  ON public.crypto_deposits (tx_hash_normalized);
+
+CREATE TABLE IF NOT EXISTS public.crypto_tx_hashes (
+  tx_hash TEXT NOT NULL PRIMARY KEY,
+  deposit_id UUID REFERENCES public.deposits(id) ON DELETE CASCADE,
+  crypto_deposit_id UUID REFERENCES public.crypto_deposits(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((deposit_id IS NULL) <> (crypto_deposit_id IS NULL))
+);
+
+ALTER TABLE public.crypto_tx_hashes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Deposit approvers can view transaction hash claims"
+ON public.crypto_tx_hashes
+FOR SELECT
+USING (public.has_permission(auth.uid(), 'deposits.approve'));
+
+-- Keeps crypto_tx_hashes in step with deposits and crypto_deposits. A hash
+-- claimed by another row raises unique_violation naming that row.
+CREATE OR REPLACE FUNCTION public.claim_crypto_tx_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_deposit BOOLEAN := TG_TABLE_NAME = 'deposits';
+  v_claim crypto_tx_hashes%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.tx_hash_normalized IS NOT NULL THEN
+    DELETE FROM crypto_tx_hashes
+    WHERE tx_hash = OLD.tx_hash_normalized
+      AND (CASE WHEN v_is_deposit THEN deposit_id ELSE crypto_deposit_id END) = OLD.id;
+  END IF;
+
+  IF NEW.tx_hash_normalized IS NULL OR NEW.status IN ('failed', 'rejected', 'expired') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_claim FROM crypto_tx_hashes WHERE tx_hash = NEW.tx_hash_normalized FOR UPDATE;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Transaction hash has already been submitted'
+      USING ERRCODE = 'unique_violation',
+            DETAIL = CASE
+              WHEN v_claim.deposit_id IS NOT NULL THEN 'deposits ' || v_claim.deposit_id
+              ELSE 'crypto_deposits ' || v_claim.crypto_deposit_id
+            END;
+  END IF;
+
+  INSERT INTO crypto_tx_hashes (tx_hash, deposit_id, crypto_deposit_id, user_id)
+  VALUES (
+    NEW.tx_hash_normalized,
+    CASE WHEN v_is_deposit THEN NEW.id END,
+    CASE WHEN v_is_deposit THEN NULL ELSE NEW.id END,
+    NEW.user_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_crypto_tx_hash() FROM PUBLIC, anon, authenticated;
+
+-- Earliest live submission of each hash keeps it; later ones stay as they
+-- are and show up as duplicates in CryptoApproval
+INSERT INTO public.crypto_tx_hashes (tx_hash, deposit_id, crypto_deposit_id, user_id, created_at)
+SELECT DISTINCT ON (tx_hash) tx_hash, deposit_id, crypto_deposit_id, user_id, created_at
+FROM (
+  SELECT tx_hash_normalized AS tx_hash, id AS deposit_id, NULL::UUID AS crypto_deposit_id, user_id, COALESCE(created_at, now()) AS created_at
+  FROM public.deposits
+  WHERE tx_hash_normalized IS NOT NULL AND status NOT IN ('failed', 'rejected', 'expired')
+  UNION ALL
+  SELECT tx_hash_normalized, NULL, id, user_id, COALESCE(created_at, now())
+  FROM public.crypto_deposits
+  WHERE tx_hash_normalized IS NOT NULL AND status NOT IN ('failed', 'rejected', 'expired')
+) submissions
+ORDER BY tx_hash, created_at
+ON CONFLICT (tx_hash) DO NOTHING;
+
+DROP TRIGGER IF EXISTS claim_deposit_tx_hash ON public.deposits;
+CREATE TRIGGER claim_deposit_tx_hash
+AFTER INSERT OR UPDATE OF tx_hash, status ON public.deposits
+FOR EACH ROW
+EXECUTE FUNCTION public.claim_crypto_tx_hash();
+
+DROP TRIGGER IF EXISTS claim_crypto_deposit_tx_hash ON public.crypto_deposits;
+CREATE TRIGGER claim_crypto_deposit_tx_hash
+AFTER INSERT OR UPDATE OF tx_hash, status ON public.crypto_deposits
+FOR EACH ROW
+EXECUTE FUNCTION public.claim_crypto_tx_hash();
+
+-- Proof images. phash is a 64 bit difference hash (see _shared/proofs.ts);
+-- similar images differ in few bits. matches lists earlier proofs that were
+-- identical or perceptually close when this one was recorded.
+CREATE TABLE IF NOT EXISTS public.deposit_proofs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  bucket TEXT NOT NULL CHECK (bucket IN ('deposit-screenshots', 'crypto-proofs')),
+  path TEXT NOT NULL,
+  deposit_id UUID REFERENCES public.deposits(id) ON DELETE SET NULL,
+  crypto_deposit_id UUID REFERENCES public.crypto_deposits(id) ON DELETE SET NULL,
+  sha256 TEXT NOT NULL,
+  phash BIGINT NOT NULL,
+  matches JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (bucket, path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deposit_proofs_sha256 ON public.deposit_proofs (sha256);
+CREATE INDEX IF NOT EXISTS idx_deposit_proofs_deposit ON public.deposit_proofs (deposit_id) WHERE deposit_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_deposit_proofs_crypto_deposit ON public.deposit_proofs (crypto_deposit_id) WHERE crypto_deposit_id IS NOT NULL;
+
+ALTER TABLE public.deposit_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Deposit approvers can view deposit proofs"
+ON public.deposit_proofs
+FOR SELECT
+USING (public.has_permission(auth.uid(), 'deposits.approve'));
+
+-- Earlier proofs within p_max_distance bits of p_proof_id's phash, or with
+-- the same bytes, closest first
+CREATE OR REPLACE FUNCTION public.find_similar_proofs(p_proof_id UUID, p_max_distance INTEGER DEFAULT 6)
+RETURNS TABLE (
+  proof_id UUID,
+  bucket TEXT,
+  path TEXT,
+  user_id UUID,
+  deposit_id UUID,
+  crypto_deposit_id UUID,
+  distance INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT other.id, other.bucket, other.path, other.user_id, other.deposit_id, other.crypto_deposit_id,
+         CASE WHEN other.sha256 = proof.sha256 THEN 0
+              ELSE bit_count((other.phash # proof.phash)::BIT(64))::INTEGER END AS distance,
+         other.created_at
+  FROM deposit_proofs proof
+  JOIN deposit_proofs other ON other.id <> proof.id AND other.created_at <= proof.created_at
+  WHERE proof.id = p_proof_id
+    AND (other.sha256 = proof.sha256 OR bit_count((other.phash # proof.phash)::BIT(64)) <= p_max_distance)
+  ORDER BY distance, other.created_at
+  LIMIT 20;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_similar_proofs(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
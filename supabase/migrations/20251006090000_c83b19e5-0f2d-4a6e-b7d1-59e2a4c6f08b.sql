@@ -0,0 +1,27 @@
+-- Proof uploads go through upload-proof (see _shared/proofs.ts): the image
+-- is type-sniffed, size and dimension checked, re-encoded without EXIF/GPS
+-- metadata and thumbnailed before it is stored. deposit_proofs keeps what
+-- was accepted; the proof is linked to its deposit when the deposit is
+-- submitted. Rows recorded before this migration have no upload metadata.
+ALTER TABLE public.deposit_proofs ADD COLUMN IF NOT EXISTS mime_type TEXT;
+ALTER TABLE public.deposit_proofs ADD COLUMN IF NOT EXISTS size_bytes INTEGER;
+ALTER TABLE public.deposit_proofs ADD COLUMN IF NOT EXISTS width INTEGER;
+ALTER TABLE public.deposit_proofs ADD COLUMN IF NOT EXISTS height INTEGER;
+ALTER TABLE public.deposit_proofs ADD COLUMN IF NOT EXISTS thumbnail_path TEXT;
+ALTER TABLE public.deposit_proofs ADD COLUMN IF NOT EXISTS original_name TEXT;
+
+ALTER TABLE public.deposit_proofs DROP CONSTRAINT IF EXISTS deposit_proofs_mime_type_check;
+ALTER TABLE public.deposit_proofs ADD CONSTRAINT deposit_proofs_mime_type_check
+  CHECK (mime_type IS NULL OR mime_type IN ('image/jpeg', 'image/png'));
+
+CREATE INDEX IF NOT EXISTS idx_deposit_proofs_unattached
+  ON public.deposit_proofs (user_id, created_at)
+  WHERE deposit_id IS NULL AND crypto_deposit_id IS NULL;
+
+CREATE POLICY "Users can view their own deposit proofs"
+ON public.deposit_proofs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Proofs are written by upload-proof with the service role only
+DROP POLICY IF EXISTS "Users can upload their own crypto proofs" ON storage.objects;
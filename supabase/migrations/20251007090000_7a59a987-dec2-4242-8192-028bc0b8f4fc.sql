@@ -0,0 +1,119 @@
+-- One FX service (see _shared/fx.ts) in place of three rate tables
+--   conversion_rates: the current USD -> currency mid rate, one row per pair,
+--     aggregated from several sources by update-conversion-rates.
+--   rate_history:     every aggregated rate with the per-source quotes it was
+--     built from.
+--   fx_settings:      the currencies we price, their buy/sell spreads and how
+--     old a rate may get before deposits and withdrawals in it are refused.
+-- usdt_rates is folded into conversion_rates and exchange_rates keeps only
+-- the country -> currency mapping.
+
+-- Keep the latest row of each pair so the pair can be unique
+DELETE FROM public.conversion_rates older
+USING public.conversion_rates newer
+WHERE older.base_currency = newer.base_currency
+  AND older.quote_currency = newer.quote_currency
+  AND (older.fetched_at, older.id) < (newer.fetched_at, newer.id);
+
+ALTER TABLE public.conversion_rates DROP CONSTRAINT IF EXISTS conversion_rates_pair_key;
+ALTER TABLE public.conversion_rates ADD CONSTRAINT conversion_rates_pair_key UNIQUE (base_currency, quote_currency);
+
+-- source: 'aggregate' for fetched rates; sources: each source's own quote
+ALTER TABLE public.conversion_rates ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'legacy';
+ALTER TABLE public.conversion_rates ADD COLUMN IF NOT EXISTS sources JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.conversion_rates DROP CONSTRAINT IF EXISTS conversion_rates_rate_check;
+ALTER TABLE public.conversion_rates ADD CONSTRAINT conversion_rates_rate_check CHECK (rate > 0);
+
+CREATE TABLE IF NOT EXISTS public.rate_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  base_currency TEXT NOT NULL,
+  quote_currency TEXT NOT NULL,
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL,
+  sources JSONB NOT NULL DEFAULT '{}'::jsonb,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_history_pair_fetched
+  ON public.rate_history (base_currency, quote_currency, fetched_at DESC);
+
+ALTER TABLE public.rate_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Rate history is viewable by everyone"
+ON public.rate_history
+FOR SELECT
+USING (true);
+
+INSERT INTO public.rate_history (base_currency, quote_currency, rate, source, fetched_at)
+SELECT base_currency, quote_currency, rate, source, fetched_at
+FROM public.conversion_rates;
+
+-- Sides are named for what the user does with USD. A deposit buys USD
+-- balance: the user pays mid * (1 + buy_spread_bps / 10000) per dollar. A
+-- withdrawal sells it: the user gets mid * (1 - sell_spread_bps / 10000).
+CREATE TABLE IF NOT EXISTS public.fx_settings (
+  currency TEXT NOT NULL PRIMARY KEY,
+  buy_spread_bps INTEGER NOT NULL DEFAULT 0 CHECK (buy_spread_bps BETWEEN 0 AND 2000),
+  sell_spread_bps INTEGER NOT NULL DEFAULT 0 CHECK (sell_spread_bps BETWEEN 0 AND 2000),
+  max_age_minutes INTEGER NOT NULL DEFAULT 120 CHECK (max_age_minutes > 0),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.fx_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "FX settings are viewable by everyone"
+ON public.fx_settings
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_fx_settings_updated_at
+BEFORE UPDATE ON public.fx_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.fx_settings (currency)
+SELECT DISTINCT quote_currency FROM public.conversion_rates WHERE base_currency = 'USD'
+UNION
+SELECT DISTINCT currency FROM public.exchange_rates
+ON CONFLICT (currency) DO NOTHING;
+
+-- The rate each side is priced at right now. is_stale is true when the rate
+-- is older than the currency's max_age_minutes and NULL when there is none.
+CREATE OR REPLACE FUNCTION public.get_fx_quotes(p_currency TEXT DEFAULT NULL)
+RETURNS TABLE (
+  currency TEXT,
+  mid_rate NUMERIC,
+  buy_rate NUMERIC,
+  sell_rate NUMERIC,
+  source TEXT,
+  fetched_at TIMESTAMP WITH TIME ZONE,
+  max_age_minutes INTEGER,
+  is_stale BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.currency,
+         r.rate,
+         round(r.rate * (1 + s.buy_spread_bps / 10000.0), 8),
+         round(r.rate * (1 - s.sell_spread_bps / 10000.0), 8),
+         r.source,
+         r.fetched_at,
+         s.max_age_minutes,
+         r.fetched_at < now() - make_interval(mins => s.max_age_minutes)
+  FROM fx_settings s
+  LEFT JOIN conversion_rates r ON r.base_currency = 'USD' AND r.quote_currency = s.currency
+  WHERE s.enabled
+    AND (p_currency IS NULL OR s.currency = p_currency)
+  ORDER BY s.currency;
+$$;
+
+-- Superseded by conversion_rates and fx_settings
+DROP TABLE IF EXISTS public.usdt_rates;
+ALTER TABLE public.exchange_rates DROP COLUMN IF EXISTS rate_to_usd;
@@ -0,0 +1,98 @@
+-- Manual FX overrides for when the fetched rates are wrong. An override
+-- replaces a currency's mid rate between starts_at and expires_at (spreads
+-- still apply) and is never stale while it lasts. Overrides are created and
+-- revoked through admin-fx, which writes audit_logs.
+
+ALTER TABLE public.role_permissions DROP CONSTRAINT IF EXISTS role_permissions_permission_check;
+ALTER TABLE public.role_permissions ADD CONSTRAINT role_permissions_permission_check CHECK (
+  permission IN (
+    'deposits.approve',
+    'withdrawals.approve',
+    'plans.edit',
+    'gateways.manage',
+    'audit_logs.view',
+    'users.view',
+    'roles.manage',
+    'fx.manage'
+  )
+);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'fx.manage'),
+  ('finance', 'fx.manage')
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.fx_overrides (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  currency TEXT NOT NULL REFERENCES public.fx_settings(currency) ON DELETE CASCADE,
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  reason TEXT NOT NULL,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  CHECK (expires_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_overrides_currency_expires
+  ON public.fx_overrides (currency, expires_at DESC)
+  WHERE revoked_at IS NULL;
+
+ALTER TABLE public.fx_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "FX managers can view overrides"
+ON public.fx_overrides
+FOR SELECT
+USING (public.has_permission(auth.uid(), 'fx.manage'));
+
+-- Same as before, with the newest live override taking precedence over the
+-- fetched rate. override_id and override_expires_at are NULL without one.
+DROP FUNCTION IF EXISTS public.get_fx_quotes(TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_fx_quotes(p_currency TEXT DEFAULT NULL)
+RETURNS TABLE (
+  currency TEXT,
+  mid_rate NUMERIC,
+  buy_rate NUMERIC,
+  sell_rate NUMERIC,
+  source TEXT,
+  fetched_at TIMESTAMP WITH TIME ZONE,
+  max_age_minutes INTEGER,
+  is_stale BOOLEAN,
+  override_id UUID,
+  override_expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.currency,
+         COALESCE(o.rate, r.rate),
+         round(COALESCE(o.rate, r.rate) * (1 + s.buy_spread_bps / 10000.0), 8),
+         round(COALESCE(o.rate, r.rate) * (1 - s.sell_spread_bps / 10000.0), 8),
+         CASE WHEN o.id IS NOT NULL THEN 'manual' ELSE r.source END,
+         COALESCE(o.starts_at, r.fetched_at),
+         s.max_age_minutes,
+         CASE WHEN o.id IS NOT NULL THEN false
+              ELSE r.fetched_at < now() - make_interval(mins => s.max_age_minutes) END,
+         o.id,
+         o.expires_at
+  FROM fx_settings s
+  LEFT JOIN conversion_rates r ON r.base_currency = 'USD' AND r.quote_currency = s.currency
+  LEFT JOIN LATERAL (
+    SELECT fo.id, fo.rate, fo.starts_at, fo.expires_at
+    FROM fx_overrides fo
+    WHERE fo.currency = s.currency
+      AND fo.revoked_at IS NULL
+      AND fo.starts_at <= now()
+      AND fo.expires_at > now()
+    ORDER BY fo.created_at DESC
+    LIMIT 1
+  ) o ON true
+  WHERE s.enabled
+    AND (p_currency IS NULL OR s.currency = p_currency)
+  ORDER BY s.currency;
+$$;
@@ -0,0 +1,225 @@
+-- Country catalogue (see _shared/countries.ts). Replaces the list hardcoded
+-- in CountrySelector, the currency list in update-conversion-rates and the
+-- exchange_rates country -> currency mapping.
+--   deposit_methods:    payment_gateways.provider values deposits may use
+--   withdrawal_methods: payout_methods.type values withdrawals may use
+--   default_bank_code:  Basepay bank code for payouts to accounts that have
+--                       none of their own
+-- manual_crypto, stripe and usdt move USD; any other method is in the
+-- country's own currency, which is what gets its rate fetched.
+CREATE TABLE IF NOT EXISTS public.countries (
+  code TEXT NOT NULL PRIMARY KEY CHECK (code ~ '^[A-Z]{2}$'),
+  name TEXT NOT NULL,
+  dial_code TEXT NOT NULL CHECK (dial_code ~ '^\+[0-9]{1,4}$'),
+  flag TEXT NOT NULL DEFAULT '',
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  currency_minor_units SMALLINT NOT NULL DEFAULT 2 CHECK (currency_minor_units BETWEEN 0 AND 3),
+  currency_symbol TEXT NOT NULL,
+  deposit_methods TEXT[] NOT NULL DEFAULT '{manual_crypto,stripe}'
+    CHECK (deposit_methods <@ ARRAY['basepay', 'stripe', 'manual_crypto']),
+  withdrawal_methods TEXT[] NOT NULL DEFAULT '{usdt}'
+    CHECK (withdrawal_methods <@ ARRAY['bank', 'usdt']),
+  default_bank_code TEXT,
+  signup_allowed BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.countries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Countries are viewable by everyone"
+ON public.countries
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Gateway managers can manage countries"
+ON public.countries
+FOR ALL
+USING (public.has_permission(auth.uid(), 'gateways.manage'))
+WITH CHECK (public.has_permission(auth.uid(), 'gateways.manage'));
+
+CREATE TRIGGER update_countries_updated_at
+BEFORE UPDATE ON public.countries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.countries (code, name, dial_code, flag, currency, currency_minor_units, currency_symbol) VALUES
+  ('AF', 'Afghanistan', '+93', '🇦🇫', 'AFN', 2, '؋'),
+  ('AL', 'Albania', '+355', '🇦🇱', 'ALL', 2, 'L'),
+  ('DZ', 'Algeria', '+213', '🇩🇿', 'DZD', 2, 'دج'),
+  ('AR', 'Argentina', '+54', '🇦🇷', 'ARS', 2, '$'),
+  ('AU', 'Australia', '+61', '🇦🇺', 'AUD', 2, '$'),
+  ('AT', 'Austria', '+43', '🇦🇹', 'EUR', 2, '€'),
+  ('BH', 'Bahrain', '+973', '🇧🇭', 'BHD', 3, '.د.ب'),
+  ('BD', 'Bangladesh', '+880', '🇧🇩', 'BDT', 2, '৳'),
+  ('BB', 'Barbados', '+1', '🇧🇧', 'BBD', 2, '$'),
+  ('BY', 'Belarus', '+375', '🇧🇾', 'BYN', 2, 'Br'),
+  ('BE', 'Belgium', '+32', '🇧🇪', 'EUR', 2, '€'),
+  ('BZ', 'Belize', '+501', '🇧🇿', 'BZD', 2, '$'),
+  ('BT', 'Bhutan', '+975', '🇧🇹', 'BTN', 2, 'Nu.'),
+  ('BO', 'Bolivia', '+591', '🇧🇴', 'BOB', 2, 'Bs'),
+  ('BA', 'Bosnia', '+387', '🇧🇦', 'BAM', 2, 'KM'),
+  ('BW', 'Botswana', '+267', '🇧🇼', 'BWP', 2, 'P'),
+  ('BR', 'Brazil', '+55', '🇧🇷', 'BRL', 2, 'R$'),
+  ('BG', 'Bulgaria', '+359', '🇧🇬', 'BGN', 2, 'лв'),
+  ('BF', 'Burkina Faso', '+226', '🇧🇫', 'XOF', 0, 'CFA'),
+  ('KH', 'Cambodia', '+855', '🇰🇭', 'KHR', 2, '៛'),
+  ('CM', 'Cameroon', '+237', '🇨🇲', 'XAF', 0, 'FCFA'),
+  ('CA', 'Canada', '+1', '🇨🇦', 'CAD', 2, '$'),
+  ('TD', 'Chad', '+235', '🇹🇩', 'XAF', 0, 'FCFA'),
+  ('CL', 'Chile', '+56', '🇨🇱', 'CLP', 0, '$'),
+  ('CN', 'China', '+86', '🇨🇳', 'CNY', 2, '¥'),
+  ('CO', 'Colombia', '+57', '🇨🇴', 'COP', 2, '$'),
+  ('CR', 'Costa Rica', '+506', '🇨🇷', 'CRC', 2, '₡'),
+  ('HR', 'Croatia', '+385', '🇭🇷', 'EUR', 2, '€'),
+  ('CU', 'Cuba', '+53', '🇨🇺', 'CUP', 2, '$'),
+  ('CY', 'Cyprus', '+357', '🇨🇾', 'EUR', 2, '€'),
+  ('CZ', 'Czech Republic', '+420', '🇨🇿', 'CZK', 2, 'Kč'),
+  ('DK', 'Denmark', '+45', '🇩🇰', 'DKK', 2, 'kr'),
+  ('DO', 'Dominican Republic', '+1', '🇩🇴', 'DOP', 2, '$'),
+  ('EC', 'Ecuador', '+593', '🇪🇨', 'USD', 2, '$'),
+  ('EG', 'Egypt', '+20', '🇪🇬', 'EGP', 2, 'E£'),
+  ('SV', 'El Salvador', '+503', '🇸🇻', 'USD', 2, '$'),
+  ('EE', 'Estonia', '+372', '🇪🇪', 'EUR', 2, '€'),
+  ('SZ', 'Eswatini', '+268', '🇸🇿', 'SZL', 2, 'E'),
+  ('ET', 'Ethiopia', '+251', '🇪🇹', 'ETB', 2, 'Br'),
+  ('FJ', 'Fiji', '+679', '🇫🇯', 'FJD', 2, '$'),
+  ('FI', 'Finland', '+358', '🇫🇮', 'EUR', 2, '€'),
+  ('FR', 'France', '+33', '🇫🇷', 'EUR', 2, '€'),
+  ('GF', 'French Guiana', '+594', '🇬🇫', 'EUR', 2, '€'),
+  ('PF', 'French Polynesia', '+689', '🇵🇫', 'XPF', 0, '₣'),
+  ('DE', 'Germany', '+49', '🇩🇪', 'EUR', 2, '€'),
+  ('GH', 'Ghana', '+233', '🇬🇭', 'GHS', 2, '₵'),
+  ('GR', 'Greece', '+30', '🇬🇷', 'EUR', 2, '€'),
+  ('GT', 'Guatemala', '+502', '🇬🇹', 'GTQ', 2, 'Q'),
+  ('GY', 'Guyana', '+592', '🇬🇾', 'GYD', 2, '$'),
+  ('HT', 'Haiti', '+509', '🇭🇹', 'HTG', 2, 'G'),
+  ('HN', 'Honduras', '+504', '🇭🇳', 'HNL', 2, 'L'),
+  ('HU', 'Hungary', '+36', '🇭🇺', 'HUF', 2, 'Ft'),
+  ('IS', 'Iceland', '+354', '🇮🇸', 'ISK', 0, 'kr'),
+  ('IN', 'India', '+91', '🇮🇳', 'INR', 2, '₹'),
+  ('ID', 'Indonesia', '+62', '🇮🇩', 'IDR', 2, 'Rp'),
+  ('IR', 'Iran', '+98', '🇮🇷', 'IRR', 2, '﷼'),
+  ('IQ', 'Iraq', '+964', '🇮🇶', 'IQD', 3, 'ع.د'),
+  ('IE', 'Ireland', '+353', '🇮🇪', 'EUR', 2, '€'),
+  ('IL', 'Israel', '+972', '🇮🇱', 'ILS', 2, '₪'),
+  ('IT', 'Italy', '+39', '🇮🇹', 'EUR', 2, '€'),
+  ('CI', 'Ivory Coast', '+225', '🇨🇮', 'XOF', 0, 'CFA'),
+  ('JM', 'Jamaica', '+1', '🇯🇲', 'JMD', 2, '$'),
+  ('JP', 'Japan', '+81', '🇯🇵', 'JPY', 0, '¥'),
+  ('JO', 'Jordan', '+962', '🇯🇴', 'JOD', 3, 'د.ا'),
+  ('KZ', 'Kazakhstan', '+7', '🇰🇿', 'KZT', 2, '₸'),
+  ('KE', 'Kenya', '+254', '🇰🇪', 'KES', 2, 'KSh'),
+  ('KI', 'Kiribati', '+686', '🇰🇮', 'AUD', 2, '$'),
+  ('KW', 'Kuwait', '+965', '🇰🇼', 'KWD', 3, 'د.ك'),
+  ('KG', 'Kyrgyzstan', '+996', '🇰🇬', 'KGS', 2, 'с'),
+  ('LA', 'Laos', '+856', '🇱🇦', 'LAK', 2, '₭'),
+  ('LV', 'Latvia', '+371', '🇱🇻', 'EUR', 2, '€'),
+  ('LB', 'Lebanon', '+961', '🇱🇧', 'LBP', 2, 'ل.ل'),
+  ('LS', 'Lesotho', '+266', '🇱🇸', 'LSL', 2, 'L'),
+  ('LT', 'Lithuania', '+370', '🇱🇹', 'EUR', 2, '€'),
+  ('MG', 'Madagascar', '+261', '🇲🇬', 'MGA', 2, 'Ar'),
+  ('MW', 'Malawi', '+265', '🇲🇼', 'MWK', 2, 'MK'),
+  ('MY', 'Malaysia', '+60', '🇲🇾', 'MYR', 2, 'RM'),
+  ('MV', 'Maldives', '+960', '🇲🇻', 'MVR', 2, 'Rf'),
+  ('ML', 'Mali', '+223', '🇲🇱', 'XOF', 0, 'CFA'),
+  ('MT', 'Malta', '+356', '🇲🇹', 'EUR', 2, '€'),
+  ('MH', 'Marshall Islands', '+692', '🇲🇭', 'USD', 2, '$'),
+  ('MU', 'Mauritius', '+230', '🇲🇺', 'MUR', 2, '₨'),
+  ('MX', 'Mexico', '+52', '🇲🇽', 'MXN', 2, '$'),
+  ('FM', 'Micronesia', '+691', '🇫🇲', 'USD', 2, '$'),
+  ('MD', 'Moldova', '+373', '🇲🇩', 'MDL', 2, 'L'),
+  ('MN', 'Mongolia', '+976', '🇲🇳', 'MNT', 2, '₮'),
+  ('ME', 'Montenegro', '+382', '🇲🇪', 'EUR', 2, '€'),
+  ('MA', 'Morocco', '+212', '🇲🇦', 'MAD', 2, 'د.م.'),
+  ('MZ', 'Mozambique', '+258', '🇲🇿', 'MZN', 2, 'MT'),
+  ('MM', 'Myanmar', '+95', '🇲🇲', 'MMK', 2, 'K'),
+  ('NA', 'Namibia', '+264', '🇳🇦', 'NAD', 2, '$'),
+  ('NR', 'Nauru', '+674', '🇳🇷', 'AUD', 2, '$'),
+  ('NP', 'Nepal', '+977', '🇳🇵', 'NPR', 2, '₨'),
+  ('NL', 'Netherlands', '+31', '🇳🇱', 'EUR', 2, '€'),
+  ('NC', 'New Caledonia', '+687', '🇳🇨', 'XPF', 0, '₣'),
+  ('NZ', 'New Zealand', '+64', '🇳🇿', 'NZD', 2, '$'),
+  ('NI', 'Nicaragua', '+505', '🇳🇮', 'NIO', 2, 'C$'),
+  ('NE', 'Niger', '+227', '🇳🇪', 'XOF', 0, 'CFA'),
+  ('NG', 'Nigeria', '+234', '🇳🇬', 'NGN', 2, '₦'),
+  ('MK', 'North Macedonia', '+389', '🇲🇰', 'MKD', 2, 'ден'),
+  ('NO', 'Norway', '+47', '🇳🇴', 'NOK', 2, 'kr'),
+  ('OM', 'Oman', '+968', '🇴🇲', 'OMR', 3, 'ر.ع.'),
+  ('PK', 'Pakistan', '+92', '🇵🇰', 'PKR', 2, '₨'),
+  ('PW', 'Palau', '+680', '🇵🇼', 'USD', 2, '$'),
+  ('PS', 'Palestine', '+970', '🇵🇸', 'ILS', 2, '₪'),
+  ('PA', 'Panama', '+507', '🇵🇦', 'USD', 2, '$'),
+  ('PG', 'Papua New Guinea', '+675', '🇵🇬', 'PGK', 2, 'K'),
+  ('PY', 'Paraguay', '+595', '🇵🇾', 'PYG', 0, '₲'),
+  ('PE', 'Peru', '+51', '🇵🇪', 'PEN', 2, 'S/'),
+  ('PH', 'Philippines', '+63', '🇵🇭', 'PHP', 2, '₱'),
+  ('PL', 'Poland', '+48', '🇵🇱', 'PLN', 2, 'zł'),
+  ('PT', 'Portugal', '+351', '🇵🇹', 'EUR', 2, '€'),
+  ('PR', 'Puerto Rico', '+1', '🇵🇷', 'USD', 2, '$'),
+  ('QA', 'Qatar', '+974', '🇶🇦', 'QAR', 2, 'ر.ق'),
+  ('RO', 'Romania', '+40', '🇷🇴', 'RON', 2, 'lei'),
+  ('RU', 'Russia', '+7', '🇷🇺', 'RUB', 2, '₽'),
+  ('RW', 'Rwanda', '+250', '🇷🇼', 'RWF', 0, 'FRw'),
+  ('WS', 'Samoa', '+685', '🇼🇸', 'WST', 2, 'T'),
+  ('SA', 'Saudi Arabia', '+966', '🇸🇦', 'SAR', 2, 'ر.س'),
+  ('SN', 'Senegal', '+221', '🇸🇳', 'XOF', 0, 'CFA'),
+  ('RS', 'Serbia', '+381', '🇷🇸', 'RSD', 2, 'дин'),
+  ('SC', 'Seychelles', '+248', '🇸🇨', 'SCR', 2, '₨'),
+  ('SG', 'Singapore', '+65', '🇸🇬', 'SGD', 2, '$'),
+  ('SK', 'Slovakia', '+421', '🇸🇰', 'EUR', 2, '€'),
+  ('SI', 'Slovenia', '+386', '🇸🇮', 'EUR', 2, '€'),
+  ('SB', 'Solomon Islands', '+677', '🇸🇧', 'SBD', 2, '$'),
+  ('ZA', 'South Africa', '+27', '🇿🇦', 'ZAR', 2, 'R'),
+  ('KR', 'South Korea', '+82', '🇰🇷', 'KRW', 0, '₩'),
+  ('ES', 'Spain', '+34', '🇪🇸', 'EUR', 2, '€'),
+  ('LK', 'Sri Lanka', '+94', '🇱🇰', 'LKR', 2, 'Rs'),
+  ('SR', 'Suriname', '+597', '🇸🇷', 'SRD', 2, '$'),
+  ('SE', 'Sweden', '+46', '🇸🇪', 'SEK', 2, 'kr'),
+  ('CH', 'Switzerland', '+41', '🇨🇭', 'CHF', 2, 'Fr'),
+  ('SY', 'Syria', '+963', '🇸🇾', 'SYP', 2, '£'),
+  ('TJ', 'Tajikistan', '+992', '🇹🇯', 'TJS', 2, 'SM'),
+  ('TZ', 'Tanzania', '+255', '🇹🇿', 'TZS', 2, 'TSh'),
+  ('TH', 'Thailand', '+66', '🇹🇭', 'THB', 2, '฿'),
+  ('TO', 'Tonga', '+676', '🇹🇴', 'TOP', 2, 'T$'),
+  ('TT', 'Trinidad & Tobago', '+1', '🇹🇹', 'TTD', 2, '$'),
+  ('TN', 'Tunisia', '+216', '🇹🇳', 'TND', 3, 'د.ت'),
+  ('TR', 'Turkey', '+90', '🇹🇷', 'TRY', 2, '₺'),
+  ('TM', 'Turkmenistan', '+993', '🇹🇲', 'TMT', 2, 'm'),
+  ('TV', 'Tuvalu', '+688', '🇹🇻', 'AUD', 2, '$'),
+  ('AE', 'UAE', '+971', '🇦🇪', 'AED', 2, 'د.إ'),
+  ('UG', 'Uganda', '+256', '🇺🇬', 'UGX', 0, 'USh'),
+  ('UA', 'Ukraine', '+380', '🇺🇦', 'UAH', 2, '₴'),
+  ('GB', 'United Kingdom', '+44', '🇬🇧', 'GBP', 2, '£'),
+  ('US', 'United States', '+1', '🇺🇸', 'USD', 2, '$'),
+  ('UY', 'Uruguay', '+598', '🇺🇾', 'UYU', 2, '$'),
+  ('UZ', 'Uzbekistan', '+998', '🇺🇿', 'UZS', 2, 'soʻm'),
+  ('VU', 'Vanuatu', '+678', '🇻🇺', 'VUV', 0, 'VT'),
+  ('VE', 'Venezuela', '+58', '🇻🇪', 'VES', 2, 'Bs.S'),
+  ('VN', 'Vietnam', '+84', '🇻🇳', 'VND', 0, '₫'),
+  ('YE', 'Yemen', '+967', '🇾🇪', 'YER', 2, '﷼'),
+  ('ZM', 'Zambia', '+260', '🇿🇲', 'ZMW', 2, 'ZK'),
+  ('ZW', 'Zimbabwe', '+263', '🇿🇼', 'ZWL', 2, '$')
+ON CONFLICT (code) DO NOTHING;
+
+-- Nigeria pays in and out in naira through Basepay
+UPDATE public.countries
+SET deposit_methods = '{basepay,manual_crypto,stripe}',
+    withdrawal_methods = '{bank,usdt}',
+    default_bank_code = 'NGR044'
+WHERE code = 'NG';
+
+-- Only currencies some country trades in locally keep their rates fetched
+UPDATE public.fx_settings s
+SET enabled = false
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.countries c
+  WHERE c.currency = s.currency
+    AND (
+      EXISTS (SELECT 1 FROM unnest(c.deposit_methods) m WHERE m NOT IN ('manual_crypto', 'stripe'))
+      OR EXISTS (SELECT 1 FROM unnest(c.withdrawal_methods) m WHERE m <> 'usdt')
+    )
+);
+
+-- Superseded by countries
+DROP TABLE IF EXISTS public.exchange_rates;
@@ -0,0 +1,328 @@
+-- Multi-currency wallets
+--
+-- wallets stays the user's USD wallet that plans, income and withdrawals
+-- run against. Balances in any other currency live in wallet_balances, one
+-- row per user and currency, and only change through conversions
+-- (convert-currency). Amounts are in the currency's minor units.
+--
+-- ledger_entries and wallet_transactions gain a currency; a ledger
+-- transaction now has to balance per currency. A conversion is two
+-- wallet_transactions sharing a reference_id: 'conversion_out' takes the
+-- amount from one balance into 'system:fx', 'conversion_in' pays the
+-- converted amount out of 'system:fx' into the other.
+
+CREATE TABLE IF NOT EXISTS public.wallet_balances (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  currency TEXT NOT NULL CHECK (currency <> 'USD'),
+  available_cents BIGINT NOT NULL DEFAULT 0 CHECK (available_cents >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT wallet_balances_user_currency_key UNIQUE (user_id, currency)
+);
+
+ALTER TABLE public.wallet_balances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own currency balances"
+ON public.wallet_balances
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_wallet_balances_updated_at
+  BEFORE UPDATE ON public.wallet_balances
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.wallet_transactions ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+ALTER TABLE public.wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_type_check;
+ALTER TABLE public.wallet_transactions ADD CONSTRAINT wallet_transactions_type_check
+  CHECK (type IN (
+    'deposit', 'deposit_bonus', 'income', 'withdrawal', 'referral', 'welcome_bonus', 'refund', 'migration', 'legacy',
+    'dispute_hold', 'dispute_release', 'chargeback', 'referral_clawback', 'conversion_out', 'conversion_in'
+  ));
+
+ALTER TABLE public.ledger_entries ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_user_currency ON public.ledger_entries(user_id, currency, account);
+
+-- Conversions go through 'system:fx'
+ALTER TABLE public.ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_account_check;
+ALTER TABLE public.ledger_entries ADD CONSTRAINT ledger_entries_account_check
+  CHECK (
+    account IN (
+      'wallet:available',
+      'wallet:pending',
+      'wallet:frozen',
+      'system:opening_balance',
+      'system:deposits',
+      'system:income',
+      'system:referrals',
+      'system:bonuses',
+      'system:refunds',
+      'system:withdrawals',
+      'system:migration',
+      'system:chargebacks',
+      'system:fx'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.check_ledger_txn_balanced()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM ledger_entries
+    WHERE txn_id = NEW.txn_id
+    GROUP BY currency
+    HAVING SUM(amount_cents) <> 0
+  ) THEN
+    RAISE EXCEPTION 'ledger transaction % is unbalanced', NEW.txn_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.post_ledger_transfer(UUID, TEXT, TEXT, BIGINT, TEXT, TEXT, UUID, JSONB);
+
+-- As before, with both legs in p_currency
+CREATE OR REPLACE FUNCTION public.post_ledger_transfer(
+  p_user_id UUID,
+  p_from_account TEXT,
+  p_to_account TEXT,
+  p_amount_cents BIGINT,
+  p_entry_type TEXT,
+  p_reference_id TEXT DEFAULT NULL,
+  p_wallet_transaction_id UUID DEFAULT NULL,
+  p_meta JSONB DEFAULT NULL,
+  p_currency TEXT DEFAULT 'USD'
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_txn_id UUID := gen_random_uuid();
+BEGIN
+  IF p_amount_cents <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO ledger_entries (txn_id, user_id, account, amount_cents, currency, entry_type, reference_id, wallet_transaction_id, meta)
+  VALUES
+    (v_txn_id, p_user_id, p_from_account, -p_amount_cents, p_currency, p_entry_type, p_reference_id, p_wallet_transaction_id, p_meta),
+    (v_txn_id, p_user_id, p_to_account, p_amount_cents, p_currency, p_entry_type, p_reference_id, p_wallet_transaction_id, p_meta);
+
+  RETURN v_txn_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.journal_wallet_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE NEW.type
+    WHEN 'deposit' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:deposits', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'deposit_bonus' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:bonuses', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'income' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:income', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'referral' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:referrals', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'welcome_bonus' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:bonuses', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'migration' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:migration', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'refund' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'system:refunds', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'dispute_hold' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'wallet:frozen', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'dispute_release' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:frozen', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'chargeback' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'system:chargebacks', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'referral_clawback' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'system:referrals', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    WHEN 'conversion_out' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'system:fx', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    WHEN 'conversion_in' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:fx', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    -- Withdrawals are reserved into pending first; the transaction records the payout leaving pending
+    WHEN 'withdrawal' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:pending', 'system:withdrawals', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id);
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Moves p_amount_cents of p_from_currency out of the user's balance and
+-- p_converted_cents of p_to_currency in, priced by the caller from the FX
+-- service. USD comes from and goes to wallets, everything else
+-- wallet_balances.
+CREATE OR REPLACE FUNCTION public.convert_wallet_currency(
+  p_user_id UUID,
+  p_from_currency TEXT,
+  p_to_currency TEXT,
+  p_amount_cents BIGINT,
+  p_converted_cents BIGINT,
+  p_rate NUMERIC,
+  p_meta JSONB DEFAULT '{}'::jsonb
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversion_id UUID := gen_random_uuid();
+  v_from_balance BIGINT;
+  v_to_balance BIGINT;
+  v_meta JSONB;
+BEGIN
+  IF p_from_currency = p_to_currency THEN
+    RAISE EXCEPTION 'same_currency';
+  END IF;
+
+  IF p_amount_cents <= 0 OR p_converted_cents <= 0 THEN
+    RAISE EXCEPTION 'invalid_amount';
+  END IF;
+
+  IF p_from_currency = 'USD' THEN
+    UPDATE wallets
+    SET available_cents = available_cents - p_amount_cents,
+        updated_at = now()
+    WHERE user_id = p_user_id AND available_cents >= p_amount_cents
+    RETURNING available_cents INTO v_from_balance;
+  ELSE
+    UPDATE wallet_balances
+    SET available_cents = available_cents - p_amount_cents
+    WHERE user_id = p_user_id AND currency = p_from_currency AND available_cents >= p_amount_cents
+    RETURNING available_cents INTO v_from_balance;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'insufficient_funds';
+  END IF;
+
+  IF p_to_currency = 'USD' THEN
+    UPDATE wallets
+    SET available_cents = available_cents + p_converted_cents,
+        updated_at = now()
+    WHERE user_id = p_user_id
+    RETURNING available_cents INTO v_to_balance;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'wallet_not_found';
+    END IF;
+  ELSE
+    INSERT INTO wallet_balances (user_id, currency, available_cents)
+    VALUES (p_user_id, p_to_currency, p_converted_cents)
+    ON CONFLICT (user_id, currency) DO UPDATE
+    SET available_cents = wallet_balances.available_cents + EXCLUDED.available_cents
+    RETURNING available_cents INTO v_to_balance;
+  END IF;
+
+  v_meta := COALESCE(p_meta, '{}'::jsonb) || jsonb_build_object(
+    'conversion_id', v_conversion_id,
+    'from_currency', p_from_currency,
+    'from_amount_cents', p_amount_cents,
+    'to_currency', p_to_currency,
+    'to_amount_cents', p_converted_cents,
+    'rate', p_rate
+  );
+
+  INSERT INTO wallet_transactions (user_id, type, amount_cents, currency, balance_after_cents, reference_id, meta)
+  VALUES
+    (
+      p_user_id, 'conversion_out', p_amount_cents, p_from_currency, v_from_balance, v_conversion_id,
+      v_meta || jsonb_build_object('description', 'Converted to ' || p_to_currency)
+    ),
+    (
+      p_user_id, 'conversion_in', p_converted_cents, p_to_currency, v_to_balance, v_conversion_id,
+      v_meta || jsonb_build_object('description', 'Converted from ' || p_from_currency)
+    );
+
+  RETURN jsonb_build_object(
+    'conversion_id', v_conversion_id,
+    'from_currency', p_from_currency,
+    'amount_cents', p_amount_cents,
+    'to_currency', p_to_currency,
+    'converted_cents', p_converted_cents,
+    'rate', p_rate
+  );
+END;
+$$;
+
+-- USD wallets against their USD ledger entries
+CREATE OR REPLACE FUNCTION public.reconcile_wallet_balances()
+RETURNS TABLE (
+  user_id UUID,
+  available_cents BIGINT,
+  ledger_available_cents BIGINT,
+  pending_cents BIGINT,
+  ledger_pending_cents BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    w.user_id,
+    COALESCE(w.available_cents, 0)::BIGINT,
+    COALESCE(l.available, 0)::BIGINT,
+    COALESCE(w.pending_cents, 0)::BIGINT,
+    COALESCE(l.pending, 0)::BIGINT
+  FROM wallets w
+  LEFT JOIN (
+    SELECT
+      le.user_id,
+      SUM(le.amount_cents) FILTER (WHERE le.account = 'wallet:available') AS available,
+      SUM(le.amount_cents) FILTER (WHERE le.account = 'wallet:pending') AS pending
+    FROM ledger_entries le
+    WHERE le.account LIKE 'wallet:%' AND le.currency = 'USD'
+    GROUP BY le.user_id
+  ) l ON l.user_id = w.user_id
+  WHERE COALESCE(w.available_cents, 0) <> COALESCE(l.available, 0)
+     OR COALESCE(w.pending_cents, 0) <> COALESCE(l.pending, 0);
+$$;
+
+-- wallet_balances rows, and non-USD ledger balances without a row, that disagree
+CREATE OR REPLACE FUNCTION public.reconcile_currency_balances()
+RETURNS TABLE (
+  user_id UUID,
+  currency TEXT,
+  available_cents BIGINT,
+  ledger_available_cents BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(b.user_id, l.user_id),
+    COALESCE(b.currency, l.currency),
+    COALESCE(b.available_cents, 0)::BIGINT,
+    COALESCE(l.available, 0)::BIGINT
+  FROM wallet_balances b
+  FULL JOIN (
+    SELECT le.user_id, le.currency, SUM(le.amount_cents) AS available
+    FROM ledger_entries le
+    WHERE le.account = 'wallet:available' AND le.currency <> 'USD'
+    GROUP BY le.user_id, le.currency
+  ) l ON l.user_id = b.user_id AND l.currency = b.currency
+  WHERE COALESCE(b.available_cents, 0) <> COALESCE(l.available, 0);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_ledger_transfer(UUID, TEXT, TEXT, BIGINT, TEXT, TEXT, UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.convert_wallet_currency(UUID, TEXT, TEXT, BIGINT, BIGINT, NUMERIC, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reconcile_currency_balances() FROM PUBLIC, anon, authenticated;
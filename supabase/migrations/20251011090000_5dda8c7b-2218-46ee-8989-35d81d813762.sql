@@ -0,0 +1,225 @@
+-- Mobile money (see _shared/mobile-money.ts): Kenya collects and pays out
+-- through M-Pesa, Uganda and Ghana through MTN MoMo, all in local currency.
+--   countries.mobile_money_operators: operators payout_methods rows of type
+--                                     'mobile_money' may use in the country
+--   payout_methods.msisdn:            the wallet's phone number, stored in
+--                                     E.164 form (+254712345678)
+--   withdrawals.method:               how the withdrawal is paid out, copied
+--                                     from its quote
+ALTER TABLE public.countries DROP CONSTRAINT IF EXISTS countries_deposit_methods_check;
+ALTER TABLE public.countries ADD CONSTRAINT countries_deposit_methods_check
+  CHECK (deposit_methods <@ ARRAY['basepay', 'stripe', 'manual_crypto', 'mpesa', 'mtn_momo']);
+
+ALTER TABLE public.countries DROP CONSTRAINT IF EXISTS countries_withdrawal_methods_check;
+ALTER TABLE public.countries ADD CONSTRAINT countries_withdrawal_methods_check
+  CHECK (withdrawal_methods <@ ARRAY['bank', 'usdt', 'mobile_money']);
+
+ALTER TABLE public.countries
+  ADD COLUMN IF NOT EXISTS mobile_money_operators TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (mobile_money_operators <@ ARRAY['mpesa', 'mtn_momo']);
+
+UPDATE public.countries
+SET deposit_methods = '{mpesa,manual_crypto,stripe}',
+    withdrawal_methods = '{mobile_money,usdt}',
+    mobile_money_operators = '{mpesa}'
+WHERE code = 'KE';
+
+UPDATE public.countries
+SET deposit_methods = '{mtn_momo,manual_crypto,stripe}',
+    withdrawal_methods = '{mobile_money,usdt}',
+    mobile_money_operators = '{mtn_momo}'
+WHERE code IN ('UG', 'GH');
+
+-- The countries migration stopped fetching these; they trade locally again
+INSERT INTO public.fx_settings (currency, enabled)
+VALUES ('KES', true), ('UGX', true), ('GHS', true)
+ON CONFLICT (currency) DO UPDATE SET enabled = true;
+
+ALTER TABLE public.payment_gateways DROP CONSTRAINT IF EXISTS payment_gateways_provider_check;
+ALTER TABLE public.payment_gateways ADD CONSTRAINT payment_gateways_provider_check
+  CHECK (provider IN ('basepay', 'stripe', 'manual_crypto', 'mpesa', 'mtn_momo'));
+
+-- Credentials and API URLs come from the environment (see _shared/mobile-money.ts)
+INSERT INTO public.payment_gateways (name, country_code, currency, provider, priority, config)
+SELECT 'M-Pesa Kenya', 'KE', 'KES', 'mpesa', 100, '{}'::jsonb
+WHERE NOT EXISTS (SELECT 1 FROM public.payment_gateways WHERE provider = 'mpesa' AND country_code = 'KE');
+
+INSERT INTO public.payment_gateways (name, country_code, currency, provider, priority, config)
+SELECT 'MTN MoMo Uganda', 'UG', 'UGX', 'mtn_momo', 100, '{}'::jsonb
+WHERE NOT EXISTS (SELECT 1 FROM public.payment_gateways WHERE provider = 'mtn_momo' AND country_code = 'UG');
+
+INSERT INTO public.payment_gateways (name, country_code, currency, provider, priority, config)
+SELECT 'MTN MoMo Ghana', 'GH', 'GHS', 'mtn_momo', 100, '{}'::jsonb
+WHERE NOT EXISTS (SELECT 1 FROM public.payment_gateways WHERE provider = 'mtn_momo' AND country_code = 'GH');
+
+ALTER TABLE public.deposits DROP CONSTRAINT IF EXISTS deposits_method_check;
+ALTER TABLE public.deposits ADD CONSTRAINT deposits_method_check
+  CHECK (method IN ('base', 'crypto_manual', 'stripe', 'firestore', 'mobile_money'));
+
+ALTER TABLE public.payout_methods
+  ADD COLUMN IF NOT EXISTS msisdn TEXT,
+  ADD COLUMN IF NOT EXISTS operator TEXT;
+
+ALTER TABLE public.payout_methods DROP CONSTRAINT IF EXISTS payout_methods_type_check;
+ALTER TABLE public.payout_methods ADD CONSTRAINT payout_methods_type_check
+  CHECK (type IN ('bank', 'usdt', 'mobile_money'));
+
+ALTER TABLE public.payout_methods DROP CONSTRAINT IF EXISTS payout_methods_mobile_money_check;
+ALTER TABLE public.payout_methods ADD CONSTRAINT payout_methods_mobile_money_check
+  CHECK (type <> 'mobile_money' OR (msisdn IS NOT NULL AND operator IS NOT NULL));
+
+-- Mobile money wallets must be in the account holder's country: the number
+-- is normalised to E.164 with the country's dial code (a leading 0 is the
+-- national trunk prefix) and the operator must serve that country.
+CREATE OR REPLACE FUNCTION public.validate_mobile_money_payout_method()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_country countries%ROWTYPE;
+  v_number TEXT;
+BEGIN
+  IF NEW.type <> 'mobile_money' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT c.* INTO v_country
+  FROM profiles p
+  JOIN countries c ON c.code = p.country
+  WHERE p.user_id = NEW.user_id;
+
+  IF NOT FOUND OR NOT ('mobile_money' = ANY (v_country.withdrawal_methods)) THEN
+    RAISE EXCEPTION 'mobile_money_not_available';
+  END IF;
+
+  IF NEW.operator IS NULL OR NOT (NEW.operator = ANY (v_country.mobile_money_operators)) THEN
+    RAISE EXCEPTION 'operator_not_supported';
+  END IF;
+
+  v_number := regexp_replace(coalesce(NEW.msisdn, ''), '[\s().-]', '', 'g');
+
+  IF v_number LIKE '00%' THEN
+    v_number := '+' || substr(v_number, 3);
+  ELSIF v_number LIKE '0%' THEN
+    v_number := v_country.dial_code || substr(v_number, 2);
+  ELSIF v_number LIKE substr(v_country.dial_code, 2) || '%' THEN
+    v_number := '+' || v_number;
+  ELSIF v_number NOT LIKE '+%' THEN
+    v_number := v_country.dial_code || v_number;
+  END IF;
+
+  -- Mobile numbers are nine digits after the dial code in KE, UG and GH
+  IF v_number !~ '^\+[0-9]{8,15}$'
+    OR v_number NOT LIKE v_country.dial_code || '%'
+    OR length(v_number) - length(v_country.dial_code) <> 9 THEN
+    RAISE EXCEPTION 'invalid_msisdn';
+  END IF;
+
+  NEW.msisdn := v_number;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_mobile_money_payout_method ON public.payout_methods;
+CREATE TRIGGER validate_mobile_money_payout_method
+  BEFORE INSERT OR UPDATE ON public.payout_methods
+  FOR EACH ROW EXECUTE FUNCTION public.validate_mobile_money_payout_method();
+
+ALTER TABLE public.fee_schedules DROP CONSTRAINT IF EXISTS fee_schedules_method_check;
+ALTER TABLE public.fee_schedules ADD CONSTRAINT fee_schedules_method_check
+  CHECK (method IN ('usdt', 'bank', 'mobile_money'));
+
+ALTER TABLE public.withdrawal_quotes DROP CONSTRAINT IF EXISTS withdrawal_quotes_method_check;
+ALTER TABLE public.withdrawal_quotes ADD CONSTRAINT withdrawal_quotes_method_check
+  CHECK (method IN ('usdt', 'bank', 'mobile_money'));
+
+INSERT INTO public.fee_schedules (currency, method, tier, min_amount_cents, fee_percent)
+VALUES
+  ('KES', 'mobile_money', 'standard', 200, 10),
+  ('UGX', 'mobile_money', 'standard', 200, 10),
+  ('GHS', 'mobile_money', 'standard', 200, 10)
+ON CONFLICT (currency, method, tier) DO NOTHING;
+
+ALTER TABLE public.withdrawals
+  ADD COLUMN IF NOT EXISTS method TEXT CHECK (method IN ('usdt', 'bank', 'mobile_money'));
+
+-- Before mobile money, USD withdrawals went out as USDT and the rest by bank
+UPDATE public.withdrawals w
+SET method = coalesce(
+  (SELECT q.method FROM public.withdrawal_quotes q WHERE q.id = w.quote_id),
+  CASE WHEN coalesce(w.local_currency, 'USD') = 'USD' THEN 'usdt' ELSE 'bank' END
+)
+WHERE w.method IS NULL;
+
+-- As before, plus the quote's payout method
+CREATE OR REPLACE FUNCTION public.create_withdrawal_from_quote(
+  p_quote_id UUID,
+  p_user_id UUID
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote withdrawal_quotes%ROWTYPE;
+  v_withdrawal_id UUID := gen_random_uuid();
+BEGIN
+  SELECT * INTO v_quote
+  FROM withdrawal_quotes
+  WHERE id = p_quote_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'quote_not_found';
+  END IF;
+
+  IF v_quote.consumed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'quote_already_used';
+  END IF;
+
+  IF v_quote.expires_at <= now() THEN
+    RAISE EXCEPTION 'quote_expired';
+  END IF;
+
+  UPDATE wallets
+  SET available_cents = available_cents - v_quote.amount_cents,
+      pending_cents = pending_cents + v_quote.amount_cents
+  WHERE user_id = p_user_id AND available_cents >= v_quote.amount_cents;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'insufficient_funds';
+  END IF;
+
+  INSERT INTO withdrawals (
+    id, user_id, amount_cents, fee_cents, net_cents, status,
+    local_currency, local_amount, fx_rate, fx_at, fee_schedule_id, quote_id, method
+  ) VALUES (
+    v_withdrawal_id, p_user_id, v_quote.amount_cents, v_quote.fee_cents, v_quote.net_cents, 'pending_review',
+    v_quote.currency, v_quote.local_amount, v_quote.fx_rate,
+    CASE WHEN v_quote.fx_rate IS NULL THEN NULL ELSE v_quote.created_at END,
+    v_quote.fee_schedule_id, v_quote.id, v_quote.method
+  );
+
+  UPDATE withdrawal_quotes
+  SET consumed_at = now(),
+      withdrawal_id = v_withdrawal_id
+  WHERE id = v_quote.id;
+
+  PERFORM post_ledger_transfer(
+    p_user_id,
+    'wallet:available',
+    'wallet:pending',
+    v_quote.amount_cents,
+    'withdrawal_reserve',
+    v_withdrawal_id::text,
+    NULL,
+    jsonb_build_object('fee_cents', v_quote.fee_cents, 'quote_id', v_quote.id)
+  );
+
+  RETURN v_withdrawal_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_withdrawal_from_quote(UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,5 @@
+-- The Firestore import functions credit balances and write history for any
+-- user they are given; only migrate-firestore-ledger (service role) may call them
+REVOKE EXECUTE ON FUNCTION public.import_firestore_balance(UUID, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.import_firestore_transaction(UUID, TEXT, BIGINT, JSONB, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.import_firestore_investment(UUID, TEXT, UUID, BIGINT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,4 @@
+-- handle_successful_payment and process_refund post to any wallet they are
+-- given; only stripe-webhook (service role) may call them
+REVOKE EXECUTE ON FUNCTION public.handle_successful_payment(TEXT, UUID, UUID, BIGINT, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_refund(TEXT, UUID, UUID, BIGINT) FROM PUBLIC, anon, authenticated;
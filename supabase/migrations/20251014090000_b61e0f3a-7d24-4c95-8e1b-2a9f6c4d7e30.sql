@@ -0,0 +1,140 @@
+-- Payouts whose outcome is not known (see PayoutUnconfirmedError)
+--   claimed_at:  when process-withdrawals last moved the row to processing.
+--                Rows still processing well after that were left by a
+--                crashed run or an unclear gateway answer, and are checked
+--                against the gateway on later runs.
+--   unconfirmed: the payout may have been sent and the gateway cannot say;
+--                the funds stay reserved until an admin marks it paid or failed
+
+ALTER TABLE public.withdrawals ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.withdrawals DROP CONSTRAINT IF EXISTS withdrawals_status_check;
+ALTER TABLE public.withdrawals ADD CONSTRAINT withdrawals_status_check
+  CHECK (status IN ('pending_review', 'on_hold', 'queued', 'processing', 'unconfirmed', 'completed', 'failed', 'rejected'));
+
+CREATE OR REPLACE FUNCTION public.claim_withdrawals(p_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.withdrawals
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE withdrawals w
+  SET status = 'processing',
+      claimed_at = now()
+  WHERE w.id IN (
+    SELECT id FROM withdrawals
+    WHERE status = 'queued'
+      AND (next_attempt IS NULL OR next_attempt <= now())
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING w.*;
+$$;
+
+-- As before, and for unconfirmed payouts an admin has found paid
+CREATE OR REPLACE FUNCTION public.complete_withdrawal(
+  p_withdrawal_id UUID,
+  p_payment_ref TEXT,
+  p_provider TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal withdrawals%ROWTYPE;
+  v_balance BIGINT;
+BEGIN
+  SELECT * INTO v_withdrawal FROM withdrawals WHERE id = p_withdrawal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'withdrawal_not_found');
+  END IF;
+
+  IF v_withdrawal.status = 'completed' THEN
+    RETURN jsonb_build_object('success', true, 'skipped', true);
+  END IF;
+
+  IF v_withdrawal.status NOT IN ('processing', 'unconfirmed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_status', 'status', v_withdrawal.status);
+  END IF;
+
+  UPDATE wallets
+  SET pending_cents = pending_cents - v_withdrawal.amount_cents
+  WHERE user_id = v_withdrawal.user_id AND pending_cents >= v_withdrawal.amount_cents
+  RETURNING available_cents INTO v_balance;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'reservation_not_found';
+  END IF;
+
+  UPDATE withdrawals
+  SET status = 'completed',
+      payment_ref = p_payment_ref,
+      payout_provider = p_provider,
+      processed_at = now(),
+      last_error = NULL
+  WHERE id = p_withdrawal_id;
+
+  INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+  VALUES (
+    v_withdrawal.user_id,
+    'withdrawal',
+    v_withdrawal.amount_cents,
+    v_balance,
+    p_withdrawal_id::text,
+    jsonb_build_object(
+      'description', 'Withdrawal paid out',
+      'fee_cents', v_withdrawal.fee_cents,
+      'net_cents', v_withdrawal.net_cents,
+      'payment_ref', p_payment_ref,
+      'provider', p_provider
+    )
+  );
+
+  RETURN jsonb_build_object('success', true, 'skipped', false);
+END;
+$$;
+
+-- As before, and for unconfirmed payouts an admin has found never paid
+CREATE OR REPLACE FUNCTION public.fail_withdrawal(
+  p_withdrawal_id UUID,
+  p_reason TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal withdrawals%ROWTYPE;
+BEGIN
+  SELECT * INTO v_withdrawal FROM withdrawals WHERE id = p_withdrawal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'withdrawal_not_found');
+  END IF;
+
+  IF v_withdrawal.status = 'failed' THEN
+    RETURN jsonb_build_object('success', true, 'skipped', true);
+  END IF;
+
+  IF v_withdrawal.status NOT IN ('queued', 'processing', 'unconfirmed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_status', 'status', v_withdrawal.status);
+  END IF;
+
+  PERFORM release_withdrawal_reservation(p_withdrawal_id, v_withdrawal.user_id, v_withdrawal.amount_cents, p_reason);
+
+  UPDATE withdrawals
+  SET status = 'failed',
+      processed_at = now(),
+      last_error = p_reason
+  WHERE id = p_withdrawal_id;
+
+  RETURN jsonb_build_object('success', true, 'skipped', false);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_withdrawals(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_withdrawal(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_withdrawal(UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,293 @@
+-- Disputed card top-ups (stripe-webhook), handled like disputed deposits
+--   disputed:     the payer opened a dispute; the top-up is frozen in the
+--                 wallet until the dispute closes
+--   charged_back: dispute lost; the top-up is taken back
+-- Only what was not refunded already is frozen or taken back. Top-ups earn
+-- no referral bonus (process_referral_bonus runs on deposits), so unlike
+-- reverse_deposit there is none to claw back. The account is flagged for
+-- review either way.
+
+-- Part of the top-up currently frozen in the owner's wallet
+ALTER TABLE public.stripe_payment_intents ADD COLUMN IF NOT EXISTS frozen_cents BIGINT NOT NULL DEFAULT 0;
+
+-- What a top-up credited and has not been refunded since
+CREATE OR REPLACE FUNCTION public.top_up_unrefunded_cents(
+  p_intent stripe_payment_intents
+) RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT GREATEST(p_intent.amount_cents - COALESCE(SUM(amount_cents), 0), 0)
+  FROM wallet_transactions
+  WHERE reference_id = p_intent.id AND type = 'refund';
+$$;
+
+-- Freeze a top-up while its payment is disputed. Only what is still
+-- available can be frozen. Safe to call again for the same top-up.
+CREATE OR REPLACE FUNCTION public.hold_disputed_top_up(
+  p_payment_intent_id TEXT,
+  p_dispute_ref TEXT,
+  p_webhook_event_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_intent stripe_payment_intents%ROWTYPE;
+  v_credited BIGINT := 0;
+  v_available BIGINT;
+  v_hold BIGINT := 0;
+  v_already BOOLEAN := false;
+BEGIN
+  SELECT * INTO v_intent
+  FROM stripe_payment_intents
+  WHERE id = p_payment_intent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'top_up_not_found';
+  END IF;
+
+  IF v_intent.status IN ('disputed', 'charged_back') THEN
+    v_already := true;
+  ELSIF v_intent.status NOT IN ('succeeded', 'refunded') THEN
+    RAISE EXCEPTION 'top_up_not_disputable';
+  ELSE
+    v_credited := top_up_unrefunded_cents(v_intent);
+
+    SELECT available_cents INTO v_available
+    FROM wallets
+    WHERE user_id = v_intent.user_id
+    FOR UPDATE;
+
+    v_hold := LEAST(v_credited, GREATEST(COALESCE(v_available, 0), 0));
+
+    IF v_hold > 0 THEN
+      UPDATE wallets
+      SET available_cents = available_cents - v_hold,
+          frozen_cents = frozen_cents + v_hold,
+          updated_at = now()
+      WHERE user_id = v_intent.user_id;
+
+      INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+      VALUES (
+        v_intent.user_id,
+        'dispute_hold',
+        v_hold,
+        v_available - v_hold,
+        v_intent.id,
+        jsonb_build_object('description', 'Frozen: payment disputed', 'payment_intent_id', v_intent.id, 'dispute', p_dispute_ref)
+      );
+    END IF;
+
+    UPDATE stripe_payment_intents
+    SET status = 'disputed',
+        frozen_cents = v_hold,
+        updated_at = now()
+    WHERE id = v_intent.id;
+
+    PERFORM flag_account_for_review(v_intent.user_id, 'Payment disputed: ' || p_dispute_ref);
+  END IF;
+
+  IF p_webhook_event_id IS NOT NULL THEN
+    UPDATE webhook_events
+    SET processed = true,
+        error = NULL
+    WHERE id = p_webhook_event_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment_intent_id', v_intent.id,
+    'already_applied', v_already,
+    'frozen_cents', CASE WHEN v_already THEN v_intent.frozen_cents ELSE v_hold END,
+    'shortfall_cents', CASE WHEN v_already THEN 0 ELSE v_credited - v_hold END
+  );
+END;
+$$;
+
+-- Unfreeze a disputed top-up; shared by a won dispute and a chargeback
+CREATE OR REPLACE FUNCTION public.unfreeze_top_up(
+  p_intent stripe_payment_intents,
+  p_description TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance BIGINT;
+BEGIN
+  IF p_intent.frozen_cents <= 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE wallets
+  SET frozen_cents = frozen_cents - p_intent.frozen_cents,
+      available_cents = available_cents + p_intent.frozen_cents,
+      updated_at = now()
+  WHERE user_id = p_intent.user_id
+  RETURNING available_cents INTO v_balance;
+
+  INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+  VALUES (
+    p_intent.user_id,
+    'dispute_release',
+    p_intent.frozen_cents,
+    v_balance,
+    p_intent.id,
+    jsonb_build_object('description', p_description, 'payment_intent_id', p_intent.id)
+  );
+
+  UPDATE stripe_payment_intents SET frozen_cents = 0 WHERE id = p_intent.id;
+END;
+$$;
+
+-- Dispute closed in our favour: unfreeze the top-up
+CREATE OR REPLACE FUNCTION public.release_disputed_top_up(
+  p_payment_intent_id TEXT,
+  p_webhook_event_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_intent stripe_payment_intents%ROWTYPE;
+  v_released BIGINT := 0;
+  v_already BOOLEAN := false;
+BEGIN
+  SELECT * INTO v_intent
+  FROM stripe_payment_intents
+  WHERE id = p_payment_intent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'top_up_not_found';
+  END IF;
+
+  IF v_intent.status <> 'disputed' THEN
+    v_already := true;
+  ELSE
+    v_released := v_intent.frozen_cents;
+    PERFORM unfreeze_top_up(v_intent, 'Unfrozen: dispute won');
+
+    UPDATE stripe_payment_intents
+    SET status = CASE WHEN top_up_unrefunded_cents(v_intent) < v_intent.amount_cents THEN 'refunded' ELSE 'succeeded' END,
+        updated_at = now()
+    WHERE id = v_intent.id;
+  END IF;
+
+  IF p_webhook_event_id IS NOT NULL THEN
+    UPDATE webhook_events
+    SET processed = true,
+        error = NULL
+    WHERE id = p_webhook_event_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment_intent_id', v_intent.id,
+    'already_applied', v_already,
+    'released_cents', v_released
+  );
+END;
+$$;
+
+-- Dispute lost: take back what the top-up credited and was not refunded,
+-- as reverse_deposit does for a charged back deposit. The wallet is never
+-- taken below zero; whatever could not be recovered is returned as a
+-- shortfall. Safe to call again for the same top-up.
+CREATE OR REPLACE FUNCTION public.reverse_top_up(
+  p_payment_intent_id TEXT,
+  p_reference TEXT,
+  p_webhook_event_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_intent stripe_payment_intents%ROWTYPE;
+  v_already BOOLEAN := false;
+  v_owed BIGINT := 0;
+  v_available BIGINT;
+  v_taken BIGINT := 0;
+BEGIN
+  SELECT * INTO v_intent
+  FROM stripe_payment_intents
+  WHERE id = p_payment_intent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'top_up_not_found';
+  END IF;
+
+  IF v_intent.status = 'charged_back' THEN
+    v_already := true;
+  ELSIF v_intent.status NOT IN ('succeeded', 'refunded', 'disputed') THEN
+    RAISE EXCEPTION 'top_up_not_reversible';
+  ELSE
+    PERFORM unfreeze_top_up(v_intent, 'Unfrozen for reversal');
+
+    v_owed := top_up_unrefunded_cents(v_intent);
+
+    SELECT available_cents INTO v_available
+    FROM wallets
+    WHERE user_id = v_intent.user_id
+    FOR UPDATE;
+
+    v_taken := LEAST(v_owed, GREATEST(COALESCE(v_available, 0), 0));
+
+    IF v_taken > 0 THEN
+      UPDATE wallets
+      SET available_cents = available_cents - v_taken,
+          updated_at = now()
+      WHERE user_id = v_intent.user_id;
+
+      INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+      VALUES (
+        v_intent.user_id,
+        'chargeback',
+        v_taken,
+        v_available - v_taken,
+        v_intent.id,
+        jsonb_build_object(
+          'description', 'Top-up charged back',
+          'payment_intent_id', v_intent.id,
+          'gateway_ref', p_reference,
+          'owed_cents', v_owed
+        )
+      );
+    END IF;
+
+    UPDATE stripe_payment_intents
+    SET status = 'charged_back',
+        frozen_cents = 0,
+        updated_at = now()
+    WHERE id = v_intent.id;
+
+    PERFORM flag_account_for_review(v_intent.user_id, 'Payment charged back: ' || p_reference);
+  END IF;
+
+  IF p_webhook_event_id IS NOT NULL THEN
+    UPDATE webhook_events
+    SET processed = true,
+        error = NULL
+    WHERE id = p_webhook_event_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment_intent_id', v_intent.id,
+    'already_applied', v_already,
+    'reversed_cents', v_taken,
+    'shortfall_cents', v_owed - v_taken
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.top_up_unrefunded_cents(stripe_payment_intents) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.hold_disputed_top_up(TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.unfreeze_top_up(stripe_payment_intents, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_disputed_top_up(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_top_up(TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
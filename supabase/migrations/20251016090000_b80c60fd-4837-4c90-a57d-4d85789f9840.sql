@@ -0,0 +1,571 @@
+-- Deposits and withdrawals in the wallet's own currencies
+--
+-- Until now wallet_balances only changed through conversions: a deposit paid
+-- in NGN was credited to the USD wallet at its FX rate, and every withdrawal
+-- came out of USD. Now money stays in the currency it moves in.
+--   confirm_deposit:        a deposit paid in a currency other than USD (or
+--                           USDT, which is at par) credits local_amount to
+--                           that currency's balance. Plans, income, any
+--                           deposit bonus and total_earned_cents stay in USD.
+--   withdrawal_quotes /
+--   withdrawals:            debit_currency and debit_cents, the balance and
+--                           amount (in its minor units) a withdrawal takes.
+--                           Fees are still priced in USD, so a local
+--                           withdrawal debits amount_cents at the quote's
+--                           fx_rate, from USD when the local balance does
+--                           not cover it. NULL debit_cents: amount_cents, in
+--                           USD.
+--   wallet_balances:        pending_cents, what withdrawals have reserved
+--
+-- Only card deposits (Stripe, USD) are ever refunded or disputed, so the
+-- refund and chargeback functions keep working on the USD wallet.
+
+ALTER TABLE public.wallet_balances ADD COLUMN IF NOT EXISTS pending_cents BIGINT NOT NULL DEFAULT 0 CHECK (pending_cents >= 0);
+
+ALTER TABLE public.withdrawal_quotes ADD COLUMN IF NOT EXISTS debit_currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE public.withdrawal_quotes ADD COLUMN IF NOT EXISTS debit_cents BIGINT;
+
+ALTER TABLE public.withdrawals ADD COLUMN IF NOT EXISTS debit_currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE public.withdrawals ADD COLUMN IF NOT EXISTS debit_cents BIGINT;
+
+-- The balance an amount in p_currency is held in: USDT is kept as USD
+CREATE OR REPLACE FUNCTION public.wallet_currency(
+  p_currency TEXT
+) RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN p_currency IS NULL OR upper(p_currency) IN ('USD', 'USDT') THEN 'USD' ELSE upper(p_currency) END;
+$$;
+
+-- A major-unit amount in p_currency's minor units (countries.currency_minor_units)
+CREATE OR REPLACE FUNCTION public.to_minor_units(
+  p_amount NUMERIC,
+  p_currency TEXT
+) RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT round(p_amount * 10 ^ COALESCE(
+    (SELECT currency_minor_units FROM countries WHERE currency = p_currency LIMIT 1),
+    2
+  ))::BIGINT;
+$$;
+
+-- Apply a withdrawal's move to the user's balance in p_currency: USD on
+-- wallets, anything else on wallet_balances. Returns the available balance
+-- after, or NULL (and changes nothing) if either side would go negative.
+CREATE OR REPLACE FUNCTION public.adjust_withdrawal_balance(
+  p_user_id UUID,
+  p_currency TEXT,
+  p_available_delta BIGINT,
+  p_pending_delta BIGINT
+) RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance BIGINT;
+BEGIN
+  IF p_currency = 'USD' THEN
+    UPDATE wallets
+    SET available_cents = available_cents + p_available_delta,
+        pending_cents = pending_cents + p_pending_delta,
+        updated_at = now()
+    WHERE user_id = p_user_id
+      AND available_cents + p_available_delta >= 0
+      AND pending_cents + p_pending_delta >= 0
+    RETURNING available_cents INTO v_balance;
+  ELSE
+    UPDATE wallet_balances
+    SET available_cents = available_cents + p_available_delta,
+        pending_cents = pending_cents + p_pending_delta
+    WHERE user_id = p_user_id
+      AND currency = p_currency
+      AND available_cents + p_available_delta >= 0
+      AND pending_cents + p_pending_delta >= 0
+    RETURNING available_cents INTO v_balance;
+  END IF;
+
+  RETURN v_balance;
+END;
+$$;
+
+-- As before, with every entry in the transaction's currency
+CREATE OR REPLACE FUNCTION public.journal_wallet_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE NEW.type
+    WHEN 'deposit' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:deposits', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    WHEN 'deposit_bonus' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:bonuses', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    WHEN 'income' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:income', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    WHEN 'referral' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:referrals', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    WHEN 'welcome_bonus' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:bonuses', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    WHEN 'migration' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:migration', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    WHEN 'refund' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'system:refunds', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    WHEN 'dispute_hold' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'wallet:frozen', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    WHEN 'dispute_release' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:frozen', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    WHEN 'chargeback' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'system:chargebacks', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    WHEN 'referral_clawback' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'system:referrals', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    WHEN 'conversion_out' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:available', 'system:fx', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    WHEN 'conversion_in' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'system:fx', 'wallet:available', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    -- Withdrawals are reserved into pending first; the transaction records the payout leaving pending
+    WHEN 'withdrawal' THEN
+      PERFORM post_ledger_transfer(NEW.user_id, 'wallet:pending', 'system:withdrawals', NEW.amount_cents, NEW.type, NEW.reference_id, NEW.id, NULL, NEW.currency);
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- As before, except that a deposit paid in another currency is credited to
+-- that currency's balance
+CREATE OR REPLACE FUNCTION public.confirm_deposit(
+  p_deposit_id UUID,
+  p_gateway_ref TEXT DEFAULT NULL,
+  p_bonus_cents BIGINT DEFAULT 0,
+  p_first_drop_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_webhook_event_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deposit deposits%ROWTYPE;
+  v_payout_per_drop BIGINT;
+  v_balance BIGINT;
+  v_bonus BIGINT := GREATEST(COALESCE(p_bonus_cents, 0), 0);
+  v_already_confirmed BOOLEAN := false;
+  v_currency TEXT := 'USD';
+  v_amount BIGINT;
+  v_deposit_balance BIGINT;
+BEGIN
+  SELECT * INTO v_deposit
+  FROM deposits
+  WHERE id = p_deposit_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'deposit_not_found';
+  END IF;
+
+  IF v_deposit.local_amount IS NOT NULL THEN
+    v_currency := wallet_currency(v_deposit.local_currency);
+  END IF;
+
+  IF v_deposit.status IN ('confirmed', 'completed') THEN
+    v_already_confirmed := true;
+  ELSIF v_deposit.status NOT IN ('pending', 'failed', 'expired') THEN
+    RAISE EXCEPTION 'deposit_not_confirmable';
+  ELSE
+    UPDATE deposits
+    SET status = 'confirmed',
+        gateway_ref = COALESCE(p_gateway_ref, gateway_ref),
+        confirmed_at = now()
+    WHERE id = v_deposit.id;
+
+    -- total_earned_cents is in USD, like the wallet it sits on: a deposit
+    -- credited to another currency's balance does not add to it
+    UPDATE wallets
+    SET available_cents = available_cents + v_bonus
+          + CASE WHEN v_currency = 'USD' THEN v_deposit.amount_usd_cents ELSE 0 END,
+        total_earned_cents = total_earned_cents + v_bonus
+          + CASE WHEN v_currency = 'USD' THEN v_deposit.amount_usd_cents ELSE 0 END,
+        updated_at = now()
+    WHERE user_id = v_deposit.user_id
+    RETURNING available_cents INTO v_balance;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'wallet_not_found';
+    END IF;
+
+    IF v_currency = 'USD' THEN
+      v_amount := v_deposit.amount_usd_cents;
+      v_deposit_balance := v_balance - v_bonus;
+    ELSE
+      v_amount := to_minor_units(v_deposit.local_amount, v_currency);
+
+      INSERT INTO wallet_balances (user_id, currency, available_cents)
+      VALUES (v_deposit.user_id, v_currency, v_amount)
+      ON CONFLICT (user_id, currency) DO UPDATE
+      SET available_cents = wallet_balances.available_cents + EXCLUDED.available_cents
+      RETURNING available_cents INTO v_deposit_balance;
+    END IF;
+
+    INSERT INTO wallet_transactions (user_id, type, amount_cents, currency, balance_after_cents, reference_id, meta)
+    VALUES (
+      v_deposit.user_id,
+      'deposit',
+      v_amount,
+      v_currency,
+      v_deposit_balance,
+      v_deposit.id,
+      jsonb_build_object(
+        'description', 'Deposit confirmed',
+        'deposit_id', v_deposit.id,
+        'mch_order_no', v_deposit.mch_order_no,
+        'gateway_ref', COALESCE(p_gateway_ref, v_deposit.gateway_ref),
+        'amount_usd_cents', v_deposit.amount_usd_cents,
+        'local_amount', v_deposit.local_amount,
+        'local_currency', v_deposit.local_currency,
+        'fx_rate', v_deposit.fx_rate
+      )
+    );
+
+    IF v_bonus > 0 THEN
+      INSERT INTO wallet_transactions (user_id, type, amount_cents, balance_after_cents, reference_id, meta)
+      VALUES (
+        v_deposit.user_id,
+        'deposit_bonus',
+        v_bonus,
+        v_balance,
+        v_deposit.id,
+        jsonb_build_object('description', 'Deposit bonus', 'deposit_id', v_deposit.id)
+      );
+    END IF;
+
+    IF p_first_drop_at IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM income_events WHERE deposit_id = v_deposit.id
+    ) THEN
+      SELECT payout_per_drop_usd INTO v_payout_per_drop FROM plans WHERE id = v_deposit.plan_id;
+
+      IF v_payout_per_drop IS NOT NULL THEN
+        INSERT INTO income_events (deposit_id, user_id, amount_cents, drop_number, due_at, status)
+        VALUES (v_deposit.id, v_deposit.user_id, v_payout_per_drop, 1, p_first_drop_at, 'pending');
+      END IF;
+    END IF;
+  END IF;
+
+  IF p_webhook_event_id IS NOT NULL THEN
+    UPDATE webhook_events
+    SET processed = true,
+        error = NULL,
+        deposit_id = v_deposit.id
+    WHERE id = p_webhook_event_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'deposit_id', v_deposit.id,
+    'already_confirmed', v_already_confirmed,
+    'amount_cents', v_deposit.amount_usd_cents,
+    'currency', v_currency,
+    'bonus_cents', CASE WHEN v_already_confirmed THEN 0 ELSE v_bonus END
+  );
+END;
+$$;
+
+-- As before, reserving the quote's debit from the balance it is in
+CREATE OR REPLACE FUNCTION public.create_withdrawal_from_quote(
+  p_quote_id UUID,
+  p_user_id UUID
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote withdrawal_quotes%ROWTYPE;
+  v_withdrawal_id UUID := gen_random_uuid();
+  v_debit BIGINT;
+BEGIN
+  SELECT * INTO v_quote
+  FROM withdrawal_quotes
+  WHERE id = p_quote_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'quote_not_found';
+  END IF;
+
+  IF v_quote.consumed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'quote_already_used';
+  END IF;
+
+  IF v_quote.expires_at <= now() THEN
+    RAISE EXCEPTION 'quote_expired';
+  END IF;
+
+  v_debit := COALESCE(v_quote.debit_cents, v_quote.amount_cents);
+
+  IF adjust_withdrawal_balance(p_user_id, v_quote.debit_currency, -v_debit, v_debit) IS NULL THEN
+    RAISE EXCEPTION 'insufficient_funds';
+  END IF;
+
+  INSERT INTO withdrawals (
+    id, user_id, amount_cents, fee_cents, net_cents, status,
+    local_currency, local_amount, fx_rate, fx_at, fee_schedule_id, quote_id, method,
+    debit_currency, debit_cents
+  ) VALUES (
+    v_withdrawal_id, p_user_id, v_quote.amount_cents, v_quote.fee_cents, v_quote.net_cents, 'pending_review',
+    v_quote.currency, v_quote.local_amount, v_quote.fx_rate,
+    CASE WHEN v_quote.fx_rate IS NULL THEN NULL ELSE v_quote.created_at END,
+    v_quote.fee_schedule_id, v_quote.id, v_quote.method,
+    v_quote.debit_currency, v_debit
+  );
+
+  UPDATE withdrawal_quotes
+  SET consumed_at = now(),
+      withdrawal_id = v_withdrawal_id
+  WHERE id = v_quote.id;
+
+  PERFORM post_ledger_transfer(
+    p_user_id,
+    'wallet:available',
+    'wallet:pending',
+    v_debit,
+    'withdrawal_reserve',
+    v_withdrawal_id::text,
+    NULL,
+    jsonb_build_object('fee_cents', v_quote.fee_cents, 'quote_id', v_quote.id),
+    v_quote.debit_currency
+  );
+
+  RETURN v_withdrawal_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.release_withdrawal_reservation(UUID, UUID, BIGINT, TEXT);
+
+-- Return a withdrawal's reservation from pending to available, in the
+-- balance it was reserved from
+CREATE OR REPLACE FUNCTION public.release_withdrawal_reservation(
+  p_withdrawal withdrawals,
+  p_reason TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_debit BIGINT := COALESCE(p_withdrawal.debit_cents, p_withdrawal.amount_cents);
+BEGIN
+  IF adjust_withdrawal_balance(p_withdrawal.user_id, p_withdrawal.debit_currency, v_debit, -v_debit) IS NULL THEN
+    RAISE EXCEPTION 'reservation_not_found';
+  END IF;
+
+  PERFORM post_ledger_transfer(
+    p_withdrawal.user_id,
+    'wallet:pending',
+    'wallet:available',
+    v_debit,
+    'withdrawal_release',
+    p_withdrawal.id::text,
+    NULL,
+    jsonb_build_object('reason', p_reason),
+    p_withdrawal.debit_currency
+  );
+END;
+$$;
+
+-- As before, paying the reservation out of the balance it was taken from
+CREATE OR REPLACE FUNCTION public.complete_withdrawal(
+  p_withdrawal_id UUID,
+  p_payment_ref TEXT,
+  p_provider TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal withdrawals%ROWTYPE;
+  v_debit BIGINT;
+  v_balance BIGINT;
+BEGIN
+  SELECT * INTO v_withdrawal FROM withdrawals WHERE id = p_withdrawal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'withdrawal_not_found');
+  END IF;
+
+  IF v_withdrawal.status = 'completed' THEN
+    RETURN jsonb_build_object('success', true, 'skipped', true);
+  END IF;
+
+  IF v_withdrawal.status NOT IN ('processing', 'unconfirmed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_status', 'status', v_withdrawal.status);
+  END IF;
+
+  v_debit := COALESCE(v_withdrawal.debit_cents, v_withdrawal.amount_cents);
+  v_balance := adjust_withdrawal_balance(v_withdrawal.user_id, v_withdrawal.debit_currency, 0, -v_debit);
+
+  IF v_balance IS NULL THEN
+    RAISE EXCEPTION 'reservation_not_found';
+  END IF;
+
+  UPDATE withdrawals
+  SET status = 'completed',
+      payment_ref = p_payment_ref,
+      payout_provider = p_provider,
+      processed_at = now(),
+      last_error = NULL
+  WHERE id = p_withdrawal_id;
+
+  INSERT INTO wallet_transactions (user_id, type, amount_cents, currency, balance_after_cents, reference_id, meta)
+  VALUES (
+    v_withdrawal.user_id,
+    'withdrawal',
+    v_debit,
+    v_withdrawal.debit_currency,
+    v_balance,
+    p_withdrawal_id::text,
+    jsonb_build_object(
+      'description', 'Withdrawal paid out',
+      'amount_usd_cents', v_withdrawal.amount_cents,
+      'fee_cents', v_withdrawal.fee_cents,
+      'net_cents', v_withdrawal.net_cents,
+      'payment_ref', p_payment_ref,
+      'provider', p_provider
+    )
+  );
+
+  RETURN jsonb_build_object('success', true, 'skipped', false);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.fail_withdrawal(
+  p_withdrawal_id UUID,
+  p_reason TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal withdrawals%ROWTYPE;
+BEGIN
+  SELECT * INTO v_withdrawal FROM withdrawals WHERE id = p_withdrawal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'withdrawal_not_found');
+  END IF;
+
+  IF v_withdrawal.status = 'failed' THEN
+    RETURN jsonb_build_object('success', true, 'skipped', true);
+  END IF;
+
+  IF v_withdrawal.status NOT IN ('queued', 'processing', 'unconfirmed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_status', 'status', v_withdrawal.status);
+  END IF;
+
+  PERFORM release_withdrawal_reservation(v_withdrawal, p_reason);
+
+  UPDATE withdrawals
+  SET status = 'failed',
+      processed_at = now(),
+      last_error = p_reason
+  WHERE id = p_withdrawal_id;
+
+  RETURN jsonb_build_object('success', true, 'skipped', false);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_withdrawal(
+  p_withdrawal_id UUID,
+  p_admin_id UUID,
+  p_reason TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal withdrawals%ROWTYPE;
+BEGIN
+  SELECT * INTO v_withdrawal FROM withdrawals WHERE id = p_withdrawal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'withdrawal_not_found');
+  END IF;
+
+  IF v_withdrawal.status NOT IN ('pending_review', 'on_hold', 'queued') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_status', 'status', v_withdrawal.status);
+  END IF;
+
+  PERFORM release_withdrawal_reservation(v_withdrawal, p_reason);
+
+  UPDATE withdrawals
+  SET status = 'rejected',
+      reviewed_by = p_admin_id,
+      reviewed_at = now(),
+      review_note = p_reason,
+      processed_at = now()
+  WHERE id = p_withdrawal_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'refunded_cents', COALESCE(v_withdrawal.debit_cents, v_withdrawal.amount_cents),
+    'currency', v_withdrawal.debit_currency
+  );
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.reconcile_currency_balances();
+
+-- As before, pending included
+CREATE OR REPLACE FUNCTION public.reconcile_currency_balances()
+RETURNS TABLE (
+  user_id UUID,
+  currency TEXT,
+  available_cents BIGINT,
+  ledger_available_cents BIGINT,
+  pending_cents BIGINT,
+  ledger_pending_cents BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(b.user_id, l.user_id),
+    COALESCE(b.currency, l.currency),
+    COALESCE(b.available_cents, 0)::BIGINT,
+    COALESCE(l.available, 0)::BIGINT,
+    COALESCE(b.pending_cents, 0)::BIGINT,
+    COALESCE(l.pending, 0)::BIGINT
+  FROM wallet_balances b
+  FULL JOIN (
+    SELECT
+      le.user_id,
+      le.currency,
+      SUM(le.amount_cents) FILTER (WHERE le.account = 'wallet:available') AS available,
+      SUM(le.amount_cents) FILTER (WHERE le.account = 'wallet:pending') AS pending
+    FROM ledger_entries le
+    WHERE le.account IN ('wallet:available', 'wallet:pending') AND le.currency <> 'USD'
+    GROUP BY le.user_id, le.currency
+  ) l ON l.user_id = b.user_id AND l.currency = b.currency
+  WHERE COALESCE(b.available_cents, 0) <> COALESCE(l.available, 0)
+     OR COALESCE(b.pending_cents, 0) <> COALESCE(l.pending, 0);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_withdrawal_balance(UUID, TEXT, BIGINT, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.confirm_deposit(UUID, TEXT, BIGINT, TIMESTAMP WITH TIME ZONE, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_withdrawal_from_quote(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_withdrawal_reservation(withdrawals, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_withdrawal(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_withdrawal(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reject_withdrawal(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reconcile_currency_balances() FROM PUBLIC, anon, authenticated;